@@ -0,0 +1,49 @@
+/**
+ * Internationalization Configuration
+ *
+ * Locales served by the public site. Every public page lives under a
+ * locale prefix (/id/..., /en/...); the middleware sends unprefixed
+ * requests to the visitor's preferred locale.
+ */
+
+/**
+ * Supported locales, default first
+ */
+export const LOCALES = ['id', 'en'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * Locale of the untranslated content columns and the fallback for
+ * missing translations
+ */
+export const DEFAULT_LOCALE: Locale = 'id';
+
+/**
+ * Cookie remembering the locale the visitor picked last
+ */
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+/**
+ * Locale names, each in its own language (used by the language switcher)
+ */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  id: 'Bahasa Indonesia',
+  en: 'English',
+} as const;
+
+/**
+ * BCP 47 tags for Intl formatting and hreflang
+ */
+export const LOCALE_TAGS: Record<Locale, string> = {
+  id: 'id-ID',
+  en: 'en-US',
+} as const;
+
+/**
+ * Open Graph locale codes
+ */
+export const OG_LOCALES: Record<Locale, string> = {
+  id: 'id_ID',
+  en: 'en_US',
+} as const;
@@ -8,12 +8,14 @@
  * - site.config.ts - Site information, contact details
  * - domain.config.ts - Business domain categories and classifications
  * - navigation.config.ts - Routes and navigation structure
+ * - i18n.config.ts - Supported locales and locale defaults
  */
 
 // Re-export from organized config files
 export { SITE_CONFIG } from './site.config';
 export { ARTICLE_CATEGORIES, EVENT_CATEGORIES, DIVISIONS, GALLERY_CATEGORIES } from './domain.config';
 export { ROUTES, ADMIN_ROUTES, AUTH_ROUTES, type RouteValue } from './navigation.config';
+export { LOCALES, DEFAULT_LOCALE, LOCALE_COOKIE, LOCALE_LABELS, type Locale } from './i18n.config';
 
 // =============================================================================
 // CONTENT CONFIGURATION (Static Homepage & About Page)
@@ -17,6 +17,7 @@ export const ROUTES = {
   leadership: '/leadership',
   members: '/members',
   gallery: '/gallery',
+  contact: '/contact',
 } as const;
 
 /**
@@ -26,13 +27,26 @@ export const ROUTES = {
 export const ADMIN_ROUTES = {
   dashboard: '/admin/dashboard',
   articles: '/admin/articles',
+  articleReview: '/admin/articles/review',
   events: '/admin/events',
   members: '/admin/members',
   leadership: '/admin/leadership',
+  gallery: '/admin/gallery',
+  comments: '/admin/comments',
+  inbox: '/admin/inbox',
+  newsletter: '/admin/newsletter',
   users: '/admin/users',
   settings: '/admin/settings',
 } as const;
 
+/**
+ * Member Routes
+ * Pages for any signed-in user, outside the admin panel.
+ */
+export const MEMBER_ROUTES = {
+  portal: '/portal',
+} as const;
+
 /**
  * Auth Routes
  * Routes for authentication pages.
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Send, CheckCircle, MessageSquareWarning } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { getArticleReviews, reviewArticle, ReviewRequestAction } from '@/lib/api/article-reviews';
+import { FormTextarea } from '@/shared/components/FormTextarea';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { ArticleReview, Article } from '@/types/article';
+
+const ACTION_LABELS: Record<ArticleReview['action'], string> = {
+  submitted: 'Submitted for review',
+  approved: 'Approved & published',
+  changes_requested: 'Changes requested',
+};
+
+const ACTION_COLORS: Record<ArticleReview['action'], string> = {
+  submitted: 'border-yellow-300 bg-yellow-50',
+  approved: 'border-green-300 bg-green-50',
+  changes_requested: 'border-red-300 bg-red-50',
+};
+
+interface ArticleReviewPanelProps {
+  articleId: string;
+  status: Article['status'];
+  authorId: string;
+  /** Called after a successful transition with the article's new status */
+  onStatusChange: (status: Article['status']) => void;
+}
+
+export function ArticleReviewPanel({ articleId, status, authorId, onStatusChange }: ArticleReviewPanelProps) {
+  const { canPublishArticles, canEditOwnContent } = useAuth();
+  const [reviews, setReviews] = useState<ArticleReview[]>([]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isEditor = canPublishArticles();
+  const canSubmit = status === 'draft' && (isEditor || canEditOwnContent(authorId));
+  const canDecide = status === 'pending' && isEditor;
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setReviews(await getArticleReviews(articleId));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load review history';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [articleId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  async function handleAction(action: ReviewRequestAction) {
+    if (action === 'request_changes' && !notes.trim()) {
+      toast.error('Please add notes describing the changes needed');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await reviewArticle(articleId, action, notes);
+      const nextStatus: Article['status'] =
+        action === 'submit' ? 'pending' : action === 'approve' ? 'published' : 'draft';
+      toast.success(
+        action === 'submit'
+          ? 'Article submitted for review'
+          : action === 'approve'
+            ? 'Article approved and published'
+            : 'Changes requested'
+      );
+      setNotes('');
+      onStatusChange(nextStatus);
+      await fetchReviews();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update review status';
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Editorial Review</h2>
+          <p className="text-sm text-gray-600 mt-1">Submit drafts for review; editors approve or request changes.</p>
+        </div>
+        <StatusBadge status={status} />
+      </div>
+
+      {(canSubmit || canDecide) && (
+        <div className="space-y-4">
+          <FormTextarea
+            label={canDecide ? 'Reviewer notes' : 'Note for reviewer (optional)'}
+            id="review-notes"
+            value={notes}
+            onChange={setNotes}
+            rows={3}
+            placeholder={canDecide ? 'What should the author change?' : 'Anything the reviewer should know...'}
+          />
+
+          <div className="flex flex-wrap justify-end gap-3">
+            {canSubmit && (
+              <button
+                type="button"
+                onClick={() => handleAction('submit')}
+                disabled={submitting}
+                className="flex items-center gap-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Send className="w-4 h-4" />
+                Submit for Review
+              </button>
+            )}
+            {canDecide && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleAction('request_changes')}
+                  disabled={submitting}
+                  className="flex items-center gap-2 px-4 py-2 text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <MessageSquareWarning className="w-4 h-4" />
+                  Request Changes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAction('approve')}
+                  disabled={submitting}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Approve & Publish
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-3">History</h3>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-gray-500">No review activity yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {reviews.map((review) => (
+              <li key={review.id} className={`border-l-4 rounded-r-lg px-4 py-3 ${ACTION_COLORS[review.action]}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="font-medium text-gray-900">{ACTION_LABELS[review.action]}</span>
+                  <time className="text-gray-500">
+                    {format(new Date(review.created_at), 'd MMM yyyy, HH:mm', { locale: localeId })}
+                  </time>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  by {review.reviewer?.full_name ?? review.reviewer?.email ?? 'Unknown'}
+                </p>
+                {review.comment && (
+                  <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{review.comment}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
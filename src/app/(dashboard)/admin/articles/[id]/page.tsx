@@ -9,11 +9,15 @@ import { FormSelect } from '@/shared/components/FormSelect';
 import { FormCheckbox } from '@/shared/components/FormCheckbox';
 import { FormActions } from '@/shared/components/FormActions';
 import { FormField } from '@/shared/components/FormField';
-import { CreateableSelect } from '@/shared/components/ui/CreateableSelect';
+import { TagPicker } from '@/shared/components/TagPicker';
 import { FileUpload } from '@/shared/components/ui/FileUpload';
 import { StorageService } from '@/lib/storage/storage.service';
 import { generateSlug } from '@/lib/utils/slug';
+import { isScheduled, toDateTimeLocalValue } from '@/lib/utils/schedule';
 import { ArticleFormData } from '@/types/forms';
+import type { ArticleTranslatableFields } from '@/types/article';
+import { RevisionHistoryPanel } from '@/shared/components/RevisionHistoryPanel';
+import { ArticleReviewPanel } from '../ArticleReviewPanel';
 
 const CATEGORIES = [
   { value: 'post', label: 'Post' },
@@ -34,11 +38,13 @@ export default function ArticlePage() {
     loading,
     fetching,
     isCreateMode,
+    authorId,
     handleSubmit,
     updateField,
+    refetch,
   } = useAdminForm<ArticleFormData>({
     tableName: 'articles',
-    selectColumns: 'id, title, slug, excerpt, content, category, cover_image, tags, featured, status, author_id',
+    selectColumns: 'id, title, slug, excerpt, content, category, cover_image, tags, featured, comments_enabled, status, published_at, author_id, translations',
     id,
     initialData: {
       title: '',
@@ -49,7 +55,10 @@ export default function ArticlePage() {
       cover_image: '',
       tags: '',
       featured: false,
+      comments_enabled: true,
       status: 'draft',
+      published_at: '',
+      translations: {},
     },
     redirectPath: '/admin/articles',
     onBeforeSave: async (data) => {
@@ -73,11 +82,9 @@ export default function ArticlePage() {
       return {
         ...data,
         tags: formattedTags,
-        author: {
-          name: data.title,
-          email: '',
-        },
-        published_at: new Date().toISOString(),
+        // The author copy is filled in from the author's profile by the database
+        // Empty publish time means "now"; a future time schedules the article
+        published_at: data.published_at ? new Date(data.published_at).toISOString() : new Date().toISOString(),
       };
     },
   });
@@ -90,6 +97,16 @@ export default function ArticlePage() {
     });
   }
 
+  function handleTranslationChange(field: keyof ArticleTranslatableFields, value: string) {
+    setFormData({
+      ...formData,
+      translations: {
+        ...formData.translations,
+        en: { ...formData.translations?.en, [field]: value },
+      },
+    });
+  }
+
   // Capture initial cover image when data is loaded
   useEffect(() => {
     if (!fetching && !isCreateMode && formData.cover_image && initialCoverImage === null) {
@@ -169,19 +186,45 @@ export default function ArticlePage() {
 
 
           <FormField label="Tags" id="tags">
-            <CreateableSelect
+            <TagPicker
               value={formData.tags ? String(formData.tags).split(',').filter(t => t.trim()) : []}
               onChange={(tags) => updateField('tags', tags.join(','))}
-              placeholder="Type tag and press Enter"
             />
           </FormField>
 
-          <FormCheckbox
-            label="Featured Article"
-            id="featured"
-            checked={formData.featured}
-            onChange={(checked) => updateField('featured', checked)}
-          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <FormInput
+                label="Publish At"
+                id="published_at"
+                type="datetime-local"
+                value={toDateTimeLocalValue(formData.published_at)}
+                onChange={(value) => updateField('published_at', value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {isScheduled(formData.published_at)
+                  ? 'Scheduled: the article stays hidden from the public until this time.'
+                  : 'Leave empty to publish immediately, or pick a future time to schedule.'}
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              <FormCheckbox
+                label="Featured Article"
+                id="featured"
+                checked={formData.featured}
+                onChange={(checked) => updateField('featured', checked)}
+              />
+
+              <FormCheckbox
+                label="Allow Comments"
+                id="comments_enabled"
+                checked={formData.comments_enabled}
+                onChange={(checked) => updateField('comments_enabled', checked)}
+                description="When off, no new comments are accepted; approved ones stay visible."
+              />
+            </div>
+          </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -195,12 +238,60 @@ export default function ArticlePage() {
               showPreview={true}
             />
           </div>
+
+          <div className="pt-6 border-t border-gray-200 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">English Translation</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Optional. Empty fields fall back to the Indonesian text on the English site.
+              </p>
+            </div>
+
+            <FormInput
+              label="Title (English)"
+              id="title_en"
+              value={formData.translations?.en?.title || ''}
+              onChange={(value) => handleTranslationChange('title', value)}
+            />
+
+            <FormTextarea
+              label="Excerpt (English)"
+              id="excerpt_en"
+              value={formData.translations?.en?.excerpt || ''}
+              onChange={(value) => handleTranslationChange('excerpt', value)}
+              rows={3}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Content (English)</label>
+              <RichTextEditor
+                value={formData.translations?.en?.content || ''}
+                onChange={(value) => handleTranslationChange('content', value)}
+                placeholder="Write the English version of the article..."
+                height="400px"
+                showPreview={true}
+              />
+            </div>
+          </div>
         </div>
 
         <div className="mt-6 pt-6 border-t border-gray-200">
           <FormActions backUrl="/admin/articles" loading={loading} isCreateMode={isCreateMode} />
         </div>
       </form>
+
+      {!isCreateMode && (
+        <ArticleReviewPanel
+          articleId={id}
+          status={formData.status}
+          authorId={authorId}
+          onStatusChange={(status) => updateField('status', status)}
+        />
+      )}
+
+      {!isCreateMode && (
+        <RevisionHistoryPanel entityType="article" entityId={id} onRestored={refetch} />
+      )}
     </div>
   );
 }
@@ -1,7 +1,9 @@
 import { AdminDataTableConfig } from '@/shared/components/datatables/types';
 import { StatusBadge } from '@/shared/components/StatusBadge';
 import { CategoryBadge } from '@/shared/components/CategoryBadge';
-import { Edit, Trash2, Eye, CheckCircle } from 'lucide-react';
+import { ScheduledBadge } from '@/shared/components/ScheduledBadge';
+import { isScheduled } from '@/lib/utils/schedule';
+import { Edit, Trash2, Eye, CheckCircle, Send } from 'lucide-react';
 import Link from 'next/link';
 
 interface ArticleRow {
@@ -16,12 +18,15 @@ interface ArticleRow {
   };
   author_id: string;
   published_at: string;
+  views: number;
 }
 
 interface ArticlesConfigOptions {
   canEditArticle: (article: ArticleRow) => boolean;
   canDeleteArticle: (article: ArticleRow) => boolean;
   canPublishArticles: () => boolean;
+  canSubmitForReview: (article: ArticleRow) => boolean;
+  onSubmitForReview: (id: string, title: string) => void;
   onPublish: (id: string, title: string) => void;
   onUnpublish: (id: string, title: string) => void;
   onDelete: (id: string, title: string) => void;
@@ -72,7 +77,11 @@ export function createArticlesConfig(options: ArticlesConfigOptions): AdminDataT
         title: 'Status',
         searchable: true,
         sortable: true,
-        render: (data: unknown) => {
+        render: (data: unknown, _type: string, row: Record<string, unknown>) => {
+          const article = row as unknown as ArticleRow;
+          if (article.status === 'published' && isScheduled(article.published_at)) {
+            return <ScheduledBadge publishAt={article.published_at} />;
+          }
           return <StatusBadge status={data as 'draft' | 'pending' | 'published' | 'archived'} />;
         },
       },
@@ -83,7 +92,21 @@ export function createArticlesConfig(options: ArticlesConfigOptions): AdminDataT
         sortable: true,
         render: (data: unknown) => {
           const date = new Date(String(data));
-          return <span className="text-gray-700">{date.toLocaleDateString('id-ID')}</span>;
+          // Show the time too for scheduled articles
+          return (
+            <span className="text-gray-700">
+              {isScheduled(String(data)) ? date.toLocaleString('id-ID') : date.toLocaleDateString('id-ID')}
+            </span>
+          );
+        },
+      },
+      {
+        data: 'views',
+        title: 'Views',
+        searchable: false,
+        sortable: true,
+        render: (data: unknown) => {
+          return <span className="text-gray-700">{Number(data ?? 0).toLocaleString('id-ID')}</span>;
         },
       },
       {
@@ -98,8 +121,8 @@ export function createArticlesConfig(options: ArticlesConfigOptions): AdminDataT
           
           return (
             <div className="flex items-center justify-end gap-2">
-              {/* View published article */}
-              {article.status === 'published' && (
+              {/* View published article (not yet live when scheduled) */}
+              {article.status === 'published' && !isScheduled(article.published_at) && (
                 <Link
                   href={`/articles/${article.slug}`}
                   target="_blank"
@@ -110,6 +133,17 @@ export function createArticlesConfig(options: ArticlesConfigOptions): AdminDataT
                 </Link>
               )}
 
+              {/* Submit for review (contributor drafts) */}
+              {article.status === 'draft' && options.canSubmitForReview(article) && (
+                <button
+                  onClick={() => options.onSubmitForReview(article.id, article.title)}
+                  className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors"
+                  title="Submit for review"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
+
               {/* Publish button (for non-published articles) */}
               {article.status !== 'published' && options.canPublishArticles() && (
                 <button
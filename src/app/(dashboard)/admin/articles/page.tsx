@@ -11,6 +11,11 @@ import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
 import { createArticlesConfig } from './articles.config';
 import { Article } from '@/types/article';
 import { ITEMS_PER_PAGE } from '@/lib/constants/admin';
+import { reviewArticle } from '@/lib/api/article-reviews';
+import { isScheduled } from '@/lib/utils/schedule';
+import { ADMIN_ROUTES } from '@/config/navigation.config';
+import Link from 'next/link';
+import { ClipboardCheck } from 'lucide-react';
 
 interface ArticleListItem {
   id: string;
@@ -24,6 +29,7 @@ interface ArticleListItem {
   };
   author_id: string;
   published_at: string;
+  views: number;
 }
 
 export default function ArticlesPage() {
@@ -51,6 +57,9 @@ export default function ArticlesPage() {
   // Memoize searchColumns to prevent infinite re-renders
   const searchColumns = useMemo(() => ['title', 'author->>name'], []);
 
+  // Server-side sort: newest first or most viewed
+  const [sortColumn, setSortColumn] = useState<'published_at' | 'views'>('published_at');
+
   // Fetch articles data with hook
   const {
     items: articles,
@@ -66,8 +75,8 @@ export default function ArticlesPage() {
     refetch,
   } = useAdminTable<ArticleListItem>({
     tableName: 'articles',
-    selectColumns: 'id, title, slug, category, status, author, author_id, published_at',
-    sortColumn: 'published_at',
+    selectColumns: 'id, title, slug, category, status, author, author_id, published_at, views',
+    sortColumn,
     sortAscending: false,
     itemsPerPage: ITEMS_PER_PAGE,
     filterByAuthor: true, // Kontributor sees only their articles
@@ -77,15 +86,21 @@ export default function ArticlesPage() {
   // Action Logic
   const executePublish = async (id: string) => {
     try {
-      const now = new Date().toISOString();
+      // Keep a future publish time so scheduled articles stay scheduled
+      const article = articles.find((item) => item.id === id);
+      const scheduled = isScheduled(article?.published_at);
+      const update = scheduled
+        ? { status: 'published' as const }
+        : { status: 'published' as const, published_at: new Date().toISOString() };
+
       const { error } = await supabase
         .from('articles')
-        .update({ status: 'published' as const, published_at: now } as unknown as never)
+        .update(update as unknown as never)
         .eq('id', id);
 
       if (error) throw error;
 
-      toast.success('Article published successfully');
+      toast.success(scheduled ? 'Article scheduled successfully' : 'Article published successfully');
       await refetch();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to publish article';
@@ -110,6 +125,18 @@ export default function ArticlesPage() {
     }
   };
 
+  const executeSubmitForReview = async (id: string) => {
+    try {
+      await reviewArticle(id, 'submit');
+
+      toast.success('Article submitted for review');
+      await refetch();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to submit article';
+      toast.error(message);
+    }
+  };
+
   const executeDelete = async (id: string) => {
     try {
       const { error } = await supabase.from('articles').delete().eq('id', id);
@@ -139,7 +166,7 @@ export default function ArticlesPage() {
       isLoading: false,
       onConfirm: async () => await executePublish(id),
     });
-  }, [canPublishArticles, refetch]);
+  }, [canPublishArticles, refetch, articles]);
 
   const handleUnpublish = useCallback((id: string, title: string) => {
     if (!canPublishArticles()) {
@@ -157,6 +184,17 @@ export default function ArticlesPage() {
     });
   }, [canPublishArticles, refetch]);
 
+  const handleSubmitForReview = useCallback((id: string, title: string) => {
+    setConfirmState({
+      isOpen: true,
+      title: 'Submit for Review',
+      description: `Submit "${title}" to the editors? You won't be able to edit it while it is pending.`,
+      variant: 'primary',
+      isLoading: false,
+      onConfirm: async () => await executeSubmitForReview(id),
+    });
+  }, [refetch]);
+
   const handleDelete = useCallback((id: string, title: string) => {
     setConfirmState({
       isOpen: true,
@@ -192,19 +230,38 @@ export default function ArticlesPage() {
     return false;
   }, [hasPermission, profile?.role, user, canEditOwnContent]);
 
+  // Contributors submit their own drafts; editors publish directly
+  const canSubmitForReview = useCallback((article: ArticleListItem): boolean => {
+    return profile?.role === 'kontributor' && canEditOwnContent(article.author_id);
+  }, [profile?.role, canEditOwnContent]);
+
   // Create table configuration with callbacks (memoized)
   const tableConfig = useMemo(() => createArticlesConfig({
     canEditArticle,
     canDeleteArticle,
     canPublishArticles,
+    canSubmitForReview,
+    onSubmitForReview: handleSubmitForReview,
     onPublish: handlePublish,
     onUnpublish: handleUnpublish,
     onDelete: handleDelete,
-  }), [canEditArticle, canDeleteArticle, canPublishArticles, handlePublish, handleUnpublish, handleDelete]);
+  }), [canEditArticle, canDeleteArticle, canPublishArticles, canSubmitForReview, handleSubmitForReview, handlePublish, handleUnpublish, handleDelete]);
 
 
   return (
     <div className="space-y-6">
+      {canPublishArticles() && (
+        <div className="flex justify-end">
+          <Link
+            href={ADMIN_ROUTES.articleReview}
+            className="flex items-center gap-2 px-4 py-2 text-yellow-700 border border-yellow-300 bg-yellow-50 rounded-lg hover:bg-yellow-100 transition-colors"
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            Review Queue
+          </Link>
+        </div>
+      )}
+
       <AdminDataTable
         config={tableConfig}
         data={articles}
@@ -249,6 +306,20 @@ export default function ArticlesPage() {
                 ]}
               />
             </div>
+
+            <div className="w-full md:w-48">
+              <Select
+                value={sortColumn}
+                onChange={(val) => {
+                  setSortColumn(val as 'published_at' | 'views');
+                  setCurrentPage(1);
+                }}
+                options={[
+                  { value: 'published_at', label: 'Newest' },
+                  { value: 'views', label: 'Most Viewed' },
+                ]}
+              />
+            </div>
           </div>
         }
         manualPagination={{
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle, Edit, MessageSquareWarning } from 'lucide-react';
+import { Modal } from '@/shared/components/ui/Modal';
+import { FormTextarea } from '@/shared/components/FormTextarea';
+import { CategoryBadge } from '@/shared/components/CategoryBadge';
+import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
+import { AdminDataTableConfig } from '@/shared/components/datatables/types';
+import { useAdminTable } from '@/shared/hooks/useAdminTable';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { reviewArticle } from '@/lib/api/article-reviews';
+import { isScheduled } from '@/lib/utils/schedule';
+import { ADMIN_ROUTES } from '@/config/navigation.config';
+import { ITEMS_PER_PAGE } from '@/lib/constants/admin';
+
+interface PendingArticle {
+  id: string;
+  title: string;
+  slug: string;
+  category: string;
+  author: {
+    name: string;
+    email: string;
+  };
+  author_id: string;
+  published_at: string;
+  updated_at: string;
+}
+
+type Decision = 'approve' | 'request_changes';
+
+export default function ArticleReviewQueuePage() {
+  const router = useRouter();
+  const { loading: authLoading, canPublishArticles } = useAuth();
+
+  const [decision, setDecision] = useState<{ article: PendingArticle; action: Decision } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Only editors can review
+  useEffect(() => {
+    if (!authLoading && !canPublishArticles()) {
+      router.push(ADMIN_ROUTES.articles);
+    }
+  }, [authLoading, canPublishArticles, router]);
+
+  const searchColumns = useMemo(() => ['title', 'author->>name'], []);
+  const pendingOnly = useCallback(<Q extends { eq(column: string, value: string): Q }>(query: Q) => query.eq('status', 'pending'), []);
+
+  const {
+    items: articles,
+    loading,
+    totalCount,
+    currentPage,
+    setCurrentPage,
+    totalPages,
+    searchQuery,
+    setSearchQuery,
+    refetch,
+  } = useAdminTable<PendingArticle>({
+    tableName: 'articles',
+    selectColumns: 'id, title, slug, category, author, author_id, published_at, updated_at',
+    sortColumn: 'updated_at',
+    sortAscending: true, // Oldest submissions first
+    itemsPerPage: ITEMS_PER_PAGE,
+    searchColumns,
+    customFilter: pendingOnly,
+  });
+
+  const openDecision = (article: PendingArticle, action: Decision) => {
+    setNotes('');
+    setDecision({ article, action });
+  };
+
+  const closeDecision = () => setDecision(null);
+
+  const confirmDecision = async () => {
+    if (!decision) {
+      return;
+    }
+    if (decision.action === 'request_changes' && !notes.trim()) {
+      toast.error('Please add notes describing the changes needed');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await reviewArticle(decision.article.id, decision.action, notes);
+      toast.success(decision.action === 'approve' ? 'Article approved and published' : 'Changes requested');
+      setDecision(null);
+      await refetch();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update review status';
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const tableConfig = useMemo<AdminDataTableConfig>(() => ({
+    tableName: 'articles',
+    columns: [
+      {
+        data: 'title',
+        title: 'Title',
+        responsivePriority: 1,
+        render: (data: unknown, _type: string, row: Record<string, unknown>) => (
+          <div>
+            <div className="font-medium text-gray-900">{String(data)}</div>
+            <div className="text-sm text-gray-500">{String(row.slug)}</div>
+          </div>
+        ),
+      },
+      {
+        data: 'author.name',
+        title: 'Author',
+        render: (data: unknown) => <span className="text-gray-700">{String(data)}</span>,
+      },
+      {
+        data: 'category',
+        title: 'Category',
+        render: (data: unknown) => <CategoryBadge category={String(data)} />,
+      },
+      {
+        data: 'updated_at',
+        title: 'Submitted',
+        render: (data: unknown) => (
+          <span className="text-gray-700">{new Date(String(data)).toLocaleDateString('id-ID')}</span>
+        ),
+      },
+      {
+        data: 'id',
+        title: 'Actions',
+        sortable: false,
+        responsivePriority: 2,
+        className: 'text-right',
+        render: (_data: unknown, _type: string, row: Record<string, unknown>) => {
+          const article = row as unknown as PendingArticle;
+          return (
+            <div className="flex items-center justify-end gap-2">
+              <Link
+                href={`/admin/articles/${article.id}`}
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Open"
+              >
+                <Edit className="w-4 h-4" />
+              </Link>
+              <button
+                onClick={() => openDecision(article, 'request_changes')}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Request changes"
+              >
+                <MessageSquareWarning className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => openDecision(article, 'approve')}
+                className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                title="Approve & publish"
+              >
+                <CheckCircle className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        },
+      },
+    ],
+    pageLength: ITEMS_PER_PAGE,
+  }), []);
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href={ADMIN_ROUTES.articles}
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Articles
+      </Link>
+
+      <AdminDataTable
+        config={tableConfig}
+        data={articles}
+        header={{
+          title: 'Review Queue',
+          description: 'Articles submitted by contributors and waiting for approval',
+        }}
+        isLoading={loading}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+        manualPagination={{
+          currentPage,
+          pageCount: totalPages,
+          totalRecords: totalCount,
+          onPageChange: setCurrentPage,
+        }}
+      />
+
+      <Modal
+        isOpen={decision !== null}
+        onClose={closeDecision}
+        title={decision?.action === 'approve' ? 'Approve Article' : 'Request Changes'}
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            {decision?.action === 'approve'
+              ? isScheduled(decision.article.published_at)
+                ? `Approve "${decision.article.title}"? It will go live on ${new Date(decision.article.published_at).toLocaleString('id-ID')}.`
+                : `Publish "${decision.article.title}" now?`
+              : `Send "${decision?.article.title}" back to the author as a draft.`}
+          </p>
+          <FormTextarea
+            label={decision?.action === 'approve' ? 'Comment (optional)' : 'Reviewer notes'}
+            id="decision-notes"
+            value={notes}
+            onChange={setNotes}
+            required={decision?.action === 'request_changes'}
+            rows={4}
+          />
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={closeDecision}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={submitting}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDecision}
+              disabled={submitting}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed
+                ${decision?.action === 'request_changes'
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                }`}
+            >
+              {submitting ? 'Processing...' : 'Confirm'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import { useAdminTable } from '@/shared/hooks/useAdminTable';
+import { CheckCircle, XCircle, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Modal } from '@/shared/components/ui/Modal';
+import { Select } from '@/shared/components/ui/Select';
+import { ArticleComment } from '@/types/comment';
+import { ITEMS_PER_PAGE, COMMENT_STATUSES, CommentStatus } from '@/lib/constants/admin';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
+import { moderateComment } from '@/lib/api/comments';
+
+type CommentListItem = Pick<
+  ArticleComment,
+  'id' | 'parent_id' | 'author_id' | 'author_name' | 'author_email' | 'body' | 'status' | 'spam_reasons' | 'created_at'
+> & {
+  article: { title: string; slug: string } | null;
+};
+
+const SPAM_REASON_LABELS: Record<string, string> = {
+  too_many_links: 'Too many links',
+  spam_keywords: 'Spam keywords',
+  link_in_name: 'Link in name',
+  repeated_characters: 'Repeated characters',
+  all_caps: 'All caps',
+  duplicate: 'Duplicate',
+};
+
+export default function CommentsPage() {
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+
+  // Confirmation Modal State
+  const [confirmState, setConfirmState] = useState<{
+    isOpen: boolean;
+    title: string;
+    description: string;
+    onConfirm: () => Promise<void>;
+    variant: 'danger' | 'primary';
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    title: '',
+    description: '',
+    onConfirm: async () => { },
+    variant: 'primary',
+    isLoading: false,
+  });
+
+  const closeConfirm = () => setConfirmState(prev => ({ ...prev, isOpen: false }));
+
+  // Memoize to prevent infinite re-renders
+  const searchColumns = useMemo(() => ['author_name', 'author_email', 'body'], []);
+  const initialFilters = useMemo(() => ({ status: 'pending' }), []);
+
+  const {
+    items: comments,
+    loading,
+    totalCount,
+    currentPage,
+    setCurrentPage,
+    totalPages,
+    searchQuery,
+    setSearchQuery,
+    filters,
+    setFilter,
+    refetch,
+    deleteItem,
+  } = useAdminTable<CommentListItem>({
+    tableName: 'article_comments',
+    selectColumns: 'id, parent_id, author_id, author_name, author_email, body, status, spam_reasons, created_at, article:articles(title, slug)',
+    sortColumn: 'created_at',
+    sortAscending: false,
+    itemsPerPage: ITEMS_PER_PAGE,
+    searchColumns,
+    initialFilters,
+  });
+
+  const handleModerate = useCallback(async (id: string, status: CommentStatus) => {
+    setModeratingId(id);
+    try {
+      await moderateComment(id, status);
+      toast.success(status === 'approved' ? 'Comment approved' : 'Comment rejected');
+      await refetch();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update comment';
+      toast.error(message);
+    } finally {
+      setModeratingId(null);
+    }
+  }, [refetch]);
+
+  const handleDelete = useCallback((id: string, authorName: string) => {
+    setConfirmState({
+      isOpen: true,
+      title: 'Delete Comment',
+      description: `Are you sure you want to delete the comment by "${authorName}" and all replies to it? This action cannot be undone.`,
+      variant: 'danger',
+      isLoading: false,
+      onConfirm: async () => {
+        await deleteItem(id);
+      },
+    });
+  }, [deleteItem]);
+
+  // Handle actual confirmation click
+  const onConfirmClick = async () => {
+    setConfirmState(prev => ({ ...prev, isLoading: true }));
+    await confirmState.onConfirm();
+    setConfirmState(prev => ({ ...prev, isOpen: false, isLoading: false }));
+  };
+
+  // Table Configuration
+  const tableConfig = useMemo(() => ({
+    tableName: 'article_comments',
+    columns: [
+      {
+        data: 'body',
+        title: 'Comment',
+        sortable: false,
+        responsivePriority: 1,
+        render: (_: unknown, __: string, raw: Record<string, unknown>) => {
+          const row = raw as CommentListItem;
+          return (
+            <div className="max-w-md">
+              <div className="font-medium text-gray-900">
+                {row.author_name}
+                {row.author_id && <span className="ml-2 text-xs font-normal text-green-700">Signed in</span>}
+              </div>
+              <div className="text-sm text-gray-500">{row.author_email}</div>
+              {row.parent_id && <div className="text-xs text-gray-400 mt-1">Reply</div>}
+              <p className="text-sm text-gray-700 mt-1 line-clamp-3 whitespace-pre-wrap">{row.body}</p>
+            </div>
+          );
+        },
+      },
+      {
+        data: 'article',
+        title: 'Article',
+        sortable: false,
+        render: (_: unknown, __: string, raw: Record<string, unknown>) => {
+          const row = raw as CommentListItem;
+          return row.article ? (
+            <Link
+              href={`/articles/${row.article.slug}`}
+              target="_blank"
+              className="text-sm text-gray-700 hover:text-green-700 line-clamp-2"
+            >
+              {row.article.title}
+            </Link>
+          ) : (
+            <span className="text-gray-400">-</span>
+          );
+        },
+      },
+      {
+        data: 'status',
+        title: 'Status',
+        sortable: true,
+        render: (_: unknown, __: string, raw: Record<string, unknown>) => {
+          const row = raw as CommentListItem;
+          return (
+            <div className="space-y-1">
+              <StatusBadge status={row.status} defaultColor="pending" />
+              {row.spam_reasons.length > 0 && (
+                <div className="text-xs text-red-600">
+                  {row.spam_reasons.map((reason) => SPAM_REASON_LABELS[reason] ?? reason).join(', ')}
+                </div>
+              )}
+            </div>
+          );
+        },
+      },
+      {
+        data: 'created_at',
+        title: 'Submitted',
+        sortable: true,
+        render: (val: unknown) => (
+          <span className="text-gray-700">{new Date(val as string).toLocaleString('id-ID')}</span>
+        ),
+      },
+      {
+        data: 'id',
+        title: 'Actions',
+        sortable: false,
+        className: 'text-right',
+        render: (id: unknown, _: string, raw: Record<string, unknown>) => {
+          const row = raw as CommentListItem;
+          return (
+            <div className="flex items-center justify-end gap-2">
+              {row.status !== 'approved' && (
+                <button
+                  onClick={() => handleModerate(row.id, 'approved')}
+                  disabled={moderatingId === row.id}
+                  className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                  title="Approve"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                </button>
+              )}
+              {row.status !== 'rejected' && (
+                <button
+                  onClick={() => handleModerate(row.id, 'rejected')}
+                  disabled={moderatingId === row.id}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                  title="Reject"
+                >
+                  <XCircle className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => handleDelete(id as string, row.author_name)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        },
+      },
+    ],
+    pageLength: ITEMS_PER_PAGE,
+    search: {
+      placeholder: 'Search by name, email or comment...',
+    },
+  }), [handleModerate, handleDelete, moderatingId]);
+
+  return (
+    <div className="space-y-6">
+      <AdminDataTable
+        config={tableConfig}
+        data={comments}
+        header={{
+          title: 'Comments',
+          description: 'Approve or reject comments before they appear on articles',
+        }}
+        isLoading={loading}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+        filters={
+          <div className="w-full md:w-48">
+            <Select
+              value={filters.status || 'all'}
+              onChange={(val) => setFilter('status', val)}
+              options={[
+                { value: 'all', label: 'All Status' },
+                ...COMMENT_STATUSES.map(({ value, label }) => ({ value, label })),
+              ]}
+            />
+          </div>
+        }
+        manualPagination={{
+          currentPage,
+          pageCount: totalPages,
+          totalRecords: totalCount,
+          onPageChange: setCurrentPage,
+        }}
+      />
+
+      {/* Confirmation Modal */}
+      <Modal
+        isOpen={confirmState.isOpen}
+        onClose={closeConfirm}
+        title={confirmState.title}
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">{confirmState.description}</p>
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={closeConfirm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={confirmState.isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirmClick}
+              disabled={confirmState.isLoading}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed
+                ${confirmState.variant === 'danger'
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                }`}
+            >
+              {confirmState.isLoading ? 'Processing...' : 'Confirm'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Users, XCircle, ScanLine } from 'lucide-react';
+import { Modal } from '@/shared/components/ui/Modal';
+import { getEventRegistrations, cancelEventRegistration } from '@/lib/api/event-registrations';
+import { EventRegistration, EventRegistrationStatus } from '@/types/event';
+
+const STATUS_LABELS: Record<EventRegistrationStatus, string> = {
+  registered: 'Registered',
+  waitlisted: 'Waitlisted',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<EventRegistrationStatus, string> = {
+  registered: 'bg-green-100 text-green-700',
+  waitlisted: 'bg-yellow-100 text-yellow-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+/** Registered first, then the waitlist in queue order, cancelled last */
+const STATUS_ORDER: Record<EventRegistrationStatus, number> = {
+  registered: 0,
+  waitlisted: 1,
+  cancelled: 2,
+};
+
+interface EventRegistrationsPanelProps {
+  eventId: string;
+  maxParticipants: number | null;
+}
+
+export function EventRegistrationsPanel({ eventId, maxParticipants }: EventRegistrationsPanelProps) {
+  const [registrations, setRegistrations] = useState<EventRegistration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cancelTarget, setCancelTarget] = useState<EventRegistration | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  const fetchRegistrations = useCallback(async () => {
+    try {
+      setRegistrations(await getEventRegistrations(eventId));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load registrations';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchRegistrations();
+  }, [fetchRegistrations]);
+
+  const sorted = useMemo(
+    () => [...registrations].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]),
+    [registrations]
+  );
+  const registeredCount = registrations.filter((r) => r.status === 'registered').length;
+  const waitlistedCount = registrations.filter((r) => r.status === 'waitlisted').length;
+  const checkedInCount = registrations.filter((r) => r.status === 'registered' && r.checked_in_at).length;
+
+  async function confirmCancel() {
+    if (!cancelTarget) {
+      return;
+    }
+
+    setCancelling(true);
+    try {
+      await cancelEventRegistration(eventId, cancelTarget.id);
+      toast.success('Registration cancelled');
+      setCancelTarget(null);
+      await fetchRegistrations();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel registration';
+      toast.error(message);
+    } finally {
+      setCancelling(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-gray-500" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Registrants</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {registeredCount}{maxParticipants ? ` / ${maxParticipants}` : ''} registered · {waitlistedCount} on waitlist · {checkedInCount} checked in
+            </p>
+          </div>
+        </div>
+        <Link
+          href={`/admin/events/${eventId}/check-in`}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700"
+        >
+          <ScanLine className="w-4 h-4" />
+          Check-in
+        </Link>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : sorted.length === 0 ? (
+        <p className="text-sm text-gray-500">No registrations yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Name</th>
+                <th className="py-2 pr-4 font-medium">Contact</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Registered</th>
+                <th className="py-2 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sorted.map((registration) => (
+                <tr key={registration.id}>
+                  <td className="py-3 pr-4">
+                    <div className="font-medium text-gray-900">{registration.name}</div>
+                    {registration.notes && <div className="text-xs text-gray-500 mt-1">{registration.notes}</div>}
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">
+                    <div>{registration.email}</div>
+                    {registration.phone && <div className="text-xs text-gray-500">{registration.phone}</div>}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS[registration.status]}`}>
+                      {STATUS_LABELS[registration.status]}
+                    </span>
+                    {registration.checked_in_at && (
+                      <div className="text-xs text-green-700 mt-1">
+                        Checked in {format(new Date(registration.checked_in_at), 'd MMM, HH:mm', { locale: localeId })}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">
+                    {format(new Date(registration.created_at), 'd MMM yyyy, HH:mm', { locale: localeId })}
+                  </td>
+                  <td className="py-3 text-right">
+                    {registration.status !== 'cancelled' && (
+                      <button
+                        type="button"
+                        onClick={() => setCancelTarget(registration)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Cancel registration"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal
+        isOpen={cancelTarget !== null}
+        onClose={() => setCancelTarget(null)}
+        title="Cancel Registration"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Cancel the registration of &quot;{cancelTarget?.name}&quot;?
+            {cancelTarget?.status === 'registered' && ' The next person on the waitlist will get the seat.'}
+          </p>
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={() => setCancelTarget(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={cancelling}
+            >
+              Keep
+            </button>
+            <button
+              onClick={confirmCancel}
+              disabled={cancelling}
+              className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {cancelling ? 'Processing...' : 'Cancel Registration'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
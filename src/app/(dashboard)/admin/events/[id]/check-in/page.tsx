@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, FormEvent } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Camera, CameraOff, CheckCircle, XCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+import { getCheckInStats, checkInRegistration } from '@/lib/api/event-registrations';
+import { EventCheckInStats } from '@/types/event';
+
+/** Counts refresh this often so several scanners at the door stay in sync */
+const STATS_POLL_MS = 10000;
+const SCAN_INTERVAL_MS = 500;
+/** Pause after a scan so the same QR isn't read again while still in frame */
+const SCAN_COOLDOWN_MS = 2500;
+
+// Minimal typing for the Barcode Detection API (not yet in lib.dom)
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined' || !('BarcodeDetector' in window)) {
+    return null;
+  }
+  return (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+interface CheckInResult {
+  ok: boolean;
+  message: string;
+}
+
+export default function EventCheckInPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const [eventTitle, setEventTitle] = useState('');
+  const [stats, setStats] = useState<EventCheckInStats | null>(null);
+  const [token, setToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [cameraSupported, setCameraSupported] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const busyRef = useRef(false);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setStats(await getCheckInStats(id));
+    } catch (error) {
+      setResult({ ok: false, message: error instanceof Error ? error.message : 'Failed to load check-in stats' });
+    }
+  }, [id]);
+
+  useEffect(() => {
+    supabase
+      .from('events')
+      .select('title')
+      .eq('id', id)
+      .single()
+      .then(({ data }) => setEventTitle((data as { title: string } | null)?.title ?? ''));
+
+    setCameraSupported(getBarcodeDetector() !== null && Boolean(navigator.mediaDevices));
+    fetchStats();
+    const timer = setInterval(fetchStats, STATS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [id, fetchStats]);
+
+  const submitToken = useCallback(async (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed || busyRef.current) {
+      return;
+    }
+
+    busyRef.current = true;
+    setSubmitting(true);
+    try {
+      const { registration, stats: nextStats } = await checkInRegistration(id, trimmed);
+      setStats(nextStats);
+      setResult({ ok: true, message: `${registration.name} checked in` });
+      setToken('');
+    } catch (error) {
+      setResult({ ok: false, message: error instanceof Error ? error.message : 'Check-in failed' });
+    } finally {
+      setSubmitting(false);
+      busyRef.current = false;
+    }
+  }, [id]);
+
+  const stopScanning = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }, []);
+
+  async function startScanning() {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setScanning(true);
+    } catch {
+      setResult({ ok: false, message: 'Camera access was denied. Type the ticket code instead.' });
+    }
+  }
+
+  // Attach the stream and poll frames for QR codes while scanning
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    const video = videoRef.current;
+    if (!scanning || !Detector || !video || !streamRef.current) {
+      return;
+    }
+
+    video.srcObject = streamRef.current;
+    video.play().catch(() => undefined);
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let cooldownUntil = 0;
+    const timer = setInterval(async () => {
+      if (busyRef.current || Date.now() < cooldownUntil || video.readyState < 2) {
+        return;
+      }
+      const [code] = await detector.detect(video).catch(() => []);
+      if (code?.rawValue) {
+        cooldownUntil = Date.now() + SCAN_COOLDOWN_MS;
+        await submitToken(code.rawValue);
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [scanning, submitToken]);
+
+  useEffect(() => stopScanning, [stopScanning]);
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    submitToken(token);
+  }
+
+  return (
+    <div className="max-w-lg mx-auto space-y-4">
+      <Link
+        href={`/admin/events/${id}`}
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to event
+      </Link>
+
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Check-in</h1>
+        {eventTitle && <p className="text-gray-600 mt-1">{eventTitle}</p>}
+      </div>
+
+      {/* Live counts */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 text-center">
+          <p className="text-3xl font-bold text-green-600">{stats?.checkedIn ?? '–'}</p>
+          <p className="text-xs text-gray-500 mt-1">Checked in</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 text-center">
+          <p className="text-3xl font-bold text-gray-900">{stats?.registered ?? '–'}</p>
+          <p className="text-xs text-gray-500 mt-1">Registered</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 text-center">
+          <p className="text-3xl font-bold text-gray-900">{stats ? (stats.maxParticipants ?? '∞') : '–'}</p>
+          <p className="text-xs text-gray-500 mt-1">Capacity</p>
+        </div>
+      </div>
+
+      {result && (
+        <div
+          className={`flex items-center gap-3 p-4 rounded-xl text-sm font-medium ${
+            result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+          role="status"
+        >
+          {result.ok ? <CheckCircle className="w-5 h-5 flex-shrink-0" /> : <XCircle className="w-5 h-5 flex-shrink-0" />}
+          {result.message}
+        </div>
+      )}
+
+      {/* Camera scanner */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-3">
+        {scanning && (
+          <video ref={videoRef} className="w-full aspect-square object-cover rounded-lg bg-black" muted playsInline />
+        )}
+        {cameraSupported ? (
+          <button
+            type="button"
+            onClick={scanning ? stopScanning : startScanning}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700"
+          >
+            {scanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+            {scanning ? 'Stop camera' : 'Scan QR code'}
+          </button>
+        ) : (
+          <p className="text-sm text-gray-500">
+            QR scanning isn&apos;t supported in this browser. Type the ticket code below.
+          </p>
+        )}
+      </div>
+
+      {/* Manual entry */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-3">
+        <label htmlFor="ticket-token" className="block text-sm font-medium text-gray-700">
+          Ticket code
+        </label>
+        <input
+          id="ticket-token"
+          type="text"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          className="w-full px-3 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          type="submit"
+          disabled={submitting || !token.trim()}
+          className="w-full px-4 py-3 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Checking in...' : 'Check in'}
+        </button>
+      </form>
+    </div>
+  );
+}
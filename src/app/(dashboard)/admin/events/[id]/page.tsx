@@ -8,11 +8,15 @@ import { FormSelect } from '@/shared/components/FormSelect';
 import { FormCheckbox } from '@/shared/components/FormCheckbox';
 import { FormActions } from '@/shared/components/FormActions';
 import { FormField } from '@/shared/components/FormField';
-import { CreateableSelect } from '@/shared/components/ui/CreateableSelect';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { TagPicker } from '@/shared/components/TagPicker';
+import { RevisionHistoryPanel } from '@/shared/components/RevisionHistoryPanel';
 import { generateSlug } from '@/lib/utils/slug';
+import { isScheduled, toDateTimeLocalValue } from '@/lib/utils/schedule';
+import { resolveEventStatus } from '@/lib/utils/event-status';
 import { EventFormData } from '@/types/forms';
-import { EventLocation, EventOrganizer } from '@/types/event';
-import { EventStatus } from '@/lib/constants/admin';
+import { EventLocation, EventOrganizer, EventTranslatableFields } from '@/types/event';
+import { EventRegistrationsPanel } from '../EventRegistrationsPanel';
 
 const CATEGORIES = [
   { value: 'seminar', label: 'Seminar' },
@@ -23,10 +27,9 @@ const CATEGORIES = [
   { value: 'other', label: 'Other' },
 ];
 
-const STATUSES = [
-  { value: 'upcoming', label: 'Upcoming' },
-  { value: 'ongoing', label: 'Ongoing' },
-  { value: 'completed', label: 'Completed' },
+// Upcoming/ongoing/completed follow the event dates; only cancellation is manual
+const STATUS_MODES = [
+  { value: 'auto', label: 'Automatic (from dates)' },
   { value: 'cancelled', label: 'Cancelled' },
 ];
 
@@ -47,6 +50,7 @@ export default function EventFormPage() {
     fetching,
     isCreateMode,
     handleSubmit,
+    refetch,
   } = useAdminForm<EventFormData>({
     tableName: 'events',
     id,
@@ -71,6 +75,8 @@ export default function EventFormPage() {
       location: '',
       location_maps_url: '',
       organizer_contact: '',
+      published_at: '',
+      translations: {},
     },
     redirectPath: '/admin/events',
     onBeforeSave: (data) => {
@@ -89,7 +95,7 @@ export default function EventFormPage() {
         description: data.description,
         content: data.content,
         category: data.category,
-        status: data.status,
+        status: resolveEventStatus(data.status, data.start_date, data.end_date),
         start_date: new Date(data.start_date).toISOString(),
         end_date: new Date(data.end_date).toISOString(),
         location,
@@ -102,7 +108,9 @@ export default function EventFormPage() {
         max_participants: data.max_participants ? parseInt(data.max_participants) : null,
         tags: data.tags ? data.tags.split(',').map((t) => t.trim()) : null,
         featured: data.featured,
-        current_participants: 0,
+        // Empty announcement time means visible immediately
+        published_at: data.published_at ? new Date(data.published_at).toISOString() : null,
+        translations: data.translations ?? {},
       };
     },
   });
@@ -115,6 +123,16 @@ export default function EventFormPage() {
     });
   }
 
+  function handleTranslationChange(field: keyof EventTranslatableFields, value: string) {
+    setFormData({
+      ...formData,
+      translations: {
+        ...formData.translations,
+        en: { ...formData.translations?.en, [field]: value },
+      },
+    });
+  }
+
   if (fetching) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -163,14 +181,25 @@ export default function EventFormPage() {
               required
             />
 
-            <FormSelect
-              label="Status"
-              id="status"
-              value={formData.status}
-              onChange={(value) => setFormData({ ...formData, status: value as EventStatus })}
-              options={STATUSES}
-              required
-            />
+            <div>
+              <FormSelect
+                label="Status"
+                id="status"
+                value={formData.status === 'cancelled' ? 'cancelled' : 'auto'}
+                onChange={(value) => setFormData({ ...formData, status: value === 'cancelled' ? 'cancelled' : 'upcoming' })}
+                options={STATUS_MODES}
+                required
+              />
+              {formData.status !== 'cancelled' && formData.start_date && formData.end_date && (
+                <p className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                  Currently:
+                  <StatusBadge
+                    status={resolveEventStatus(formData.status, formData.start_date, formData.end_date)}
+                    defaultColor="upcoming"
+                  />
+                </p>
+              )}
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -298,26 +327,89 @@ export default function EventFormPage() {
             />
 
             <FormField label="Tags" id="tags">
-              <CreateableSelect
+              <TagPicker
                 value={formData.tags ? String(formData.tags).split(',').filter(t => t.trim()) : []}
                 onChange={(tags) => setFormData({ ...formData, tags: tags.join(',') })}
-                placeholder="Type tag and press Enter"
               />
             </FormField>
           </div>
 
-          <FormCheckbox
-            label="Featured Event"
-            id="featured"
-            checked={formData.featured}
-            onChange={(checked) => setFormData({ ...formData, featured: checked })}
-          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <FormInput
+                label="Announce At"
+                id="published_at"
+                type="datetime-local"
+                value={toDateTimeLocalValue(formData.published_at)}
+                onChange={(value) => setFormData({ ...formData, published_at: value })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {isScheduled(formData.published_at)
+                  ? 'Scheduled: the event stays hidden from the public until this time.'
+                  : 'Leave empty to show the event immediately, or pick a future time to schedule.'}
+              </p>
+            </div>
+
+            <FormCheckbox
+              label="Featured Event"
+              id="featured"
+              checked={formData.featured}
+              onChange={(checked) => setFormData({ ...formData, featured: checked })}
+            />
+          </div>
+
+          <div className="pt-6 border-t border-gray-200 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">English Translation</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Optional. Empty fields fall back to the Indonesian text on the English site.
+              </p>
+            </div>
+
+            <FormInput
+              label="Title (English)"
+              id="title_en"
+              value={formData.translations?.en?.title || ''}
+              onChange={(value) => handleTranslationChange('title', value)}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description (English)</label>
+              <RichTextEditor
+                value={formData.translations?.en?.description || ''}
+                onChange={(value) => handleTranslationChange('description', value)}
+                placeholder="Brief description in English..."
+                height="200px"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Full Content (English)</label>
+              <RichTextEditor
+                value={formData.translations?.en?.content || ''}
+                onChange={(value) => handleTranslationChange('content', value)}
+                placeholder="Detailed information in English..."
+                height="400px"
+              />
+            </div>
+          </div>
         </div>
 
         <div className="mt-6 pt-6 border-t border-gray-200">
           <FormActions backUrl="/admin/events" loading={loading} isCreateMode={isCreateMode} />
         </div>
       </form>
+
+      {!isCreateMode && (
+        <EventRegistrationsPanel
+          eventId={id}
+          maxParticipants={formData.max_participants ? Number(formData.max_participants) : null}
+        />
+      )}
+
+      {!isCreateMode && (
+        <RevisionHistoryPanel entityType="event" entityId={id} onRestored={refetch} />
+      )}
     </div>
   );
 }
@@ -10,6 +10,9 @@ import Link from 'next/link';
 import { Event } from '@/types/event';
 import { ITEMS_PER_PAGE } from '@/lib/constants/admin';
 import { StatusBadge } from '@/shared/components/StatusBadge';
+import { ScheduledBadge } from '@/shared/components/ScheduledBadge';
+import { isScheduled } from '@/lib/utils/schedule';
+import { resolveEventStatus } from '@/lib/utils/event-status';
 import { CategoryBadge } from '@/shared/components/CategoryBadge';
 import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
 
@@ -22,6 +25,7 @@ interface EventListItem {
   start_date: string;
   end_date: string;
   creator_id: string;
+  published_at: string | null;
   organizer: {
     name: string;
   };
@@ -67,7 +71,7 @@ export default function EventsPage() {
     deleteItem,
   } = useAdminTable<EventListItem>({
     tableName: 'events',
-    selectColumns: 'id, title, slug, category, status, start_date, end_date, creator_id, organizer',
+    selectColumns: 'id, title, slug, category, status, start_date, end_date, creator_id, published_at, organizer',
     sortColumn: 'start_date',
     sortAscending: false,
     itemsPerPage: ITEMS_PER_PAGE,
@@ -142,7 +146,12 @@ export default function EventsPage() {
         data: 'status',
         title: 'Status',
         sortable: true,
-        render: (val: unknown) => <StatusBadge status={val as Event['status']} defaultColor="upcoming" />,
+        render: (val: unknown, _: string, row: Record<string, unknown>) => {
+          const event = row as unknown as EventListItem;
+          return event.published_at && isScheduled(event.published_at)
+            ? <ScheduledBadge publishAt={event.published_at} />
+            : <StatusBadge status={resolveEventStatus(val as Event['status'], event.start_date, event.end_date)} defaultColor="upcoming" />;
+        },
       },
       {
         data: 'start_date',
@@ -161,14 +170,16 @@ export default function EventsPage() {
         className: 'text-right',
         render: (id: unknown, _: string, row: any) => (
           <div className="flex items-center justify-end gap-2">
-            <Link
-              href={`/events/${row.slug}`}
-              target="_blank"
-              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-              title="View"
-            >
-              <Eye className="w-4 h-4" />
-            </Link>
+            {!isScheduled(row.published_at) && (
+              <Link
+                href={`/events/${row.slug}`}
+                target="_blank"
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="View"
+              >
+                <Eye className="w-4 h-4" />
+              </Link>
+            )}
 
             {canEditEvent(row as EventListItem) && (
               <Link
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { Images, Upload, Loader2, ArrowUp, ArrowDown, Star, Trash2 } from 'lucide-react';
+import { Modal } from '@/shared/components/ui/Modal';
+import { StorageService } from '@/lib/storage/storage.service';
+import {
+  getAlbumPhotos,
+  addAlbumPhotos,
+  updateAlbumPhoto,
+  reorderAlbumPhotos,
+  deleteAlbumPhoto,
+  setAlbumCover,
+} from '@/lib/api/gallery';
+import { GalleryPhoto } from '@/types/gallery';
+
+const MAX_FILE_SIZE_MB = 10;
+
+/**
+ * Pixel size of an image file. Uploads are downscaled but keep their
+ * aspect ratio, which is all the masonry layout needs.
+ */
+async function readImageSize(file: File): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(file);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+interface GalleryPhotosPanelProps {
+  albumId: string;
+  coverImage: string;
+  /** Called after the cover was saved, so the album form stays in sync */
+  onCoverChange: (url: string) => void;
+}
+
+export function GalleryPhotosPanel({ albumId, coverImage, onCoverChange }: GalleryPhotosPanelProps) {
+  const [photos, setPhotos] = useState<GalleryPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<GalleryPhoto | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const fetchPhotos = useCallback(async () => {
+    try {
+      setPhotos(await getAlbumPhotos(albumId));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load photos';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [albumId]);
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [fetchPhotos]);
+
+  async function handleFiles(fileList: FileList | null) {
+    const files = Array.from(fileList ?? []).filter((file) => file.type.startsWith('image/'));
+    if (files.length === 0) {
+      return;
+    }
+
+    const tooLarge = files.filter((file) => file.size > MAX_FILE_SIZE_MB * 1024 * 1024);
+    if (tooLarge.length > 0) {
+      toast.error(`${tooLarge.length} file(s) skipped: max size is ${MAX_FILE_SIZE_MB}MB`);
+    }
+    const accepted = files.filter((file) => !tooLarge.includes(file));
+    if (accepted.length === 0) {
+      return;
+    }
+
+    // One at a time so a large batch does not saturate the connection
+    const uploaded: Pick<GalleryPhoto, 'url' | 'width' | 'height'>[] = [];
+    setProgress({ done: 0, total: accepted.length });
+    for (const file of accepted) {
+      try {
+        const size = await readImageSize(file);
+        const { url, error } = await StorageService.uploadFile(file, `gallery/${albumId}`);
+        if (error || !url) throw error ?? new Error('Upload failed');
+        uploaded.push({ url, ...size });
+      } catch (error) {
+        console.error('Upload error:', error);
+        toast.error(`Failed to upload ${file.name}`);
+      }
+      setProgress((prev) => prev && { ...prev, done: prev.done + 1 });
+    }
+
+    try {
+      if (uploaded.length > 0) {
+        const added = await addAlbumPhotos(albumId, uploaded);
+        setPhotos((prev) => [...prev, ...added]);
+        toast.success(`${added.length} photo(s) added`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save photos';
+      toast.error(message);
+    } finally {
+      setProgress(null);
+      if (inputRef.current) {
+        inputRef.current.value = '';
+      }
+    }
+  }
+
+  async function handleFieldBlur(photo: GalleryPhoto, field: 'caption' | 'alt_text', value: string) {
+    const saved = photo[field] ?? '';
+    if (value.trim() === saved) {
+      return;
+    }
+
+    const next = field === 'caption' ? value.trim() || null : value.trim();
+    try {
+      await updateAlbumPhoto(photo.id, { [field]: next });
+      setPhotos((prev) => prev.map((p) => (p.id === photo.id ? { ...p, [field]: next } : p)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update photo';
+      toast.error(message);
+    }
+  }
+
+  async function handleSetCover(photo: GalleryPhoto) {
+    try {
+      await setAlbumCover(albumId, photo.url);
+      onCoverChange(photo.url);
+      toast.success('Cover updated');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to set album cover';
+      toast.error(message);
+    }
+  }
+
+  async function movePhoto(index: number, offset: -1 | 1) {
+    const reordered = [...photos];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    const previous = photos;
+    setPhotos(reordered);
+    try {
+      await reorderAlbumPhotos(reordered.map((photo) => photo.id));
+    } catch (error) {
+      setPhotos(previous);
+      const message = error instanceof Error ? error.message : 'Failed to reorder photos';
+      toast.error(message);
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteTarget) {
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      await deleteAlbumPhoto(deleteTarget.id);
+      await StorageService.deleteFile(deleteTarget.url);
+      setPhotos((prev) => prev.filter((photo) => photo.id !== deleteTarget.id));
+      if (deleteTarget.url === coverImage) {
+        await setAlbumCover(albumId, null);
+        onCoverChange('');
+      }
+      toast.success('Photo deleted');
+      setDeleteTarget(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete photo';
+      toast.error(message);
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Images className="w-5 h-5 text-gray-500" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Photos</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {photos.length} photo(s) · shown in this order · captions and alt text save when you leave the field
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={progress !== null}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+        >
+          {progress ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Uploading {progress.done}/{progress.total}
+            </>
+          ) : (
+            <>
+              <Upload className="w-4 h-4" />
+              Upload Photos
+            </>
+          )}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : photos.length === 0 ? (
+        <div
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleFiles(e.dataTransfer.files);
+          }}
+          className="border-2 border-dashed border-gray-300 rounded-lg p-10 text-center text-sm text-gray-500"
+        >
+          No photos yet. Upload or drop images here.
+        </div>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {photos.map((photo, index) => (
+            <li key={photo.id} className="border border-gray-200 rounded-lg overflow-hidden">
+              <div className="relative aspect-[4/3] bg-gray-100">
+                <img src={photo.url} alt={photo.alt_text} className="w-full h-full object-cover" />
+                {photo.url === coverImage && (
+                  <span className="absolute top-2 left-2 px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                    Cover
+                  </span>
+                )}
+              </div>
+              <div className="p-3 space-y-2">
+                <input
+                  type="text"
+                  defaultValue={photo.caption ?? ''}
+                  onBlur={(e) => handleFieldBlur(photo, 'caption', e.target.value)}
+                  placeholder="Caption"
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  defaultValue={photo.alt_text}
+                  onBlur={(e) => handleFieldBlur(photo, 'alt_text', e.target.value)}
+                  placeholder="Alt text (describe the photo)"
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+                <div className="flex items-center justify-end gap-1">
+                  <button
+                    type="button"
+                    onClick={() => movePhoto(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                    title="Move earlier"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => movePhoto(index, 1)}
+                    disabled={index === photos.length - 1}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                    title="Move later"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSetCover(photo)}
+                    disabled={photo.url === coverImage}
+                    className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors disabled:opacity-30"
+                    title="Use as cover"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTarget(photo)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Photo"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">Delete this photo? The image file is removed as well.</p>
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={() => setDeleteTarget(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={deleting}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDelete}
+              disabled={deleting}
+              className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {deleting ? 'Processing...' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
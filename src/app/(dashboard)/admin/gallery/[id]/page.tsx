@@ -0,0 +1,153 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useAdminForm } from '@/shared/hooks/useAdminForm';
+import { FormInput } from '@/shared/components/FormInput';
+import { FormTextarea } from '@/shared/components/FormTextarea';
+import { FormSelect } from '@/shared/components/FormSelect';
+import { FormActions } from '@/shared/components/FormActions';
+import { generateSlug } from '@/lib/utils/slug';
+import { GALLERY_CATEGORIES } from '@/config/domain.config';
+import { GALLERY_STATUSES } from '@/lib/constants/admin';
+import { GalleryAlbumFormData } from '@/types/forms';
+import { GalleryPhotosPanel } from '../GalleryPhotosPanel';
+
+const CATEGORIES = Object.entries(GALLERY_CATEGORIES).map(([value, label]) => ({ value, label }));
+const STATUSES = GALLERY_STATUSES.map(({ value, label }) => ({ value, label }));
+
+export default function GalleryAlbumFormPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const {
+    formData,
+    setFormData,
+    loading,
+    fetching,
+    isCreateMode,
+    handleSubmit,
+    updateField,
+  } = useAdminForm<GalleryAlbumFormData>({
+    tableName: 'gallery_albums',
+    selectColumns: 'id, title, slug, description, category, cover_image, status, taken_at, author_id',
+    id,
+    initialData: {
+      title: '',
+      slug: '',
+      description: '',
+      category: 'activities',
+      cover_image: '',
+      status: 'active',
+      taken_at: '',
+    },
+    redirectPath: '/admin/gallery',
+    onBeforeSave: (data) => ({
+      title: data.title,
+      slug: data.slug,
+      description: data.description || null,
+      category: data.category,
+      cover_image: data.cover_image || null,
+      status: data.status,
+      taken_at: data.taken_at || null,
+    }),
+  });
+
+  function handleTitleChange(value: string) {
+    setFormData({
+      ...formData,
+      title: value,
+      slug: generateSlug(value),
+    });
+  }
+
+  if (fetching) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {isCreateMode ? 'Create Album' : 'Edit Album'}
+        </h1>
+        <p className="text-gray-600 mt-1">
+          {isCreateMode ? 'Create the album first, then upload its photos' : 'Update album information and photos'}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="space-y-6">
+          <FormInput
+            label="Title"
+            id="title"
+            value={formData.title}
+            onChange={handleTitleChange}
+            required
+          />
+
+          <FormInput
+            label="Slug"
+            id="slug"
+            value={formData.slug}
+            onChange={(value) => updateField('slug', value)}
+            required
+            placeholder="Auto-generated from title. Used in URL."
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <FormSelect
+              label="Category"
+              id="category"
+              value={formData.category}
+              onChange={(value) => updateField('category', value)}
+              options={CATEGORIES}
+              required
+            />
+
+            <FormSelect
+              label="Status"
+              id="status"
+              value={formData.status}
+              onChange={(value) => updateField('status', value)}
+              options={STATUSES}
+              required
+            />
+
+            <FormInput
+              label="Date Taken"
+              id="taken_at"
+              type="date"
+              value={formData.taken_at || ''}
+              onChange={(value) => updateField('taken_at', value)}
+            />
+          </div>
+
+          <FormTextarea
+            label="Description"
+            id="description"
+            value={formData.description || ''}
+            onChange={(value) => updateField('description', value)}
+            rows={3}
+            placeholder="What is this album about?"
+          />
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <FormActions backUrl="/admin/gallery" loading={loading} isCreateMode={isCreateMode} />
+        </div>
+      </form>
+
+      {!isCreateMode && (
+        <GalleryPhotosPanel
+          albumId={id}
+          coverImage={formData.cover_image || ''}
+          onCoverChange={(url) => updateField('cover_image', url)}
+        />
+      )}
+    </div>
+  );
+}
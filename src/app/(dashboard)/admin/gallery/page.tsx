@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useAdminTable } from '@/shared/hooks/useAdminTable';
+import { Edit, Trash2, Eye, Images } from 'lucide-react';
+import { Modal } from '@/shared/components/ui/Modal';
+import { Select } from '@/shared/components/ui/Select';
+import Link from 'next/link';
+import { GalleryAlbum } from '@/types/gallery';
+import { ITEMS_PER_PAGE, GALLERY_STATUSES } from '@/lib/constants/admin';
+import { GALLERY_CATEGORIES } from '@/config/domain.config';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { CategoryBadge } from '@/shared/components/CategoryBadge';
+import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
+import { StorageService } from '@/lib/storage/storage.service';
+import { getAlbumPhotos } from '@/lib/api/gallery';
+
+type AlbumListItem = Pick<GalleryAlbum, 'id' | 'title' | 'slug' | 'category' | 'status' | 'cover_image' | 'taken_at'> & {
+  photo_count: { count: number }[];
+};
+
+export default function GalleryPage() {
+  // Confirmation Modal State
+  const [confirmState, setConfirmState] = useState<{
+    isOpen: boolean;
+    title: string;
+    description: string;
+    onConfirm: () => Promise<void>;
+    variant: 'danger' | 'primary';
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    title: '',
+    description: '',
+    onConfirm: async () => { },
+    variant: 'primary',
+    isLoading: false,
+  });
+
+  const closeConfirm = () => setConfirmState(prev => ({ ...prev, isOpen: false }));
+
+  // Memoize searchColumns to prevent infinite re-renders
+  const searchColumns = useMemo(() => ['title', 'description'], []);
+
+  const {
+    items: albums,
+    loading,
+    totalCount,
+    currentPage,
+    setCurrentPage,
+    totalPages,
+    searchQuery,
+    setSearchQuery,
+    filters,
+    setFilter,
+    deleteItem,
+  } = useAdminTable<AlbumListItem>({
+    tableName: 'gallery_albums',
+    selectColumns: 'id, title, slug, category, status, cover_image, taken_at, photo_count:gallery_photos(count)',
+    sortColumn: 'created_at',
+    sortAscending: false,
+    itemsPerPage: ITEMS_PER_PAGE,
+    searchColumns,
+  });
+
+  const handleDelete = useCallback((id: string, title: string) => {
+    setConfirmState({
+      isOpen: true,
+      title: 'Delete Album',
+      description: `Are you sure you want to delete "${title}" and all of its photos? This action cannot be undone.`,
+      variant: 'danger',
+      isLoading: false,
+      onConfirm: async () => {
+        // Photo rows go with the album (cascade); the files are removed here
+        const photos = await getAlbumPhotos(id).catch(() => []);
+        await deleteItem(id);
+        await Promise.all(photos.map((photo) => StorageService.deleteFile(photo.url)));
+      },
+    });
+  }, [deleteItem]);
+
+  // Handle actual confirmation click
+  const onConfirmClick = async () => {
+    setConfirmState(prev => ({ ...prev, isLoading: true }));
+    await confirmState.onConfirm();
+    setConfirmState(prev => ({ ...prev, isOpen: false, isLoading: false }));
+  };
+
+  // Table Configuration
+  const tableConfig = useMemo(() => ({
+    tableName: 'gallery_albums',
+    columns: [
+      {
+        data: 'title',
+        title: 'Album',
+        sortable: true,
+        responsivePriority: 1,
+        render: (_: unknown, __: string, raw: Record<string, unknown>) => {
+          const row = raw as AlbumListItem;
+          return (
+            <div className="flex items-center gap-3">
+              {row.cover_image ? (
+                <img
+                  src={row.cover_image}
+                  alt={row.title}
+                  className="w-12 h-12 rounded-lg object-cover"
+                />
+              ) : (
+                <div className="w-12 h-12 rounded-lg bg-gray-100 text-gray-400 flex items-center justify-center">
+                  <Images className="w-5 h-5" />
+                </div>
+              )}
+              <div>
+                <div className="font-medium text-gray-900">{row.title}</div>
+                <div className="text-sm text-gray-500">{row.slug}</div>
+              </div>
+            </div>
+          );
+        },
+      },
+      {
+        data: 'category',
+        title: 'Category',
+        sortable: true,
+        render: (val: unknown) => (
+          <CategoryBadge
+            category={GALLERY_CATEGORIES[val as keyof typeof GALLERY_CATEGORIES] ?? String(val)}
+            colorClass="bg-purple-100 text-purple-800"
+          />
+        ),
+      },
+      {
+        data: 'photo_count',
+        title: 'Photos',
+        sortable: false,
+        render: (val: unknown) => (
+          <span className="text-gray-700">{(val as AlbumListItem['photo_count'])[0]?.count ?? 0}</span>
+        ),
+      },
+      {
+        data: 'status',
+        title: 'Status',
+        sortable: true,
+        render: (val: unknown) => <StatusBadge status={val as string} defaultColor="active" />,
+      },
+      {
+        data: 'taken_at',
+        title: 'Date',
+        sortable: true,
+        render: (val: unknown) => (
+          <span className="text-gray-700">
+            {val ? new Date(val as string).toLocaleDateString('id-ID') : '-'}
+          </span>
+        ),
+      },
+      {
+        data: 'id',
+        title: 'Actions',
+        sortable: false,
+        className: 'text-right',
+        render: (id: unknown, _: string, raw: Record<string, unknown>) => {
+          const row = raw as AlbumListItem;
+          return (
+            <div className="flex items-center justify-end gap-2">
+              {row.status === 'active' && (
+                <Link
+                  href={`/gallery/${row.slug}`}
+                  target="_blank"
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="View"
+                >
+                  <Eye className="w-4 h-4" />
+                </Link>
+              )}
+              <Link
+                href={`/admin/gallery/${id}`}
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Edit"
+              >
+                <Edit className="w-4 h-4" />
+              </Link>
+              <button
+                onClick={() => handleDelete(id as string, row.title)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        },
+      },
+    ],
+    pageLength: ITEMS_PER_PAGE,
+    search: {
+      placeholder: 'Search by title or description...',
+    },
+  }), [handleDelete]);
+
+  return (
+    <div className="space-y-6">
+      <AdminDataTable
+        config={tableConfig}
+        data={albums}
+        createButton={{
+          label: 'Add Album',
+          href: '/admin/gallery/new',
+        }}
+        header={{
+          title: 'Gallery',
+          description: 'Manage photo albums',
+        }}
+        isLoading={loading}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+        filters={
+          <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+            <div className="w-full md:w-48">
+              <Select
+                value={filters.status || 'all'}
+                onChange={(val) => setFilter('status', val)}
+                options={[
+                  { value: 'all', label: 'All Status' },
+                  ...GALLERY_STATUSES.map(({ value, label }) => ({ value, label })),
+                ]}
+              />
+            </div>
+
+            <div className="w-full md:w-48">
+              <Select
+                value={filters.category || 'all'}
+                onChange={(val) => setFilter('category', val)}
+                options={[
+                  { value: 'all', label: 'All Categories' },
+                  ...Object.entries(GALLERY_CATEGORIES).map(([value, label]) => ({ value, label })),
+                ]}
+              />
+            </div>
+          </div>
+        }
+        manualPagination={{
+          currentPage,
+          pageCount: totalPages,
+          totalRecords: totalCount,
+          onPageChange: setCurrentPage,
+        }}
+      />
+
+      {/* Confirmation Modal */}
+      <Modal
+        isOpen={confirmState.isOpen}
+        onClose={closeConfirm}
+        title={confirmState.title}
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">{confirmState.description}</p>
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={closeConfirm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={confirmState.isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirmClick}
+              disabled={confirmState.isLoading}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed
+                ${confirmState.variant === 'danger'
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                }`}
+            >
+              {confirmState.isLoading ? 'Processing...' : 'Confirm'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
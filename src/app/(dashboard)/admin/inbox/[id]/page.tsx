@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, Mail, Phone, Clock, CheckCircle, RotateCcw, Send } from 'lucide-react';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { FormSelect } from '@/shared/components/FormSelect';
+import {
+  getInboxMessage,
+  getInboxAssignees,
+  updateInboxMessage,
+  logInboxReply,
+} from '@/lib/api/contact';
+import { ContactMessage, ContactMessageReply, InboxAssignee } from '@/types/contact';
+
+export default function InboxMessagePage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const [message, setMessage] = useState<ContactMessage | null>(null);
+  const [replies, setReplies] = useState<ContactMessageReply[]>([]);
+  const [assignees, setAssignees] = useState<InboxAssignee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [replyBody, setReplyBody] = useState('');
+  const [logging, setLogging] = useState(false);
+
+  const fetchMessage = useCallback(async () => {
+    try {
+      const [result, admins] = await Promise.all([getInboxMessage(id), getInboxAssignees()]);
+      setReplies(result.replies);
+      setAssignees(admins);
+
+      // Opening a new message marks it as read
+      setMessage(result.message.status === 'new'
+        ? await updateInboxMessage(id, { status: 'read' })
+        : result.message);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to load message';
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchMessage();
+  }, [fetchMessage]);
+
+  async function applyUpdate(changes: Parameters<typeof updateInboxMessage>[1], successMessage: string) {
+    setUpdating(true);
+    try {
+      setMessage(await updateInboxMessage(id, changes));
+      toast.success(successMessage);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to update message';
+      toast.error(msg);
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function handleLogReply() {
+    if (!replyBody.trim()) {
+      return;
+    }
+
+    setLogging(true);
+    try {
+      const reply = await logInboxReply(id, replyBody);
+      setReplies((prev) => [...prev, reply]);
+      setMessage((prev) => (prev && prev.status === 'new' ? { ...prev, status: 'read' } : prev));
+      setReplyBody('');
+      toast.success('Reply logged');
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to log reply';
+      toast.error(msg);
+    } finally {
+      setLogging(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!message) {
+    return (
+      <div className="space-y-4">
+        <Link href="/admin/inbox" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Inbox
+        </Link>
+        <p className="text-gray-600">Message not found.</p>
+      </div>
+    );
+  }
+
+  const assigneeName = (profileId: string | null) => {
+    const assignee = assignees.find((admin) => admin.id === profileId);
+    return assignee ? assignee.full_name || assignee.email : 'an admin';
+  };
+
+  const mailtoHref = `mailto:${message.email}?subject=${encodeURIComponent(`Re: ${message.subject}`)}&body=${encodeURIComponent(replyBody)}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/admin/inbox" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Inbox
+        </Link>
+        <div className="flex flex-wrap items-center gap-3 mt-2">
+          <h1 className="text-2xl font-bold text-gray-900">{message.subject}</h1>
+          <StatusBadge status={message.status} defaultColor="new" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Message */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600">
+              <span className="font-medium text-gray-900">{message.name}</span>
+              <a href={`mailto:${message.email}`} className="inline-flex items-center gap-1 hover:text-gray-900">
+                <Mail className="w-4 h-4" />
+                {message.email}
+              </a>
+              {message.phone && (
+                <span className="inline-flex items-center gap-1">
+                  <Phone className="w-4 h-4" />
+                  {message.phone}
+                </span>
+              )}
+              <span className="inline-flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                {new Date(message.created_at).toLocaleString('id-ID')}
+              </span>
+            </div>
+            <p className="text-gray-800 whitespace-pre-wrap">{message.message}</p>
+          </div>
+
+          {/* Reply Log */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Replies</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Reply from your email client, then log what you sent so the team can see it
+              </p>
+            </div>
+
+            {replies.length === 0 ? (
+              <p className="text-sm text-gray-500">No replies logged yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {replies.map((reply) => (
+                  <li key={reply.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+                      <span className="font-medium text-gray-700">{reply.author_name ?? 'Deleted user'}</span>
+                      <span>{new Date(reply.created_at).toLocaleString('id-ID')}</span>
+                    </div>
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{reply.body}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-3">
+              <textarea
+                value={replyBody}
+                onChange={(e) => setReplyBody(e.target.value)}
+                rows={5}
+                maxLength={5000}
+                placeholder={`Reply to ${message.name}...`}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+              <div className="flex flex-wrap justify-end gap-3">
+                <a
+                  href={mailtoHref}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  <Mail className="w-4 h-4" />
+                  Open in Email
+                </a>
+                <button
+                  type="button"
+                  onClick={handleLogReply}
+                  disabled={logging || !replyBody.trim()}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                  {logging ? 'Saving...' : 'Log Reply'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Handling */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6 h-fit">
+          <FormSelect
+            label="Assigned To"
+            id="assigned_to"
+            value={message.assigned_to ?? ''}
+            onChange={(value) => applyUpdate({ assigned_to: value || null }, value ? 'Message assigned' : 'Message unassigned')}
+            options={[
+              { value: '', label: 'Unassigned' },
+              ...assignees.map((admin) => ({ value: admin.id, label: admin.full_name || admin.email })),
+            ]}
+          />
+
+          {message.status === 'handled' ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Handled by {assigneeName(message.handled_by)}
+                {message.handled_at && ` on ${new Date(message.handled_at).toLocaleString('id-ID')}`}
+              </p>
+              <button
+                type="button"
+                onClick={() => applyUpdate({ status: 'read' }, 'Message reopened')}
+                disabled={updating}
+                className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reopen
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => applyUpdate({ status: 'handled' }, 'Message marked as handled')}
+              disabled={updating}
+              className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4" />
+              Mark as Handled
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
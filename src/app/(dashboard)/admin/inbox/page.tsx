@@ -0,0 +1,258 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useAdminTable } from '@/shared/hooks/useAdminTable';
+import { Eye, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Modal } from '@/shared/components/ui/Modal';
+import { Select } from '@/shared/components/ui/Select';
+import Link from 'next/link';
+import { ContactMessage, InboxAssignee } from '@/types/contact';
+import { ITEMS_PER_PAGE, CONTACT_MESSAGE_STATUSES } from '@/lib/constants/admin';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
+import { getInboxAssignees, INBOX_CHANGED_EVENT } from '@/lib/api/contact';
+
+type MessageListItem = Pick<ContactMessage, 'id' | 'name' | 'email' | 'subject' | 'status' | 'assigned_to' | 'created_at'>;
+
+export default function InboxPage() {
+  const [assignees, setAssignees] = useState<InboxAssignee[]>([]);
+
+  // Confirmation Modal State
+  const [confirmState, setConfirmState] = useState<{
+    isOpen: boolean;
+    title: string;
+    description: string;
+    onConfirm: () => Promise<void>;
+    variant: 'danger' | 'primary';
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    title: '',
+    description: '',
+    onConfirm: async () => { },
+    variant: 'primary',
+    isLoading: false,
+  });
+
+  const closeConfirm = () => setConfirmState(prev => ({ ...prev, isOpen: false }));
+
+  useEffect(() => {
+    getInboxAssignees()
+      .then(setAssignees)
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to load assignees'));
+  }, []);
+
+  // Memoize searchColumns to prevent infinite re-renders
+  const searchColumns = useMemo(() => ['name', 'email', 'subject'], []);
+
+  const {
+    items: messages,
+    loading,
+    totalCount,
+    currentPage,
+    setCurrentPage,
+    totalPages,
+    searchQuery,
+    setSearchQuery,
+    filters,
+    setFilter,
+    deleteItem,
+  } = useAdminTable<MessageListItem>({
+    tableName: 'contact_messages',
+    selectColumns: 'id, name, email, subject, status, assigned_to, created_at',
+    sortColumn: 'created_at',
+    sortAscending: false,
+    itemsPerPage: ITEMS_PER_PAGE,
+    searchColumns,
+  });
+
+  const assigneeNames = useMemo(
+    () => new Map(assignees.map((assignee) => [assignee.id, assignee.full_name || assignee.email])),
+    [assignees]
+  );
+
+  const handleDelete = useCallback((id: string, subject: string) => {
+    setConfirmState({
+      isOpen: true,
+      title: 'Delete Message',
+      description: `Are you sure you want to delete "${subject}" and its reply log? This action cannot be undone.`,
+      variant: 'danger',
+      isLoading: false,
+      onConfirm: async () => {
+        await deleteItem(id);
+        window.dispatchEvent(new Event(INBOX_CHANGED_EVENT));
+      },
+    });
+  }, [deleteItem]);
+
+  // Handle actual confirmation click
+  const onConfirmClick = async () => {
+    setConfirmState(prev => ({ ...prev, isLoading: true }));
+    await confirmState.onConfirm();
+    setConfirmState(prev => ({ ...prev, isOpen: false, isLoading: false }));
+  };
+
+  // Table Configuration
+  const tableConfig = useMemo(() => ({
+    tableName: 'contact_messages',
+    columns: [
+      {
+        data: 'name',
+        title: 'From',
+        sortable: true,
+        responsivePriority: 1,
+        render: (_: unknown, __: string, raw: Record<string, unknown>) => {
+          const row = raw as MessageListItem;
+          return (
+            <div>
+              <div className={`text-gray-900 ${row.status === 'new' ? 'font-semibold' : 'font-medium'}`}>{row.name}</div>
+              <div className="text-sm text-gray-500">{row.email}</div>
+            </div>
+          );
+        },
+      },
+      {
+        data: 'subject',
+        title: 'Subject',
+        sortable: true,
+        render: (val: unknown, _: string, raw: Record<string, unknown>) => (
+          <Link
+            href={`/admin/inbox/${raw.id}`}
+            className={`text-gray-900 hover:text-green-700 ${raw.status === 'new' ? 'font-semibold' : ''}`}
+          >
+            {String(val)}
+          </Link>
+        ),
+      },
+      {
+        data: 'status',
+        title: 'Status',
+        sortable: true,
+        render: (val: unknown) => <StatusBadge status={val as string} defaultColor="new" />,
+      },
+      {
+        data: 'assigned_to',
+        title: 'Assigned To',
+        sortable: false,
+        render: (val: unknown) => (
+          <span className="text-gray-700">{val ? assigneeNames.get(val as string) ?? '-' : 'Unassigned'}</span>
+        ),
+      },
+      {
+        data: 'created_at',
+        title: 'Received',
+        sortable: true,
+        render: (val: unknown) => (
+          <span className="text-gray-700">{new Date(val as string).toLocaleString('id-ID')}</span>
+        ),
+      },
+      {
+        data: 'id',
+        title: 'Actions',
+        sortable: false,
+        className: 'text-right',
+        render: (id: unknown, _: string, raw: Record<string, unknown>) => (
+          <div className="flex items-center justify-end gap-2">
+            <Link
+              href={`/admin/inbox/${id}`}
+              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              title="Open"
+            >
+              <Eye className="w-4 h-4" />
+            </Link>
+            <button
+              onClick={() => handleDelete(id as string, raw.subject as string)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ),
+      },
+    ],
+    pageLength: ITEMS_PER_PAGE,
+    search: {
+      placeholder: 'Search by name, email or subject...',
+    },
+  }), [handleDelete, assigneeNames]);
+
+  return (
+    <div className="space-y-6">
+      <AdminDataTable
+        config={tableConfig}
+        data={messages}
+        header={{
+          title: 'Inbox',
+          description: 'Messages sent through the contact form',
+        }}
+        isLoading={loading}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+        filters={
+          <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+            <div className="w-full md:w-48">
+              <Select
+                value={filters.status || 'all'}
+                onChange={(val) => setFilter('status', val)}
+                options={[
+                  { value: 'all', label: 'All Status' },
+                  ...CONTACT_MESSAGE_STATUSES.map(({ value, label }) => ({ value, label })),
+                ]}
+              />
+            </div>
+
+            <div className="w-full md:w-48">
+              <Select
+                value={filters.assigned_to || 'all'}
+                onChange={(val) => setFilter('assigned_to', val)}
+                options={[
+                  { value: 'all', label: 'All Assignees' },
+                  ...assignees.map((assignee) => ({ value: assignee.id, label: assignee.full_name || assignee.email })),
+                ]}
+              />
+            </div>
+          </div>
+        }
+        manualPagination={{
+          currentPage,
+          pageCount: totalPages,
+          totalRecords: totalCount,
+          onPageChange: setCurrentPage,
+        }}
+      />
+
+      {/* Confirmation Modal */}
+      <Modal
+        isOpen={confirmState.isOpen}
+        onClose={closeConfirm}
+        title={confirmState.title}
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">{confirmState.description}</p>
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={closeConfirm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={confirmState.isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirmClick}
+              disabled={confirmState.isLoading}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed
+                ${confirmState.variant === 'danger'
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                }`}
+            >
+              {confirmState.isLoading ? 'Processing...' : 'Confirm'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -15,9 +15,17 @@ import {
   Menu,
   X,
   UserCog,
-  Settings
+  Settings,
+  Tags,
+  Images,
+  Inbox,
+  Newspaper,
+  MessageSquare,
+  IdCard
 } from 'lucide-react';
 import { SITE_CONFIG } from '@/config/site.config';
+import { MEMBER_ROUTES } from '@/config/navigation.config';
+import { getUnreadMessageCount, INBOX_CHANGED_EVENT } from '@/lib/api/contact';
 
 interface AuthError extends Error {
   code?: string;
@@ -43,6 +51,11 @@ const navigation: NavItem[] = [
   { name: 'Members', href: '/admin/members', icon: Users, roles: ['super_admin', 'admin'] },
   { name: 'Articles', href: '/admin/articles', icon: FileText, roles: ['super_admin', 'admin', 'kontributor'] },
   { name: 'Events', href: '/admin/events', icon: Calendar, roles: ['super_admin', 'admin', 'kontributor'] },
+  { name: 'Comments', href: '/admin/comments', icon: MessageSquare, roles: ['super_admin', 'admin'] },
+  { name: 'Inbox', href: '/admin/inbox', icon: Inbox, roles: ['super_admin', 'admin'] },
+  { name: 'Newsletter', href: '/admin/newsletter', icon: Newspaper, roles: ['super_admin', 'admin'] },
+  { name: 'Gallery', href: '/admin/gallery', icon: Images, roles: ['super_admin', 'admin'] },
+  { name: 'Tags', href: '/admin/tags', icon: Tags, roles: ['super_admin', 'admin'] },
   { name: 'Leadership', href: '/admin/leadership', icon: Award, roles: ['super_admin', 'admin'] },
   { name: 'Users', href: '/admin/users', icon: UserCog, roles: ['super_admin'] },
   { name: 'Settings', href: '/admin/settings', icon: Settings, roles: ['super_admin', 'admin'] },
@@ -54,6 +67,7 @@ function AdminLayoutContent({ children }: { children: React.ReactNode }) {
 
   const pathname = usePathname();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
 
   // Use ref to store router to avoid re-renders when router changes
   const routerRef = useRef(router);
@@ -74,6 +88,19 @@ function AdminLayoutContent({ children }: { children: React.ReactNode }) {
     }
   }, [loading, user]);
 
+  // Unread inbox badge: refreshed on navigation and after inbox changes
+  const canReadInbox = profile?.role === 'super_admin' || profile?.role === 'admin';
+  useEffect(() => {
+    if (!canReadInbox) return;
+
+    const refresh = () => {
+      getUnreadMessageCount().then(setUnreadCount);
+    };
+    refresh();
+    window.addEventListener(INBOX_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(INBOX_CHANGED_EVENT, refresh);
+  }, [canReadInbox, pathname]);
+
   // Only show loading on VERY FIRST load (never show again after initial auth)
   if (!hasLoadedAuth.current && loading) {
     return (
@@ -204,14 +231,26 @@ function AdminLayoutContent({ children }: { children: React.ReactNode }) {
                   onClick={() => setSidebarOpen(false)}
                 >
                   <item.icon className="w-5 h-5" />
-                  <span>{item.name}</span>
+                  <span className="flex-1">{item.name}</span>
+                  {item.href === '/admin/inbox' && unreadCount > 0 && (
+                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-600 text-white">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
                 </Link>
               );
             })}
           </nav>
 
-          {/* Sign out */}
-          <div className="px-3 py-4 border-t border-gray-200">
+          {/* Member portal (any account, outside the CMS roles) and sign out */}
+          <div className="px-3 py-4 border-t border-gray-200 space-y-1">
+            <Link
+              href={MEMBER_ROUTES.portal}
+              className="flex items-center space-x-3 w-full px-3 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-900 transition-colors"
+            >
+              <IdCard className="w-5 h-5" />
+              <span>My Member Profile</span>
+            </Link>
             <button
               onClick={handleSignOut}
               className="flex items-center space-x-3 w-full px-3 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-900 transition-colors"
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { AlertTriangle, CheckCircle, XCircle, Unlink } from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+import { reviewMemberChangeRequest } from '@/lib/api/member-portal';
+import { FormTextarea } from '@/shared/components/FormTextarea';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { MEMBER_REVIEWED_FIELDS, MemberReviewedField } from '@/lib/constants/admin';
+import { Member, MemberChangeRequest, MemberReviewedValues } from '@/types/member';
+
+type MemberAccount = Pick<Member, 'profile_id' | 'claimed_at' | MemberReviewedField>;
+
+interface MemberChangeRequestPanelProps {
+  memberId: string;
+  /** Called after approval with the values now stored on the member */
+  onApproved: (changes: MemberReviewedValues) => void;
+}
+
+/**
+ * Account link and pending portal changes for a member
+ */
+export function MemberChangeRequestPanel({ memberId, onApproved }: MemberChangeRequestPanelProps) {
+  const [account, setAccount] = useState<MemberAccount | null>(null);
+  const [request, setRequest] = useState<MemberChangeRequest | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchRequest = useCallback(async () => {
+    try {
+      const [memberRes, requestRes] = await Promise.all([
+        supabase
+          .from('members')
+          .select('profile_id, claimed_at, name, nim, email, batch, division, position')
+          .eq('id', memberId)
+          .single(),
+        supabase.from('member_change_requests').select('*').eq('member_id', memberId).eq('status', 'pending').maybeSingle(),
+      ]);
+
+      if (memberRes.error) throw memberRes.error;
+      if (requestRes.error) throw requestRes.error;
+
+      setAccount(memberRes.data as MemberAccount);
+      setRequest(requestRes.data as MemberChangeRequest | null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load change requests';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [memberId]);
+
+  useEffect(() => {
+    fetchRequest();
+  }, [fetchRequest]);
+
+  async function handleReview(action: 'approve' | 'reject') {
+    if (!request) return;
+    if (action === 'reject' && !notes.trim()) {
+      toast.error('Please add a note explaining why the change was rejected');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await reviewMemberChangeRequest(request.id, { action, note: notes });
+      toast.success(action === 'approve' ? 'Changes approved and applied' : 'Changes rejected');
+      if (action === 'approve') {
+        onApproved(request.changes);
+      }
+      setNotes('');
+      setRequest(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to review the change request';
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleUnlink() {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('members')
+        .update({ profile_id: null, claimed_at: null } as never)
+        .eq('id', memberId);
+
+      if (error) throw error;
+      toast.success('Account unlinked');
+      setAccount((prev) => (prev ? { ...prev, profile_id: null, claimed_at: null } : prev));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to unlink the account';
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (loading) {
+    return null;
+  }
+
+  // Reviewed fields edited since the request was made; approval would
+  // overwrite those edits, so the database refuses it
+  const staleFields = request && account
+    ? MEMBER_REVIEWED_FIELDS.filter(({ value }) =>
+        value in request.previous && (account[value] || null) !== (request.previous[value] || null))
+    : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Member Portal</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {account?.profile_id
+              ? `Claimed by a user account${account.claimed_at ? ` on ${format(new Date(account.claimed_at), 'd MMM yyyy', { locale: localeId })}` : ''}.`
+              : 'Not claimed yet. Members claim their record from the portal by verifying its email address.'}
+          </p>
+        </div>
+        {account?.profile_id && (
+          <button
+            type="button"
+            onClick={handleUnlink}
+            disabled={submitting}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Unlink className="w-4 h-4" />
+            Unlink Account
+          </button>
+        )}
+      </div>
+
+      {request && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-sm font-medium text-gray-700">
+              Requested changes
+              <span className="ml-2 font-normal text-gray-500">
+                {format(new Date(request.created_at), 'd MMM yyyy, HH:mm', { locale: localeId })}
+              </span>
+            </h3>
+            <StatusBadge status={request.status} />
+          </div>
+
+          <ul className="border-l-4 border-yellow-300 bg-yellow-50 rounded-r-lg px-4 py-3 space-y-1 text-sm text-gray-700">
+            {MEMBER_REVIEWED_FIELDS.filter(({ value }) => value in request.changes).map(({ value, label }) => (
+              <li key={value}>
+                {label}: <span className="line-through text-gray-500">{request.previous[value] || '-'}</span>
+                {' → '}
+                <span className="font-medium text-gray-900">{request.changes[value] || '-'}</span>
+              </li>
+            ))}
+          </ul>
+
+          {staleFields.length > 0 && (
+            <div className="flex items-start gap-3 border-l-4 border-red-300 bg-red-50 rounded-r-lg px-4 py-3 text-sm text-gray-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-red-600" />
+              <p>
+                {staleFields.map(({ label }) => label).join(', ')} changed after this request was made, so it can no
+                longer be approved. Reject it and ask the member to submit their changes again.
+              </p>
+            </div>
+          )}
+
+          <FormTextarea
+            label="Note for the member"
+            id="change-request-notes"
+            value={notes}
+            onChange={setNotes}
+            rows={3}
+            placeholder="Required when rejecting"
+          />
+
+          <div className="flex flex-wrap justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => handleReview('reject')}
+              disabled={submitting}
+              className="flex items-center gap-2 px-4 py-2 text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <XCircle className="w-4 h-4" />
+              Reject
+            </button>
+            <button
+              type="button"
+              onClick={() => handleReview('approve')}
+              disabled={submitting || staleFields.length > 0}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <CheckCircle className="w-4 h-4" />
+              Approve & Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
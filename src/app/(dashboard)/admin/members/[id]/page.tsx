@@ -5,8 +5,11 @@ import { useAdminForm } from '@/shared/hooks/useAdminForm';
 import { RichTextEditor } from '@/shared/components/RichTextEditor';
 import { FormInput } from '@/shared/components/FormInput';
 import { FormSelect } from '@/shared/components/FormSelect';
+import { FormCheckbox } from '@/shared/components/FormCheckbox';
 import { FormActions } from '@/shared/components/FormActions';
 import { MemberFormData } from '@/types/forms';
+import { MemberReviewedValues } from '@/types/member';
+import { MemberChangeRequestPanel } from '../MemberChangeRequestPanel';
 import { MemberStatus } from '@/lib/constants/admin';
 
 const STATUSES = [
@@ -47,6 +50,8 @@ export default function MemberFormPage() {
       social_media_instagram: '',
       social_media_linkedin: '',
       social_media_twitter: '',
+      show_contact: false,
+      show_social_media: false,
     },
     redirectPath: '/admin/members',
     permissions: {
@@ -85,6 +90,8 @@ export default function MemberFormPage() {
           ? (typeof data.achievements === 'string' ? data.achievements.split(',') : data.achievements).map((a: string) => a.trim())
           : null,
         social_media: Object.keys(socialMedia).length > 0 ? socialMedia : null,
+        show_contact: data.show_contact,
+        show_social_media: data.show_social_media,
       };
     },
   });
@@ -96,6 +103,15 @@ export default function MemberFormPage() {
     });
   };
 
+  // Keep the form in step with an approved portal request, so saving
+  // afterwards doesn't write the old values back
+  const handleChangesApproved = (changes: MemberReviewedValues) => {
+    const applied = Object.fromEntries(
+      Object.entries(changes).map(([field, value]) => [field, value ?? ''])
+    );
+    setFormData({ ...formData, ...applied });
+  };
+
   if (fetching) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -256,12 +272,32 @@ export default function MemberFormPage() {
             onChange={(value) => setFormData({ ...formData, social_media_twitter: value })}
             placeholder="https://twitter.com/username"
           />
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-gray-900">Public Directory</h3>
+            <FormCheckbox
+              label="Show contact details"
+              id="show_contact"
+              checked={formData.show_contact}
+              onChange={(checked) => setFormData({ ...formData, show_contact: checked })}
+              description="Lists the email and phone number on the public members page."
+            />
+            <FormCheckbox
+              label="Show social media"
+              id="show_social_media"
+              checked={formData.show_social_media}
+              onChange={(checked) => setFormData({ ...formData, show_social_media: checked })}
+              description="Lists the Instagram, LinkedIn and Twitter links on the public members page."
+            />
+          </div>
         </div>
 
         <div className="mt-6 pt-6 border-t border-gray-200">
           <FormActions backUrl="/admin/members" loading={loading} isCreateMode={isCreateMode} />
         </div>
       </form>
+
+      {!isCreateMode && <MemberChangeRequestPanel memberId={id} onApproved={handleChangesApproved} />}
     </div>
   );
 }
@@ -6,7 +6,7 @@ import { useAdminTable } from '@/shared/hooks/useAdminTable';
 import { useAuth } from '@/lib/auth/AuthContext';
 import { supabase } from '@/lib/supabase/client';
 import { toast } from 'sonner';
-import { Edit, Trash2 } from 'lucide-react';
+import { Clock, Edit, Trash2 } from 'lucide-react';
 import { Modal } from '@/shared/components/ui/Modal';
 import { Select } from '@/shared/components/ui/Select';
 import Link from 'next/link';
@@ -31,11 +31,17 @@ interface MemberListItem {
   position: string | null;
 }
 
+interface PendingChangeItem {
+  id: string;
+  member: { id: string; name: string } | null;
+}
+
 export default function MembersPage() {
   const router = useRouter();
   const { hasPermission, loading: authLoading } = useAuth();
   const [batches, setBatches] = useState<string[]>([]);
   const [batchFilter, setBatchFilter] = useState<string>('all');
+  const [pendingChanges, setPendingChanges] = useState<PendingChangeItem[]>([]);
 
   // Confirmation Modal State
   const [confirmState, setConfirmState] = useState<{
@@ -82,10 +88,28 @@ export default function MembersPage() {
     }
   }, []);
 
+  // Portal change requests waiting for review
+  const fetchPendingChanges = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('member_change_requests')
+        .select('id, member:members(id, name)')
+        .eq('status', 'pending')
+        .order('created_at');
+
+      if (error) throw error;
+      setPendingChanges((data ?? []) as unknown as PendingChangeItem[]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load change requests';
+      toast.error(message);
+    }
+  }, []);
+
   useEffect(() => {
     if (authLoading || !hasPermission(['super_admin', 'admin'])) return;
     fetchBatches();
-  }, [authLoading, hasPermission, fetchBatches]);
+    fetchPendingChanges();
+  }, [authLoading, hasPermission, fetchBatches, fetchPendingChanges]);
 
   // Memoize searchColumns to prevent infinite re-renders
   const searchColumns = useMemo(() => ['name', 'nim', 'email'], []);
@@ -225,6 +249,26 @@ export default function MembersPage() {
 
   return (
     <div className="space-y-6">
+      {pendingChanges.length > 0 && (
+        <div className="border-l-4 border-yellow-300 bg-yellow-50 rounded-r-lg px-4 py-3 text-sm">
+          <p className="flex items-center gap-2 font-medium text-gray-900">
+            <Clock className="w-4 h-4" />
+            {pendingChanges.length} {pendingChanges.length === 1 ? 'member has' : 'members have'} requested changes from the portal
+          </p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+            {pendingChanges.map((change) => change.member && (
+              <Link
+                key={change.id}
+                href={`/admin/members/${change.member.id}`}
+                className="text-green-700 hover:underline"
+              >
+                {change.member.name}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       <AdminDataTable
         config={tableConfig}
         data={members}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useAdminTable } from '@/shared/hooks/useAdminTable';
+import { Download, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Modal } from '@/shared/components/ui/Modal';
+import { Select } from '@/shared/components/ui/Select';
+import { NewsletterSubscriber } from '@/types/newsletter';
+import { ITEMS_PER_PAGE, NEWSLETTER_STATUSES, NewsletterStatus } from '@/lib/constants/admin';
+import { StatusBadge } from '@/shared/components/StatusBadge';
+import { AdminDataTable } from '@/shared/components/datatables/AdminDataTable';
+import { exportSubscribers } from '@/lib/api/newsletter';
+
+type SubscriberListItem = Pick<NewsletterSubscriber, 'id' | 'email' | 'status' | 'created_at' | 'confirmed_at' | 'unsubscribed_at'>;
+
+function formatDate(value: unknown) {
+  return value ? new Date(value as string).toLocaleDateString('id-ID') : '-';
+}
+
+export default function NewsletterPage() {
+  const [exporting, setExporting] = useState(false);
+
+  // Confirmation Modal State
+  const [confirmState, setConfirmState] = useState<{
+    isOpen: boolean;
+    title: string;
+    description: string;
+    onConfirm: () => Promise<void>;
+    variant: 'danger' | 'primary';
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    title: '',
+    description: '',
+    onConfirm: async () => { },
+    variant: 'primary',
+    isLoading: false,
+  });
+
+  const closeConfirm = () => setConfirmState(prev => ({ ...prev, isOpen: false }));
+
+  // Memoize searchColumns to prevent infinite re-renders
+  const searchColumns = useMemo(() => ['email'], []);
+
+  const {
+    items: subscribers,
+    loading,
+    totalCount,
+    currentPage,
+    setCurrentPage,
+    totalPages,
+    searchQuery,
+    setSearchQuery,
+    filters,
+    setFilter,
+    deleteItem,
+  } = useAdminTable<SubscriberListItem>({
+    tableName: 'newsletter_subscribers',
+    selectColumns: 'id, email, status, created_at, confirmed_at, unsubscribed_at',
+    sortColumn: 'created_at',
+    sortAscending: false,
+    itemsPerPage: ITEMS_PER_PAGE,
+    searchColumns,
+  });
+
+  const handleDelete = useCallback((id: string, email: string) => {
+    setConfirmState({
+      isOpen: true,
+      title: 'Delete Subscriber',
+      description: `Are you sure you want to delete "${email}"? Use this for data removal requests; unsubscribed addresses are otherwise kept as a record.`,
+      variant: 'danger',
+      isLoading: false,
+      onConfirm: async () => {
+        await deleteItem(id);
+      },
+    });
+  }, [deleteItem]);
+
+  // Handle actual confirmation click
+  const onConfirmClick = async () => {
+    setConfirmState(prev => ({ ...prev, isLoading: true }));
+    await confirmState.onConfirm();
+    setConfirmState(prev => ({ ...prev, isOpen: false, isLoading: false }));
+  };
+
+  // Export the current status filter as CSV
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const status = filters.status && filters.status !== 'all' ? filters.status as NewsletterStatus : undefined;
+      const blob = await exportSubscribers(status);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `newsletter-subscribers${status ? `-${status}` : ''}-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export subscribers';
+      toast.error(message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Table Configuration
+  const tableConfig = useMemo(() => ({
+    tableName: 'newsletter_subscribers',
+    columns: [
+      {
+        data: 'email',
+        title: 'Email',
+        sortable: true,
+        responsivePriority: 1,
+        render: (val: unknown) => <span className="font-medium text-gray-900">{String(val)}</span>,
+      },
+      {
+        data: 'status',
+        title: 'Status',
+        sortable: true,
+        render: (val: unknown) => <StatusBadge status={val as string} defaultColor="pending" />,
+      },
+      {
+        data: 'created_at',
+        title: 'Signed Up',
+        sortable: true,
+        render: (val: unknown) => <span className="text-gray-700">{formatDate(val)}</span>,
+      },
+      {
+        data: 'confirmed_at',
+        title: 'Confirmed',
+        sortable: true,
+        render: (val: unknown) => <span className="text-gray-700">{formatDate(val)}</span>,
+      },
+      {
+        data: 'unsubscribed_at',
+        title: 'Unsubscribed',
+        sortable: true,
+        render: (val: unknown) => <span className="text-gray-700">{formatDate(val)}</span>,
+      },
+      {
+        data: 'id',
+        title: 'Actions',
+        sortable: false,
+        className: 'text-right',
+        render: (id: unknown, _: string, raw: Record<string, unknown>) => (
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => handleDelete(id as string, raw.email as string)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ),
+      },
+    ],
+    pageLength: ITEMS_PER_PAGE,
+    search: {
+      placeholder: 'Search by email...',
+    },
+  }), [handleDelete]);
+
+  return (
+    <div className="space-y-6">
+      <AdminDataTable
+        config={tableConfig}
+        data={subscribers}
+        header={{
+          title: 'Newsletter',
+          description: 'Manage newsletter subscribers',
+        }}
+        isLoading={loading}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+        filters={
+          <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+            <div className="w-full md:w-48">
+              <Select
+                value={filters.status || 'all'}
+                onChange={(val) => setFilter('status', val)}
+                options={[
+                  { value: 'all', label: 'All Status' },
+                  ...NEWSLETTER_STATUSES.map(({ value, label }) => ({ value, label })),
+                ]}
+              />
+            </div>
+
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={exporting}
+              className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {exporting ? 'Exporting...' : 'Export CSV'}
+            </button>
+          </div>
+        }
+        manualPagination={{
+          currentPage,
+          pageCount: totalPages,
+          totalRecords: totalCount,
+          onPageChange: setCurrentPage,
+        }}
+      />
+
+      {/* Confirmation Modal */}
+      <Modal
+        isOpen={confirmState.isOpen}
+        onClose={closeConfirm}
+        title={confirmState.title}
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">{confirmState.description}</p>
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={closeConfirm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={confirmState.isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirmClick}
+              disabled={confirmState.isLoading}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed
+                ${confirmState.variant === 'danger'
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                }`}
+            >
+              {confirmState.isLoading ? 'Processing...' : 'Confirm'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabase/client';
+import { getBrowserSession } from '@/lib/supabase/browser-session';
 import { useAuth } from '@/lib/auth/AuthContext';
 import { toast } from 'sonner';
 import { Settings, Home, Info, Save } from 'lucide-react';
 import { RichTextEditor } from '@/shared/components/RichTextEditor';
+import { RevisionHistoryPanel } from '@/shared/components/RevisionHistoryPanel';
 
 type TabType = 'home' | 'about';
 
@@ -58,6 +59,8 @@ export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState<TabType>('home');
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(true);
+  // Bumped after each save so the revision history reloads
+  const [revisionKey, setRevisionKey] = useState(0);
 
   // Home settings state
   const [homeSettings, setHomeSettings] = useState<HomeSettings | null>(null);
@@ -76,7 +79,7 @@ export default function SettingsPage() {
   async function fetchSettings() {
     setFetching(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
+      const session = await getBrowserSession();
       if (!session) {
         toast.error('Not authenticated');
         return;
@@ -111,7 +114,7 @@ export default function SettingsPage() {
 
     setLoading(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
+      const session = await getBrowserSession();
       if (!session) {
         toast.error('Not authenticated');
         return;
@@ -132,6 +135,7 @@ export default function SettingsPage() {
       }
 
       toast.success('Home settings saved successfully');
+      setRevisionKey((key) => key + 1);
     } catch (error) {
       console.error('Error saving home settings:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to save settings');
@@ -145,7 +149,7 @@ export default function SettingsPage() {
 
     setLoading(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
+      const session = await getBrowserSession();
       if (!session) {
         toast.error('Not authenticated');
         return;
@@ -166,6 +170,7 @@ export default function SettingsPage() {
       }
 
       toast.success('About settings saved successfully');
+      setRevisionKey((key) => key + 1);
     } catch (error) {
       console.error('Error saving about settings:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to save settings');
@@ -439,6 +444,16 @@ export default function SettingsPage() {
           </div>
         </div>
       )}
+
+      {((activeTab === 'home' && homeSettings) || (activeTab === 'about' && aboutSettings)) && (
+        <RevisionHistoryPanel
+          key={activeTab}
+          entityType="site_setting"
+          entityId={activeTab}
+          refreshKey={revisionKey}
+          onRestored={fetchSettings}
+        />
+      )}
     </div>
   );
 }
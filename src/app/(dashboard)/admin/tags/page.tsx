@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { Search, Edit, Trash2, GitMerge, ExternalLink } from 'lucide-react';
+import { Modal } from '@/shared/components/ui/Modal';
+import { TableSkeleton } from '@/shared/components/ui/Skeleton';
+import { showError, showSuccess } from '@/lib/utils/error-handler';
+import { getTagUsage, renameTag, mergeTags, deleteTag } from '@/lib/api/tags';
+import { TagUsage } from '@/types/tag';
+
+type TagAction = { type: 'rename' | 'merge'; tag: TagUsage };
+
+export default function TagsPage() {
+  const router = useRouter();
+  const { hasPermission, loading: authLoading } = useAuth();
+  const [tags, setTags] = useState<TagUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [action, setAction] = useState<TagAction | null>(null);
+  const [newName, setNewName] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!hasPermission(['super_admin', 'admin'])) {
+      router.push('/admin/dashboard');
+    }
+  }, [authLoading, hasPermission, router]);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      setTags(await getTagUsage());
+    } catch (error) {
+      showError(error, 'Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || !hasPermission(['super_admin', 'admin'])) return;
+    fetchTags();
+  }, [authLoading, hasPermission, fetchTags]);
+
+  const openAction = (type: TagAction['type'], tag: TagUsage) => {
+    setAction({ type, tag });
+    setNewName(tag.name);
+    setMergeTarget('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+
+    setSaving(true);
+    try {
+      if (action.type === 'rename') {
+        await renameTag(action.tag.slug, newName.trim());
+        showSuccess('Tag renamed');
+      } else {
+        await mergeTags(action.tag.slug, mergeTarget);
+        showSuccess('Tags merged');
+      }
+      setAction(null);
+      await fetchTags();
+    } catch (error) {
+      showError(error, action.type === 'rename' ? 'Failed to rename tag' : 'Failed to merge tags');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tag: TagUsage) => {
+    const usage = tag.article_count + tag.event_count;
+    const message = usage > 0
+      ? `Delete "${tag.name}"? It will be removed from ${usage} article(s) and event(s).`
+      : `Delete "${tag.name}"?`;
+    if (!confirm(message)) return;
+
+    try {
+      await deleteTag(tag.slug);
+      setTags((prev) => prev.filter((t) => t.slug !== tag.slug));
+      showSuccess('Tag deleted');
+    } catch (error) {
+      showError(error, 'Failed to delete tag');
+    }
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredTags = query ? tags.filter((tag) => tag.name.toLowerCase().includes(query)) : tags;
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <div className="h-8 w-64 bg-gray-200 rounded animate-pulse" />
+          <div className="h-4 w-96 bg-gray-200 rounded animate-pulse" />
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <TableSkeleton rows={10} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Tags</h1>
+        <p className="text-gray-600 mt-1">Rename, merge and remove tags used by articles and events</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search tags..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        {filteredTags.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No tags found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Tag</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Slug</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Articles</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Events</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredTags.map((tag) => (
+                  <tr key={tag.slug} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 font-medium text-gray-900">{tag.name}</td>
+                    <td className="py-3 px-4 text-gray-500 font-mono text-sm">{tag.slug}</td>
+                    <td className="py-3 px-4 text-right text-gray-700">{tag.article_count}</td>
+                    <td className="py-3 px-4 text-right text-gray-700">{tag.event_count}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <Link
+                          href={`/tags/${tag.slug}`}
+                          target="_blank"
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="View tag page"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                        <button
+                          onClick={() => openAction('rename', tag)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Rename"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => openAction('merge', tag)}
+                          disabled={tags.length < 2}
+                          className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Merge into another tag"
+                        >
+                          <GitMerge className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(tag)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={action !== null}
+        onClose={() => setAction(null)}
+        title={action?.type === 'merge' ? `Merge "${action.tag.name}"` : 'Rename tag'}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {action?.type === 'rename' ? (
+            <div>
+              <label htmlFor="tag-name" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                id="tag-name"
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                minLength={2}
+                maxLength={50}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Updates {action.tag.article_count} article(s) and {action.tag.event_count} event(s).
+              </p>
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="merge-target" className="block text-sm font-medium text-gray-700 mb-1">
+                Merge into
+              </label>
+              <select
+                id="merge-target"
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="">Select a tag...</option>
+                {tags
+                  .filter((tag) => tag.slug !== action?.tag.slug)
+                  .map((tag) => (
+                    <option key={tag.slug} value={tag.slug}>
+                      {tag.name} ({tag.article_count + tag.event_count})
+                    </option>
+                  ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Content tagged &quot;{action?.tag.name}&quot; gets the selected tag instead, and &quot;{action?.tag.name}&quot; is removed.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setAction(null)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving...' : action?.type === 'merge' ? 'Merge' : 'Rename'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -2,11 +2,12 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { supabase } from '@/lib/supabase/client';
+import { getBrowserSession } from '@/lib/supabase/browser-session';
 import { useAuth, UserRole } from '@/lib/auth/AuthContext';
 import { Eye, EyeOff } from 'lucide-react';
 import { FormInput } from '@/shared/components/FormInput';
 import { FormSelect } from '@/shared/components/FormSelect';
+import { FormTextarea } from '@/shared/components/FormTextarea';
 import { FormActions } from '@/shared/components/FormActions';
 import { CreateUserFormData } from '@/types/forms';
 import { toast } from 'sonner';
@@ -33,6 +34,7 @@ export default function UserFormPage() {
     full_name: '',
     role: 'kontributor',
     avatar_url: '',
+    bio: '',
   });
 
   useEffect(() => {
@@ -49,7 +51,7 @@ export default function UserFormPage() {
 
   async function fetchUser() {
     try {
-      const { data: { session: currentSession } } = await supabase.auth.getSession();
+      const currentSession = await getBrowserSession();
       if (!currentSession) {
         toast.error('Not authenticated');
         router.push('/admin/users');
@@ -79,6 +81,7 @@ export default function UserFormPage() {
         full_name: userData.full_name || '',
         role: userData.role || 'kontributor',
         avatar_url: userData.avatar_url || '',
+        bio: userData.bio || '',
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to load user';
@@ -145,6 +148,7 @@ export default function UserFormPage() {
             full_name: formData.full_name,
             role: formData.role,
             avatar_url: formData.avatar_url || null,
+            bio: formData.bio || null,
           }),
         });
 
@@ -278,6 +282,15 @@ export default function UserFormPage() {
             onChange={(value) => setFormData({ ...formData, avatar_url: value })}
             placeholder="https://example.com/avatar.jpg"
           />
+
+          <FormTextarea
+            label="Bio"
+            id="bio"
+            value={formData.bio}
+            onChange={(value) => setFormData({ ...formData, bio: value })}
+            rows={4}
+            placeholder="Shown on the public author page once this user has published articles"
+          />
         </div>
 
         <div className="mt-6 pt-6 border-t border-gray-200">
@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase/client';
+import { getBrowserSession } from '@/lib/supabase/browser-session';
 import { useAuth, UserRole } from '@/lib/auth/AuthContext';
 import { Search, Plus, Edit, Trash2, Shield } from 'lucide-react';
 import Link from 'next/link';
@@ -50,7 +50,7 @@ export default function UsersPage() {
     try {
       setLoading(true);
 
-      const { data: { session } } = await supabase.auth.getSession();
+      const session = await getBrowserSession();
       if (!session) {
         showError('Not authenticated');
         return;
@@ -110,7 +110,7 @@ export default function UsersPage() {
     setTotalCount((prev) => prev - 1);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
+      const session = await getBrowserSession();
       if (!session) throw new Error('Not authenticated');
 
       const response = await fetch(`/api/admin/users/${id}`, {
@@ -5,6 +5,20 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth/AuthContext';
 import Link from 'next/link';
 import { SITE_CONFIG } from '@/config/site.config';
+import { ADMIN_ROUTES, MEMBER_ROUTES } from '@/config/navigation.config';
+
+/**
+ * Where to go after sign-in: the `redirectTo` set by middleware, if it is
+ * a local admin or portal path, otherwise the dashboard
+ */
+function getRedirectTarget(): string {
+  const redirectTo = new URLSearchParams(window.location.search).get('redirectTo');
+  const isSignedInPath = redirectTo?.startsWith('/admin') || redirectTo?.startsWith(MEMBER_ROUTES.portal);
+  if (redirectTo && isSignedInPath && !redirectTo.startsWith('//')) {
+    return redirectTo;
+  }
+  return ADMIN_ROUTES.dashboard;
+}
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
@@ -23,7 +37,7 @@ export default function LoginPage() {
   // Redirect if already logged in with valid profile
   useEffect(() => {
     if (!authLoading && user && profile) {
-      router.push('/admin/dashboard');
+      router.push(getRedirectTarget());
     }
     // Don't show error immediately - profile might be loading
     // If profile is truly missing, user will be stuck at loading screen
@@ -0,0 +1,30 @@
+import type { Metadata } from 'next';
+import '../globals.css';
+import { plusJakarta, poppins } from '../fonts';
+import { rootMetadata } from '../root-metadata';
+import { Toaster } from 'sonner';
+
+export const metadata: Metadata = rootMetadata;
+
+/**
+ * Root layout for the admin dashboard and sign-in pages, which are not
+ * localized. The public site has its own root layout under [locale].
+ */
+export default function DashboardRootLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en" className="scroll-smooth">
+      <head>
+        <link rel="preconnect" href="https://images.unsplash.com" />
+        <link rel="dns-prefetch" href="https://images.unsplash.com" />
+      </head>
+      <body className={`${plusJakarta.variable} ${poppins.variable} font-sans antialiased`}>
+        {children}
+        <Toaster position="top-right" richColors />
+      </body>
+    </html>
+  );
+}
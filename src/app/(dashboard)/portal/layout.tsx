@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { LogOut } from 'lucide-react';
+import { AuthProvider, useAuth } from '@/lib/auth/AuthContext';
+import { SITE_CONFIG } from '@/config/site.config';
+import { AUTH_ROUTES } from '@/config/navigation.config';
+
+/**
+ * Shell for the member portal: any signed-in account may use it,
+ * whatever its CMS role (access is checked per route by withUserAuth)
+ */
+function PortalLayoutContent({ children }: { children: React.ReactNode }) {
+  const { user, signOut, loading } = useAuth();
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push(AUTH_ROUTES.login);
+    }
+  }, [loading, user, router]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated (triggers redirect)
+  if (!user) {
+    return null;
+  }
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push(AUTH_ROUTES.login);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="sticky top-0 z-30 h-16 bg-white border-b border-gray-200">
+        <div className="flex items-center justify-between h-full max-w-4xl mx-auto px-4 sm:px-6">
+          <Link href="/" className="text-xl font-bold text-emerald-600">
+            {SITE_CONFIG.name}
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-sm text-gray-600 hover:text-gray-900">
+              View Website
+            </Link>
+            <button
+              onClick={handleSignOut}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign Out
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
+        {children}
+      </main>
+    </div>
+  );
+}
+
+export default function PortalLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <AuthProvider>
+      <PortalLayoutContent>{children}</PortalLayoutContent>
+    </AuthProvider>
+  );
+}
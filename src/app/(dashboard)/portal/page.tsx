@@ -0,0 +1,400 @@
+'use client';
+
+import { useCallback, useEffect, useState, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Clock, Mail, Save, XCircle } from 'lucide-react';
+import {
+  confirmMemberClaim,
+  getPortalState,
+  requestMemberClaim,
+  updatePortalMember,
+  MemberPortalFormData,
+  MemberPortalState,
+} from '@/lib/api/member-portal';
+import { RichTextEditor } from '@/shared/components/RichTextEditor';
+import { FormInput } from '@/shared/components/FormInput';
+import { FormCheckbox } from '@/shared/components/FormCheckbox';
+import { MEMBER_REVIEWED_FIELDS } from '@/lib/constants/admin';
+import { MEMBER_ROUTES } from '@/config/navigation.config';
+import { MemberChangeRequest, MemberPortalRecord } from '@/types/member';
+
+/**
+ * Form values for a member record, showing pending proposed values in
+ * the reviewed fields so the member sees what they asked for
+ */
+function toFormData(member: MemberPortalRecord, changeRequest: MemberChangeRequest | null): MemberPortalFormData {
+  const proposed = changeRequest?.status === 'pending' ? changeRequest.changes : {};
+  const reviewed = (field: keyof typeof proposed, current: string | null): string =>
+    (field in proposed ? proposed[field] : current) ?? '';
+
+  return {
+    name: reviewed('name', member.name),
+    nim: reviewed('nim', member.nim),
+    email: reviewed('email', member.email),
+    batch: reviewed('batch', member.batch),
+    division: reviewed('division', member.division),
+    position: reviewed('position', member.position),
+    phone: member.phone ?? '',
+    photo: member.photo ?? '',
+    bio: member.bio ?? '',
+    interests: Array.isArray(member.interests) ? member.interests.join(', ') : '',
+    achievements: Array.isArray(member.achievements)
+      ? member.achievements.map((item) => (typeof item === 'string' ? item : item.title)).join(', ')
+      : '',
+    social_media_instagram: member.social_media?.instagram ?? '',
+    social_media_linkedin: member.social_media?.linkedin ?? '',
+    social_media_twitter: member.social_media?.twitter ?? '',
+    show_contact: member.show_contact,
+    show_social_media: member.show_social_media,
+  };
+}
+
+function ChangeRequestNotice({ changeRequest }: { changeRequest: MemberChangeRequest }) {
+  if (changeRequest.status === 'pending') {
+    return (
+      <div className="border-l-4 border-yellow-300 bg-yellow-50 rounded-r-lg px-4 py-3 text-sm">
+        <p className="flex items-center gap-2 font-medium text-gray-900">
+          <Clock className="w-4 h-4" />
+          Waiting for admin approval
+        </p>
+        <ul className="mt-2 space-y-1 text-gray-700">
+          {MEMBER_REVIEWED_FIELDS.filter(({ value }) => value in changeRequest.changes).map(({ value, label }) => (
+            <li key={value}>
+              {label}: <span className="line-through text-gray-500">{changeRequest.previous[value] || '-'}</span>
+              {' → '}
+              <span className="font-medium">{changeRequest.changes[value] || '-'}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (changeRequest.status === 'rejected') {
+    return (
+      <div className="border-l-4 border-red-300 bg-red-50 rounded-r-lg px-4 py-3 text-sm">
+        <p className="flex items-center gap-2 font-medium text-gray-900">
+          <XCircle className="w-4 h-4" />
+          Your last change request was not approved
+        </p>
+        {changeRequest.review_note && (
+          <p className="mt-2 text-gray-700 whitespace-pre-line">{changeRequest.review_note}</p>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+}
+
+export default function MemberPortalPage() {
+  const router = useRouter();
+  const [state, setState] = useState<MemberPortalState | null>(null);
+  const [formData, setFormData] = useState<MemberPortalFormData | null>(null);
+  const [claimEmail, setClaimEmail] = useState('');
+  const [claimSent, setClaimSent] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const applyState = useCallback((next: MemberPortalState) => {
+    setState(next);
+    setFormData(next.member ? toFormData(next.member, next.changeRequest) : null);
+  }, []);
+
+  useEffect(() => {
+    async function load() {
+      // Coming back from the emailed claim link
+      const token = new URLSearchParams(window.location.search).get('claim');
+      if (token) {
+        try {
+          await confirmMemberClaim(token);
+          toast.success('Your member record is now linked to your account');
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to claim the member record';
+          toast.error(message);
+        }
+        router.replace(MEMBER_ROUTES.portal);
+      }
+
+      try {
+        applyState(await getPortalState());
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to load your member record';
+        toast.error(message);
+        setState({ member: null, changeRequest: null });
+      }
+    }
+
+    load();
+  }, [applyState, router]);
+
+  async function handleClaim(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setSending(true);
+    try {
+      await requestMemberClaim(claimEmail);
+      setClaimSent(true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send the claim link';
+      toast.error(message);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!formData) return;
+
+    setSaving(true);
+    try {
+      const next = await updatePortalMember(formData);
+      applyState(next);
+      toast.success(
+        next.changeRequest?.status === 'pending'
+          ? 'Profile saved. Membership changes are waiting for approval.'
+          : 'Profile saved'
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save your member record';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!state) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  const updateField = <K extends keyof MemberPortalFormData>(field: K, value: MemberPortalFormData[K]) => {
+    setFormData((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Member Portal</h1>
+        <p className="text-gray-600 mt-1">Keep your member profile up to date</p>
+      </div>
+
+      {!state.member || !formData ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 max-w-xl">
+          <h2 className="text-lg font-semibold text-gray-900">Claim your member record</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Enter the email address registered on your member record. We&apos;ll send a verification link to it;
+            open it while signed in to link the record to this account.
+          </p>
+
+          {claimSent ? (
+            <div className="mt-6 flex items-start gap-3 border-l-4 border-green-300 bg-green-50 rounded-r-lg px-4 py-3 text-sm text-gray-700">
+              <Mail className="w-4 h-4 mt-0.5 shrink-0" />
+              <p>
+                If a member record uses <span className="font-medium">{claimEmail}</span>, a verification link is on its
+                way. The link expires in 24 hours.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleClaim} className="mt-6 space-y-4">
+              <FormInput
+                label="Member Email"
+                id="claim_email"
+                type="email"
+                value={claimEmail}
+                onChange={setClaimEmail}
+                required
+                placeholder="name@example.com"
+              />
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={sending}
+                  className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Mail className="w-4 h-4" />
+                  {sending ? 'Sending...' : 'Send Verification Link'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="space-y-6">
+            <div className="space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Membership Details</h2>
+                <p className="text-sm text-gray-600 mt-1">Changes here are applied once an admin approves them.</p>
+              </div>
+
+              {state.changeRequest && <ChangeRequestNotice changeRequest={state.changeRequest} />}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormInput
+                  label="Full Name"
+                  id="name"
+                  value={formData.name}
+                  onChange={(value) => updateField('name', value)}
+                  required
+                />
+                <FormInput
+                  label="NIM"
+                  id="nim"
+                  value={formData.nim}
+                  onChange={(value) => updateField('nim', value)}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormInput
+                  label="Email"
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(value) => updateField('email', value)}
+                  required
+                />
+                <FormInput
+                  label="Batch"
+                  id="batch"
+                  value={formData.batch}
+                  onChange={(value) => updateField('batch', value)}
+                  required
+                  placeholder="2020"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormInput
+                  label="Division"
+                  id="division"
+                  value={formData.division}
+                  onChange={(value) => updateField('division', value)}
+                  placeholder="e.g., Internal Affairs"
+                />
+                <FormInput
+                  label="Position"
+                  id="position"
+                  value={formData.position}
+                  onChange={(value) => updateField('position', value)}
+                  placeholder="e.g., Coordinator"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4 pt-6 border-t border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Profile</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormInput
+                  label="Phone Number"
+                  id="phone"
+                  value={formData.phone}
+                  onChange={(value) => updateField('phone', value)}
+                  placeholder="08123456789"
+                />
+                <FormInput
+                  label="Photo URL"
+                  id="photo"
+                  type="url"
+                  value={formData.photo}
+                  onChange={(value) => updateField('photo', value)}
+                  placeholder="https://example.com/photo.jpg"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Bio
+                </label>
+                <RichTextEditor
+                  value={formData.bio}
+                  onChange={(value) => updateField('bio', value)}
+                  placeholder="Short biography..."
+                  height="300px"
+                />
+              </div>
+
+              <FormInput
+                label="Interests"
+                id="interests"
+                value={formData.interests}
+                onChange={(value) => updateField('interests', value)}
+                placeholder="Programming, Design, Writing (comma-separated)"
+              />
+
+              <FormInput
+                label="Achievements"
+                id="achievements"
+                value={formData.achievements}
+                onChange={(value) => updateField('achievements', value)}
+                placeholder="Award 1, Award 2, Award 3 (comma-separated)"
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <FormInput
+                  label="Instagram Username"
+                  id="social_media_instagram"
+                  value={formData.social_media_instagram}
+                  onChange={(value) => updateField('social_media_instagram', value)}
+                  placeholder="username (without @)"
+                />
+                <FormInput
+                  label="LinkedIn URL"
+                  id="social_media_linkedin"
+                  type="url"
+                  value={formData.social_media_linkedin}
+                  onChange={(value) => updateField('social_media_linkedin', value)}
+                  placeholder="https://linkedin.com/in/username"
+                />
+                <FormInput
+                  label="Twitter URL"
+                  id="social_media_twitter"
+                  type="url"
+                  value={formData.social_media_twitter}
+                  onChange={(value) => updateField('social_media_twitter', value)}
+                  placeholder="https://twitter.com/username"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4 pt-6 border-t border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Public Directory</h2>
+              <FormCheckbox
+                label="Show contact details"
+                id="show_contact"
+                checked={formData.show_contact}
+                onChange={(checked) => updateField('show_contact', checked)}
+                description="Lists your email and phone number on the public members page."
+              />
+              <FormCheckbox
+                label="Show social media"
+                id="show_social_media"
+                checked={formData.show_social_media}
+                onChange={(checked) => updateField('show_social_media', checked)}
+                description="Lists your Instagram, LinkedIn and Twitter links on the public members page."
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-gray-200 flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,189 +0,0 @@
-import { Metadata } from 'next';
-import { notFound } from 'next/navigation';
-import Image from 'next/image';
-import Link from 'next/link';
-import { getArticleBySlug, getArticlesByCategory } from '@/lib/api/articles';
-import { ARTICLE_CATEGORIES } from '@/config/domain.config';
-import { MarkdownContent } from '@/shared/components/ui/MarkdownContent';
-import { Calendar, Tag, ArrowLeft, Eye } from 'lucide-react';
-import { format } from 'date-fns';
-import { id } from 'date-fns/locale';
-
-type Props = {
-  params: { slug: string };
-};
-
-export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const article = await getArticleBySlug(params.slug);
-
-  if (!article) {
-    return {
-      title: 'Artikel Tidak Ditemukan',
-    };
-  }
-
-  return {
-    title: `${article.title} - Your Organization`,
-    description: article.excerpt,
-  };
-}
-
-export default async function ArticleDetailPage({ params }: Props) {
-  const article = await getArticleBySlug(params.slug);
-
-  if (!article) {
-    notFound();
-  }
-
-  // Get related articles
-  const relatedArticles = await getArticlesByCategory(article.category);
-  const filteredRelated = relatedArticles
-    .filter((a) => a.id !== article.id)
-    .slice(0, 3);
-
-  return (
-    <div className="min-h-screen bg-gray-50">
-      {/* Back Button */}
-      <div className="bg-white border-b">
-        <div className="container-custom py-4">
-          <Link
-            href="/articles"
-            className="inline-flex items-center gap-2 text-gray-600 hover:text-primary-600 transition-colors"
-          >
-            <ArrowLeft className="w-4 h-4" />
-            Kembali ke Artikel
-          </Link>
-        </div>
-      </div>
-
-      {/* Article Header */}
-      <article className="bg-white">
-        <div className="container-custom py-12">
-          <div className="max-w-4xl mx-auto">
-            {/* Category Badge */}
-            <div className="mb-4">
-              <span className="inline-block px-4 py-2 bg-primary-100 text-primary-700 font-medium rounded-lg">
-                {ARTICLE_CATEGORIES[article.category]}
-              </span>
-            </div>
-
-            {/* Title */}
-            <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-6">
-              {article.title}
-            </h1>
-
-            {/* Meta Info */}
-            <div className="flex flex-wrap items-center gap-6 text-gray-600 mb-8 pb-8 border-b">
-              <div className="flex items-center gap-3">
-                {article.author.avatar && (
-                  <Image
-                    src={article.author.avatar}
-                    alt={article.author.name}
-                    width={48}
-                    height={48}
-                    className="rounded-full"
-                  />
-                )}
-                <div>
-                  <p className="font-medium text-gray-900">{article.author.name}</p>
-                  <p className="text-sm text-gray-500">{article.author.role}</p>
-                </div>
-              </div>
-
-              <div className="flex items-center gap-4 text-sm">
-                <div className="flex items-center gap-1">
-                  <Calendar className="w-4 h-4" />
-                  <time>
-                    {format(new Date(article.publishedAt), 'd MMMM yyyy', { locale: id })}
-                  </time>
-                </div>
-                {article.views && (
-                  <div className="flex items-center gap-1">
-                    <Eye className="w-4 h-4" />
-                    <span>{article.views} views</span>
-                  </div>
-                )}
-              </div>
-            </div>
-
-            {/* Cover Image */}
-            <div className="relative w-full aspect-video rounded-2xl overflow-hidden mb-8 bg-gray-100 border border-gray-200">
-              <Image
-                src={article.coverImage}
-                alt={article.title}
-                fill
-                sizes="(max-width: 1200px) 100vw, 1200px"
-                className="object-contain"
-                priority
-              />
-            </div>
-
-            {/* Content */}
-            <MarkdownContent content={article.content} />
-
-            {/* Tags */}
-            {article.tags.length > 0 && (
-              <div className="mt-12 pt-8 border-t">
-                <h3 className="text-sm font-medium text-gray-900 mb-4">Tags:</h3>
-                <div className="flex flex-wrap gap-2">
-                  {article.tags.map((tag) => (
-                    <span
-                      key={tag}
-                      className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-full hover:bg-gray-200 transition-colors"
-                    >
-                      <Tag className="w-3 h-3" />
-                      {tag}
-                    </span>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
-      </article>
-
-      {/* Related Articles */}
-      {filteredRelated.length > 0 && (
-        <section className="bg-gray-50 py-16">
-          <div className="container-custom">
-            <div className="max-w-4xl mx-auto">
-              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-8">
-                Artikel Terkait
-              </h2>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {filteredRelated.map((related) => (
-                  <Link
-                    key={related.id}
-                    href={`/articles/${related.slug}`}
-                    className="group bg-white rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-all"
-                  >
-                    <div className="relative h-40 overflow-hidden">
-                      <Image
-                        src={related.coverImage}
-                        alt={related.title}
-                        fill
-                        sizes="(max-width: 768px) 100vw, 33vw"
-                        className="object-cover group-hover:scale-110 transition-transform duration-300"
-                      />
-                    </div>
-                    <div className="p-4">
-                      <p className="text-xs text-primary-600 font-medium mb-2">
-                        {ARTICLE_CATEGORIES[related.category]}
-                      </p>
-                      <h3 className="font-bold text-gray-900 line-clamp-2 group-hover:text-primary-600 transition-colors">
-                        {related.title}
-                      </h3>
-                      <p className="text-sm text-gray-600 mt-2 line-clamp-2">
-                        {related.excerpt}
-                      </p>
-                    </div>
-                  </Link>
-                ))}
-              </div>
-            </div>
-          </div>
-        </section>
-      )}
-    </div>
-  );
-}
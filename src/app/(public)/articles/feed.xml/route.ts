@@ -0,0 +1,5 @@
+import { createArticleFeedHandler } from '@/lib/api/article-feed';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = createArticleFeedHandler('rss');
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getEventBySlug } from '@/lib/api/events';
+import { buildCalendar } from '@/lib/utils/ical';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { slug: string };
+
+/**
+ * Single-event ICS download ("Add to calendar")
+ * A cancelled event is sent as METHOD:CANCEL so a previously imported copy is retracted
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const event = await getEventBySlug(params.slug);
+    if (!event) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const calendar = buildCalendar([event], {
+      name: event.title,
+      method: event.status === 'cancelled' ? 'CANCEL' : 'PUBLISH',
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${event.slug}.ics"`,
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error building event calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to build event calendar' },
+      { status: 500 }
+    );
+  }
+}
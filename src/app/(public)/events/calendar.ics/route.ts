@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEvents, getEventsByCategory, EventCategory } from '@/lib/api/events';
+import { buildCalendar } from '@/lib/utils/ical';
+import { EVENT_CATEGORIES } from '@/config/domain.config';
+import { SITE_CONFIG } from '@/config/site.config';
+
+export const dynamic = 'force-dynamic';
+
+function isEventCategory(value: string): value is EventCategory {
+  return Object.prototype.hasOwnProperty.call(EVENT_CATEGORIES, value);
+}
+
+/**
+ * Subscribable ICS feed of all non-cancelled events
+ * Optional ?category= narrows the feed to one EventCategory
+ */
+export async function GET(request: NextRequest) {
+  const categoryParam = request.nextUrl.searchParams.get('category');
+  let category: EventCategory | null = null;
+
+  if (categoryParam) {
+    if (!isEventCategory(categoryParam)) {
+      return NextResponse.json(
+        { error: 'Invalid category' },
+        { status: 400 }
+      );
+    }
+    category = categoryParam;
+  }
+
+  try {
+    const events = category ? await getEventsByCategory(category) : await getEvents();
+    // Dropping cancelled events removes them from subscribed calendars on the next refresh
+    const calendar = buildCalendar(
+      events.filter((event) => event.status !== 'cancelled'),
+      { name: category ? `${SITE_CONFIG.name} - ${EVENT_CATEGORIES[category]}` : `${SITE_CONFIG.name} - Event` }
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="events${category ? `-${category}` : ''}.ics"`,
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error building events calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to build events calendar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * About Page
+ * Company information and history
+ */
+
+import { Metadata } from 'next';
+import { AboutContent } from '@/features/about/components/AboutContent';
+import { getAboutSettings } from '@/lib/api/settings';
+import { getMessages, getPageAlternates, type Locale } from '@/lib/i18n';
+
+type Props = {
+  params: { locale: Locale };
+};
+
+export function generateMetadata({ params }: Props): Metadata {
+  const m = getMessages(params.locale);
+
+  return {
+    title: m.about.metaTitle,
+    description: m.about.metaDescription,
+    alternates: getPageAlternates(params.locale, '/about'),
+  };
+}
+
+export default async function AboutPage() {
+  const aboutContent = await getAboutSettings();
+
+  return <AboutContent data={aboutContent} />;
+}
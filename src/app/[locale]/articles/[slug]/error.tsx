@@ -1,6 +1,7 @@
 'use client';
 
 import { ErrorState } from '@/shared/components/ui/ErrorState';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 export default function ArticleDetailError({
   error,
@@ -9,11 +10,13 @@ export default function ArticleDetailError({
   error: Error & { digest?: string };
   reset: () => void;
 }) {
+  const m = useMessages();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <ErrorState
-        title="Failed to load article"
-        message="We could not load this article. It may have been moved or deleted."
+        title={m.articles.detailErrorTitle}
+        message={m.articles.detailErrorMessage}
         error={error}
         onRetry={reset}
         showDetails={process.env.NODE_ENV === 'development'}
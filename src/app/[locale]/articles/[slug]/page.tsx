@@ -0,0 +1,321 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { getArticleBySlug, getRelatedArticles } from '@/lib/api/articles';
+import { getRelatedEvents } from '@/lib/api/events';
+import { getApprovedComments } from '@/lib/api/article-comments';
+import { MarkdownContent } from '@/shared/components/ui/MarkdownContent';
+import { generateSlug } from '@/lib/utils/slug';
+import { ArticleViewTracker } from '@/features/articles/components/ArticleViewTracker';
+import { ArticleComments } from '@/features/articles/components/ArticleComments';
+import { TableOfContents } from '@/features/articles/components/TableOfContents';
+import { ReadingProgress } from '@/features/articles/components/ReadingProgress';
+import { extractHeadings } from '@/lib/utils/markdown-outline';
+import { Calendar, Tag, ArrowLeft, Eye, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  LOCALE_TAGS,
+  formatMessage,
+  formatPlural,
+  getDateLocale,
+  getMessages,
+  getPageAlternates,
+  localizePath,
+  type Locale,
+} from '@/lib/i18n';
+
+/** Short articles read fine without a table of contents */
+const MIN_TOC_HEADINGS = 3;
+
+const CONTENT_ID = 'article-content';
+
+type Props = {
+  params: { locale: Locale; slug: string };
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const article = await getArticleBySlug(params.slug, params.locale);
+
+  if (!article) {
+    return {
+      title: getMessages(params.locale).articles.notFoundMeta,
+    };
+  }
+
+  return {
+    title: `${article.title} - Your Organization`,
+    description: article.excerpt,
+    alternates: getPageAlternates(params.locale, `/articles/${article.slug}`),
+  };
+}
+
+export default async function ArticleDetailPage({ params }: Props) {
+  const { locale } = params;
+  const m = getMessages(locale);
+  const dateLocale = getDateLocale(locale);
+  const article = await getArticleBySlug(params.slug, locale);
+
+  if (!article) {
+    notFound();
+  }
+
+  // Get related content and the comment thread
+  const source = { type: 'article', id: article.id } as const;
+  const [relatedArticles, relatedEvents, comments] = await Promise.all([
+    getRelatedArticles(source, 3, locale),
+    getRelatedEvents(source, 3, locale),
+    getApprovedComments(article.id),
+  ]);
+
+  const headings = extractHeadings(article.content);
+  const showToc = headings.length >= MIN_TOC_HEADINGS;
+
+  const authorDetails = (
+    <>
+      {article.author.avatar && (
+        <Image
+          src={article.author.avatar}
+          alt={article.author.name}
+          width={48}
+          height={48}
+          className="rounded-full"
+        />
+      )}
+      <div>
+        <p className="font-medium text-gray-900 group-hover:text-primary-600 transition-colors">
+          {article.author.name}
+        </p>
+        <p className="text-sm text-gray-500">{m.authors.label}</p>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ArticleViewTracker articleId={article.id} />
+      <ReadingProgress targetId={CONTENT_ID} />
+
+      {/* Back Button */}
+      <div className="bg-white border-b">
+        <div className="container-custom py-4">
+          <Link
+            href={localizePath(locale, '/articles')}
+            className="inline-flex items-center gap-2 text-gray-600 hover:text-primary-600 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {m.articles.backToList}
+          </Link>
+        </div>
+      </div>
+
+      {/* Article Header */}
+      <article className="bg-white">
+        <div className="container-custom py-12">
+          <div
+            className={
+              showToc
+                ? 'max-w-4xl mx-auto xl:max-w-6xl xl:grid xl:grid-cols-[minmax(0,1fr)_15rem] xl:gap-12'
+                : 'max-w-4xl mx-auto'
+            }
+          >
+            <div className="min-w-0">
+              {/* Category Badge */}
+              <div className="mb-4">
+                <span className="inline-block px-4 py-2 bg-primary-100 text-primary-700 font-medium rounded-lg">
+                  {m.categories.article[article.category]}
+                </span>
+              </div>
+
+              {/* Title */}
+              <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-6">
+                {article.title}
+              </h1>
+
+              {/* Meta Info */}
+              <div className="flex flex-wrap items-center gap-6 text-gray-600 mb-8 pb-8 border-b">
+                {article.author.id ? (
+                  <Link
+                    href={localizePath(locale, `/authors/${article.author.id}`)}
+                    aria-label={formatMessage(m.authors.viewProfile, { name: article.author.name })}
+                    className="group flex items-center gap-3"
+                  >
+                    {authorDetails}
+                  </Link>
+                ) : (
+                  <div className="flex items-center gap-3">{authorDetails}</div>
+                )}
+
+                <div className="flex items-center gap-4 text-sm">
+                  <div className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    <time>
+                      {format(new Date(article.publishedAt), 'd MMMM yyyy', { locale: dateLocale })}
+                    </time>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Clock className="w-4 h-4" />
+                    <span>{formatPlural(locale, m.articles.readingTime, article.readingMinutes)}</span>
+                    <span className="text-gray-400">
+                      ({formatPlural(locale, m.articles.wordCount, article.wordCount, {
+                        count: article.wordCount.toLocaleString(LOCALE_TAGS[locale]),
+                      })})
+                    </span>
+                  </div>
+                  {(article.views ?? 0) > 0 && (
+                    <div className="flex items-center gap-1">
+                      <Eye className="w-4 h-4" />
+                      <span>{formatPlural(locale, m.common.views, article.views ?? 0)}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Cover Image */}
+              <div className="relative w-full aspect-video rounded-2xl overflow-hidden mb-8 bg-gray-100 border border-gray-200">
+                <Image
+                  src={article.coverImage}
+                  alt={article.title}
+                  fill
+                  sizes="(max-width: 1200px) 100vw, 1200px"
+                  className="object-contain"
+                  priority
+                />
+              </div>
+
+              {/* Table of Contents (narrow screens) */}
+              {showToc && (
+                <TableOfContents headings={headings} variant="inline" className="mb-8 xl:hidden" />
+              )}
+
+              {/* Content */}
+              <div id={CONTENT_ID}>
+                <MarkdownContent content={article.content} />
+              </div>
+
+              {/* Tags */}
+              {article.tags.length > 0 && (
+                <div className="mt-12 pt-8 border-t">
+                  <h3 className="text-sm font-medium text-gray-900 mb-4">{m.articles.tags}</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {article.tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        href={localizePath(locale, `/tags/${generateSlug(tag)}`)}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-full hover:bg-gray-200 transition-colors"
+                      >
+                        <Tag className="w-3 h-3" />
+                        {tag}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <ArticleComments
+                articleId={article.id}
+                comments={comments}
+                commentCount={article.commentCount}
+                commentsEnabled={article.commentsEnabled}
+              />
+            </div>
+
+            {/* Table of Contents (sidebar) */}
+            {showToc && (
+              <aside className="hidden xl:block">
+                <TableOfContents headings={headings} className="sticky top-24 max-h-[calc(100vh-8rem)] overflow-y-auto" />
+              </aside>
+            )}
+          </div>
+        </div>
+      </article>
+
+      {/* Related Articles */}
+      {relatedArticles.length > 0 && (
+        <section className="bg-gray-50 py-16">
+          <div className="container-custom">
+            <div className="max-w-4xl mx-auto">
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-8">
+                {m.articles.related}
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {relatedArticles.map((related) => (
+                  <Link
+                    key={related.id}
+                    href={localizePath(locale, `/articles/${related.slug}`)}
+                    className="group bg-white rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-all"
+                  >
+                    <div className="relative h-40 overflow-hidden">
+                      <Image
+                        src={related.coverImage}
+                        alt={related.title}
+                        fill
+                        sizes="(max-width: 768px) 100vw, 33vw"
+                        className="object-cover group-hover:scale-110 transition-transform duration-300"
+                      />
+                    </div>
+                    <div className="p-4">
+                      <p className="text-xs text-primary-600 font-medium mb-2">
+                        {m.categories.article[related.category]}
+                      </p>
+                      <h3 className="font-bold text-gray-900 line-clamp-2 group-hover:text-primary-600 transition-colors">
+                        {related.title}
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2 line-clamp-2">
+                        {related.excerpt}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Related Upcoming Events */}
+      {relatedEvents.length > 0 && (
+        <section className="bg-white py-16 border-t">
+          <div className="container-custom">
+            <div className="max-w-4xl mx-auto">
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-8">
+                {m.articles.relatedEvents}
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {relatedEvents.map((event) => (
+                  <Link
+                    key={event.id}
+                    href={localizePath(locale, `/events/${event.slug}`)}
+                    className="group bg-gray-50 rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-all"
+                  >
+                    <div className="relative h-40 overflow-hidden">
+                      <Image
+                        src={event.coverImage}
+                        alt={event.title}
+                        fill
+                        sizes="(max-width: 768px) 100vw, 33vw"
+                        className="object-cover group-hover:scale-110 transition-transform duration-300"
+                      />
+                    </div>
+                    <div className="p-4">
+                      <p className="text-xs text-primary-600 font-medium mb-2">
+                        {m.categories.event[event.category]}
+                      </p>
+                      <h3 className="font-bold text-gray-900 line-clamp-2 group-hover:text-primary-600 transition-colors">
+                        {event.title}
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2 flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {format(new Date(event.startDate), 'd MMM yyyy', { locale: dateLocale })}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,26 +1,51 @@
 import { Metadata } from 'next';
 import { z } from 'zod';
 import { getPaginatedArticles, ArticleCategory } from '@/lib/api/articles';
-import { ARTICLE_CATEGORIES } from '@/config/domain.config';
 import { ArticlesGrid } from '@/features/articles/components/ArticlesGrid';
 import { SegmentedControl } from '@/shared/components/ui/SegmentedControl';
 import { Pagination } from '@/shared/components/ui/Pagination';
+import { getArticleFeedAlternates } from '@/lib/constants/feeds';
+import { formatMessage, getMessages, getPageAlternates, localizePath, type Locale } from '@/lib/i18n';
 
 // Zod schema for validating article category query parameter
 const ArticleCategorySchema = z.enum(['post', 'blog', 'opinion', 'publication', 'info']);
 
 const ITEMS_PER_PAGE = 12;
 
-export const metadata: Metadata = {
-  title: 'Articles - Your Organization',
-  description: 'Collection of articles, blog posts, opinions, publications, and latest information from Your Organization',
-};
+export async function generateMetadata({
+  params,
+  searchParams,
+}: {
+  params: { locale: Locale };
+  searchParams: { category?: string };
+}): Promise<Metadata> {
+  const validation = ArticleCategorySchema.safeParse(searchParams.category);
+  const m = getMessages(params.locale);
+
+  return {
+    title: m.articles.metaTitle,
+    description: m.articles.metaDescription,
+    // Category pages advertise their own feed in addition to the site-wide one
+    alternates: validation.success
+      ? getPageAlternates(
+          params.locale,
+          `/articles?category=${validation.data}`,
+          getArticleFeedAlternates(validation.data)
+        )
+      : getPageAlternates(params.locale, '/articles'),
+  };
+}
 
 export default async function ArticlesPage({
+  params,
   searchParams,
 }: {
+  params: { locale: Locale };
   searchParams: { category?: string; page?: string };
 }) {
+  const { locale } = params;
+  const m = getMessages(locale);
+
   // Validate and sanitize category parameter
   let validatedCategory: ArticleCategory | undefined;
   if (searchParams.category) {
@@ -34,7 +59,7 @@ export default async function ArticlesPage({
   const currentPage = Math.max(1, parseInt(searchParams.page ?? '1', 10) || 1);
 
   // Fetch paginated articles
-  const result = await getPaginatedArticles(currentPage, ITEMS_PER_PAGE, validatedCategory);
+  const result = await getPaginatedArticles(currentPage, ITEMS_PER_PAGE, validatedCategory, locale);
 
   return (
     <div className="min-h-screen bg-white">
@@ -43,21 +68,21 @@ export default async function ArticlesPage({
         <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
         <div className="container-custom relative z-10">
           <h1 className="text-6xl md:text-8xl font-bold mb-6 leading-tight">
-            Artikel
+            {m.articles.title}
           </h1>
           <p className="text-2xl text-gray-300 max-w-3xl leading-relaxed">
-            Collection of articles, blog posts, opinions, publications, and latest information
+            {m.articles.subtitle}
           </p>
         </div>
       </section>
 
       {/* Category Filter - Segmented Control */}
       <SegmentedControl
-        basePath="/articles"
+        basePath={localizePath(locale, '/articles')}
         paramName="category"
         currentValue={validatedCategory}
-        allLabel="Semua"
-        options={Object.entries(ARTICLE_CATEGORIES).map(([value, label]) => ({
+        allLabel={m.common.all}
+        options={Object.entries(m.categories.article).map(([value, label]) => ({
           value,
           label,
         }))}
@@ -67,7 +92,7 @@ export default async function ArticlesPage({
       <section className="container-custom py-16">
         {/* Results Count */}
         <p className="text-gray-600 mb-8">
-          Menampilkan {result.items.length} dari {result.totalCount} artikel
+          {formatMessage(m.articles.showing, { shown: result.items.length, total: result.totalCount })}
         </p>
 
         <ArticlesGrid articles={result.items} />
@@ -76,7 +101,7 @@ export default async function ArticlesPage({
         <Pagination
           currentPage={result.currentPage}
           totalPages={result.totalPages}
-          basePath="/articles"
+          basePath={localizePath(locale, '/articles')}
           searchParams={{ category: validatedCategory }}
         />
       </section>
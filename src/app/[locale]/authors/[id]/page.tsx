@@ -0,0 +1,100 @@
+import { Metadata } from 'next';
+import Image from 'next/image';
+import { notFound } from 'next/navigation';
+import { getAuthorById } from '@/lib/api/authors';
+import { getPaginatedArticlesByAuthor } from '@/lib/api/articles';
+import { ArticlesGrid } from '@/features/articles/components/ArticlesGrid';
+import { Pagination } from '@/shared/components/ui/Pagination';
+import { formatMessage, formatPlural, getMessages, getPageAlternates, localizePath, type Locale } from '@/lib/i18n';
+import { PenLine } from 'lucide-react';
+
+const ITEMS_PER_PAGE = 12;
+
+type Props = {
+  params: { locale: Locale; id: string };
+  searchParams: { page?: string };
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const author = await getAuthorById(params.id);
+  const m = getMessages(params.locale);
+
+  if (!author) {
+    return {
+      title: m.authors.notFoundMeta,
+    };
+  }
+
+  return {
+    title: `${author.name} - Your Organization`,
+    description: author.bio ?? formatMessage(m.authors.metaDescription, { name: author.name }),
+    alternates: getPageAlternates(params.locale, `/authors/${params.id}`),
+    openGraph: {
+      type: 'profile',
+      title: author.name,
+      images: author.avatar ? [author.avatar] : undefined,
+    },
+  };
+}
+
+export default async function AuthorPage({ params, searchParams }: Props) {
+  const { locale } = params;
+  const m = getMessages(locale);
+  const author = await getAuthorById(params.id);
+
+  if (!author) {
+    notFound();
+  }
+
+  const currentPage = Math.max(1, parseInt(searchParams.page ?? '1', 10) || 1);
+  const result = await getPaginatedArticlesByAuthor(author.id, currentPage, ITEMS_PER_PAGE, locale);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Hero Section */}
+      <section className="relative bg-gray-900 text-white py-32 overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
+        <div className="container-custom relative z-10 flex flex-col md:flex-row md:items-center gap-8">
+          {author.avatar && (
+            <Image
+              src={author.avatar}
+              alt={author.name}
+              width={160}
+              height={160}
+              className="rounded-full border-4 border-white/20 object-cover w-32 h-32 md:w-40 md:h-40"
+            />
+          )}
+          <div>
+            <p className="flex items-center gap-2 text-gray-400 mb-4">
+              <PenLine className="w-5 h-5" />
+              {m.authors.label} · {formatPlural(locale, m.authors.articleCount, result.totalCount)}
+            </p>
+            <h1 className="text-5xl md:text-7xl font-bold mb-6 leading-tight">
+              {author.name}
+            </h1>
+            {author.bio && (
+              <p className="text-xl text-gray-300 max-w-3xl leading-relaxed whitespace-pre-line">
+                {author.bio}
+              </p>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* Articles */}
+      <section className="container-custom py-16">
+        <h2 className="text-3xl font-bold text-gray-900 mb-8">
+          {formatMessage(m.authors.articlesBy, { name: author.name })}
+        </h2>
+
+        <ArticlesGrid articles={result.items} />
+
+        <Pagination
+          currentPage={result.currentPage}
+          totalPages={result.totalPages}
+          basePath={localizePath(locale, `/authors/${author.id}`)}
+        />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Contact Page
+ * Contact details and the contact form
+ */
+
+import { Metadata } from 'next';
+import { Mail, MapPin, MessageCircle, Instagram } from 'lucide-react';
+import { ContactForm } from '@/features/contact/components/ContactForm';
+import { SITE_CONFIG } from '@/config/site.config';
+import { getMessages, getPageAlternates, type Locale, type Messages } from '@/lib/i18n';
+
+type Props = {
+  params: { locale: Locale };
+};
+
+export function generateMetadata({ params }: Props): Metadata {
+  const m = getMessages(params.locale);
+
+  return {
+    title: m.contact.metaTitle,
+    description: m.contact.metaDescription,
+    alternates: getPageAlternates(params.locale, '/contact'),
+  };
+}
+
+const getContactChannels = (m: Messages) => [
+  { icon: Mail, label: m.common.email, value: SITE_CONFIG.email, href: `mailto:${SITE_CONFIG.email}` },
+  {
+    icon: MessageCircle,
+    label: 'WhatsApp',
+    value: `+${SITE_CONFIG.whatsappNumber}`,
+    href: `https://wa.me/${SITE_CONFIG.whatsappNumber}`,
+  },
+  {
+    icon: Instagram,
+    label: 'Instagram',
+    value: SITE_CONFIG.instagram,
+    href: `https://instagram.com/${SITE_CONFIG.instagram.replace('@', '')}`,
+  },
+  { icon: MapPin, label: m.contact.address, value: SITE_CONFIG.address },
+];
+
+export default function ContactPage({ params }: Props) {
+  const m = getMessages(params.locale);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Hero Section - Bold & Minimal */}
+      <section className="relative bg-gray-900 text-white py-32 overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
+        <div className="container-custom relative z-10">
+          <h1 className="text-6xl md:text-8xl font-bold mb-6 leading-tight">
+            {m.contact.title}
+          </h1>
+          <p className="text-2xl text-gray-300 max-w-3xl leading-relaxed">
+            {m.contact.subtitle}
+          </p>
+        </div>
+      </section>
+
+      <section className="container-custom py-16">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-12">
+          {/* Contact Channels */}
+          <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-gray-900">{m.contact.channels}</h2>
+            {getContactChannels(m).map(({ icon: Icon, label, value, href }) => (
+              <div key={label} className="flex items-start gap-4">
+                <div className="w-10 h-10 rounded-full bg-primary-100 text-primary-600 flex items-center justify-center flex-shrink-0">
+                  <Icon className="w-5 h-5" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{label}</p>
+                  {href ? (
+                    <a
+                      href={href}
+                      target={href.startsWith('http') ? '_blank' : undefined}
+                      rel={href.startsWith('http') ? 'noopener noreferrer' : undefined}
+                      className="font-medium text-gray-900 hover:text-primary-600 transition-colors"
+                    >
+                      {value}
+                    </a>
+                  ) : (
+                    <p className="font-medium text-gray-900">{value}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Contact Form */}
+          <div className="lg:col-span-2 relative bg-white rounded-2xl border border-gray-200 p-6 md:p-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">{m.contact.formTitle}</h2>
+            <ContactForm />
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
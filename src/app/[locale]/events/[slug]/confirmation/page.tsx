@@ -0,0 +1,143 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import QRCode from 'qrcode';
+import { getEventBySlug } from '@/lib/api/events';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { verifyCheckInToken } from '@/lib/api/checkin-token';
+import { EventRegistration } from '@/types/event';
+import { Calendar, MapPin, ArrowLeft, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatMessage, getDateLocale, getMessages, localizePath, type Locale } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: { locale: Locale; slug: string };
+  searchParams: { token?: string };
+};
+
+export function generateMetadata({ params }: Props): Metadata {
+  return {
+    title: `${getMessages(params.locale).ticket.metaTitle} - Your Organization`,
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * Load the registration a ticket token points to, scoped to the event
+ */
+async function getTicketRegistration(token: string, eventId: string): Promise<EventRegistration | null> {
+  const registrationId = verifyCheckInToken(token);
+  if (!registrationId) {
+    return null;
+  }
+
+  const { client: supabaseAdmin } = createSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return null;
+  }
+
+  const { data } = await supabaseAdmin
+    .from('event_registrations')
+    .select('*')
+    .eq('id', registrationId)
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  return data as EventRegistration | null;
+}
+
+export default async function EventTicketPage({ params, searchParams }: Props) {
+  const { locale } = params;
+  const m = getMessages(locale);
+  const dateLocale = getDateLocale(locale);
+  const event = await getEventBySlug(params.slug, locale);
+  if (!event || !searchParams.token) {
+    notFound();
+  }
+
+  const registration = await getTicketRegistration(searchParams.token, event.id);
+  if (!registration) {
+    notFound();
+  }
+
+  const qrSvg = registration.status === 'registered'
+    ? await QRCode.toString(searchParams.token, { type: 'svg', margin: 1, width: 256 })
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b">
+        <div className="container-custom py-4">
+          <Link
+            href={localizePath(locale, `/events/${event.slug}`)}
+            className="inline-flex items-center gap-2 text-gray-600 hover:text-primary-600 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {m.events.backToList}
+          </Link>
+        </div>
+      </div>
+
+      <div className="container-custom py-12">
+        <div className="max-w-md mx-auto bg-white rounded-2xl shadow-sm border border-gray-200 p-6 text-center">
+          <p className="text-sm text-gray-500 mb-1">{m.ticket.ticketFor}</p>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">{event.title}</h1>
+
+          <div className="space-y-2 text-sm text-gray-600 mb-6">
+            <p className="flex items-center justify-center gap-2">
+              <Calendar className="w-4 h-4 text-primary-600" />
+              {format(new Date(event.startDate), 'd MMMM yyyy, HH:mm', { locale: dateLocale })}
+            </p>
+            <p className="flex items-center justify-center gap-2">
+              <MapPin className="w-4 h-4 text-primary-600" />
+              {event.location.name}
+            </p>
+          </div>
+
+          <p className="font-semibold text-gray-900">{registration.name}</p>
+          <p className="text-sm text-gray-500 mb-6">{registration.email}</p>
+
+          {registration.status === 'registered' && qrSvg && (
+            <>
+              <div
+                className="mx-auto w-64 h-64 [&>svg]:w-full [&>svg]:h-full"
+                dangerouslySetInnerHTML={{ __html: qrSvg }}
+              />
+              <p className="mt-3 font-mono text-xs text-gray-400 break-all">{searchParams.token}</p>
+              {registration.checked_in_at ? (
+                <div className="flex items-center justify-center gap-2 mt-6 p-3 bg-green-50 text-green-800 rounded-lg text-sm font-medium">
+                  <CheckCircle className="w-4 h-4" />
+                  {formatMessage(m.ticket.checkedIn, {
+                    date: format(new Date(registration.checked_in_at), 'd MMM yyyy, HH:mm', { locale: dateLocale }),
+                  })}
+                </div>
+              ) : (
+                <p className="mt-6 text-sm text-gray-600">
+                  {m.ticket.instructions}
+                </p>
+              )}
+            </>
+          )}
+
+          {registration.status === 'waitlisted' && (
+            <div className="flex items-start gap-3 p-4 bg-yellow-50 text-yellow-800 rounded-lg text-left">
+              <Clock className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <p className="text-sm font-medium">
+                {m.ticket.waitlisted}
+              </p>
+            </div>
+          )}
+
+          {registration.status === 'cancelled' && (
+            <div className="flex items-start gap-3 p-4 bg-gray-100 text-gray-700 rounded-lg text-left">
+              <XCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <p className="text-sm font-medium">{m.ticket.cancelled}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { ErrorState } from '@/shared/components/ui/ErrorState';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 export default function EventDetailError({
   error,
@@ -9,11 +10,13 @@ export default function EventDetailError({
   error: Error & { digest?: string };
   reset: () => void;
 }) {
+  const m = useMessages();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <ErrorState
-        title="Failed to load event"
-        message="We could not load this event. It may have been moved or deleted."
+        title={m.events.detailErrorTitle}
+        message={m.events.detailErrorMessage}
         error={error}
         onRetry={reset}
         showDetails={process.env.NODE_ENV === 'development'}
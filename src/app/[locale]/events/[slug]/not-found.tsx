@@ -1,7 +1,14 @@
+'use client';
+
 import Link from 'next/link';
 import { CalendarX, ArrowLeft } from 'lucide-react';
+import { localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 export default function EventNotFound() {
+  const locale = useLocale();
+  const m = useMessages();
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
       <div className="text-center max-w-md">
@@ -10,26 +17,26 @@ export default function EventNotFound() {
         </div>
 
         <h1 className="text-4xl font-bold text-gray-900 mb-4">
-          Event Not Found
+          {m.events.notFoundTitle}
         </h1>
 
         <p className="text-lg text-gray-600 mb-8">
-          The event you're looking for doesn't exist or has been removed.
+          {m.events.notFoundMessage}
         </p>
 
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
           <Link
-            href="/events"
+            href={localizePath(locale, '/events')}
             className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
           >
             <ArrowLeft className="w-4 h-4" />
-            Back to Events
+            {m.events.backToList}
           </Link>
           <Link
-            href="/"
+            href={localizePath(locale, '/')}
             className="inline-flex items-center justify-center gap-2 px-6 py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
           >
-            Go Home
+            {m.common.goHome}
           </Link>
         </div>
       </div>
@@ -2,42 +2,52 @@ import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import Image from 'next/image';
 import Link from 'next/link';
-import { getEventBySlug, getEventsByCategory } from '@/lib/api/events';
-import { EVENT_CATEGORIES } from '@/config/domain.config';
-import { EVENT_STATUS_COLORS, EVENT_STATUS_LABELS } from '@/lib/constants/event';
+import { getEventBySlug, getRelatedEvents } from '@/lib/api/events';
+import { getRelatedArticles } from '@/lib/api/articles';
+import { EVENT_STATUS_COLORS } from '@/lib/constants/event';
 import { MarkdownContent } from '@/shared/components/ui/MarkdownContent';
-import { Calendar, MapPin, Users, ArrowLeft, ExternalLink, Clock, User } from 'lucide-react';
+import { generateSlug } from '@/lib/utils/slug';
+import { EventRegistrationForm } from '@/features/events/components/EventRegistrationForm';
+import { isRegistrationOpen } from '@/lib/utils/event-status';
+import { Calendar, CalendarPlus, MapPin, Users, ArrowLeft, ExternalLink, Clock, User, Tag } from 'lucide-react';
 import { format } from 'date-fns';
-import { id } from 'date-fns/locale';
+import { formatMessage, getDateLocale, getMessages, getPageAlternates, localizePath, type Locale } from '@/lib/i18n';
 
 type Props = {
-  params: { slug: string };
+  params: { locale: Locale; slug: string };
 };
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const event = await getEventBySlug(params.slug);
+  const event = await getEventBySlug(params.slug, params.locale);
 
   if (!event) {
     return {
-      title: 'Event Tidak Ditemukan',
+      title: getMessages(params.locale).events.notFoundMeta,
     };
   }
 
   return {
     title: `${event.title} - Your Organization`,
     description: event.description,
+    alternates: getPageAlternates(params.locale, `/events/${event.slug}`),
   };
 }
 
 export default async function EventDetailPage({ params }: Props) {
-  const event = await getEventBySlug(params.slug);
+  const { locale } = params;
+  const m = getMessages(locale);
+  const dateLocale = getDateLocale(locale);
+  const event = await getEventBySlug(params.slug, locale);
 
   if (!event) {
     notFound();
   }
 
-  const relatedEvents = await getEventsByCategory(event.category);
-  const filteredRelated = relatedEvents.filter((e) => e.id !== event.id).slice(0, 3);
+  const source = { type: 'event', id: event.id } as const;
+  const [relatedEvents, relatedArticles] = await Promise.all([
+    getRelatedEvents(source, 3, locale),
+    getRelatedArticles(source, 3, locale),
+  ]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -45,11 +55,11 @@ export default async function EventDetailPage({ params }: Props) {
       <div className="bg-white border-b">
         <div className="container-custom py-4">
           <Link
-            href="/events"
+            href={localizePath(locale, '/events')}
             className="inline-flex items-center gap-2 text-gray-600 hover:text-primary-600 transition-colors"
           >
             <ArrowLeft className="w-4 h-4" />
-            Kembali ke Event
+            {m.events.backToList}
           </Link>
         </div>
       </div>
@@ -64,10 +74,10 @@ export default async function EventDetailPage({ params }: Props) {
                 {/* Status & Category */}
                 <div className="flex items-center gap-2 mb-4">
                   <span className={`px-4 py-2 ${EVENT_STATUS_COLORS[event.status]} font-medium rounded-lg`}>
-                    {EVENT_STATUS_LABELS[event.status]}
+                    {m.eventStatus[event.status]}
                   </span>
                   <span className="px-4 py-2 bg-primary-100 text-primary-700 font-medium rounded-lg">
-                    {EVENT_CATEGORIES[event.category]}
+                    {m.categories.event[event.category]}
                   </span>
                 </div>
 
@@ -95,21 +105,41 @@ export default async function EventDetailPage({ params }: Props) {
                     ))}
                   </div>
                 )}
+
+                {/* Tags */}
+                {event.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-8">
+                    {event.tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        href={localizePath(locale, `/tags/${generateSlug(tag)}`)}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-full hover:bg-gray-200 transition-colors"
+                      >
+                        <Tag className="w-3 h-3" />
+                        {tag}
+                      </Link>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Sidebar */}
               <div className="lg:col-span-1">
                 <div className="bg-gray-50 rounded-2xl p-6 sticky top-24">
-                  <h3 className="font-bold text-lg mb-4">Informasi Event</h3>
+                  <h3 className="font-bold text-lg mb-4">{m.events.info}</h3>
 
                   <div className="space-y-4 mb-6">
                     <div className="flex items-start gap-3">
                       <Calendar className="w-5 h-5 text-primary-600 mt-1" />
                       <div>
-                        <p className="text-sm text-gray-500">Tanggal</p>
-                        <p className="font-medium">{format(new Date(event.startDate), 'd MMMM yyyy', { locale: id })}</p>
+                        <p className="text-sm text-gray-500">{m.events.date}</p>
+                        <p className="font-medium">{format(new Date(event.startDate), 'd MMMM yyyy', { locale: dateLocale })}</p>
                         {event.startDate !== event.endDate && (
-                          <p className="text-sm text-gray-600">s/d {format(new Date(event.endDate), 'd MMMM yyyy', { locale: id })}</p>
+                          <p className="text-sm text-gray-600">
+                            {formatMessage(m.events.until, {
+                              date: format(new Date(event.endDate), 'd MMMM yyyy', { locale: dateLocale }),
+                            })}
+                          </p>
                         )}
                       </div>
                     </div>
@@ -117,7 +147,7 @@ export default async function EventDetailPage({ params }: Props) {
                     <div className="flex items-start gap-3">
                       <MapPin className="w-5 h-5 text-primary-600 mt-1" />
                       <div>
-                        <p className="text-sm text-gray-500">Lokasi</p>
+                        <p className="text-sm text-gray-500">{m.events.location}</p>
                         <p className="font-medium">{event.location.name}</p>
                         <p className="text-sm text-gray-600">{event.location.address}</p>
                       </div>
@@ -126,7 +156,7 @@ export default async function EventDetailPage({ params }: Props) {
                     <div className="flex items-start gap-3">
                       <User className="w-5 h-5 text-primary-600 mt-1" />
                       <div>
-                        <p className="text-sm text-gray-500">Penyelenggara</p>
+                        <p className="text-sm text-gray-500">{m.events.organizer}</p>
                         <p className="font-medium">{event.organizer.name}</p>
                         <p className="text-sm text-gray-600">{event.organizer.contact}</p>
                       </div>
@@ -136,7 +166,7 @@ export default async function EventDetailPage({ params }: Props) {
                       <div className="flex items-start gap-3">
                         <Users className="w-5 h-5 text-primary-600 mt-1" />
                         <div>
-                          <p className="text-sm text-gray-500">Peserta</p>
+                          <p className="text-sm text-gray-500">{m.events.participants}</p>
                           <p className="font-medium">{event.currentParticipants || 0} / {event.maxParticipants}</p>
                           <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
                             <div
@@ -152,8 +182,8 @@ export default async function EventDetailPage({ params }: Props) {
                       <div className="flex items-start gap-3">
                         <Clock className="w-5 h-5 text-primary-600 mt-1" />
                         <div>
-                          <p className="text-sm text-gray-500">Batas Pendaftaran</p>
-                          <p className="font-medium">{format(new Date(event.registrationDeadline), 'd MMMM yyyy', { locale: id })}</p>
+                          <p className="text-sm text-gray-500">{m.events.registrationDeadline}</p>
+                          <p className="font-medium">{format(new Date(event.registrationDeadline), 'd MMMM yyyy', { locale: dateLocale })}</p>
                         </div>
                       </div>
                     )}
@@ -165,16 +195,42 @@ export default async function EventDetailPage({ params }: Props) {
                       target="_blank"
                       className="w-full inline-flex items-center justify-center gap-2 px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
                     >
-                      Daftar Sekarang
+                      {m.events.registerNow}
                       <ExternalLink className="w-4 h-4" />
                     </Link>
                   )}
 
+                  {/* Native registration when no external form is linked */}
+                  {!event.registrationUrl && event.status === 'upcoming' && (
+                    isRegistrationOpen(event) ? (
+                      <EventRegistrationForm
+                        eventId={event.id}
+                        eventSlug={event.slug}
+                        isFull={Boolean(event.maxParticipants) && (event.currentParticipants ?? 0) >= (event.maxParticipants ?? 0)}
+                      />
+                    ) : (
+                      <div className="w-full px-6 py-3 bg-gray-200 text-gray-600 text-center font-medium rounded-lg">
+                        {m.events.registrationClosed}
+                      </div>
+                    )
+                  )}
+
                   {event.status === 'completed' && (
                     <div className="w-full px-6 py-3 bg-gray-200 text-gray-600 text-center font-medium rounded-lg">
-                      Event Telah Selesai
+                      {m.events.finished}
                     </div>
                   )}
+
+                  {(event.status === 'upcoming' || event.status === 'ongoing') && (
+                    <a
+                      href={`/events/${event.slug}/calendar.ics`}
+                      download
+                      className="mt-3 w-full inline-flex items-center justify-center gap-2 px-6 py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                      <CalendarPlus className="w-4 h-4" />
+                      {m.events.addToCalendar}
+                    </a>
+                  )}
                 </div>
               </div>
             </div>
@@ -183,23 +239,23 @@ export default async function EventDetailPage({ params }: Props) {
       </div>
 
       {/* Related Events */}
-      {filteredRelated.length > 0 && (
+      {relatedEvents.length > 0 && (
         <section className="bg-gray-50 py-16">
           <div className="container-custom">
             <div className="max-w-5xl mx-auto">
-              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-8">Event Terkait</h2>
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-8">{m.events.related}</h2>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {filteredRelated.map((related) => (
-                  <Link key={related.id} href={`/events/${related.slug}`} className="group bg-white rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-all">
+                {relatedEvents.map((related) => (
+                  <Link key={related.id} href={localizePath(locale, `/events/${related.slug}`)} className="group bg-white rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-all">
                     <div className="relative h-40 overflow-hidden">
                       <Image src={related.coverImage} alt={related.title} fill className="object-cover group-hover:scale-110 transition-transform duration-300" />
                     </div>
                     <div className="p-4">
-                      <p className="text-xs text-primary-600 font-medium mb-2">{EVENT_CATEGORIES[related.category]}</p>
+                      <p className="text-xs text-primary-600 font-medium mb-2">{m.categories.event[related.category]}</p>
                       <h3 className="font-bold text-gray-900 line-clamp-2 group-hover:text-primary-600 transition-colors">{related.title}</h3>
                       <p className="text-sm text-gray-600 mt-2 flex items-center gap-1">
                         <Calendar className="w-3 h-3" />
-                        {format(new Date(related.startDate), 'd MMM yyyy', { locale: id })}
+                        {format(new Date(related.startDate), 'd MMM yyyy', { locale: dateLocale })}
                       </p>
                     </div>
                   </Link>
@@ -209,6 +265,31 @@ export default async function EventDetailPage({ params }: Props) {
           </div>
         </section>
       )}
+
+      {/* Related Articles */}
+      {relatedArticles.length > 0 && (
+        <section className="bg-white py-16 border-t">
+          <div className="container-custom">
+            <div className="max-w-5xl mx-auto">
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-8">{m.events.relatedArticles}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {relatedArticles.map((article) => (
+                  <Link key={article.id} href={localizePath(locale, `/articles/${article.slug}`)} className="group bg-gray-50 rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-all">
+                    <div className="relative h-40 overflow-hidden">
+                      <Image src={article.coverImage} alt={article.title} fill className="object-cover group-hover:scale-110 transition-transform duration-300" />
+                    </div>
+                    <div className="p-4">
+                      <p className="text-xs text-primary-600 font-medium mb-2">{m.categories.article[article.category]}</p>
+                      <h3 className="font-bold text-gray-900 line-clamp-2 group-hover:text-primary-600 transition-colors">{article.title}</h3>
+                      <p className="text-sm text-gray-600 mt-2 line-clamp-2">{article.excerpt}</p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+        </section>
+      )}
     </div>
   );
 }
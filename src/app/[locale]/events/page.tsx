@@ -0,0 +1,124 @@
+import { Metadata } from 'next';
+import { z } from 'zod';
+import { getEvents, getEventsByStatus, EventStatus } from '@/lib/api/events';
+import { EventsGrid } from '@/features/events/components/EventsGrid';
+import { SegmentedControl } from '@/shared/components/ui/SegmentedControl';
+import { EVENT_STATUS_COLORS } from '@/lib/constants/event';
+import { SITE_CONFIG } from '@/config/site.config';
+import { getMessages, getPageAlternates, localizePath, type Locale } from '@/lib/i18n';
+import { CalendarPlus } from 'lucide-react';
+
+// Zod schema for validating event status query parameter
+const EventStatusSchema = z.enum(['upcoming', 'ongoing', 'completed', 'cancelled']);
+
+// webcal:// makes calendar apps offer to subscribe instead of downloading once
+const CALENDAR_FEED_URL = `${SITE_CONFIG.url.replace(/^https?:/, 'webcal:')}/events/calendar.ics`;
+
+export function generateMetadata({
+  params,
+  searchParams,
+}: {
+  params: { locale: Locale };
+  searchParams: { status?: string };
+}): Metadata {
+  const validation = EventStatusSchema.safeParse(searchParams.status);
+  const m = getMessages(params.locale);
+
+  return {
+    title: m.events.metaTitle,
+    description: m.events.metaDescription,
+    alternates: getPageAlternates(
+      params.locale,
+      validation.success ? `/events?status=${validation.data}` : '/events'
+    ),
+  };
+}
+
+export default async function EventsPage({
+  params,
+  searchParams,
+}: {
+  params: { locale: Locale };
+  searchParams: { status?: string };
+}) {
+  const { locale } = params;
+  const m = getMessages(locale);
+
+  // Validate and sanitize status parameter
+  let validatedStatus: EventStatus | undefined;
+  if (searchParams.status) {
+    const validation = EventStatusSchema.safeParse(searchParams.status);
+    if (validation.success) {
+      validatedStatus = validation.data;
+    }
+    // If validation fails, validatedStatus remains undefined and we show all events
+  }
+
+  const events = validatedStatus
+    ? await getEventsByStatus(validatedStatus, locale)
+    : await getEvents(locale);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Hero Section - Bold & Minimal */}
+      <section className="relative bg-gray-900 text-white py-32 overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
+        <div className="container-custom relative z-10">
+          <h1 className="text-6xl md:text-8xl font-bold mb-6 leading-tight">
+            {m.events.title}
+          </h1>
+          <p className="text-2xl text-gray-300 max-w-3xl leading-relaxed">
+            {m.events.subtitle}
+          </p>
+        </div>
+      </section>
+
+      {/* Status Filter - Segmented Control */}
+      <SegmentedControl
+        basePath={localizePath(locale, '/events')}
+        paramName="status"
+        currentValue={validatedStatus}
+        allLabel={m.events.allEvents}
+        options={Object.entries(m.eventStatus).map(([value, label]) => ({
+          value,
+          label,
+        }))}
+      />
+
+      {/* Events Grid - Animated */}
+      <section className="container-custom py-16">
+        <EventsGrid events={events} statusColors={EVENT_STATUS_COLORS} statusLabels={m.eventStatus} />
+      </section>
+
+      {/* Calendar Subscription */}
+      <section className="container-custom pb-16">
+        <div className="rounded-2xl bg-gray-50 p-8">
+          <div className="flex items-center gap-3 mb-2">
+            <CalendarPlus className="w-6 h-6 text-primary-600" />
+            <h2 className="text-2xl font-bold text-gray-900">{m.events.calendarTitle}</h2>
+          </div>
+          <p className="text-gray-600 mb-6">
+            {m.events.calendarDescription}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={CALENDAR_FEED_URL}
+              className="px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              {m.events.allEvents}
+            </a>
+            {Object.entries(m.categories.event).map(([category, label]) => (
+              <a
+                key={category}
+                href={`${CALENDAR_FEED_URL}?category=${category}`}
+                className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-white transition-colors"
+              >
+                {label}
+              </a>
+            ))}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft, Calendar, Images } from 'lucide-react';
+import { getAlbumBySlug, getAlbumPhotos, toAlbumPhotos } from '@/lib/api/gallery';
+import { PhotoGallery } from '@/features/gallery/components/PhotoGallery';
+import { formatMessage, formatPlural, getDateLocale, getMessages, getPageAlternates, localizePath, type Locale } from '@/lib/i18n';
+
+type Props = {
+  params: { locale: Locale; slug: string };
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const album = await getAlbumBySlug(params.slug);
+
+  const m = getMessages(params.locale);
+
+  if (!album) {
+    return {
+      title: m.gallery.notFoundMeta,
+    };
+  }
+
+  return {
+    title: `${album.title} - ${m.gallery.metaTitle} Your Organization`,
+    description: album.description ?? formatMessage(m.gallery.photosOf, { title: album.title }),
+    alternates: getPageAlternates(params.locale, `/gallery/${album.slug}`),
+    openGraph: {
+      title: album.title,
+      description: album.description ?? undefined,
+      images: album.coverImage ? [album.coverImage] : undefined,
+    },
+  };
+}
+
+export default async function AlbumPage({ params }: Props) {
+  const { locale } = params;
+  const m = getMessages(locale);
+  const album = await getAlbumBySlug(params.slug);
+
+  if (!album) {
+    notFound();
+  }
+
+  const photos = toAlbumPhotos(await getAlbumPhotos(album.id), album.title);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Back Button */}
+      <div className="container-custom pt-8">
+        <Link
+          href={localizePath(locale, '/gallery')}
+          className="inline-flex items-center gap-2 text-gray-600 hover:text-primary-600 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {m.gallery.backToList}
+        </Link>
+      </div>
+
+      {/* Album Header */}
+      <section className="container-custom py-8">
+        <span className="inline-block px-3 py-1 mb-4 text-sm font-medium rounded-full bg-primary-100 text-primary-700">
+          {m.categories.gallery[album.category]}
+        </span>
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">{album.title}</h1>
+        <div className="flex flex-wrap items-center gap-4 text-gray-600 mb-4">
+          {album.takenAt && (
+            <div className="flex items-center gap-1">
+              <Calendar className="w-4 h-4" />
+              <time dateTime={album.takenAt}>
+                {format(new Date(album.takenAt), 'd MMMM yyyy', { locale: getDateLocale(locale) })}
+              </time>
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            <Images className="w-4 h-4" />
+            <span>{formatPlural(locale, m.gallery.photos, photos.length)}</span>
+          </div>
+        </div>
+        {album.description && (
+          <p className="text-lg text-gray-700 max-w-3xl">{album.description}</p>
+        )}
+      </section>
+
+      {/* Photos */}
+      <section className="container-custom pb-16">
+        <PhotoGallery photos={photos} />
+      </section>
+    </div>
+  );
+}
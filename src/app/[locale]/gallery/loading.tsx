@@ -0,0 +1,13 @@
+import { HeroSkeleton, EventGridSkeleton } from '@/shared/components/ui/PageSkeletons';
+
+export default function GalleryLoading() {
+  return (
+    <div className="min-h-screen bg-white">
+      <HeroSkeleton />
+
+      <section className="container-custom py-16">
+        <EventGridSkeleton />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Metadata } from 'next';
+import { getAlbums } from '@/lib/api/gallery';
+import { AlbumsGrid } from '@/features/gallery/components/AlbumsGrid';
+import { SegmentedControl } from '@/shared/components/ui/SegmentedControl';
+import { GALLERY_CATEGORIES } from '@/config/domain.config';
+import { GalleryCategory } from '@/types/gallery';
+import { getMessages, getPageAlternates, localizePath, type Locale } from '@/lib/i18n';
+
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  const m = getMessages(params.locale);
+
+  return {
+    title: `${m.gallery.metaTitle} - Your Organization`,
+    description: m.gallery.metaDescription,
+    alternates: getPageAlternates(params.locale, '/gallery'),
+  };
+}
+
+function isGalleryCategory(value: string): value is GalleryCategory {
+  return value in GALLERY_CATEGORIES;
+}
+
+export default async function GalleryPage({
+  params,
+  searchParams,
+}: {
+  params: { locale: Locale };
+  searchParams: { category?: string };
+}) {
+  const { locale } = params;
+  const m = getMessages(locale);
+
+  // Unknown categories fall back to all albums
+  const category = searchParams.category && isGalleryCategory(searchParams.category)
+    ? searchParams.category
+    : undefined;
+
+  const albums = await getAlbums(category);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Hero Section - Bold & Minimal */}
+      <section className="relative bg-gray-900 text-white py-32 overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
+        <div className="container-custom relative z-10">
+          <h1 className="text-6xl md:text-8xl font-bold mb-6 leading-tight">
+            {m.gallery.title}
+          </h1>
+          <p className="text-2xl text-gray-300 max-w-3xl leading-relaxed">
+            {m.gallery.subtitle}
+          </p>
+        </div>
+      </section>
+
+      {/* Category Filter - Segmented Control */}
+      <SegmentedControl
+        basePath={localizePath(locale, '/gallery')}
+        paramName="category"
+        currentValue={category}
+        allLabel={m.common.all}
+        options={Object.entries(m.categories.gallery).map(([value, label]) => ({
+          value,
+          label,
+        }))}
+      />
+
+      {/* Albums Grid */}
+      <section className="container-custom py-16">
+        <AlbumsGrid albums={albums} locale={locale} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import '../globals.css';
+import { plusJakarta, poppins } from '../fonts';
+import { rootMetadata } from '../root-metadata';
+import { Toaster } from 'sonner';
+import { FloatingDock } from '@/shared/components/layout/FloatingDock';
+import { Footer } from '@/shared/components/layout/Footer';
+import { LocaleProvider } from '@/lib/i18n/LocaleProvider';
+import { isLocale, LOCALES, OG_LOCALES, type Locale } from '@/lib/i18n';
+
+type Props = {
+  children: React.ReactNode;
+  params: { locale: string };
+};
+
+export function generateStaticParams(): { locale: Locale }[] {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export function generateMetadata({ params }: Omit<Props, 'children'>): Metadata {
+  const locale = isLocale(params.locale) ? params.locale : LOCALES[0];
+
+  return {
+    ...rootMetadata,
+    openGraph: {
+      ...rootMetadata.openGraph,
+      locale: OG_LOCALES[locale],
+      alternateLocale: LOCALES.filter((alternate) => alternate !== locale).map((alternate) => OG_LOCALES[alternate]),
+    },
+  };
+}
+
+/**
+ * Root layout for the public site, one tree per locale (/id, /en)
+ */
+export default function LocaleRootLayout({ children, params }: Props) {
+  if (!isLocale(params.locale)) {
+    notFound();
+  }
+
+  return (
+    <html lang={params.locale} className="scroll-smooth">
+      <head>
+        <link rel="preconnect" href="https://images.unsplash.com" />
+        <link rel="dns-prefetch" href="https://images.unsplash.com" />
+      </head>
+      <body className={`${plusJakarta.variable} ${poppins.variable} font-sans antialiased`}>
+        <LocaleProvider locale={params.locale}>
+          <main className="min-h-screen pb-32">{children}</main>
+          <FloatingDock />
+          <Footer />
+        </LocaleProvider>
+        <Toaster position="top-right" richColors />
+      </body>
+    </html>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { ErrorState } from '@/shared/components/ui/ErrorState';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 export default function LeadershipError({
   error,
@@ -9,11 +10,13 @@ export default function LeadershipError({
   error: Error & { digest?: string };
   reset: () => void;
 }) {
+  const m = useMessages();
+
   return (
     <div className="min-h-screen bg-white">
       <ErrorState
-        title="Failed to load leadership"
-        message="We couldn't load the leadership information. Please try again."
+        title={m.leadership.errorTitle}
+        message={m.leadership.errorMessage}
         error={error}
         onRetry={reset}
         showDetails={process.env.NODE_ENV === 'development'}
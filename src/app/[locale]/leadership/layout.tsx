@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import { getMessages, getPageAlternates, type Locale } from '@/lib/i18n';
+
+type Props = {
+  children: React.ReactNode;
+  params: { locale: Locale };
+};
+
+/**
+ * Metadata for the client-rendered leadership page
+ */
+export function generateMetadata({ params }: Omit<Props, 'children'>): Metadata {
+  const m = getMessages(params.locale);
+
+  return {
+    title: `${m.leadership.metaTitle} - Your Organization`,
+    description: m.leadership.metaDescription,
+    alternates: getPageAlternates(params.locale, '/leadership'),
+  };
+}
+
+export default function LeadershipLayout({ children }: Props) {
+  return children;
+}
@@ -5,6 +5,8 @@ import { User } from 'lucide-react';
 import { getActiveLeadership, type LeadershipMember } from '@/lib/api/leadership';
 import { motion, useScroll, useTransform } from 'framer-motion';
 import { useEffect, useState, useRef } from 'react';
+import { formatPlural } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 /**
  * Format position string for display
@@ -32,6 +34,8 @@ function formatDivision(division: string): string {
 const corePositions = ['ketua', 'wakil-ketua', 'sekretaris', 'bendahara'];
 
 export default function LeadershipPage() {
+  const locale = useLocale();
+  const m = useMessages();
   const [coreLeadership, setCoreLeadership] = useState<LeadershipMember[]>([]);
   const [groupedByDivision, setGroupedByDivision] = useState<Record<string, LeadershipMember[]>>({});
   const [_loading, setLoading] = useState(true);
@@ -96,7 +100,7 @@ export default function LeadershipPage() {
             transition={{ duration: 1.2, ease: [0.22, 1, 0.36, 1] }}
             className="text-5xl sm:text-7xl md:text-9xl font-black uppercase tracking-tighter mb-6"
           >
-            Leadership
+            {m.leadership.title}
           </motion.h1>
           <motion.p
             initial={{ opacity: 0, y: 30 }}
@@ -104,7 +108,7 @@ export default function LeadershipPage() {
             transition={{ duration: 0.8, delay: 0.4, ease: "easeOut" }}
             className="text-lg md:text-2xl text-gray-400 max-w-2xl mx-auto font-light tracking-wide px-4"
           >
-            The visionaries behind the movement.
+            {m.leadership.subtitle}
           </motion.p>
         </div>
       </section>
@@ -176,7 +180,9 @@ export default function LeadershipPage() {
                   {formatDivision(division)}
                 </h2>
                 <span className="text-2xl font-bold font-mono text-gray-300 mt-4 md:mt-0">
-                  {String(members.length).padStart(2, '0')} MEMBERS
+                  {formatPlural(locale, m.leadership.memberCount, members.length, {
+                    count: String(members.length).padStart(2, '0'),
+                  })}
                 </span>
               </div>
 
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import { getMessages, getPageAlternates, type Locale } from '@/lib/i18n';
+
+type Props = {
+  children: React.ReactNode;
+  params: { locale: Locale };
+};
+
+/**
+ * Metadata for the client-rendered members page
+ */
+export function generateMetadata({ params }: Omit<Props, 'children'>): Metadata {
+  const m = getMessages(params.locale);
+
+  return {
+    title: `${m.members.metaTitle} - Your Organization`,
+    description: m.members.metaDescription,
+    alternates: getPageAlternates(params.locale, '/members'),
+  };
+}
+
+export default function MembersLayout({ children }: Props) {
+  return children;
+}
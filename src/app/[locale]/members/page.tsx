@@ -1,16 +1,125 @@
 'use client';
 import Image from 'next/image';
-import { User } from 'lucide-react';
-import { getActiveMembers, getMembers, type Member } from '@/lib/api/members';
+import { Instagram, Linkedin, Mail, Phone, Twitter, User, type LucideIcon } from 'lucide-react';
+import { getMembers, type Member } from '@/lib/api/members';
 import { motion } from 'framer-motion';
 import { useEffect, useState } from 'react';
 import { SegmentedControl } from '@/shared/components/ui/SegmentedControl';
+import { formatMessage, formatRichMessage, localizePath, type Messages } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+
+interface ContactLink {
+  key: string;
+  href: string;
+  label: string;
+  icon: LucideIcon;
+}
+
+/**
+ * The URL if it is an http(s) link, so stored values can never become
+ * `javascript:` or other script-running hrefs
+ */
+function toWebHref(value: string): string | null {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Contact and social links the member opted in to showing
+ */
+function getContactLinks(member: Member, m: Messages): ContactLink[] {
+  const links: ContactLink[] = [];
+  const values = { name: member.name };
+
+  if (member.email) {
+    links.push({
+      key: 'email',
+      href: `mailto:${member.email}`,
+      label: formatMessage(m.members.email, values),
+      icon: Mail,
+    });
+  }
+  if (member.phone) {
+    links.push({
+      key: 'phone',
+      href: `tel:${member.phone.replace(/[^\d+]/g, '')}`,
+      label: formatMessage(m.members.phone, values),
+      icon: Phone,
+    });
+  }
+
+  const social = member.socialMedia;
+  const linkedin = social?.linkedin ? toWebHref(social.linkedin) : null;
+  const twitter = social?.twitter ? toWebHref(social.twitter) : null;
+  if (social?.instagram) {
+    links.push({
+      key: 'instagram',
+      href: `https://instagram.com/${social.instagram.replace(/^@/, '')}`,
+      label: formatMessage(m.members.social, { ...values, network: 'Instagram' }),
+      icon: Instagram,
+    });
+  }
+  if (linkedin) {
+    links.push({
+      key: 'linkedin',
+      href: linkedin,
+      label: formatMessage(m.members.social, { ...values, network: 'LinkedIn' }),
+      icon: Linkedin,
+    });
+  }
+  if (twitter) {
+    links.push({
+      key: 'twitter',
+      href: twitter,
+      label: formatMessage(m.members.social, { ...values, network: 'Twitter' }),
+      icon: Twitter,
+    });
+  }
+
+  return links;
+}
+
+function MemberContactLinks({ member }: { member: Member }) {
+  const m = useMessages();
+  const links = getContactLinks(member, m);
+
+  if (links.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex justify-center gap-2 mt-3">
+      {links.map((link) => {
+        const external = link.href.startsWith('http');
+        return (
+          <a
+            key={link.key}
+            href={link.href}
+            target={external ? '_blank' : undefined}
+            rel={external ? 'noopener noreferrer' : undefined}
+            aria-label={link.label}
+            title={link.label}
+            className="p-1.5 rounded-full text-gray-500 hover:text-primary-600 hover:bg-primary-50 transition-colors"
+          >
+            <link.icon className="w-4 h-4" />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
 
 export default function MembersPage({
   searchParams,
 }: {
   searchParams: { batch?: string; division?: string };
 }) {
+  const locale = useLocale();
+  const m = useMessages();
   const [members, setMembers] = useState<Member[]>([]);
   const [batches, setBatches] = useState<string[]>([]);
   const [_loading, setLoading] = useState(true);
@@ -19,7 +128,8 @@ export default function MembersPage({
   useEffect(() => {
     const fetchData = async () => {
       try {
-        let fetchedMembers = await getActiveMembers();
+        const allMembers = await getMembers();
+        let fetchedMembers = allMembers;
 
         if (batch) {
           fetchedMembers = fetchedMembers.filter((m) => m.batch === batch);
@@ -29,7 +139,6 @@ export default function MembersPage({
         }
 
         // Get unique batches
-        const allMembers = await getMembers();
         const uniqueBatches = [...new Set(allMembers.map((m) => m.batch))].sort().reverse();
 
         setMembers(fetchedMembers);
@@ -52,23 +161,23 @@ export default function MembersPage({
         <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
         <div className="container-custom relative z-10">
           <h1 className="text-6xl md:text-8xl font-bold mb-6 leading-tight">
-            Anggota
+            {m.members.title}
           </h1>
           <p className="text-2xl text-gray-300 max-w-3xl leading-relaxed">
-            List of active members of Your Organization
+            {m.members.subtitle}
           </p>
         </div>
       </section>
 
       {/* Filters - Segmented Control */}
       <SegmentedControl
-        basePath="/members"
+        basePath={localizePath(locale, '/members')}
         paramName="batch"
         currentValue={batch}
-        allLabel="Semua Angkatan"
+        allLabel={m.members.allBatches}
         options={batches.map((b) => ({
           value: b,
-          label: `Angkatan ${b}`,
+          label: formatMessage(m.members.batch, { batch: b }),
         }))}
       />
 
@@ -82,13 +191,15 @@ export default function MembersPage({
           className="mb-12"
         >
           <p className="text-xl text-gray-600">
-            Menampilkan <span className="text-3xl font-bold text-gray-900">{members.length}</span> anggota
+            {formatRichMessage(m.members.showing, {
+              count: <span className="text-3xl font-bold text-gray-900">{members.length}</span>,
+            })}
           </p>
         </motion.div>
 
         {members.length === 0 ? (
           <div className="text-center py-32">
-            <p className="text-gray-500 text-xl">Tidak ada anggota ditemukan</p>
+            <p className="text-gray-500 text-xl">{m.members.empty}</p>
           </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-6">
@@ -136,14 +247,14 @@ export default function MembersPage({
                 {/* Info - clean typography */}
                 <div className="text-center">
                   <h3 className="text-base font-bold text-gray-900 mb-1 line-clamp-2">{member.name}</h3>
-                  <p className="text-xs text-gray-600 mb-1">{member.nim}</p>
-                  <p className="text-xs text-primary-600 font-bold">Angkatan {member.batch}</p>
+                  <p className="text-xs text-primary-600 font-bold">{formatMessage(m.members.batch, { batch: member.batch })}</p>
                   {member.division && (
                     <p className="text-xs text-gray-500 mt-2 line-clamp-1">{member.division}</p>
                   )}
                   {member.position && (
                     <p className="text-xs text-gray-700 font-semibold mt-1 line-clamp-1">{member.position}</p>
                   )}
+                  <MemberContactLinks member={member} />
                 </div>
               </motion.div>
             ))}
@@ -0,0 +1,67 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { confirmNewsletterSubscription, ConfirmResult } from '@/lib/api/newsletter-subscribers';
+import { getMessages, localizePath, type Locale } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: { locale: Locale };
+  searchParams: { token?: string };
+};
+
+export function generateMetadata({ params }: Props): Metadata {
+  return {
+    title: `${getMessages(params.locale).newsletter.confirmMetaTitle} - Your Organization`,
+    robots: { index: false, follow: false },
+  };
+}
+
+async function confirm(token: string | undefined): Promise<ConfirmResult> {
+  const { client: supabaseAdmin } = createSupabaseAdmin();
+  if (!token || !supabaseAdmin) {
+    return 'invalid';
+  }
+  return confirmNewsletterSubscription(supabaseAdmin, token);
+}
+
+export default async function NewsletterConfirmPage({ params, searchParams }: Props) {
+  const m = getMessages(params.locale);
+  const result = await confirm(searchParams.token);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-24">
+        <div className="max-w-md mx-auto bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center">
+          {result === 'invalid' ? (
+            <>
+              <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">{m.newsletter.invalidTitle}</h1>
+              <p className="text-gray-600 mb-6">
+                {m.newsletter.invalidMessage}
+              </p>
+            </>
+          ) : (
+            <>
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                {result === 'confirmed' ? m.newsletter.confirmedTitle : m.newsletter.alreadyConfirmedTitle}
+              </h1>
+              <p className="text-gray-600 mb-6">
+                {m.newsletter.confirmedMessage}
+              </p>
+            </>
+          )}
+          <Link
+            href={localizePath(params.locale, '/')}
+            className="inline-flex items-center justify-center px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            {m.common.backToHome}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
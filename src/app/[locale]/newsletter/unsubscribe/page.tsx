@@ -0,0 +1,31 @@
+import { Metadata } from 'next';
+import { UnsubscribeForm } from '@/features/newsletter/components/UnsubscribeForm';
+import { getMessages, type Locale } from '@/lib/i18n';
+
+type Props = {
+  params: { locale: Locale };
+  searchParams: { token?: string };
+};
+
+export function generateMetadata({ params }: Props): Metadata {
+  return {
+    title: `${getMessages(params.locale).newsletter.unsubscribeMetaTitle} - Your Organization`,
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * Unsubscribing needs a click, so link scanners opening the
+ * emailed URL do not unsubscribe anyone
+ */
+export default function NewsletterUnsubscribePage({ searchParams }: Props) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-24">
+        <div className="max-w-md mx-auto bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center">
+          <UnsubscribeForm token={searchParams.token ?? ''} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
+import type { Metadata } from 'next';
 import dynamic from 'next/dynamic';
 import { HeroSection } from '@/features/home/components/HeroSection';
 import { getHomeSettings } from '@/lib/api/settings';
+import { getPageAlternates, type Locale } from '@/lib/i18n';
 
 const FeaturesSection = dynamic(() => import('@/features/home/components/FeaturesSection').then(mod => ({ default: mod.FeaturesSection })), {
   loading: () => <div className="h-96" />,
@@ -22,6 +24,16 @@ const CTASection = dynamic(() => import('@/features/home/components/CTASection')
   loading: () => <div className="h-64" />,
 });
 
+type Props = {
+  params: { locale: Locale };
+};
+
+export function generateMetadata({ params }: Props): Metadata {
+  return {
+    alternates: getPageAlternates(params.locale, '/'),
+  };
+}
+
 export default async function HomePage() {
   const homeContent = await getHomeSettings();
 
@@ -0,0 +1,26 @@
+'use client';
+
+import { ErrorState } from '@/shared/components/ui/ErrorState';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
+
+export default function SearchError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  const m = useMessages();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <ErrorState
+        title={m.search.errorTitle}
+        message={m.search.errorMessage}
+        error={error}
+        onRetry={reset}
+        showDetails={process.env.NODE_ENV === 'development'}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { HeroSkeleton } from '@/shared/components/ui/PageSkeletons';
+
+export default function SearchLoading() {
+  return (
+    <div className="min-h-screen bg-white">
+      <HeroSkeleton />
+
+      {/* Results Skeleton */}
+      <section className="container-custom py-16 max-w-4xl space-y-6">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <div key={i} className="space-y-3">
+            <div className="h-4 w-20 bg-gray-200 rounded animate-pulse" />
+            <div className="h-6 w-2/3 bg-gray-200 rounded animate-pulse" />
+            <div className="h-4 w-full bg-gray-200 rounded animate-pulse" />
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { searchContent, isSearchResultType, SEARCH_RESULT_TYPES } from '@/lib/api/search';
+import { HighlightedText } from '@/features/search/components/HighlightedText';
+import { SegmentedControl } from '@/shared/components/ui/SegmentedControl';
+import { Pagination } from '@/shared/components/ui/Pagination';
+import {
+  formatMessage,
+  formatRichMessage,
+  getDateLocale,
+  getMessages,
+  getPageAlternates,
+  localizePath,
+  type Locale,
+} from '@/lib/i18n';
+
+const RESULTS_PER_PAGE = 10;
+/** Longer queries are cut off before they reach the database */
+const MAX_QUERY_LENGTH = 200;
+
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  const m = getMessages(params.locale);
+
+  return {
+    title: `${m.search.metaTitle} - Your Organization`,
+    description: m.search.metaDescription,
+    alternates: getPageAlternates(params.locale, '/search'),
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SearchPage({
+  params,
+  searchParams,
+}: {
+  params: { locale: Locale };
+  searchParams: { q?: string; type?: string; page?: string };
+}) {
+  const { locale } = params;
+  const m = getMessages(locale);
+  const searchPath = localizePath(locale, '/search');
+  const query = (searchParams.q ?? '').trim().slice(0, MAX_QUERY_LENGTH);
+  const type = searchParams.type && isSearchResultType(searchParams.type) ? searchParams.type : undefined;
+  const currentPage = Math.max(1, parseInt(searchParams.page ?? '1', 10) || 1);
+
+  const response = query
+    ? await searchContent(query, { type, page: currentPage, pageSize: RESULTS_PER_PAGE })
+    : null;
+  const totalAll = response ? response.counts.article + response.counts.event + response.counts.member : 0;
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Hero Section - Bold & Minimal */}
+      <section className="relative bg-gray-900 text-white py-32 overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
+        <div className="container-custom relative z-10">
+          <h1 className="text-6xl md:text-8xl font-bold mb-10 leading-tight">
+            {m.search.title}
+          </h1>
+          <form action={searchPath} method="get" role="search" className="flex max-w-3xl gap-3">
+            {type && <input type="hidden" name="type" value={type} />}
+            <input
+              type="search"
+              name="q"
+              defaultValue={query}
+              maxLength={MAX_QUERY_LENGTH}
+              placeholder={m.search.placeholder}
+              aria-label={m.search.inputLabel}
+              className="flex-1 px-6 py-4 rounded-2xl bg-white text-gray-900 text-lg focus:outline-none focus:ring-4 focus:ring-primary-300"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center gap-2 px-6 py-4 bg-primary-600 font-semibold rounded-2xl hover:bg-primary-700 transition-colors"
+            >
+              <Search className="w-5 h-5" />
+              <span className="hidden sm:inline">{m.search.submit}</span>
+            </button>
+          </form>
+        </div>
+      </section>
+
+      {response && (
+        <>
+          {/* Type Facets - Segmented Control */}
+          <SegmentedControl
+            basePath={searchPath}
+            paramName="type"
+            currentValue={type}
+            searchParams={{ q: query }}
+            allLabel={formatMessage(m.common.allCount, { count: totalAll })}
+            options={SEARCH_RESULT_TYPES.map((value) => ({
+              value,
+              label: `${m.search.types[value]} (${response.counts[value]})`,
+            }))}
+          />
+
+          <section className="container-custom py-16 max-w-4xl">
+            {response.suggestion && (
+              <p className="mb-8 text-lg text-gray-600">
+                {m.search.didYouMean}{' '}
+                <Link
+                  href={`${searchPath}?${new URLSearchParams({ q: response.suggestion }).toString()}`}
+                  className="font-semibold text-primary-600 hover:underline"
+                >
+                  {response.suggestion}
+                </Link>
+              </p>
+            )}
+
+            <p className="mb-8 text-gray-600">
+              {formatRichMessage(m.search.results, {
+                total: <span className="font-bold text-gray-900">{response.total}</span>,
+                query,
+              })}
+            </p>
+
+            {response.results.length === 0 ? (
+              <div className="text-center py-24">
+                <p className="text-gray-500 text-xl">{m.search.empty}</p>
+              </div>
+            ) : (
+              <ul className="space-y-8">
+                {response.results.map((result) => (
+                  <li key={`${result.type}-${result.id}`}>
+                    <Link href={localizePath(locale, result.url)} className="group flex gap-5">
+                      {result.image && (
+                        <div className="relative hidden sm:block w-32 h-24 flex-shrink-0 overflow-hidden rounded-xl bg-gray-100">
+                          <Image src={result.image} alt="" fill className="object-cover" sizes="128px" />
+                        </div>
+                      )}
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-700 font-medium rounded-md">
+                            {m.search.types[result.type]}
+                          </span>
+                          {result.date && result.type !== 'member' && (
+                            <span>{format(new Date(result.date), 'd MMMM yyyy', { locale: getDateLocale(locale) })}</span>
+                          )}
+                        </div>
+                        <h2 className="text-xl font-bold text-gray-900 group-hover:text-primary-600 transition-colors">
+                          <HighlightedText text={result.title} />
+                        </h2>
+                        {result.snippet && (
+                          <p className="mt-1 text-gray-600 line-clamp-3">
+                            <HighlightedText text={result.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-12">
+              <Pagination
+                currentPage={response.currentPage}
+                totalPages={response.totalPages}
+                basePath={searchPath}
+                searchParams={{ q: query, type }}
+              />
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
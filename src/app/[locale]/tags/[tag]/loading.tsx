@@ -0,0 +1,13 @@
+import { HeroSkeleton, ArticleGridSkeleton } from '@/shared/components/ui/PageSkeletons';
+
+export default function TagLoading() {
+  return (
+    <div className="min-h-screen bg-white">
+      <HeroSkeleton />
+
+      <section className="container-custom py-16">
+        <ArticleGridSkeleton />
+      </section>
+    </div>
+  );
+}
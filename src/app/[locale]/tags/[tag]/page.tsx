@@ -0,0 +1,79 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getTagBySlug } from '@/lib/api/tags';
+import { getArticlesByTag } from '@/lib/api/articles';
+import { getEventsByTag } from '@/lib/api/events';
+import { ArticlesGrid } from '@/features/articles/components/ArticlesGrid';
+import { EventsGrid } from '@/features/events/components/EventsGrid';
+import { EVENT_STATUS_COLORS } from '@/lib/constants/event';
+import { formatMessage, getMessages, getPageAlternates, type Locale } from '@/lib/i18n';
+import { Tag } from 'lucide-react';
+
+type Props = {
+  params: { locale: Locale; tag: string };
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const tag = await getTagBySlug(params.tag);
+  const m = getMessages(params.locale);
+
+  if (!tag) {
+    return {
+      title: m.tags.notFoundMeta,
+    };
+  }
+
+  return {
+    title: `#${tag.name} - Your Organization`,
+    description: formatMessage(m.tags.metaDescription, { tag: tag.name }),
+    alternates: getPageAlternates(params.locale, `/tags/${params.tag}`),
+  };
+}
+
+export default async function TagPage({ params }: Props) {
+  const { locale } = params;
+  const m = getMessages(locale);
+  const tag = await getTagBySlug(params.tag);
+
+  if (!tag) {
+    notFound();
+  }
+
+  const [articles, events] = await Promise.all([
+    getArticlesByTag(tag.name, locale),
+    getEventsByTag(tag.name, locale),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Hero Section */}
+      <section className="relative bg-gray-900 text-white py-32 overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary-900/50 to-gray-900" />
+        <div className="container-custom relative z-10">
+          <p className="flex items-center gap-2 text-gray-400 mb-4">
+            <Tag className="w-5 h-5" />
+            {m.tags.label}
+          </p>
+          <h1 className="text-6xl md:text-8xl font-bold mb-6 leading-tight">
+            {tag.name}
+          </h1>
+          <p className="text-2xl text-gray-300 max-w-3xl leading-relaxed">
+            {formatMessage(m.tags.summary, { articles: articles.length, events: events.length })}
+          </p>
+        </div>
+      </section>
+
+      {/* Articles */}
+      <section className="container-custom py-16">
+        <h2 className="text-3xl font-bold text-gray-900 mb-8">{m.tags.articles}</h2>
+        <ArticlesGrid articles={articles} />
+      </section>
+
+      {/* Events */}
+      <section className="container-custom pb-16">
+        <h2 className="text-3xl font-bold text-gray-900 mb-8">{m.tags.events}</h2>
+        <EventsGrid events={events} statusColors={EVENT_STATUS_COLORS} statusLabels={m.eventStatus} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthContext } from '@/lib/api/admin-auth';
+import { ArticleReviewAction } from '@/types/article';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+/** Request body action → stored review action */
+const ACTIONS: Record<string, ArticleReviewAction> = {
+  submit: 'submitted',
+  approve: 'approved',
+  request_changes: 'changes_requested',
+};
+
+/** Postgres error codes raised by apply_article_review */
+const ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '22023': 400,
+};
+
+/**
+ * Kontributor may only act on (and read) their own articles
+ */
+async function canAccessArticle(
+  { supabase, user, profile }: AdminAuthContext,
+  articleId: string
+): Promise<NextResponse | null> {
+  const { data: article, error } = await supabase
+    .from('articles')
+    .select('id, author_id')
+    .eq('id', articleId)
+    .single();
+
+  if (error || !article) {
+    return NextResponse.json(
+      { error: 'Article not found' },
+      { status: 404 }
+    );
+  }
+
+  if (profile.role === 'kontributor' && article.author_id !== user.id) {
+    return NextResponse.json(
+      { error: 'Forbidden - not your article' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Get review history for an article
+export const GET = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (_request, auth, { params }) => {
+  const denied = await canAccessArticle(auth, params.id);
+  if (denied) {
+    return denied;
+  }
+
+  const { data: reviews, error } = await auth.supabase
+    .from('article_reviews')
+    .select('*')
+    .eq('article_id', params.id)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  // Attach reviewer names
+  const reviewerIds = Array.from(new Set((reviews ?? []).map((r) => r.reviewer_id).filter(Boolean)));
+  const { data: reviewers } = reviewerIds.length > 0
+    ? await auth.supabase.from('profiles').select('id, full_name, email').in('id', reviewerIds)
+    : { data: [] };
+
+  const reviewerMap = new Map((reviewers ?? []).map((r) => [r.id, r]));
+
+  return NextResponse.json({
+    reviews: (reviews ?? []).map((review) => ({
+      ...review,
+      reviewer: reviewerMap.get(review.reviewer_id) ?? null,
+    })),
+  });
+});
+
+// Submit, approve or request changes
+export const POST = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (request, auth, { params }) => {
+  const { action, comment } = await request.json();
+  const reviewAction = ACTIONS[action as string];
+
+  if (!reviewAction) {
+    return NextResponse.json(
+      { error: 'Invalid review action' },
+      { status: 400 }
+    );
+  }
+
+  // Only editors can approve or send back
+  if (reviewAction !== 'submitted' && auth.profile.role === 'kontributor') {
+    return NextResponse.json(
+      { error: 'Forbidden - admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const denied = await canAccessArticle(auth, params.id);
+  if (denied) {
+    return denied;
+  }
+
+  const { data: review, error } = await auth.supabase.rpc('apply_article_review', {
+    p_article_id: params.id,
+    p_reviewer_id: auth.user.id,
+    p_action: reviewAction,
+    p_comment: typeof comment === 'string' ? comment : null,
+  });
+
+  if (error) {
+    const status = ERROR_STATUS[error.code];
+    if (status) {
+      return NextResponse.json(
+        { error: error.message },
+        { status }
+      );
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ review });
+});
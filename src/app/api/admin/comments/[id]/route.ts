@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { commentModerationSchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+const COMMENT_COLUMNS = 'id, article_id, parent_id, author_id, author_name, author_email, body, status, spam_reasons, moderated_at, moderated_by, created_at, updated_at';
+
+// Approve, reject or re-queue a comment
+export const PATCH = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (request, { supabase, user }, { params }) => {
+  const validation = commentModerationSchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid update' },
+      { status: 400 }
+    );
+  }
+
+  const { status } = validation.data;
+  // Moderation stamps are cleared when a comment goes back to the queue
+  const isQueued = status === 'pending' || status === 'spam';
+
+  const { data: comment, error } = await supabase
+    .from('article_comments')
+    .update({
+      status,
+      moderated_at: isQueued ? null : new Date().toISOString(),
+      moderated_by: isQueued ? null : user.id,
+    })
+    .eq('id', params.id)
+    .select(COMMENT_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!comment) {
+    return NextResponse.json(
+      { error: 'Comment not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ comment });
+});
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthContext } from '@/lib/api/admin-auth';
+import { checkEventAccess } from '@/lib/api/event-access';
+import { verifyCheckInToken } from '@/lib/api/checkin-token';
+import { EventCheckInStats } from '@/types/event';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+async function getCheckInStats(auth: AdminAuthContext, eventId: string): Promise<EventCheckInStats> {
+  const [{ data: event, error: eventError }, { count: registered, error: registeredError }, { count: checkedIn, error: checkedInError }] = await Promise.all([
+    auth.supabase.from('events').select('max_participants').eq('id', eventId).single(),
+    auth.supabase
+      .from('event_registrations')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('status', 'registered'),
+    auth.supabase
+      .from('event_registrations')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('status', 'registered')
+      .not('checked_in_at', 'is', null),
+  ]);
+
+  if (eventError) throw eventError;
+  if (registeredError) throw registeredError;
+  if (checkedInError) throw checkedInError;
+
+  return {
+    checkedIn: checkedIn ?? 0,
+    registered: registered ?? 0,
+    maxParticipants: event.max_participants,
+  };
+}
+
+// Attendance counts for the check-in screen
+export const GET = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (_request, auth, { params }) => {
+  const denied = await checkEventAccess(auth, params.id);
+  if (denied) {
+    return denied;
+  }
+
+  return NextResponse.json({ stats: await getCheckInStats(auth, params.id) });
+});
+
+// Check in a ticket; each registration can be checked in once, and only for its own event
+export const POST = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (request, auth, { params }) => {
+  const denied = await checkEventAccess(auth, params.id);
+  if (denied) {
+    return denied;
+  }
+
+  const body = await request.json().catch(() => null);
+  const token = typeof body?.token === 'string' ? body.token : '';
+  const registrationId = verifyCheckInToken(token);
+
+  if (!registrationId) {
+    return NextResponse.json(
+      { error: 'Invalid ticket' },
+      { status: 400 }
+    );
+  }
+
+  const { data: existing } = await auth.supabase
+    .from('event_registrations')
+    .select('id, event_id, name, status, checked_in_at')
+    .eq('id', registrationId)
+    .maybeSingle();
+
+  if (!existing) {
+    return NextResponse.json(
+      { error: 'Registration not found' },
+      { status: 404 }
+    );
+  }
+
+  if (existing.event_id !== params.id) {
+    return NextResponse.json(
+      { error: 'Ticket belongs to another event' },
+      { status: 400 }
+    );
+  }
+
+  if (existing.status !== 'registered') {
+    return NextResponse.json(
+      { error: `${existing.name} is ${existing.status}, not registered` },
+      { status: 409 }
+    );
+  }
+
+  if (existing.checked_in_at) {
+    return NextResponse.json(
+      { error: `${existing.name} is already checked in` },
+      { status: 409 }
+    );
+  }
+
+  // Guarded update so two scanners can't check in the same ticket twice
+  const { data: registration, error } = await auth.supabase
+    .from('event_registrations')
+    .update({
+      checked_in_at: new Date().toISOString(),
+      checked_in_by: auth.user.id,
+    })
+    .eq('id', registrationId)
+    .eq('event_id', params.id)
+    .eq('status', 'registered')
+    .is('checked_in_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!registration) {
+    return NextResponse.json(
+      { error: `${existing.name} is already checked in` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({
+    registration,
+    stats: await getCheckInStats(auth, params.id),
+  });
+});
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { checkEventAccess } from '@/lib/api/event-access';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string; registrationId: string };
+
+/** Postgres error codes raised by cancel_event_registration */
+const ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '22023': 400,
+};
+
+// Cancel a registration; the next waitlisted person takes the seat
+export const POST = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (_request, auth, { params }) => {
+  const denied = await checkEventAccess(auth, params.id);
+  if (denied) {
+    return denied;
+  }
+
+  const { data: existing } = await auth.supabase
+    .from('event_registrations')
+    .select('id')
+    .eq('id', params.registrationId)
+    .eq('event_id', params.id)
+    .maybeSingle();
+
+  if (!existing) {
+    return NextResponse.json(
+      { error: 'Registration not found' },
+      { status: 404 }
+    );
+  }
+
+  const { data: registration, error } = await auth.supabase.rpc('cancel_event_registration', {
+    p_registration_id: params.registrationId,
+  });
+
+  if (error) {
+    const status = ERROR_STATUS[error.code];
+    if (status) {
+      return NextResponse.json(
+        { error: error.message },
+        { status }
+      );
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ registration });
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { checkEventAccess } from '@/lib/api/event-access';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+// List registrants for an event (registered first, then waitlist in queue order)
+export const GET = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (_request, auth, { params }) => {
+  const denied = await checkEventAccess(auth, params.id);
+  if (denied) {
+    return denied;
+  }
+
+  const { data: registrations, error } = await auth.supabase
+    .from('event_registrations')
+    .select('*')
+    .eq('event_id', params.id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return NextResponse.json({ registrations: registrations ?? [] });
+});
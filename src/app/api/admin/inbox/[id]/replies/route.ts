@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { inboxReplySchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+// Log a reply that was sent to the sender; an unopened message counts as read
+export const POST = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (request, { supabase, user, profile }, { params }) => {
+  const validation = inboxReplySchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid reply' },
+      { status: 400 }
+    );
+  }
+
+  const { data: message, error: lookupError } = await supabase
+    .from('contact_messages')
+    .select('id, status')
+    .eq('id', params.id)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  if (!message) {
+    return NextResponse.json(
+      { error: 'Message not found' },
+      { status: 404 }
+    );
+  }
+
+  const { data: reply, error } = await supabase
+    .from('contact_message_replies')
+    .insert({ message_id: params.id, author_id: user.id, body: validation.data.body })
+    .select('id, message_id, author_id, body, created_at')
+    .single();
+
+  if (error) throw error;
+
+  if (message.status === 'new') {
+    const { error: statusError } = await supabase
+      .from('contact_messages')
+      .update({ status: 'read' })
+      .eq('id', params.id);
+
+    if (statusError) throw statusError;
+  }
+
+  return NextResponse.json(
+    { reply: { ...reply, author_name: profile.full_name || profile.email } },
+    { status: 201 }
+  );
+});
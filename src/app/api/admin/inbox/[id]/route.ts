@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { inboxMessageUpdateSchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+const MESSAGE_COLUMNS = 'id, name, email, phone, subject, message, status, assigned_to, handled_at, handled_by, created_at, updated_at';
+
+interface ReplyRow {
+  id: string;
+  message_id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  author: { full_name: string | null; email: string } | null;
+}
+
+// Get a message with its reply log (oldest reply first)
+export const GET = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (_request, { supabase }, { params }) => {
+  const { data: message, error } = await supabase
+    .from('contact_messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('id', params.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!message) {
+    return NextResponse.json(
+      { error: 'Message not found' },
+      { status: 404 }
+    );
+  }
+
+  const { data: replies, error: repliesError } = await supabase
+    .from('contact_message_replies')
+    .select('id, message_id, author_id, body, created_at, author:profiles(full_name, email)')
+    .eq('message_id', params.id)
+    .order('created_at', { ascending: true });
+
+  if (repliesError) throw repliesError;
+
+  return NextResponse.json({
+    message,
+    replies: ((replies ?? []) as unknown as ReplyRow[]).map(({ author, ...reply }) => ({
+      ...reply,
+      author_name: author?.full_name || author?.email || null,
+    })),
+  });
+});
+
+// Change status and/or assignee
+export const PATCH = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (request, { supabase, user }, { params }) => {
+  const validation = inboxMessageUpdateSchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid update' },
+      { status: 400 }
+    );
+  }
+
+  const { status, assigned_to } = validation.data;
+  const changes: Record<string, unknown> = {};
+
+  if (status !== undefined) {
+    changes.status = status;
+    // Handled stamps are kept only while the message stays handled
+    changes.handled_at = status === 'handled' ? new Date().toISOString() : null;
+    changes.handled_by = status === 'handled' ? user.id : null;
+  }
+
+  if (assigned_to !== undefined) {
+    if (assigned_to) {
+      const { data: assignee } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('id', assigned_to)
+        .in('role', ['super_admin', 'admin'])
+        .maybeSingle();
+
+      if (!assignee) {
+        return NextResponse.json(
+          { error: 'Messages can only be assigned to admins' },
+          { status: 400 }
+        );
+      }
+    }
+    changes.assigned_to = assigned_to;
+  }
+
+  const { data: message, error } = await supabase
+    .from('contact_messages')
+    .update(changes)
+    .eq('id', params.id)
+    .select(MESSAGE_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!message) {
+    return NextResponse.json(
+      { error: 'Message not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ message });
+});
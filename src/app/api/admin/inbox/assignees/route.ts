@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Admins that inbox messages can be assigned to
+export const GET = withAdminAuth(['super_admin', 'admin'], async (_request, { supabase }) => {
+  const { data: assignees, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('role', ['super_admin', 'admin'])
+    .order('full_name');
+
+  if (error) throw error;
+
+  return NextResponse.json({ assignees: assignees ?? [] });
+});
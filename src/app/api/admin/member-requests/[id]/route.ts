@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { memberChangeReviewSchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+/** Request body action → stored request status */
+const ACTIONS = {
+  approve: 'approved',
+  reject: 'rejected',
+} as const;
+
+/** Postgres error codes raised by apply_member_change_request */
+const ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '22023': 400,
+  // The reviewed fields were edited after the request was made
+  '40001': 409,
+};
+
+// Approve (apply) or reject a member's change request
+export const PATCH = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (request, { supabase, user }, { params }) => {
+  const validation = memberChangeReviewSchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid review' },
+      { status: 400 }
+    );
+  }
+
+  const { data: changeRequest, error } = await supabase.rpc('apply_member_change_request', {
+    p_request_id: params.id,
+    p_reviewer_id: user.id,
+    p_action: ACTIONS[validation.data.action],
+    p_note: validation.data.note ?? null,
+  });
+
+  if (error) {
+    // The proposed NIM belongs to another member
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'Another member already uses this NIM' },
+        { status: 409 }
+      );
+    }
+    const status = ERROR_STATUS[error.code];
+    if (status) {
+      return NextResponse.json(
+        { error: error.message },
+        { status }
+      );
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ changeRequest });
+});
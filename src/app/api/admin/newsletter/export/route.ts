@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { toCsv } from '@/lib/utils/csv';
+import { NEWSLETTER_STATUSES } from '@/lib/constants/admin';
+import { NewsletterSubscriber } from '@/types/newsletter';
+
+export const dynamic = 'force-dynamic';
+
+/** PostgREST caps responses (1000 rows by default), so rows are read in batches */
+const BATCH_SIZE = 1000;
+
+const EXPORT_COLUMNS = ['email', 'status', 'created_at', 'confirmed_at', 'unsubscribed_at'] as const;
+
+type ExportRow = Pick<NewsletterSubscriber, (typeof EXPORT_COLUMNS)[number]>;
+
+// Download subscribers as CSV, optionally filtered by ?status=
+export const GET = withAdminAuth(['super_admin', 'admin'], async (request, { supabase }) => {
+  const status = request.nextUrl.searchParams.get('status');
+
+  if (status && !NEWSLETTER_STATUSES.some((option) => option.value === status)) {
+    return NextResponse.json(
+      { error: 'Invalid status' },
+      { status: 400 }
+    );
+  }
+
+  const rows: ExportRow[] = [];
+  for (let from = 0; ; from += BATCH_SIZE) {
+    let query = supabase
+      .from('newsletter_subscribers')
+      .select(EXPORT_COLUMNS.join(', '))
+      .order('created_at', { ascending: true })
+      .range(from, from + BATCH_SIZE - 1);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    rows.push(...((data ?? []) as unknown as ExportRow[]));
+    if (!data || data.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  const filename = `newsletter-subscribers${status ? `-${status}` : ''}-${date}.csv`;
+
+  return new NextResponse(toCsv([...EXPORT_COLUMNS], rows), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { checkRevisionAccess } from '@/lib/api/revision-access';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+// Restore a revision; the restored content is saved as a new revision
+export const POST = withAdminAuth<RouteParams>(['super_admin', 'admin', 'kontributor'], async (_request, auth, { params }) => {
+  const { data: source, error: sourceError } = await auth.supabase
+    .from('content_revisions')
+    .select('id, entity_type, entity_id')
+    .eq('id', params.id)
+    .single();
+
+  if (sourceError || !source) {
+    return NextResponse.json(
+      { error: 'Revision not found' },
+      { status: 404 }
+    );
+  }
+
+  const denied = await checkRevisionAccess(auth, source.entity_type, source.entity_id, { restore: true });
+  if (denied) {
+    return denied;
+  }
+
+  const { data: revision, error } = await auth.supabase.rpc('restore_content_revision', {
+    p_revision_id: params.id,
+    p_actor_id: auth.user.id,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ revision });
+});
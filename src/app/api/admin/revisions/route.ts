@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+import { checkRevisionAccess, isRevisionEntityType } from '@/lib/api/revision-access';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_REVISIONS = 50;
+
+// Get revision history for an article, event or site setting (newest first)
+export const GET = withAdminAuth(['super_admin', 'admin', 'kontributor'], async (request, auth) => {
+  const entityType = request.nextUrl.searchParams.get('entityType');
+  const entityId = request.nextUrl.searchParams.get('entityId');
+
+  if (!isRevisionEntityType(entityType) || !entityId) {
+    return NextResponse.json(
+      { error: 'entityType and entityId are required' },
+      { status: 400 }
+    );
+  }
+
+  const denied = await checkRevisionAccess(auth, entityType, entityId);
+  if (denied) {
+    return denied;
+  }
+
+  const { data: revisions, error } = await auth.supabase
+    .from('content_revisions')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_REVISIONS);
+
+  if (error) throw error;
+
+  // Attach author names
+  const authorIds = Array.from(new Set((revisions ?? []).map((r) => r.author_id).filter(Boolean)));
+  const { data: authors } = authorIds.length > 0
+    ? await auth.supabase.from('profiles').select('id, full_name, email').in('id', authorIds)
+    : { data: [] };
+
+  const authorMap = new Map((authors ?? []).map((a) => [a.id, a]));
+
+  return NextResponse.json({
+    revisions: (revisions ?? []).map((revision) => ({
+      ...revision,
+      author: authorMap.get(revision.author_id) ?? null,
+    })),
+  });
+});
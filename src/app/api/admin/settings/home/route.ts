@@ -1,86 +1,38 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
 
 export const dynamic = 'force-dynamic';
 
-export async function PUT(request: NextRequest): Promise<NextResponse> {
-  try {
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json(
-        { error: 'No authorization header' },
-        { status: 401 }
-      );
-    }
+export const PUT = withAdminAuth(['super_admin', 'admin'], async (request, { supabase, user }) => {
+  const body = await request.json();
 
-    // Create Supabase admin client
-    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
-    if (clientError || !supabaseAdmin) {
-      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
-    }
-
-    // Verify the user making the request
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin or super_admin
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || !['admin', 'super_admin'].includes(profile?.role || '')) {
-      return NextResponse.json(
-        { error: 'Forbidden - admin access required' },
-        { status: 403 }
-      );
-    }
-
-    const body = await request.json();
-
-    // Validate the structure
-    if (!body.hero || !body.features || !body.cta) {
-      return NextResponse.json(
-        { error: 'Invalid home settings structure' },
-        { status: 400 }
-      );
-    }
-
-    // Upsert settings in database (INSERT if not exists, UPDATE if exists)
-    const { error: upsertError } = await supabaseAdmin
-      .from('site_settings')
-      .upsert({
-        key: 'home',
-        content: body,
-        updated_by: user.id,
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'key'
-      });
-
-    if (upsertError) {
-      console.error('Error upserting home settings:', upsertError);
-      return NextResponse.json(
-        { error: 'Failed to save home settings' },
-        { status: 500 }
-      );
-    }
+  // Validate the structure
+  if (!body.hero || !body.features || !body.cta) {
+    return NextResponse.json(
+      { error: 'Invalid home settings structure' },
+      { status: 400 }
+    );
+  }
 
-    return NextResponse.json({ message: 'Home settings updated successfully' });
-  } catch (error) {
-    console.error('Error updating home settings:', error);
+  // Upsert settings in database (INSERT if not exists, UPDATE if exists)
+  const { error: upsertError } = await supabase
+    .from('site_settings')
+    .upsert({
+      key: 'home',
+      content: body,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'key'
+    });
+
+  if (upsertError) {
+    console.error('Error upserting home settings:', upsertError);
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { error: 'Failed to save home settings' },
       { status: 500 }
     );
   }
-}
+
+  return NextResponse.json({ message: 'Home settings updated successfully' });
+});
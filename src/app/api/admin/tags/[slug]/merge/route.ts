@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { slug: string };
+
+/** Postgres error codes raised by merge_tags */
+const ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '22023': 400,
+};
+
+// Merge this tag into another; content tagged with it gets the target tag
+export const POST = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (request, { supabase }, { params }) => {
+  const { into } = await request.json();
+
+  if (typeof into !== 'string' || !into) {
+    return NextResponse.json(
+      { error: 'Target tag is required' },
+      { status: 400 }
+    );
+  }
+
+  const { data: tag, error } = await supabase.rpc('merge_tags', {
+    p_source_slug: params.slug,
+    p_target_slug: into,
+  });
+
+  if (error) {
+    const status = ERROR_STATUS[error.code];
+    if (status) {
+      return NextResponse.json(
+        { error: error.message },
+        { status }
+      );
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ tag });
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { slug: string };
+
+/** Postgres error codes raised by rename_tag / delete_tag */
+const ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '22023': 400,
+  '23505': 409,
+};
+
+function errorResponse(error: { code: string; message: string }) {
+  const status = ERROR_STATUS[error.code];
+  if (status) {
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    );
+  }
+  throw error;
+}
+
+// Rename a tag everywhere it is used
+export const PATCH = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (request, { supabase }, { params }) => {
+  const { name } = await request.json();
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+
+  if (trimmed.length < 2 || trimmed.length > 50) {
+    return NextResponse.json(
+      { error: 'Tag name must be 2-50 characters' },
+      { status: 400 }
+    );
+  }
+
+  const { data: tag, error } = await supabase.rpc('rename_tag', {
+    p_slug: params.slug,
+    p_name: trimmed,
+  });
+
+  if (error) {
+    return errorResponse(error);
+  }
+
+  return NextResponse.json({ tag });
+});
+
+// Remove a tag from all articles and events
+export const DELETE = withAdminAuth<RouteParams>(['super_admin', 'admin'], async (_request, { supabase }, { params }) => {
+  const { error } = await supabase.rpc('delete_tag', { p_slug: params.slug });
+
+  if (error) {
+    return errorResponse(error);
+  }
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// List all tags with how many articles and events use them
+export const GET = withAdminAuth(['super_admin', 'admin', 'kontributor'], async (_request, { supabase }) => {
+  const { data: tags, error } = await supabase
+    .from('tag_usage')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+
+  return NextResponse.json({ tags: tags ?? [] });
+});
@@ -1,248 +1,99 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
+
+type RouteParams = { id: string };
 
 // Get single user
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const id = params.id;
-
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json(
-        { error: 'No authorization header' },
-        { status: 401 }
-      );
-    }
-
-    // Create Supabase client with service role
-    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
-    if (clientError || !supabaseAdmin) {
-      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
-    }
-
-    // Verify the user making the request
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is super_admin
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || profile?.role !== 'super_admin') {
-      return NextResponse.json(
-        { error: 'Forbidden - super_admin only' },
-        { status: 403 }
-      );
-    }
-
-    // Get user
-    const { data, error } = await supabaseAdmin
-      .from('profiles')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    if (error) throw error;
-
-    if (!data) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json({ user: data });
-  } catch (error) {
-    console.error('Fatal error:', error);
-    const message = error instanceof Error ? error.message : 'Internal server error';
+export const GET = withAdminAuth<RouteParams>(['super_admin'], async (_request, { supabase }, { params }) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', params.id)
+    .single();
+
+  if (error) throw error;
+
+  if (!data) {
     return NextResponse.json(
-      { error: message },
-      { status: 500 }
+      { error: 'User not found' },
+      { status: 404 }
     );
   }
-}
+
+  return NextResponse.json({ user: data });
+});
 
 // Update user
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const id = params.id;
-
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json(
-        { error: 'No authorization header' },
-        { status: 401 }
-      );
-    }
-
-    // Create Supabase client with service role
-    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
-    if (clientError || !supabaseAdmin) {
-      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
-    }
-
-    // Verify the user making the request
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is super_admin
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || profile?.role !== 'super_admin') {
-      return NextResponse.json(
-        { error: 'Forbidden - super_admin only' },
-        { status: 403 }
-      );
-    }
-
-    // Prevent updating own role
-    if (id === user.id) {
-      return NextResponse.json(
-        { error: 'Cannot change your own role' },
-        { status: 403 }
-      );
-    }
-
-    // Get request body
-    const { full_name, role, avatar_url } = await request.json();
-
-    if (!full_name || !role) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      );
-    }
-
-    // Validate role
-    const validRoles = ['super_admin', 'admin', 'kontributor'];
-    if (!validRoles.includes(role)) {
-      return NextResponse.json(
-        { error: 'Invalid role' },
-        { status: 400 }
-      );
-    }
-
-    // Update profile
-    const { error: updateError } = await supabaseAdmin
-      .from('profiles')
-      .update({
-        full_name,
-        role,
-        avatar_url: avatar_url || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id);
-
-    if (updateError) throw updateError;
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Fatal error:', error);
-    const message = error instanceof Error ? error.message : 'Internal server error';
+export const PATCH = withAdminAuth<RouteParams>(['super_admin'], async (request, { supabase, user }, { params }) => {
+  const id = params.id;
+
+  // Prevent updating own role
+  if (id === user.id) {
     return NextResponse.json(
-      { error: message },
-      { status: 500 }
+      { error: 'Cannot change your own role' },
+      { status: 403 }
     );
   }
-}
+
+  // Get request body
+  const { full_name, role, avatar_url, bio } = await request.json();
+
+  if (!full_name || !role) {
+    return NextResponse.json(
+      { error: 'Missing required fields' },
+      { status: 400 }
+    );
+  }
+
+  // Validate role
+  const validRoles = ['super_admin', 'admin', 'kontributor'];
+  if (!validRoles.includes(role)) {
+    return NextResponse.json(
+      { error: 'Invalid role' },
+      { status: 400 }
+    );
+  }
+
+  if (bio && (typeof bio !== 'string' || bio.length > 1000)) {
+    return NextResponse.json(
+      { error: 'Bio must be at most 1000 characters' },
+      { status: 400 }
+    );
+  }
+
+  // Update profile
+  const { error: updateError } = await supabase
+    .from('profiles')
+    .update({
+      full_name,
+      role,
+      avatar_url: avatar_url || null,
+      bio: bio?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (updateError) throw updateError;
+
+  return NextResponse.json({ success: true });
+});
 
 // Delete user
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const id = params.id;
-
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json(
-        { error: 'No authorization header' },
-        { status: 401 }
-      );
-    }
-
-    // Create Supabase client with service role
-    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
-    if (clientError || !supabaseAdmin) {
-      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
-    }
-
-    // Verify the user making the request
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is super_admin
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || profile?.role !== 'super_admin') {
-      return NextResponse.json(
-        { error: 'Forbidden - super_admin only' },
-        { status: 403 }
-      );
-    }
-
-    // Prevent deleting own account
-    if (id === user.id) {
-      return NextResponse.json(
-        { error: 'Cannot delete your own account' },
-        { status: 403 }
-      );
-    }
-
-    // Delete user (profile will be deleted via CASCADE)
-    const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(id);
-
-    if (deleteError) throw deleteError;
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Fatal error:', error);
-    const message = error instanceof Error ? error.message : 'Internal server error';
+export const DELETE = withAdminAuth<RouteParams>(['super_admin'], async (_request, { supabase, user }, { params }) => {
+  const id = params.id;
+
+  // Prevent deleting own account
+  if (id === user.id) {
     return NextResponse.json(
-      { error: message },
-      { status: 500 }
+      { error: 'Cannot delete your own account' },
+      { status: 403 }
     );
   }
-}
+
+  // Delete user (profile will be deleted via CASCADE)
+  const { error: deleteError } = await supabase.auth.admin.deleteUser(id);
+
+  if (deleteError) throw deleteError;
+
+  return NextResponse.json({ success: true });
+});
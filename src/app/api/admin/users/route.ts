@@ -1,92 +1,43 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api/admin-auth';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
-  try {
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json(
-        { error: 'No authorization header' },
-        { status: 401 }
-      );
-    }
-
-    // Create Supabase client with service role (bypasses RLS)
-    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
-    if (clientError || !supabaseAdmin) {
-      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
-    }
-
-    // Verify the user making the request
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is super_admin
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || profile?.role !== 'super_admin') {
-      return NextResponse.json(
-        { error: 'Forbidden - super_admin only' },
-        { status: 403 }
-      );
-    }
-
-    // Get query params for filtering and pagination
-    const searchParams = request.nextUrl.searchParams;
-    const searchQuery = searchParams.get('search') || '';
-    const roleFilter = searchParams.get('role') || 'all';
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '20');
-
-    // Build query
-    let query = supabaseAdmin
-      .from('profiles')
-      .select('*', { count: 'exact' })
-      .order('created_at', { ascending: false });
-
-    // Apply search filter
-    if (searchQuery) {
-      query = query.or(`email.ilike.%${searchQuery}%,full_name.ilike.%${searchQuery}%`);
-    }
+export const GET = withAdminAuth(['super_admin'], async (request, { supabase }) => {
+  // Get query params for filtering and pagination
+  const searchParams = request.nextUrl.searchParams;
+  const searchQuery = searchParams.get('search') || '';
+  const roleFilter = searchParams.get('role') || 'all';
+  const page = parseInt(searchParams.get('page') || '1');
+  const limit = parseInt(searchParams.get('limit') || '20');
+
+  // Build query
+  let query = supabase
+    .from('profiles')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false });
+
+  // Apply search filter
+  if (searchQuery) {
+    query = query.or(`email.ilike.%${searchQuery}%,full_name.ilike.%${searchQuery}%`);
+  }
 
-    // Apply role filter
-    if (roleFilter !== 'all') {
-      query = query.eq('role', roleFilter);
-    }
+  // Apply role filter
+  if (roleFilter !== 'all') {
+    query = query.eq('role', roleFilter);
+  }
 
-    // Apply pagination
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
-    query = query.range(from, to);
+  // Apply pagination
+  const from = (page - 1) * limit;
+  const to = from + limit - 1;
+  query = query.range(from, to);
 
-    const { data, error, count } = await query;
+  const { data, error, count } = await query;
 
-    if (error) throw error;
+  if (error) throw error;
 
-    return NextResponse.json({
-      users: data || [],
-      totalCount: count || 0,
-    });
-  } catch (error) {
-    console.error('Fatal error:', error);
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    return NextResponse.json(
-      { error: message },
-      { status: 500 }
-    );
-  }
-}
+  return NextResponse.json({
+    users: data || [],
+    totalCount: count || 0,
+  });
+});
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { requireRole } from '@/lib/api/admin-auth';
+import { commentSchema, CommentFormData } from '@/infrastructure/validators/schemas';
+import { getClientIp, hashSender } from '@/lib/utils/client-ip';
+import { detectCommentSpam } from '@/lib/utils/comment-spam';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Submissions faster than this after the form was shown are treated as bots */
+const MIN_FILL_SECONDS = 3;
+
+/** Comments accepted per sender (hashed IP) within the rate limit window */
+const MAX_COMMENTS_PER_WINDOW = 5;
+const RATE_LIMIT_WINDOW_MINUTES = 15;
+
+/**
+ * Submit a comment or reply on a published article (public)
+ * Signed-in users comment under their profile; admins skip the queue.
+ * Honeypot and too-fast submissions get a normal success response but
+ * are dropped, and flagged comments are held as spam without telling
+ * the sender.
+ */
+export async function POST(request: NextRequest, { params }: { params: RouteParams }): Promise<NextResponse> {
+  try {
+    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
+    if (clientError || !supabaseAdmin) {
+      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
+    }
+
+    // Anything but a UUID would make the lookups fail with a cast error (500)
+    if (!UUID_PATTERN.test(params.id)) {
+      return NextResponse.json(
+        { error: 'Article not found', code: 'articleNotFound' },
+        { status: 404 }
+      );
+    }
+
+    const { website, startedAt, parentId, ...fields } = await request.json();
+
+    if (parentId && (typeof parentId !== 'string' || !UUID_PATTERN.test(parentId))) {
+      return NextResponse.json(
+        { error: 'Parent comment not found', code: 'parentNotFound' },
+        { status: 400 }
+      );
+    }
+
+    // Guests identify themselves; signed-in users comment as their profile
+    const { context: author } = await requireRole(request, ['super_admin', 'admin', 'kontributor']);
+    const validation = author
+      ? commentSchema.pick({ body: true }).safeParse(fields)
+      : commentSchema.safeParse(fields);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid comment data', code: 'invalidRequest', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const elapsedMs = Date.now() - Number(startedAt);
+    if (website || !Number.isFinite(elapsedMs) || elapsedMs < MIN_FILL_SECONDS * 1000) {
+      return NextResponse.json({ status: 'pending' }, { status: 201 });
+    }
+
+    const { data: article, error: articleError } = await supabaseAdmin
+      .from('articles')
+      .select('id, comments_enabled')
+      .eq('id', params.id)
+      .eq('status', 'published')
+      .lte('published_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (articleError) throw articleError;
+
+    if (!article) {
+      return NextResponse.json(
+        { error: 'Article not found', code: 'articleNotFound' },
+        { status: 404 }
+      );
+    }
+
+    if (!article.comments_enabled) {
+      return NextResponse.json(
+        { error: 'Comments are closed for this article', code: 'commentsClosed' },
+        { status: 403 }
+      );
+    }
+
+    if (parentId) {
+      const { data: parent, error: parentError } = await supabaseAdmin
+        .from('article_comments')
+        .select('id')
+        .eq('id', parentId)
+        .eq('article_id', article.id)
+        .eq('status', 'approved')
+        .maybeSingle();
+
+      if (parentError) throw parentError;
+
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Parent comment not found', code: 'parentNotFound' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const ip = getClientIp(request);
+    const senderHash = hashSender('comment', ip);
+
+    // Without a known IP all senders would share one bucket, so only the
+    // spam checks apply
+    if (ip !== 'unknown') {
+      const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+      const { count, error: countError } = await supabaseAdmin
+        .from('article_comments')
+        .select('id', { count: 'exact', head: true })
+        .eq('sender_hash', senderHash)
+        .gte('created_at', windowStart);
+
+      if (countError) throw countError;
+
+      if ((count ?? 0) >= MAX_COMMENTS_PER_WINDOW) {
+        return NextResponse.json(
+          { error: 'Too many comments sent', code: 'tooManyComments' },
+          { status: 429 }
+        );
+      }
+    }
+
+    const { body } = validation.data;
+    const { name: authorName, email: authorEmail } = author
+      ? { name: author.profile.full_name || author.profile.email, email: author.profile.email }
+      : (validation.data as CommentFormData);
+
+    const spamReasons = author ? [] : detectCommentSpam({ authorName, body });
+
+    // The same text from the same sender again is a repost, not a new comment
+    if (spamReasons.length === 0) {
+      const { count: duplicates, error: duplicateError } = await supabaseAdmin
+        .from('article_comments')
+        .select('id', { count: 'exact', head: true })
+        .eq('sender_hash', senderHash)
+        .eq('body', body);
+
+      if (duplicateError) throw duplicateError;
+      if ((duplicates ?? 0) > 0) {
+        spamReasons.push('duplicate');
+      }
+    }
+
+    const isAdmin = author?.profile.role === 'super_admin' || author?.profile.role === 'admin';
+    const status = spamReasons.length > 0 ? 'spam' : isAdmin ? 'approved' : 'pending';
+
+    const { error } = await supabaseAdmin
+      .from('article_comments')
+      .insert({
+        article_id: article.id,
+        parent_id: parentId || null,
+        author_id: author?.profile.id ?? null,
+        author_name: authorName,
+        author_email: authorEmail,
+        body,
+        status,
+        spam_reasons: spamReasons,
+        sender_hash: senderHash,
+        user_agent: request.headers.get('user-agent')?.slice(0, 500) ?? null,
+        moderated_at: status === 'approved' ? new Date().toISOString() : null,
+        moderated_by: status === 'approved' ? author?.profile.id ?? null : null,
+      });
+
+    if (error) throw error;
+
+    // Spam is reported as pending so the heuristics are not revealed
+    return NextResponse.json({ status: status === 'approved' ? 'approved' : 'pending' }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/articles/[id]/comments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
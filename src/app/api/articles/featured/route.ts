@@ -1,11 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/lib/supabase/database.types';
+import { DEFAULT_LOCALE } from '@/config/i18n.config';
+import { isLocale, localizeContent } from '@/lib/i18n';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const requestedLocale = request.nextUrl.searchParams.get('locale');
+    const locale = isLocale(requestedLocale) ? requestedLocale : DEFAULT_LOCALE;
+
     // Create a fresh client for this request to bypass any shared instance caching
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -22,6 +27,7 @@ export async function GET() {
       .select('*')
       .eq('featured', true)
       .eq('status', 'published')
+      .lte('published_at', new Date().toISOString())
       .order('published_at', { ascending: false })
       .limit(3)
       .returns<any[]>();
@@ -33,22 +39,25 @@ export async function GET() {
     // Transform raw data to match frontend expectations (handling camelCase)
     const transformedArticles = articles.map(raw => ({
       id: raw.id,
-      title: raw.title,
       slug: raw.slug,
-      excerpt: raw.excerpt,
-      content: raw.content,
+      ...localizeContent(
+        { title: raw.title, excerpt: raw.excerpt, content: raw.content },
+        raw.translations,
+        locale
+      ),
       category: raw.category,
       coverImage: raw.cover_image,
       tags: raw.tags || [],
       featured: raw.featured,
       status: raw.status,
       author: {
+        id: raw.author_id || null,
         name: raw.author?.name || 'Unknown',
-        role: raw.author?.email || '',
-        avatar: undefined,
+        avatar: raw.author?.avatar_url || undefined,
       },
       publishedAt: raw.published_at,
       updatedAt: raw.updated_at,
+      views: raw.views ?? 0,
     }));
 
     return NextResponse.json(transformedArticles);
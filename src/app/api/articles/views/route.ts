@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, randomUUID } from 'crypto';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { isBotRequest } from '@/lib/utils/bot-detection';
+import { getClientIp, hashSender } from '@/lib/utils/client-ip';
+
+export const dynamic = 'force-dynamic';
+
+/** Cookie identifying a browser for view dedupe (no personal data) */
+const VISITOR_COOKIE = 'kemafar-vid';
+
+/** A visitor is counted at most once per article within this window */
+const VIEW_WINDOW_MINUTES = 30;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Record a view for a published article
+ * Called once per page load by ArticleViewTracker
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
+    if (clientError || !supabaseAdmin) {
+      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
+    }
+
+    const { articleId } = await request.json();
+
+    if (typeof articleId !== 'string' || !UUID_PATTERN.test(articleId)) {
+      return NextResponse.json(
+        { error: 'Invalid articleId' },
+        { status: 400 }
+      );
+    }
+
+    // Crawlers and prefetches are acknowledged but never counted
+    if (isBotRequest(request.headers)) {
+      return NextResponse.json({ counted: false });
+    }
+
+    const existingVisitorId = request.cookies.get(VISITOR_COOKIE)?.value;
+    const visitorId = existingVisitorId ?? randomUUID();
+    const visitorHash = createHash('sha256').update(visitorId).digest('hex');
+    // Dropping the cookie does not earn a fresh view from the same
+    // browser. The IP is paired with the user agent so readers sharing
+    // an address (campus or office NAT) are still counted separately.
+    const ip = getClientIp(request);
+    const userAgent = request.headers.get('user-agent') ?? '';
+    const ipHash = ip === 'unknown' ? null : hashSender('article-view', `${ip}|${userAgent}`);
+
+    const { data: counted, error } = await supabaseAdmin.rpc('record_article_view', {
+      p_article_id: articleId,
+      p_visitor_hash: visitorHash,
+      p_ip_hash: ipHash,
+      p_window_minutes: VIEW_WINDOW_MINUTES,
+    });
+
+    if (error) {
+      console.error('Error recording article view:', error);
+      return NextResponse.json(
+        { error: 'Failed to record view' },
+        { status: 500 }
+      );
+    }
+
+    const response = NextResponse.json({ counted: Boolean(counted) });
+
+    if (!existingVisitorId) {
+      response.cookies.set(VISITOR_COOKIE, visitorId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: 60 * 60 * 24 * 365,
+      });
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/articles/views:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServerClient } from '@/lib/supabase/ssr';
+import type { BrowserSession } from '@/lib/supabase/browser-session';
+import type { Database } from '@/lib/supabase/database.types';
+
+export const dynamic = 'force-dynamic';
+
+/** Tokens must never be cached by the browser or a proxy */
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+/**
+ * The access token the browser may hold, refreshing the HTTP-only
+ * session cookies first when it is about to expire
+ */
+async function getBrowserSession(supabase: SupabaseClient<Database>): Promise<BrowserSession | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.expires_at) {
+    return null;
+  }
+
+  // Cookies are not trusted until Supabase verifies the token
+  const { data: { user }, error } = await supabase.auth.getUser(session.access_token);
+  if (error || !user) {
+    return null;
+  }
+
+  return { access_token: session.access_token, expires_at: session.expires_at, user };
+}
+
+/**
+ * Current access token for the browser client (null when signed out)
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const session = await getBrowserSession(createSupabaseServerClient());
+    return NextResponse.json({ session }, { headers: NO_STORE });
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign in with email and password into HTTP-only cookies
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseServerClient();
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error || !data.session?.expires_at) {
+      return NextResponse.json(
+        { error: error?.message ?? 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const session: BrowserSession = {
+      access_token: data.session.access_token,
+      expires_at: data.session.expires_at,
+      user: data.user,
+    };
+
+    return NextResponse.json({ session }, { headers: NO_STORE });
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Clear the session cookies (sign-out)
+ */
+export async function DELETE(): Promise<NextResponse> {
+  try {
+    const supabase = createSupabaseServerClient();
+    await supabase.auth.signOut({ scope: 'local' });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { contactSchema } from '@/infrastructure/validators/schemas';
+import { getClientIp, hashSender } from '@/lib/utils/client-ip';
+
+export const dynamic = 'force-dynamic';
+
+/** Submissions faster than this after the form was shown are treated as bots */
+const MIN_FILL_SECONDS = 3;
+
+/** Messages accepted per sender (hashed IP) within the rate limit window */
+const MAX_MESSAGES_PER_WINDOW = 5;
+const RATE_LIMIT_WINDOW_MINUTES = 60;
+
+/**
+ * Submit a contact message (public)
+ * Honeypot and too-fast submissions get a normal success response but
+ * are dropped, so bots learn nothing from the reply.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
+    if (clientError || !supabaseAdmin) {
+      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
+    }
+
+    const { website, startedAt, ...fields } = await request.json();
+
+    const validation = contactSchema.safeParse(fields);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid message data', code: 'invalidRequest', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const elapsedMs = Date.now() - Number(startedAt);
+    if (website || !Number.isFinite(elapsedMs) || elapsedMs < MIN_FILL_SECONDS * 1000) {
+      return NextResponse.json({ success: true }, { status: 201 });
+    }
+
+    const ip = getClientIp(request);
+    const senderHash = hashSender('contact', ip);
+
+    // Without a known IP all senders would share one bucket, so only the
+    // spam checks above apply
+    if (ip !== 'unknown') {
+      const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+      const { count, error: countError } = await supabaseAdmin
+        .from('contact_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('sender_hash', senderHash)
+        .gte('created_at', windowStart);
+
+      if (countError) throw countError;
+
+      if ((count ?? 0) >= MAX_MESSAGES_PER_WINDOW) {
+        return NextResponse.json(
+          { error: 'Too many messages sent', code: 'tooManyMessages' },
+          { status: 429 }
+        );
+      }
+    }
+
+    const { name, email, phone, subject, message } = validation.data;
+
+    const { error } = await supabaseAdmin
+      .from('contact_messages')
+      .insert({
+        name: name.trim(),
+        email: email.trim(),
+        phone: phone || null,
+        subject: subject.trim(),
+        message: message.trim(),
+        sender_hash: senderHash,
+        user_agent: request.headers.get('user-agent')?.slice(0, 500) ?? null,
+      });
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/contact:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
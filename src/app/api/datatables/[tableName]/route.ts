@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer } from '@/lib/supabase/server';
+import { requireRole } from '@/lib/api/admin-auth';
+import {
+  getTableAccessRule,
+  isOwnerScoped,
+  sanitizeSearchTerm,
+} from '@/lib/api/datatables-access';
 
 interface DataTablesRequest {
   draw: number;
@@ -19,35 +24,72 @@ interface DataTablesResponse {
   data: unknown[];
 }
 
+/** Upper bound for a single page, regardless of what the client asks for */
+const MAX_PAGE_LENGTH = 100;
+
 export async function POST(
   request: NextRequest,
   { params }: { params: { tableName: string } }
 ): Promise<NextResponse<DataTablesResponse | { error: string }>> {
   try {
-    if (!supabaseServer) {
+    // Any signed-in dashboard role may call this; table rules narrow it further
+    const { context, response } = await requireRole(request, ['super_admin', 'admin', 'kontributor']);
+    if (!context) {
+      return response as NextResponse<{ error: string }>;
+    }
+
+    const { supabase, user, profile } = context;
+    const role = profile.role;
+    const { tableName } = params;
+    const rule = getTableAccessRule(tableName);
+
+    if (!rule?.roles.includes(role)) {
       return NextResponse.json(
-        { error: 'Supabase server not configured' },
-        { status: 500 }
+        { error: 'Forbidden - table not accessible' },
+        { status: 403 }
       );
     }
 
-    const supabase = supabaseServer;
-    const { tableName } = params;
     const body: DataTablesRequest = await request.json();
 
     const {
       draw,
-      start,
-      length,
+      start = 0,
+      length = 20,
       search,
-      searchFields,
+      searchFields = [],
       order,
-      columns,
+      columns = [],
       filters = {},
     } = body;
 
+    // Reject anything outside the declared allow-list
+    const disallowedFilter = Object.keys(filters).find((key) => !rule.filters.includes(key));
+    if (disallowedFilter) {
+      return NextResponse.json(
+        { error: `Forbidden - filter not allowed: ${disallowedFilter}` },
+        { status: 403 }
+      );
+    }
+
+    const disallowedSearchField = searchFields.find((field) => !rule.searchFields.includes(field));
+    if (disallowedSearchField) {
+      return NextResponse.json(
+        { error: `Forbidden - search field not allowed: ${disallowedSearchField}` },
+        { status: 403 }
+      );
+    }
+
+    const ownerId = isOwnerScoped(rule, role) ? user.id : null;
+    const selectColumns = rule.columns.map((column) => `"${column}"`).join(', ');
+
     // Build base query
-    let query = supabase.from(tableName).select('*', { count: 'exact' });
+    let query = supabase.from(tableName).select(selectColumns, { count: 'exact' });
+
+    // Owner-scoped roles only ever see their own rows
+    if (ownerId && rule.ownerColumn) {
+      query = query.eq(rule.ownerColumn, ownerId);
+    }
 
     // Apply custom filters
     Object.entries(filters).forEach(([key, value]) => {
@@ -56,35 +98,32 @@ export async function POST(
       }
     });
 
-    // Apply search
-    if (search && searchFields.length > 0) {
-      // Build OR condition for search across multiple fields
-      const searchConditions = searchFields.map((field) => {
-        // Handle nested fields like 'author->>name'
-        if (field.includes('->>')) {
-          return `${field}.ilike.%${search}%`;
-        }
-        return `${field}.ilike.%${search}%`;
-      }).join(',');
-      
+    // Apply search across the allowed fields (nested fields like 'author->>name' work as-is)
+    const searchTerm = search ? sanitizeSearchTerm(search) : '';
+    if (searchTerm && searchFields.length > 0) {
+      const searchConditions = searchFields
+        .map((field) => `${field}.ilike.%${searchTerm}%`)
+        .join(',');
+
       query = query.or(searchConditions);
     }
 
     // Get total count (before pagination)
     const { count: recordsFiltered } = await query;
 
-    // Apply sorting
+    // Apply sorting (only on allowed columns)
     if (order && order.length > 0) {
       const sortColumn = columns[order[0].column];
       const sortDir = order[0].dir === 'asc';
-      
-      if (sortColumn && sortColumn.orderable) {
+
+      if (sortColumn && sortColumn.orderable && rule.columns.includes(sortColumn.data)) {
         query = query.order(sortColumn.data, { ascending: sortDir });
       }
     }
 
     // Apply pagination
-    query = query.range(start, start + length - 1);
+    const pageLength = Math.min(Math.max(length, 1), MAX_PAGE_LENGTH);
+    query = query.range(start, start + pageLength - 1);
 
     // Execute query
     const { data, error } = await query;
@@ -97,10 +136,16 @@ export async function POST(
       );
     }
 
-    // Get total records (without search filter)
-    const { count: recordsTotal } = await supabase
+    // Get total records (without search filter, but still owner-scoped)
+    let totalQuery = supabase
       .from(tableName)
-      .select('*', { count: 'exact', head: true });
+      .select('id', { count: 'exact', head: true });
+
+    if (ownerId && rule.ownerColumn) {
+      totalQuery = totalQuery.eq(rule.ownerColumn, ownerId);
+    }
+
+    const { count: recordsTotal } = await totalQuery;
 
     // Return DataTables response
     return NextResponse.json({
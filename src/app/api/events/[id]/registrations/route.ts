@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { createCheckInToken } from '@/lib/api/checkin-token';
+import { eventRegistrationSchema } from '@/infrastructure/validators/schemas';
+import type { ErrorCode } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { id: string };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Postgres error codes raised by register_for_event */
+const ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '22023': 400,
+  '23505': 409,
+};
+
+/** Catalog error codes for the messages register_for_event raises */
+const ERROR_CODES: Record<string, ErrorCode> = {
+  'Event not found': 'eventNotFound',
+  'Registration for this event is closed': 'registrationClosed',
+  'The registration deadline has passed': 'registrationDeadlinePassed',
+  'This email is already registered for the event': 'alreadyRegistered',
+};
+
+/**
+ * Register for an event (public)
+ * Returns the registration status, the signed ticket token and,
+ * when waitlisted, the queue position
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+): Promise<NextResponse> {
+  try {
+    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
+    if (clientError || !supabaseAdmin) {
+      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
+    }
+
+    // Anything but a UUID would make the RPC fail with a cast error (500)
+    if (!UUID_PATTERN.test(params.id)) {
+      return NextResponse.json(
+        { error: 'Event not found', code: 'eventNotFound' },
+        { status: 404 }
+      );
+    }
+
+    const validation = eventRegistrationSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid registration data', code: 'invalidRequest', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, phone, notes } = validation.data;
+
+    const { data: registration, error } = await supabaseAdmin.rpc('register_for_event', {
+      p_event_id: params.id,
+      p_name: name,
+      p_email: email,
+      p_phone: phone ?? null,
+      p_notes: notes ?? null,
+    });
+
+    if (error) {
+      const status = ERROR_STATUS[error.code];
+      if (status) {
+        return NextResponse.json(
+          { error: error.message, code: ERROR_CODES[error.message] },
+          { status }
+        );
+      }
+      throw error;
+    }
+
+    let waitlistPosition: number | null = null;
+    if (registration.status === 'waitlisted') {
+      const { count } = await supabaseAdmin
+        .from('event_registrations')
+        .select('id', { count: 'exact', head: true })
+        .eq('event_id', params.id)
+        .eq('status', 'waitlisted')
+        .lte('created_at', registration.created_at);
+      waitlistPosition = count ?? null;
+    }
+
+    return NextResponse.json(
+      {
+        registration: { id: registration.id, status: registration.status },
+        waitlistPosition,
+        ticketToken: createCheckInToken(registration.id),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in POST /api/events/[id]/registrations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getUpcomingEvents } from '@/lib/api/events';
+import { DEFAULT_LOCALE } from '@/config/i18n.config';
+import { isLocale } from '@/lib/i18n';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const events = await getUpcomingEvents(3);
+    const requestedLocale = request.nextUrl.searchParams.get('locale');
+    const locale = isLocale(requestedLocale) ? requestedLocale : DEFAULT_LOCALE;
+    const events = await getUpcomingEvents(3, locale);
 
     return NextResponse.json(events);
   } catch (error) {
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { subscribeToNewsletter } from '@/lib/api/newsletter-subscribers';
+import { newsletterSchema } from '@/infrastructure/validators/schemas';
+import { getClientIp, hashSender } from '@/lib/utils/client-ip';
+
+export const dynamic = 'force-dynamic';
+
+/** Confirmation emails sent per sender (hashed IP) within the rate limit window */
+const MAX_SIGNUPS_PER_WINDOW = 5;
+const RATE_LIMIT_WINDOW_MINUTES = 60;
+
+/**
+ * Sign up for the newsletter (public)
+ * Always answers the same way, whether or not the address was known
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
+    if (clientError || !supabaseAdmin) {
+      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
+    }
+
+    const validation = newsletterSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid email', code: 'invalidEmail' },
+        { status: 400 }
+      );
+    }
+
+    const ip = getClientIp(request);
+    const senderHash = hashSender('newsletter', ip);
+
+    // Without a known IP all senders would share one bucket, so only the
+    // per-address throttle applies
+    if (ip !== 'unknown') {
+      const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+      const { count, error: countError } = await supabaseAdmin
+        .from('newsletter_subscribers')
+        .select('id', { count: 'exact', head: true })
+        .eq('sender_hash', senderHash)
+        .gte('confirmation_sent_at', windowStart);
+
+      if (countError) throw countError;
+
+      if ((count ?? 0) >= MAX_SIGNUPS_PER_WINDOW) {
+        return NextResponse.json(
+          { error: 'Too many sign-ups', code: 'tooManySignups' },
+          { status: 429 }
+        );
+      }
+    }
+
+    await subscribeToNewsletter(supabaseAdmin, validation.data.email, senderHash);
+
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error) {
+    console.error('Error in POST /api/newsletter:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { unsubscribeFromNewsletter } from '@/lib/api/newsletter-subscribers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Unsubscribe with an emailed token (public)
+ * The token comes from the JSON body (unsubscribe page) or the query
+ * string (one-click List-Unsubscribe from mail clients)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { client: supabaseAdmin, error: clientError } = createSupabaseAdmin();
+    if (clientError || !supabaseAdmin) {
+      return clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 });
+    }
+
+    let token = request.nextUrl.searchParams.get('token');
+    if (!token && request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json();
+      token = typeof body.token === 'string' ? body.token : null;
+    }
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing token', code: 'invalidUnsubscribeLink' },
+        { status: 400 }
+      );
+    }
+
+    const unsubscribed = await unsubscribeFromNewsletter(supabaseAdmin, token);
+    if (!unsubscribed) {
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link', code: 'invalidUnsubscribeLink' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in POST /api/newsletter/unsubscribe:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withUserAuth } from '@/lib/api/admin-auth';
+import { confirmMemberClaim, getMemberForProfile } from '@/lib/api/member-self-service';
+import { memberClaimConfirmSchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+// Link the member from an emailed claim link to the caller's account
+export const POST = withUserAuth(async (request, { supabase, user }) => {
+  const validation = memberClaimConfirmSchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid claim token' },
+      { status: 400 }
+    );
+  }
+
+  const result = await confirmMemberClaim(supabase, user.id, validation.data.token);
+  if (result === 'invalid') {
+    return NextResponse.json(
+      { error: 'This claim link is invalid or has expired' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ result, member: await getMemberForProfile(supabase, user.id) });
+});
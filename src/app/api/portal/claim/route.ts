@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withUserAuth } from '@/lib/api/admin-auth';
+import { getMemberForProfile, requestMemberClaim } from '@/lib/api/member-self-service';
+import { memberClaimSchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Ask for a claim link for the member with this email
+ * Always answers the same way, whether or not the address was known
+ */
+export const POST = withUserAuth(async (request, { supabase, user }) => {
+  const validation = memberClaimSchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid email address' },
+      { status: 400 }
+    );
+  }
+
+  if (await getMemberForProfile(supabase, user.id)) {
+    return NextResponse.json(
+      { error: 'Your account is already linked to a member record' },
+      { status: 409 }
+    );
+  }
+
+  await requestMemberClaim(supabase, user.id, validation.data.email);
+
+  return NextResponse.json({ success: true }, { status: 202 });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withUserAuth } from '@/lib/api/admin-auth';
+import { getLatestChangeRequest, getMemberForProfile, updateMemberFromPortal } from '@/lib/api/member-self-service';
+import { memberPortalSchema } from '@/lib/validators/admin-schemas';
+
+export const dynamic = 'force-dynamic';
+
+// Get the caller's member record and latest change request
+export const GET = withUserAuth(async (_request, { supabase, user }) => {
+  const member = await getMemberForProfile(supabase, user.id);
+  const changeRequest = member ? await getLatestChangeRequest(supabase, member.id) : null;
+
+  return NextResponse.json({ member, changeRequest });
+});
+
+// Save the caller's profile; reviewed fields become a change request
+export const PATCH = withUserAuth(async (request, { supabase, user }) => {
+  const member = await getMemberForProfile(supabase, user.id);
+  if (!member) {
+    return NextResponse.json(
+      { error: 'No member record is linked to your account' },
+      { status: 404 }
+    );
+  }
+
+  const validation = memberPortalSchema.safeParse(await request.json());
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message ?? 'Invalid update' },
+      { status: 400 }
+    );
+  }
+
+  await updateMemberFromPortal(supabase, member, user.id, validation.data);
+
+  const updated = await getMemberForProfile(supabase, user.id);
+  const changeRequest = await getLatestChangeRequest(supabase, member.id);
+
+  return NextResponse.json({ member: updated, changeRequest });
+});
@@ -0,0 +1,24 @@
+/**
+ * Fonts shared by the site and dashboard root layouts
+ */
+
+import { Plus_Jakarta_Sans, Poppins } from 'next/font/google';
+
+export const plusJakarta = Plus_Jakarta_Sans({
+  subsets: ['latin'],
+  variable: '--font-sans',
+  display: 'optional',
+  fallback: ['system-ui', '-apple-system', 'sans-serif'],
+  preload: true,
+  adjustFontFallback: true,
+});
+
+export const poppins = Poppins({
+  subsets: ['latin'],
+  weight: ['600', '700', '800'],
+  variable: '--font-heading',
+  display: 'optional',
+  fallback: ['system-ui', '-apple-system', 'sans-serif'],
+  preload: true,
+  adjustFontFallback: true,
+});
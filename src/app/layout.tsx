@@ -1,90 +0,0 @@
-import type { Metadata } from 'next';
-import { Plus_Jakarta_Sans, Poppins } from 'next/font/google';
-import './globals.css';
-import { SITE_CONFIG } from '@/config/site.config';
-import { Toaster } from 'sonner';
-
-
-const plusJakarta = Plus_Jakarta_Sans({
-  subsets: ['latin'],
-  variable: '--font-sans',
-  display: 'optional',
-  fallback: ['system-ui', '-apple-system', 'sans-serif'],
-  preload: true,
-  adjustFontFallback: true,
-});
-
-const poppins = Poppins({
-  subsets: ['latin'],
-  weight: ['600', '700', '800'],
-  variable: '--font-heading',
-  display: 'optional',
-  fallback: ['system-ui', '-apple-system', 'sans-serif'],
-  preload: true,
-  adjustFontFallback: true,
-});
-
-export const metadata: Metadata = {
-  metadataBase: new URL(SITE_CONFIG.url),
-  title: {
-    default: SITE_CONFIG.name,
-    template: `%s | ${SITE_CONFIG.name}`,
-  },
-  description: SITE_CONFIG.description,
-  keywords: [
-    'Your Organization',
-    'himpunan mahasiswa farmasi',
-    'farmasi UIN Alauddin',
-    'mahasiswa farmasi Makassar',
-    'organisasi mahasiswa farmasi',
-    'jurusan farmasi',
-    'UIN Alauddin Makassar',
-    'farmasi',
-    'kesehatan',
-  ],
-  authors: [{ name: SITE_CONFIG.name }],
-  creator: SITE_CONFIG.name,
-  openGraph: {
-    type: 'website',
-    locale: 'id_ID',
-    url: SITE_CONFIG.url,
-    siteName: SITE_CONFIG.name,
-    title: SITE_CONFIG.name,
-    description: SITE_CONFIG.description,
-  },
-  twitter: {
-    card: 'summary_large_image',
-    title: SITE_CONFIG.name,
-    description: SITE_CONFIG.description,
-  },
-  robots: {
-    index: true,
-    follow: true,
-    googleBot: {
-      index: true,
-      follow: true,
-      'max-video-preview': -1,
-      'max-image-preview': 'large',
-      'max-snippet': -1,
-    },
-  },
-};
-
-export default function RootLayout({
-  children,
-}: Readonly<{
-  children: React.ReactNode;
-}>) {
-  return (
-    <html lang="id" className="scroll-smooth">
-      <head>
-        <link rel="preconnect" href="https://images.unsplash.com" />
-        <link rel="dns-prefetch" href="https://images.unsplash.com" />
-      </head>
-      <body className={`${plusJakarta.variable} ${poppins.variable} font-sans antialiased`}>
-        {children}
-        <Toaster position="top-right" richColors />
-      </body>
-    </html>
-  );
-}
@@ -0,0 +1,13 @@
+import { MetadataRoute } from 'next';
+import { SITE_CONFIG } from '@/config/site.config';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/admin', '/auth', '/portal'],
+    },
+    sitemap: `${SITE_CONFIG.url}/sitemap.xml`,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Metadata shared by the site and dashboard root layouts
+ */
+
+import type { Metadata } from 'next';
+import { SITE_CONFIG } from '@/config/site.config';
+import { getArticleFeedAlternates } from '@/lib/constants/feeds';
+
+export const rootMetadata: Metadata = {
+  metadataBase: new URL(SITE_CONFIG.url),
+  title: {
+    default: SITE_CONFIG.name,
+    template: `%s | ${SITE_CONFIG.name}`,
+  },
+  description: SITE_CONFIG.description,
+  alternates: {
+    types: getArticleFeedAlternates(),
+  },
+  keywords: [
+    'Your Organization',
+    'himpunan mahasiswa farmasi',
+    'farmasi UIN Alauddin',
+    'mahasiswa farmasi Makassar',
+    'organisasi mahasiswa farmasi',
+    'jurusan farmasi',
+    'UIN Alauddin Makassar',
+    'farmasi',
+    'kesehatan',
+  ],
+  authors: [{ name: SITE_CONFIG.name }],
+  creator: SITE_CONFIG.name,
+  openGraph: {
+    type: 'website',
+    locale: 'id_ID',
+    url: SITE_CONFIG.url,
+    siteName: SITE_CONFIG.name,
+    title: SITE_CONFIG.name,
+    description: SITE_CONFIG.description,
+  },
+  twitter: {
+    card: 'summary_large_image',
+    title: SITE_CONFIG.name,
+    description: SITE_CONFIG.description,
+  },
+  robots: {
+    index: true,
+    follow: true,
+    googleBot: {
+      index: true,
+      follow: true,
+      'max-video-preview': -1,
+      'max-image-preview': 'large',
+      'max-snippet': -1,
+    },
+  },
+};
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getSitemapEntries } from '@/lib/api/sitemap';
+import { SITEMAP_PAGE_SIZE, buildUrlSet, buildSitemapIndex, getLatestModified } from '@/lib/utils/sitemap';
+import { SITE_CONFIG } from '@/config/site.config';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sitemap, or a sitemap index pointing at /sitemaps/[n].xml once the
+ * site outgrows a single file
+ */
+export async function GET() {
+  try {
+    const entries = await getSitemapEntries();
+
+    let xml: string;
+    if (entries.length <= SITEMAP_PAGE_SIZE) {
+      xml = buildUrlSet(entries);
+    } else {
+      const pageCount = Math.ceil(entries.length / SITEMAP_PAGE_SIZE);
+      xml = buildSitemapIndex(
+        Array.from({ length: pageCount }, (_, index) => ({
+          url: `${SITE_CONFIG.url}/sitemaps/${index + 1}.xml`,
+          lastModified: getLatestModified(entries.slice(index * SITEMAP_PAGE_SIZE, (index + 1) * SITEMAP_PAGE_SIZE)),
+        }))
+      );
+    }
+
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building sitemap:', error);
+    return NextResponse.json(
+      { error: 'Failed to build sitemap' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getSitemapEntries } from '@/lib/api/sitemap';
+import { SITEMAP_PAGE_SIZE, buildUrlSet } from '@/lib/utils/sitemap';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { page: string };
+
+/**
+ * One page of a split sitemap (/sitemaps/1.xml, /sitemaps/2.xml, ...)
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: RouteParams }
+) {
+  const match = /^(\d+)\.xml$/.exec(params.page);
+  const page = match ? parseInt(match[1], 10) : 0;
+
+  try {
+    const entries = await getSitemapEntries();
+    const pageEntries = page >= 1 ? entries.slice((page - 1) * SITEMAP_PAGE_SIZE, page * SITEMAP_PAGE_SIZE) : [];
+
+    if (pageEntries.length === 0) {
+      return NextResponse.json(
+        { error: 'Sitemap not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(buildUrlSet(pageEntries), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building sitemap page:', error);
+    return NextResponse.json(
+      { error: 'Failed to build sitemap' },
+      { status: 500 }
+    );
+  }
+}
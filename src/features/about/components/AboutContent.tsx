@@ -5,6 +5,8 @@ import { Section } from '@/shared/components/ui/Section';
 import { Leaf, Target, Heart, Award, BookOpen, Users, HeartHandshake, Briefcase, LucideIcon } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { AboutSettings } from '@/config';
+import { formatMessage } from '@/lib/i18n';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 const iconMap: Record<string, LucideIcon> = {
     BookOpen,
@@ -18,6 +20,8 @@ interface AboutContentProps {
 }
 
 export function AboutContent({ data }: AboutContentProps) {
+    const m = useMessages();
+
     return (
         <div className="bg-white min-h-screen">
             {/* Header */}
@@ -29,10 +33,10 @@ export function AboutContent({ data }: AboutContentProps) {
                     className="text-center max-w-4xl mx-auto"
                 >
                     <h1 className="text-5xl md:text-6xl font-bold text-gray-900 mb-6 tracking-tight">
-                        Tentang Kami
+                        {m.about.title}
                     </h1>
                     <p className="text-xl md:text-2xl text-gray-600 leading-relaxed font-light">
-                        Learn more about our organization and our journey in building a strong, engaged community.
+                        {m.about.subtitle}
                     </p>
                 </motion.div>
             </Section>
@@ -56,7 +60,7 @@ export function AboutContent({ data }: AboutContentProps) {
                                     className="flex items-center gap-3 mb-4 text-primary-600"
                                 >
                                     <BookOpen className="w-6 h-6" />
-                                    <span className="font-bold tracking-wider uppercase text-sm">Cerita Kami</span>
+                                    <span className="font-bold tracking-wider uppercase text-sm">{m.about.ourStory}</span>
                                 </motion.div>
                                 <motion.h2
                                     initial={{ x: -20, opacity: 0 }}
@@ -64,7 +68,7 @@ export function AboutContent({ data }: AboutContentProps) {
                                     transition={{ delay: 0.3 }}
                                     className="text-4xl font-bold text-gray-900 leading-tight"
                                 >
-                                    Perjalanan Menuju Dedikasi
+                                    {m.about.storyHeading}
                                 </motion.h2>
                             </div>
                         </div>
@@ -89,7 +93,7 @@ export function AboutContent({ data }: AboutContentProps) {
                         <div className="space-y-6">
                             <div className="flex items-center gap-3 text-primary-400">
                                 <Target className="w-8 h-8" />
-                                <h3 className="text-2xl font-bold">Misi Kami</h3>
+                                <h3 className="text-2xl font-bold">{m.about.mission}</h3>
                             </div>
                             <p className="text-gray-300 text-lg leading-relaxed border-l-2 border-primary-600 pl-6">
                                 {data.mission}
@@ -99,7 +103,7 @@ export function AboutContent({ data }: AboutContentProps) {
                         <div className="space-y-6">
                             <div className="flex items-center gap-3 text-secondary-400">
                                 <Heart className="w-8 h-8" />
-                                <h3 className="text-2xl font-bold">Visi Kami</h3>
+                                <h3 className="text-2xl font-bold">{m.about.vision}</h3>
                             </div>
                             <p className="text-gray-300 text-lg leading-relaxed border-l-2 border-secondary-600 pl-6">
                                 {data.vision}
@@ -113,7 +117,7 @@ export function AboutContent({ data }: AboutContentProps) {
             <Section className="py-24">
                 <div className="container-custom">
                     <div className="text-center mb-16">
-                        <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">Nilai-Nilai Kami</h2>
+                        <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">{m.about.values}</h2>
                         <div className="w-24 h-1 bg-gradient-to-r from-primary-500 to-secondary-500 mx-auto rounded-full" />
                     </div>
 
@@ -149,10 +153,7 @@ export function AboutContent({ data }: AboutContentProps) {
                                         {value}
                                     </div>
                                     <div className="text-sm font-bold text-primary-600 uppercase tracking-widest">
-                                        {key === 'activeMembers' && 'Anggota Aktif'}
-                                        {key === 'eventsPerYear' && 'Event / Tahun'}
-                                        {key === 'divisions' && 'Divisi'}
-                                        {key === 'yearsActive' && 'Tahun Berdiri'}
+                                        {m.about.stats[key as keyof typeof m.about.stats]}
                                     </div>
                                 </div>
                             ))}
@@ -165,7 +166,7 @@ export function AboutContent({ data }: AboutContentProps) {
             <Section className="py-24">
                 <div className="container-custom">
                     <h2 className="text-3xl font-bold text-gray-900 mb-16 text-center">
-                        Perjalanan Kami
+                        {m.about.journey}
                     </h2>
                     <Timeline items={data.timeline} />
                 </div>
@@ -174,7 +175,7 @@ export function AboutContent({ data }: AboutContentProps) {
             {/* Affiliations - Clean List */}
             <Section className="py-24 bg-gray-900 text-white">
                 <div className="container-custom">
-                    <h2 className="text-3xl font-bold mb-16 text-center">Kemitraan & Afiliasi</h2>
+                    <h2 className="text-3xl font-bold mb-16 text-center">{m.about.affiliations}</h2>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-12 text-center md:text-left">
                         {data.affiliations?.map((affiliation) => (
                             <div key={affiliation.name} className="border-t pt-8 border-gray-800 hover:border-primary-500 transition-colors duration-300">
@@ -205,7 +206,7 @@ export function AboutContent({ data }: AboutContentProps) {
                                 </div>
                                 <div>
                                     <h3 className="text-xl font-bold text-gray-900 mb-1">{cert.name}</h3>
-                                    <p className="text-primary-600 font-medium">Tahun {cert.year}</p>
+                                    <p className="text-primary-600 font-medium">{formatMessage(m.about.certificationYear, { year: cert.year })}</p>
                                 </div>
                             </div>
                         ))}
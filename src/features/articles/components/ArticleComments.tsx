@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { CheckCircle, MessageCircle, Reply, ShieldCheck } from 'lucide-react';
+import { Input } from '@/shared/components/ui/Input';
+import { Button } from '@/shared/components/ui/Button';
+import { commentSchema, CommentFormData } from '@/infrastructure/validators/schemas';
+import { getCommentAuthor, submitComment, CommentAuthor } from '@/lib/api/comments';
+import { getErrorCode } from '@/lib/utils/error-handler';
+import { PublicComment } from '@/types/comment';
+import { formatError, formatMessage, getDateLocale } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+
+/** Replies are indented up to this depth, deeper ones line up with their parent */
+const MAX_INDENT_DEPTH = 3;
+
+interface ArticleCommentsProps {
+  articleId: string;
+  comments: PublicComment[];
+  commentCount: number;
+  commentsEnabled: boolean;
+}
+
+interface CommentFormProps {
+  articleId: string;
+  author: CommentAuthor | null;
+  parentId?: string;
+  onCancel?: () => void;
+}
+
+function CommentForm({ articleId, author, parentId, onCancel }: CommentFormProps) {
+  const m = useMessages();
+  const router = useRouter();
+  const [sent, setSent] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Spam checks: a hidden field people never fill, and how long the form was open
+  const [website, setWebsite] = useState('');
+  const [startedAt] = useState(() => Date.now());
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CommentFormData>({
+    // Signed-in users comment under their profile, so only the body is theirs to fill
+    resolver: zodResolver(author ? commentSchema.pick({ body: true }) : commentSchema),
+    defaultValues: { name: '', email: '', body: '' },
+  });
+
+  async function onSubmit(data: CommentFormData) {
+    setSubmitError(null);
+    try {
+      const status = await submitComment(articleId, {
+        ...(author ? { body: data.body } : data),
+        parentId,
+        website,
+        startedAt,
+      });
+      reset();
+
+      if (status === 'approved') {
+        router.refresh();
+        onCancel?.();
+      } else {
+        setSent(true);
+      }
+    } catch (error) {
+      setSubmitError(formatError(m, getErrorCode(error)) ?? m.comments.failed);
+    }
+  }
+
+  if (sent) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-green-50 text-green-800 rounded-lg">
+        <CheckCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+        <p className="text-sm font-medium">
+          {m.comments.pending}
+        </p>
+      </div>
+    );
+  }
+
+  const fieldId = parentId ? `comment-${parentId}` : 'comment';
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+      {author ? (
+        <p className="text-sm text-gray-600">
+          {m.comments.commentingAs} <span className="font-semibold text-gray-900">{author.name}</span>
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input id={`${fieldId}-name`} label={m.common.name} required {...register('name')} error={formatError(m, errors.name?.message)} />
+          <Input
+            id={`${fieldId}-email`}
+            label={m.common.email}
+            type="email"
+            required
+            helperText={m.comments.emailHint}
+            {...register('email')}
+            error={formatError(m, errors.email?.message)}
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor={`${fieldId}-body`} className="block text-sm font-semibold text-gray-700 mb-2">
+          {parentId ? m.comments.reply : m.comments.comment} <span className="text-red-500 ml-1">*</span>
+        </label>
+        <textarea
+          id={`${fieldId}-body`}
+          rows={parentId ? 3 : 4}
+          {...register('body')}
+          className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-primary-500 focus:ring-4 focus:ring-primary-100 transition-all duration-200"
+        />
+        {errors.body && <p className="mt-2 text-sm text-red-600">{formatError(m, errors.body.message)}</p>}
+      </div>
+
+      {/* Honeypot: off-screen and skipped by keyboard and screen readers */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor={`${fieldId}-website`}>Website</label>
+        <input
+          id={`${fieldId}-website`}
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" isLoading={isSubmitting}>
+          {parentId ? m.comments.submitReply : m.comments.submitComment}
+        </Button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm font-medium text-gray-600 hover:text-gray-900"
+          >
+            {m.common.cancel}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  articleId: string;
+  comment: PublicComment;
+  author: CommentAuthor | null;
+  commentsEnabled: boolean;
+  depth: number;
+}
+
+function CommentItem({ articleId, comment, author, commentsEnabled, depth }: CommentItemProps) {
+  const locale = useLocale();
+  const m = useMessages();
+  const [replying, setReplying] = useState(false);
+
+  return (
+    <li>
+      <div className="flex gap-3">
+        <div className="flex-shrink-0 w-10 h-10 rounded-full bg-primary-100 text-primary-700 flex items-center justify-center font-bold">
+          {comment.author_name.charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+            <span className="font-semibold text-gray-900">{comment.author_name}</span>
+            {comment.is_member && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-primary-50 text-primary-700 text-xs font-medium rounded-full">
+                <ShieldCheck className="w-3 h-3" />
+                {m.comments.staff}
+              </span>
+            )}
+            <time className="text-gray-500">
+              {format(new Date(comment.created_at), 'd MMMM yyyy, HH:mm', { locale: getDateLocale(locale) })}
+            </time>
+          </div>
+          <p className="mt-1 text-gray-800 whitespace-pre-wrap break-words">{comment.body}</p>
+
+          {commentsEnabled && !replying && (
+            <button
+              type="button"
+              onClick={() => setReplying(true)}
+              className="mt-2 inline-flex items-center gap-1 text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              <Reply className="w-4 h-4" />
+              {m.comments.replyAction}
+            </button>
+          )}
+
+          {replying && (
+            <div className="mt-4">
+              <CommentForm
+                articleId={articleId}
+                author={author}
+                parentId={comment.id}
+                onCancel={() => setReplying(false)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ul className={`mt-6 space-y-6 ${depth < MAX_INDENT_DEPTH ? 'ml-6 md:ml-12 pl-4 border-l-2 border-gray-100' : ''}`}>
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              articleId={articleId}
+              comment={reply}
+              author={author}
+              commentsEnabled={commentsEnabled}
+              depth={depth + 1}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function ArticleComments({ articleId, comments, commentCount, commentsEnabled }: ArticleCommentsProps) {
+  const m = useMessages();
+  const [author, setAuthor] = useState<CommentAuthor | null>(null);
+
+  useEffect(() => {
+    getCommentAuthor().then(setAuthor).catch(() => setAuthor(null));
+  }, []);
+
+  // Articles with comments turned off and none left to show get no section
+  if (!commentsEnabled && comments.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mt-12 pt-8 border-t">
+      <h2 className="flex items-center gap-2 text-2xl font-bold text-gray-900 mb-8">
+        <MessageCircle className="w-6 h-6" />
+        {formatMessage(m.comments.heading, { count: commentCount })}
+      </h2>
+
+      {comments.length > 0 ? (
+        <ul className="space-y-6 mb-10">
+          {comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              articleId={articleId}
+              comment={comment}
+              author={author}
+              commentsEnabled={commentsEnabled}
+              depth={1}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 mb-8">{m.comments.empty}</p>
+      )}
+
+      {commentsEnabled ? (
+        <div className="relative bg-gray-50 rounded-2xl p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{m.comments.write}</h3>
+          <CommentForm articleId={articleId} author={author} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">{m.comments.closed}</p>
+      )}
+    </section>
+  );
+}
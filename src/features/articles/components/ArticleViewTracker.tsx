@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface ArticleViewTrackerProps {
+  articleId: string;
+}
+
+/**
+ * Reports a single view for the article once the page has mounted.
+ * Renders nothing; dedupe and bot filtering happen server-side.
+ */
+export function ArticleViewTracker({ articleId }: ArticleViewTrackerProps): null {
+  const trackedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Guard against double effects in StrictMode
+    if (trackedRef.current === articleId) {
+      return;
+    }
+    trackedRef.current = articleId;
+
+    fetch('/api/articles/views', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ articleId }),
+      keepalive: true,
+    }).catch(() => {
+      // View tracking is best-effort
+    });
+  }, [articleId]);
+
+  return null;
+}
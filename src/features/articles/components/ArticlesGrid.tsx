@@ -1,22 +1,47 @@
 'use client';
 
+import { type ReactNode } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
-import { id } from 'date-fns/locale';
 import { Article as ArticleListItem } from '@/lib/api/articles';
-import { ARTICLE_CATEGORIES } from '@/config/domain.config';
+import { LOCALE_TAGS, formatPlural, getDateLocale, localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 interface ArticlesGridProps {
   articles: ArticleListItem[];
 }
 
+/**
+ * Avatar link to the author page; hidden from keyboard and screen
+ * readers since the author name next to it links there too
+ */
+function AuthorAvatarLink({ href, children }: { href: string | null; children: ReactNode }) {
+  if (!href) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Link
+      href={href}
+      tabIndex={-1}
+      aria-hidden
+      className="pointer-events-auto shrink-0"
+    >
+      {children}
+    </Link>
+  );
+}
+
 export function ArticlesGrid({ articles }: ArticlesGridProps) {
+  const locale = useLocale();
+  const m = useMessages();
+
   if (articles.length === 0) {
     return (
       <div className="text-center py-32">
-        <p className="text-gray-500 text-xl">Belum ada artikel tersedia</p>
+        <p className="text-gray-500 text-xl">{m.articles.empty}</p>
       </div>
     );
   }
@@ -26,6 +51,7 @@ export function ArticlesGrid({ articles }: ArticlesGridProps) {
       {articles.map((article, index) => {
         const isFeatured = index === 0;
         const isLarge = index % 5 === 0;
+        const authorHref = article.author.id ? localizePath(locale, `/authors/${article.author.id}`) : null;
 
         return (
           <motion.article
@@ -49,52 +75,52 @@ export function ArticlesGrid({ articles }: ArticlesGridProps) {
                   : 'md:col-span-5'
               }`}
           >
-            <Link href={`/articles/${article.slug}`} className="block">
-              {/* Image with overlay - no card container */}
-              <div className={`relative overflow-hidden rounded-3xl ${isFeatured ? 'aspect-[4/5]' : 'aspect-[16/10]'
-                }`}>
-                <motion.div
-                  whileHover={{ scale: 1.1 }}
-                  transition={{ duration: 0.6 }}
-                  className="w-full h-full"
-                >
-                  <Image
-                    src={article.coverImage}
-                    alt={article.title}
-                    fill
-                    sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                    className="object-cover"
-                  />
-                </motion.div>
+            {/* Image with overlay - no card container */}
+            <div className={`relative overflow-hidden rounded-3xl ${isFeatured ? 'aspect-[4/5]' : 'aspect-[16/10]'
+              }`}>
+              <div className="w-full h-full transition-transform duration-[600ms] group-hover:scale-110">
+                <Image
+                  src={article.coverImage}
+                  alt={article.title}
+                  fill
+                  sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+                  className="object-cover"
+                />
+              </div>
+
+              {/* Gradient for text readability */}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent" />
 
-                {/* Gradient for text readability */}
-                <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent" />
+              {/* Whole-card link; the overlay lets clicks through except on the author link */}
+              <Link
+                href={localizePath(locale, `/articles/${article.slug}`)}
+                aria-label={article.title}
+                className="absolute inset-0"
+              />
 
-                {/* Category badge - minimal */}
+              {/* Category badge - minimal */}
+              <motion.div
+                initial={{ opacity: 0, x: -20 }}
+                whileInView={{ opacity: 1, x: 0 }}
+                transition={{ delay: index * 0.1 + 0.2 }}
+                className="absolute top-6 left-6 pointer-events-none"
+              >
+                <span className="px-4 py-2 bg-white/90 backdrop-blur-sm text-gray-900 text-sm font-bold rounded-full shadow-lg">
+                  {m.categories.article[article.category]}
+                </span>
+              </motion.div>
+
+              {/* Content overlay */}
+              <div className="absolute bottom-0 left-0 right-0 p-6 md:p-8 pointer-events-none">
+                {/* Author */}
                 <motion.div
-                  initial={{ opacity: 0, x: -20 }}
-                  whileInView={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.1 + 0.2 }}
-                  className="absolute top-6 left-6"
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 + 0.3 }}
+                  className="flex items-center gap-3 mb-4"
                 >
-                  <motion.span
-                    whileHover={{ scale: 1.1 }}
-                    className="px-4 py-2 bg-white/90 backdrop-blur-sm text-gray-900 text-sm font-bold rounded-full shadow-lg"
-                  >
-                    {ARTICLE_CATEGORIES[article.category]}
-                  </motion.span>
-                </motion.div>
-
-                {/* Content overlay */}
-                <div className="absolute bottom-0 left-0 right-0 p-6 md:p-8">
-                  {/* Author */}
-                  <motion.div
-                    initial={{ opacity: 0, y: 20 }}
-                    whileInView={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 + 0.3 }}
-                    className="flex items-center gap-3 mb-4"
-                  >
-                    {article.author.avatar && (
+                  {article.author.avatar && (
+                    <AuthorAvatarLink href={authorHref}>
                       <Image
                         src={article.author.avatar}
                         alt={article.author.name}
@@ -102,70 +128,86 @@ export function ArticlesGrid({ articles }: ArticlesGridProps) {
                         height={40}
                         className="rounded-full border-2 border-white/50"
                       />
-                    )}
-                    <div>
+                    </AuthorAvatarLink>
+                  )}
+                  <div>
+                    {authorHref ? (
+                      <Link
+                        href={authorHref}
+                        className="pointer-events-auto text-sm font-semibold text-white hover:underline"
+                      >
+                        {article.author.name}
+                      </Link>
+                    ) : (
                       <p className="text-sm font-semibold text-white">
                         {article.author.name}
                       </p>
-                      <div className="flex items-center gap-3 text-xs text-white/80">
-                        <time>{format(new Date(article.publishedAt), 'd MMM yyyy', { locale: id })}</time>
-                        {article.views && <span>• {article.views} views</span>}
-                      </div>
+                    )}
+                    <div className="flex items-center gap-3 text-xs text-white/80">
+                      <time>{format(new Date(article.publishedAt), 'd MMM yyyy', { locale: getDateLocale(locale) })}</time>
+                      <span
+                        title={formatPlural(locale, m.articles.wordCount, article.wordCount, {
+                          count: article.wordCount.toLocaleString(LOCALE_TAGS[locale]),
+                        })}
+                      >
+                        • {formatPlural(locale, m.articles.readingTime, article.readingMinutes)}
+                      </span>
+                      {(article.views ?? 0) > 0 && <span>• {formatPlural(locale, m.common.views, article.views ?? 0)}</span>}
+                      {article.commentCount > 0 && <span>• {formatPlural(locale, m.articles.comments, article.commentCount)}</span>}
                     </div>
-                  </motion.div>
+                  </div>
+                </motion.div>
 
-                  {/* Title - varying sizes */}
-                  <motion.h2
-                    initial={{ opacity: 0, y: 20 }}
-                    whileInView={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 + 0.4 }}
-                    className={`font-bold text-white mb-3 line-clamp-2 ${isFeatured
-                        ? 'text-3xl md:text-4xl'
-                        : isLarge
-                          ? 'text-2xl md:text-3xl'
-                          : 'text-xl md:text-2xl'
-                      }`}
-                  >
-                    {article.title}
-                  </motion.h2>
+                {/* Title - varying sizes */}
+                <motion.h2
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 + 0.4 }}
+                  className={`font-bold text-white mb-3 line-clamp-2 ${isFeatured
+                      ? 'text-3xl md:text-4xl'
+                      : isLarge
+                        ? 'text-2xl md:text-3xl'
+                        : 'text-xl md:text-2xl'
+                    }`}
+                >
+                  {article.title}
+                </motion.h2>
 
-                  {/* Excerpt - only for featured/large */}
-                  {(isFeatured || isLarge) && (
-                    <motion.p
-                      initial={{ opacity: 0 }}
-                      whileInView={{ opacity: 1 }}
-                      transition={{ delay: index * 0.1 + 0.5 }}
-                      className="text-white/90 line-clamp-2 mb-4 text-base md:text-lg"
-                    >
-                      {article.excerpt}
-                    </motion.p>
-                  )}
+                {/* Excerpt - only for featured/large */}
+                {(isFeatured || isLarge) && (
+                  <motion.p
+                    initial={{ opacity: 0 }}
+                    whileInView={{ opacity: 1 }}
+                    transition={{ delay: index * 0.1 + 0.5 }}
+                    className="text-white/90 line-clamp-2 mb-4 text-base md:text-lg"
+                  >
+                    {article.excerpt}
+                  </motion.p>
+                )}
 
-                  {/* Tags - minimal */}
-                  {article.tags.length > 0 && (
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      whileInView={{ opacity: 1 }}
-                      transition={{ delay: index * 0.1 + 0.6 }}
-                      className="flex flex-wrap gap-2"
-                    >
-                      {article.tags.slice(0, 3).map((tag, tagIndex) => (
-                        <motion.span
-                          key={tag}
-                          initial={{ opacity: 0, scale: 0.8 }}
-                          whileInView={{ opacity: 1, scale: 1 }}
-                          whileHover={{ scale: 1.1 }}
-                          transition={{ delay: index * 0.1 + 0.7 + tagIndex * 0.05 }}
-                          className="px-3 py-1 bg-white/20 backdrop-blur-sm text-white text-xs font-medium rounded-full"
-                        >
-                          {tag}
-                        </motion.span>
-                      ))}
-                    </motion.div>
-                  )}
-                </div>
+                {/* Tags - minimal */}
+                {article.tags.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    whileInView={{ opacity: 1 }}
+                    transition={{ delay: index * 0.1 + 0.6 }}
+                    className="flex flex-wrap gap-2"
+                  >
+                    {article.tags.slice(0, 3).map((tag, tagIndex) => (
+                      <motion.span
+                        key={tag}
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        whileInView={{ opacity: 1, scale: 1 }}
+                        transition={{ delay: index * 0.1 + 0.7 + tagIndex * 0.05 }}
+                        className="px-3 py-1 bg-white/20 backdrop-blur-sm text-white text-xs font-medium rounded-full"
+                      >
+                        {tag}
+                      </motion.span>
+                    ))}
+                  </motion.div>
+                )}
               </div>
-            </Link>
+            </div>
           </motion.article>
         );
       })}
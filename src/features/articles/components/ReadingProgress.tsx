@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
+
+interface ReadingProgressProps {
+  /** Id of the element whose scroll-through is measured */
+  targetId: string;
+}
+
+/**
+ * Thin bar at the top of the viewport filling up as the reader scrolls
+ * through the target element
+ */
+export function ReadingProgress({ targetId }: ReadingProgressProps) {
+  const m = useMessages();
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    let frame = 0;
+
+    function update(): void {
+      frame = 0;
+      const target = document.getElementById(targetId);
+      if (!target) {
+        return;
+      }
+
+      const { top, height } = target.getBoundingClientRect();
+      const scrollable = height - window.innerHeight;
+      const ratio = scrollable > 0 ? -top / scrollable : top <= 0 ? 1 : 0;
+      setProgress(Math.min(1, Math.max(0, ratio)));
+    }
+
+    function onScroll(): void {
+      if (!frame) {
+        frame = requestAnimationFrame(update);
+      }
+    }
+
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [targetId]);
+
+  return (
+    <div
+      role="progressbar"
+      aria-label={m.articles.readingProgress}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress * 100)}
+      className="fixed inset-x-0 top-0 z-[60] h-1 pointer-events-none"
+    >
+      <div
+        className="h-full origin-left bg-primary-600 transition-transform duration-150 ease-out"
+        style={{ transform: `scaleX(${progress})` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ListTree } from 'lucide-react';
+import type { MarkdownHeading } from '@/lib/utils/markdown-outline';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
+import { cn } from '@/shared/utils/cn';
+
+interface TableOfContentsProps {
+  headings: MarkdownHeading[];
+  /** 'sidebar' lists the headings; 'inline' folds them into a disclosure for narrow screens */
+  variant?: 'sidebar' | 'inline';
+  className?: string;
+}
+
+/** A heading counts as current once it is this close to the top (below the sticky header) */
+const ACTIVE_OFFSET = 120;
+
+/**
+ * Id of the last heading scrolled past, or the first one above the fold
+ */
+function useActiveHeading(ids: string[]): string | null {
+  const [activeId, setActiveId] = useState<string | null>(ids[0] ?? null);
+
+  useEffect(() => {
+    let frame = 0;
+
+    function update(): void {
+      frame = 0;
+      let current = ids[0] ?? null;
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+          current = id;
+        }
+      }
+      setActiveId(current);
+    }
+
+    function onScroll(): void {
+      if (!frame) {
+        frame = requestAnimationFrame(update);
+      }
+    }
+
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [ids]);
+
+  return activeId;
+}
+
+/**
+ * Links to the article's sections, highlighting the one being read
+ */
+export function TableOfContents({ headings, variant = 'sidebar', className }: TableOfContentsProps) {
+  const m = useMessages();
+  const ids = useMemo(() => headings.map((heading) => heading.id), [headings]);
+  const activeId = useActiveHeading(ids);
+  const minDepth = Math.min(...headings.map((heading) => heading.depth));
+
+  if (headings.length === 0) {
+    return null;
+  }
+
+  const list = (
+    <ol className="space-y-1 border-l border-gray-200">
+      {headings.map((heading) => (
+        <li key={heading.id}>
+          <a
+            href={`#${heading.id}`}
+            aria-current={heading.id === activeId ? 'location' : undefined}
+            style={{ paddingLeft: `${0.75 + (heading.depth - minDepth) * 0.75}rem` }}
+            className={cn(
+              '-ml-px block border-l-2 py-1 pr-2 text-sm leading-snug transition-colors',
+              heading.id === activeId
+                ? 'border-primary-600 text-primary-700 font-medium'
+                : 'border-transparent text-gray-500 hover:text-gray-900 hover:border-gray-300'
+            )}
+          >
+            {heading.text}
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+
+  if (variant === 'inline') {
+    return (
+      <details className={cn('rounded-xl border border-gray-200 bg-gray-50 p-4', className)}>
+        <summary className="flex cursor-pointer items-center gap-2 text-sm font-semibold text-gray-900">
+          <ListTree className="w-4 h-4" />
+          {m.articles.tableOfContents}
+        </summary>
+        <nav aria-label={m.articles.tableOfContents} className="mt-4">
+          {list}
+        </nav>
+      </details>
+    );
+  }
+
+  return (
+    <nav aria-label={m.articles.tableOfContents} className={className}>
+      <p className="flex items-center gap-2 mb-4 text-sm font-semibold text-gray-900">
+        <ListTree className="w-4 h-4" />
+        {m.articles.tableOfContents}
+      </p>
+      {list}
+    </nav>
+  );
+}
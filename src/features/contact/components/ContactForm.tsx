@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle } from 'lucide-react';
+import { Input } from '@/shared/components/ui/Input';
+import { Button } from '@/shared/components/ui/Button';
+import { contactSchema, ContactFormData } from '@/infrastructure/validators/schemas';
+import { submitContactMessage } from '@/lib/api/contact';
+import { getErrorCode } from '@/lib/utils/error-handler';
+import { formatError } from '@/lib/i18n';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
+
+export function ContactForm() {
+  const m = useMessages();
+  const [sent, setSent] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Spam checks: a hidden field people never fill, and how long the form was open
+  const [website, setWebsite] = useState('');
+  const [startedAt] = useState(() => Date.now());
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ContactFormData>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: { name: '', email: '', phone: '', subject: '', message: '' },
+  });
+
+  async function onSubmit(data: ContactFormData) {
+    setSubmitError(null);
+    try {
+      await submitContactMessage({ ...data, website, startedAt });
+      reset();
+      setSent(true);
+    } catch (error) {
+      setSubmitError(formatError(m, getErrorCode(error)) ?? m.contact.failed);
+    }
+  }
+
+  if (sent) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-3 p-4 bg-green-50 text-green-800 rounded-lg">
+          <CheckCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p className="text-sm font-medium">
+            {m.contact.sent}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setSent(false)}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          {m.contact.sendAnother}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input label={m.common.fullName} required {...register('name')} error={formatError(m, errors.name?.message)} />
+        <Input label={m.common.email} type="email" required {...register('email')} error={formatError(m, errors.email?.message)} />
+      </div>
+      <Input label={m.common.whatsapp} type="tel" placeholder="081234567890" {...register('phone')} error={formatError(m, errors.phone?.message)} />
+      <Input label={m.contact.subject} required {...register('subject')} error={formatError(m, errors.subject?.message)} />
+
+      <div>
+        <label htmlFor="contact-message" className="block text-sm font-semibold text-gray-700 mb-2">
+          {m.contact.message} <span className="text-red-500 ml-1">*</span>
+        </label>
+        <textarea
+          id="contact-message"
+          rows={6}
+          {...register('message')}
+          className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-primary-500 focus:ring-4 focus:ring-primary-100 transition-all duration-200"
+        />
+        {errors.message && <p className="mt-2 text-sm text-red-600">{formatError(m, errors.message.message)}</p>}
+      </div>
+
+      {/* Honeypot: off-screen and skipped by keyboard and screen readers */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor="contact-website">Website</label>
+        <input
+          id="contact-website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+      <Button type="submit" className="w-full" size="lg" isLoading={isSubmitting}>
+        {m.contact.submit}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle, Clock, Ticket } from 'lucide-react';
+import { Input } from '@/shared/components/ui/Input';
+import { Button } from '@/shared/components/ui/Button';
+import { eventRegistrationSchema, EventRegistrationFormData } from '@/infrastructure/validators/schemas';
+import { registerForEvent, RegistrationResult } from '@/lib/api/event-registrations';
+import { getErrorCode } from '@/lib/utils/error-handler';
+import { formatError, formatMessage, localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+
+interface EventRegistrationFormProps {
+  eventId: string;
+  eventSlug: string;
+  /** True when every seat is taken (new sign-ups join the waitlist) */
+  isFull: boolean;
+}
+
+export function EventRegistrationForm({ eventId, eventSlug, isFull }: EventRegistrationFormProps) {
+  const locale = useLocale();
+  const m = useMessages();
+  const [result, setResult] = useState<RegistrationResult | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<EventRegistrationFormData>({
+    resolver: zodResolver(eventRegistrationSchema),
+    defaultValues: { name: '', email: '', phone: '', notes: '' },
+  });
+
+  async function onSubmit(data: EventRegistrationFormData) {
+    setSubmitError(null);
+    try {
+      setResult(await registerForEvent(eventId, data));
+    } catch (error) {
+      setSubmitError(formatError(m, getErrorCode(error)) ?? m.registration.failed);
+    }
+  }
+
+  if (result) {
+    const ticketHref = localizePath(
+      locale,
+      `/events/${eventSlug}/confirmation?token=${encodeURIComponent(result.ticketToken)}`
+    );
+
+    return (
+      <div className="space-y-3">
+        {result.status === 'registered' ? (
+          <div className="flex items-start gap-3 p-4 bg-green-50 text-green-800 rounded-lg">
+            <CheckCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <p className="text-sm font-medium">
+              {m.registration.registered}
+            </p>
+          </div>
+        ) : (
+          <div className="flex items-start gap-3 p-4 bg-yellow-50 text-yellow-800 rounded-lg">
+            <Clock className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <p className="text-sm font-medium">
+              {result.waitlistPosition
+                ? formatMessage(m.registration.waitlistedAt, { position: result.waitlistPosition })
+                : m.registration.waitlisted}{' '}
+              {m.registration.waitlistNotice}
+            </p>
+          </div>
+        )}
+        <Link
+          href={ticketHref}
+          className="flex items-center justify-center gap-2 w-full px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <Ticket className="w-4 h-4" />
+          {result.status === 'registered' ? m.registration.viewTicket : m.registration.checkStatus}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+      <h4 className="font-bold text-gray-900">{isFull ? m.registration.waitlistTitle : m.registration.title}</h4>
+
+      <Input label={m.common.fullName} required {...register('name')} error={formatError(m, errors.name?.message)} />
+      <Input label={m.common.email} type="email" required {...register('email')} error={formatError(m, errors.email?.message)} />
+      <Input label={m.common.whatsapp} type="tel" placeholder="081234567890" {...register('phone')} error={formatError(m, errors.phone?.message)} />
+
+      <div>
+        <label htmlFor="registration-notes" className="block text-sm font-semibold text-gray-700 mb-2">
+          {m.registration.notes}
+        </label>
+        <textarea
+          id="registration-notes"
+          rows={3}
+          {...register('notes')}
+          className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-primary-500 focus:ring-4 focus:ring-primary-100 transition-all duration-200"
+        />
+        {errors.notes && <p className="mt-2 text-sm text-red-600">{formatError(m, errors.notes.message)}</p>}
+      </div>
+
+      {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+      <Button type="submit" className="w-full" size="lg" isLoading={isSubmitting}>
+        {isFull ? m.registration.submitWaitlist : m.registration.submit}
+      </Button>
+    </form>
+  );
+}
@@ -5,9 +5,9 @@ import Image from 'next/image';
 import { motion } from 'framer-motion';
 import { Calendar, MapPin } from 'lucide-react';
 import { format } from 'date-fns';
-import { id } from 'date-fns/locale';
 import { Event as EventListItem } from '@/lib/api/events';
-import { EVENT_CATEGORIES } from '@/config/domain.config';
+import { getDateLocale, localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 interface EventsGridProps {
   events: EventListItem[];
@@ -16,10 +16,13 @@ interface EventsGridProps {
 }
 
 export function EventsGrid({ events, statusColors, statusLabels }: EventsGridProps) {
+  const locale = useLocale();
+  const m = useMessages();
+
   if (events.length === 0) {
     return (
       <div className="text-center py-32">
-        <p className="text-gray-500 text-xl">Belum ada event tersedia</p>
+        <p className="text-gray-500 text-xl">{m.events.empty}</p>
       </div>
     );
   }
@@ -43,7 +46,7 @@ export function EventsGrid({ events, statusColors, statusLabels }: EventsGridPro
           }}
         >
           <Link
-            href={`/events/${event.slug}`}
+            href={localizePath(locale, `/events/${event.slug}`)}
             className="group relative block"
           >
             {/* Glassmorphism container */}
@@ -82,7 +85,7 @@ export function EventsGrid({ events, statusColors, statusLabels }: EventsGridPro
                       whileHover={{ scale: 1.1 }}
                       className="px-4 py-2 bg-secondary-500 text-white text-sm font-bold rounded-full shadow-lg"
                     >
-                      Featured
+                      {m.common.featured}
                     </motion.span>
                   )}
                 </div>
@@ -105,13 +108,13 @@ export function EventsGrid({ events, statusColors, statusLabels }: EventsGridPro
                 >
                   <Calendar className="w-5 h-5" />
                   <time className="font-bold">
-                    {format(new Date(event.startDate), 'd MMM yyyy', { locale: id })}
+                    {format(new Date(event.startDate), 'd MMM yyyy', { locale: getDateLocale(locale) })}
                   </time>
                 </motion.div>
 
                 {/* Category */}
                 <div className="text-sm text-primary-600 font-bold mb-3">
-                  {EVENT_CATEGORIES[event.category]}
+                  {m.categories.event[event.category]}
                 </div>
 
                 {/* Title - large and bold */}
@@ -143,7 +146,7 @@ export function EventsGrid({ events, statusColors, statusLabels }: EventsGridPro
                     ease: "easeInOut",
                   }}
                 >
-                  Lihat Detail
+                  {m.events.viewDetails}
                   <motion.svg
                     width="20"
                     height="20"
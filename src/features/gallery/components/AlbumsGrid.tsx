@@ -0,0 +1,62 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { Images } from 'lucide-react';
+import { Album } from '@/lib/api/gallery';
+import { formatPlural, getDateLocale, getMessages, localizePath, type Locale } from '@/lib/i18n';
+
+interface AlbumsGridProps {
+  albums: Album[];
+  locale: Locale;
+}
+
+export function AlbumsGrid({ albums, locale }: AlbumsGridProps) {
+  const m = getMessages(locale);
+
+  if (albums.length === 0) {
+    return (
+      <div className="text-center py-32">
+        <p className="text-gray-500 text-xl">{m.gallery.empty}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+      {albums.map((album) => (
+        <Link key={album.id} href={localizePath(locale, `/gallery/${album.slug}`)} className="group block">
+          <div className="relative aspect-[4/3] rounded-2xl overflow-hidden bg-gray-100 mb-4">
+            {album.coverImage ? (
+              <Image
+                src={album.coverImage}
+                alt={album.title}
+                fill
+                sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                className="object-cover transition-transform duration-500 group-hover:scale-105"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-gray-300">
+                <Images className="w-12 h-12" />
+              </div>
+            )}
+            <span className="absolute top-4 left-4 px-3 py-1 text-xs font-medium rounded-full bg-white/90 text-gray-800">
+              {m.categories.gallery[album.category]}
+            </span>
+            <span className="absolute bottom-4 right-4 inline-flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-full bg-black/60 text-white">
+              <Images className="w-3 h-3" />
+              {formatPlural(locale, m.gallery.photos, album.photoCount)}
+            </span>
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 group-hover:text-primary-600 transition-colors">
+            {album.title}
+          </h2>
+          {album.takenAt && (
+            <p className="text-sm text-gray-500 mt-1">
+              {format(new Date(album.takenAt), 'd MMMM yyyy', { locale: getDateLocale(locale) })}
+            </p>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+}
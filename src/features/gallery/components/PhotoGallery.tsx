@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { MasonryPhotoAlbum } from 'react-photo-album';
+import Lightbox from 'yet-another-react-lightbox';
+import Captions from 'yet-another-react-lightbox/plugins/captions';
+import Counter from 'yet-another-react-lightbox/plugins/counter';
+import 'react-photo-album/masonry.css';
+import 'yet-another-react-lightbox/styles.css';
+import 'yet-another-react-lightbox/plugins/captions.css';
+import 'yet-another-react-lightbox/plugins/counter.css';
+import { AlbumPhoto } from '@/lib/api/gallery';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
+
+interface PhotoGalleryProps {
+  photos: AlbumPhoto[];
+}
+
+/**
+ * Masonry grid of an album's photos; clicking a photo opens the lightbox
+ */
+export function PhotoGallery({ photos }: PhotoGalleryProps) {
+  const m = useMessages();
+  const [index, setIndex] = useState(-1);
+
+  if (photos.length === 0) {
+    return (
+      <div className="text-center py-32">
+        <p className="text-gray-500 text-xl">{m.gallery.emptyAlbum}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <MasonryPhotoAlbum
+        photos={photos}
+        spacing={12}
+        columns={(containerWidth) => (containerWidth < 640 ? 2 : containerWidth < 1024 ? 3 : 4)}
+        sizes={{ size: '1200px', sizes: [{ viewport: '(max-width: 1200px)', size: 'calc(100vw - 32px)' }] }}
+        onClick={({ index: clicked }) => setIndex(clicked)}
+      />
+
+      <Lightbox
+        open={index >= 0}
+        index={index}
+        close={() => setIndex(-1)}
+        slides={photos.map((photo) => ({
+          src: photo.src,
+          width: photo.width,
+          height: photo.height,
+          alt: photo.alt,
+          description: photo.caption ?? undefined,
+        }))}
+        plugins={[Captions, Counter]}
+      />
+    </>
+  );
+}
@@ -4,19 +4,21 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { ArrowRight, Calendar } from 'lucide-react';
 import { format } from 'date-fns';
-import { id } from 'date-fns/locale';
 import { useEffect, useState } from 'react';
 import type { Article as ArticleListItem } from '@/lib/api/articles';
-import { ARTICLE_CATEGORIES } from '@/config/domain.config';
+import { getDateLocale, localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 export function ArticlesPreview() {
+  const locale = useLocale();
+  const m = useMessages();
   const [articles, setArticles] = useState<ArticleListItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchArticles = async () => {
       try {
-        const response = await fetch('/api/articles/featured');
+        const response = await fetch(`/api/articles/featured?locale=${locale}`);
         if (!response.ok) {
           throw new Error('Failed to fetch articles');
         }
@@ -30,10 +32,10 @@ export function ArticlesPreview() {
     };
 
     fetchArticles();
-  }, []);
+  }, [locale]);
 
   if (loading) {
-    return <div className="text-center py-12">Loading...</div>;
+    return <div className="text-center py-12">{m.common.loading}</div>;
   }
 
   return (
@@ -43,16 +45,16 @@ export function ArticlesPreview() {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 items-end mb-16">
           <div>
             <h2 className="text-5xl md:text-6xl font-bold text-gray-900 mb-4 leading-tight">
-              Artikel <span className="text-primary-600">Terbaru</span>
+              {m.home.latestArticles} <span className="text-primary-600">{m.home.latestArticlesHighlight}</span>
             </h2>
-            <p className="text-xl text-gray-600">Latest articles and insights</p>
+            <p className="text-xl text-gray-600">{m.home.latestArticlesSubtitle}</p>
           </div>
           <div className="flex justify-start lg:justify-end">
             <Link
-              href="/articles"
+              href={localizePath(locale, '/articles')}
               className="group inline-flex items-center gap-3 px-8 py-4 bg-gray-900 text-white font-medium rounded-full hover:bg-primary-600 transition-colors"
             >
-              Lihat Semua
+              {m.common.viewAll}
               <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
             </Link>
           </div>
@@ -65,7 +67,7 @@ export function ArticlesPreview() {
             return (
               <Link
                 key={article.id}
-                href={`/articles/${article.slug}`}
+                href={localizePath(locale, `/articles/${article.slug}`)}
                 className={`group relative ${isFeatured ? 'md:col-span-7 md:row-span-2' : 'md:col-span-5'}`}
               >
                 {/* Image - larger, more prominent */}
@@ -83,7 +85,7 @@ export function ArticlesPreview() {
                   {/* Category badge - floating */}
                   <div className="absolute top-6 left-6">
                     <span className="px-4 py-2 bg-white/90 backdrop-blur-sm text-gray-900 text-sm font-semibold rounded-full">
-                      {ARTICLE_CATEGORIES[article.category]}
+                      {m.categories.article[article.category]}
                     </span>
                   </div>
 
@@ -91,7 +93,7 @@ export function ArticlesPreview() {
                   <div className="absolute bottom-0 left-0 right-0 p-6 md:p-8">
                     <div className="flex items-center gap-2 text-white/80 text-sm mb-3">
                       <Calendar className="w-4 h-4" />
-                      <time>{format(new Date(article.publishedAt), 'd MMM yyyy', { locale: id })}</time>
+                      <time>{format(new Date(article.publishedAt), 'd MMM yyyy', { locale: getDateLocale(locale) })}</time>
                     </div>
                     <h3 className={`font-bold text-white mb-3 line-clamp-2 ${isFeatured ? 'text-2xl md:text-3xl' : 'text-xl md:text-2xl'}`}>
                       {article.title}
@@ -100,7 +102,7 @@ export function ArticlesPreview() {
                       <p className="text-white/90 line-clamp-2 mb-4">{article.excerpt}</p>
                     )}
                     <div className="flex items-center gap-2 text-white font-medium group-hover:gap-3 transition-all">
-                      Baca Selengkapnya
+                      {m.common.readMore}
                       <ArrowRight className="w-4 h-4" />
                     </div>
                   </div>
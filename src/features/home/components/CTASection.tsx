@@ -10,12 +10,17 @@ import { Button } from '@/shared/components/ui/Button';
 import { Phone, ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { HomeSettings } from '@/config';
+import { localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 interface CTASectionProps {
   data: HomeSettings['cta'];
 }
 
 export function CTASection({ data }: CTASectionProps) {
+  const locale = useLocale();
+  const m = useMessages();
+
   return (
     <section className="relative py-40 overflow-hidden bg-gradient-to-br from-primary-600 via-primary-700 to-primary-900">
       {/* Gradient overlays */}
@@ -47,7 +52,7 @@ export function CTASection({ data }: CTASectionProps) {
             {/* CTA Buttons - prominent */}
             <div className="flex flex-col sm:flex-row gap-4 justify-center mb-16">
               <Button size="lg" variant="secondary" asChild className="group text-lg px-8 py-6 shadow-2xl hover:scale-105 transition-transform">
-                <Link href={data.primaryCTA.link}>
+                <Link href={localizePath(locale, data.primaryCTA.link)}>
                   {data.primaryCTA.text}
                   <ArrowRight className="ml-2 w-5 h-5 group-hover:translate-x-1 transition-transform" />
                 </Link>
@@ -69,15 +74,15 @@ export function CTASection({ data }: CTASectionProps) {
             <div className="flex flex-wrap justify-center gap-12 pt-12 border-t border-white/20">
               <div className="text-center">
                 <p className="text-4xl md:text-5xl font-bold text-white mb-2">200+</p>
-                <p className="text-white/80">Anggota Aktif</p>
+                <p className="text-white/80">{m.home.stats.activeMembers}</p>
               </div>
               <div className="text-center">
                 <p className="text-4xl md:text-5xl font-bold text-white mb-2">50+</p>
-                <p className="text-white/80">Event per Tahun</p>
+                <p className="text-white/80">{m.home.stats.eventsPerYear}</p>
               </div>
               <div className="text-center">
                 <p className="text-4xl md:text-5xl font-bold text-white mb-2">8</p>
-                <p className="text-white/80">Divisi Aktif</p>
+                <p className="text-white/80">{m.home.stats.activeDivisions}</p>
               </div>
             </div>
           </motion.div>
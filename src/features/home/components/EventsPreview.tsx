@@ -4,18 +4,21 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { ArrowRight, Calendar, MapPin } from 'lucide-react';
 import { format } from 'date-fns';
-import { id } from 'date-fns/locale';
 import { useEffect, useState } from 'react';
 import type { Event as EventListItem } from '@/lib/api/events';
+import { getDateLocale, localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 export function EventsPreview() {
+  const locale = useLocale();
+  const m = useMessages();
   const [events, setEvents] = useState<EventListItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchEvents = async () => {
       try {
-        const response = await fetch('/api/events/upcoming');
+        const response = await fetch(`/api/events/upcoming?locale=${locale}`);
         if (!response.ok) {
           throw new Error('Failed to fetch events');
         }
@@ -29,10 +32,10 @@ export function EventsPreview() {
     };
 
     fetchEvents();
-  }, []);
+  }, [locale]);
 
   if (loading) {
-    return <div className="text-center py-12">Loading...</div>;
+    return <div className="text-center py-12">{m.common.loading}</div>;
   }
 
   return (
@@ -44,16 +47,16 @@ export function EventsPreview() {
         {/* Header - Large bold text */}
         <div className="max-w-4xl mb-16">
           <h2 className="text-6xl md:text-7xl font-bold text-gray-900 mb-6 leading-tight">
-            Event <br />
-            <span className="text-primary-600">Mendatang</span>
+            {m.home.upcomingEvents} <br />
+            <span className="text-primary-600">{m.home.upcomingEventsHighlight}</span>
           </h2>
           <div className="flex items-center justify-between">
-            <p className="text-xl text-gray-600">Don't miss our exciting upcoming events</p>
+            <p className="text-xl text-gray-600">{m.home.upcomingEventsSubtitle}</p>
             <Link
-              href="/events"
+              href={localizePath(locale, '/events')}
               className="hidden md:inline-flex items-center gap-2 text-gray-900 font-semibold hover:gap-3 transition-all"
             >
-              Lihat Semua
+              {m.common.viewAll}
               <ArrowRight className="w-5 h-5" />
             </Link>
           </div>
@@ -61,14 +64,14 @@ export function EventsPreview() {
 
         {events.length === 0 ? (
           <div className="text-center py-24 text-gray-500 text-xl">
-            Belum ada event mendatang
+            {m.home.noUpcomingEvents}
           </div>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {events.map((event) => (
               <Link
                 key={event.id}
-                href={`/events/${event.slug}`}
+                href={localizePath(locale, `/events/${event.slug}`)}
                 className="group relative"
               >
                 {/* Glassmorphism container */}
@@ -85,7 +88,7 @@ export function EventsPreview() {
                     {event.featured && (
                       <div className="absolute top-6 right-6">
                         <span className="px-4 py-2 bg-secondary-500 text-white text-sm font-bold rounded-full shadow-lg">
-                          Featured
+                          {m.common.featured}
                         </span>
                       </div>
                     )}
@@ -99,7 +102,7 @@ export function EventsPreview() {
                     <div className="inline-flex items-center gap-3 px-6 py-3 bg-gray-900 text-white rounded-2xl mb-6 shadow-xl">
                       <Calendar className="w-5 h-5" />
                       <time className="font-bold">
-                        {format(new Date(event.startDate), 'd MMMM yyyy', { locale: id })}
+                        {format(new Date(event.startDate), 'd MMMM yyyy', { locale: getDateLocale(locale) })}
                       </time>
                     </div>
 
@@ -128,10 +131,10 @@ export function EventsPreview() {
         {/* Mobile CTA */}
         <div className="text-center mt-12 md:hidden">
           <Link
-            href="/events"
+            href={localizePath(locale, '/events')}
             className="inline-flex items-center gap-3 px-8 py-4 bg-gray-900 text-white font-medium rounded-full hover:bg-primary-600 transition-colors"
           >
-            Lihat Semua Event
+            {m.home.viewAllEvents}
             <ArrowRight className="w-5 h-5" />
           </Link>
         </div>
@@ -11,6 +11,8 @@ import { Sparkles, Activity } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { CountingNumber } from '@/shared/components/ui/CountingNumber';
 import { HomeSettings } from '@/config';
+import { localizePath } from '@/lib/i18n';
+import { useLocale } from '@/lib/i18n/LocaleProvider';
 
 // Optimized animation variants for better performance
 const container = {
@@ -41,6 +43,8 @@ interface HeroSectionProps {
 }
 
 export function HeroSection({ data }: HeroSectionProps) {
+  const locale = useLocale();
+
   return (
     <div className="relative min-h-[90vh] flex items-center bg-white overflow-hidden pt-20">
       {/* Abstract Background Shapes - Clean & Modern */}
@@ -84,14 +88,14 @@ export function HeroSection({ data }: HeroSectionProps) {
             {/* CTAs - Minimal buttons */}
             <motion.div variants={item} className="flex flex-col sm:flex-row gap-4">
               <Link
-                href={data.primaryCTA.link}
+                href={localizePath(locale, data.primaryCTA.link)}
                 className="px-8 py-4 bg-gray-900 text-white rounded-full font-bold text-lg hover:bg-gray-800 transition-all hover:scale-105 active:scale-95 flex items-center justify-center gap-2"
               >
                 {data.primaryCTA.text}
                 <Activity className="w-5 h-5" />
               </Link>
               <Link
-                href={data.secondaryCTA.link}
+                href={localizePath(locale, data.secondaryCTA.link)}
                 className="px-8 py-4 bg-white text-gray-900 border border-gray-200 rounded-full font-bold text-lg hover:bg-gray-50 transition-all hover:border-gray-300 flex items-center justify-center"
               >
                 {data.secondaryCTA.text}
@@ -8,13 +8,17 @@
 import { motion, useMotionValue, useTransform, animate } from 'framer-motion';
 import { Users, Leaf, Award, TrendingUp } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
+import type { Messages } from '@/lib/i18n';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 interface Stat {
   id: string;
   icon: React.ComponentType<{ className?: string }>;
   value: number;
   suffix: string;
-  label: string;
+  /** Translated suffix, used instead of `suffix` */
+  unit?: keyof Messages['home']['stats'];
+  label: keyof Messages['home']['stats'];
   color: string;
 }
 
@@ -24,7 +28,7 @@ const stats: Stat[] = [
     icon: Users,
     value: 200,
     suffix: '+',
-    label: 'Anggota Aktif',
+    label: 'activeMembers',
     color: 'from-blue-500 to-blue-600',
   },
   {
@@ -32,7 +36,7 @@ const stats: Stat[] = [
     icon: Award,
     value: 50,
     suffix: '+',
-    label: 'Event per Tahun',
+    label: 'eventsPerYear',
     color: 'from-green-500 to-green-600',
   },
   {
@@ -40,15 +44,16 @@ const stats: Stat[] = [
     icon: TrendingUp,
     value: 8,
     suffix: '',
-    label: 'Divisi Aktif',
+    label: 'activeDivisions',
     color: 'from-amber-500 to-amber-600',
   },
   {
     id: '4',
     icon: Leaf,
     value: 10,
-    suffix: ' Tahun',
-    label: 'Pengalaman Berorganisasi',
+    suffix: '',
+    unit: 'yearsSuffix',
+    label: 'experience',
     color: 'from-primary-500 to-primary-600',
   },
 ];
@@ -95,6 +100,8 @@ function Counter({ value, suffix }: { value: number; suffix: string }) {
 }
 
 export function StatsSection() {
+  const m = useMessages();
+
   return (
     <section className="relative py-40 overflow-hidden bg-gray-900">
       {/* Gradient overlays */}
@@ -110,7 +117,7 @@ export function StatsSection() {
           className="text-center mb-24"
         >
           <h2 className="text-5xl md:text-7xl font-bold text-white mb-6 leading-tight">
-            Our Community in <span className="text-primary-400">Numbers</span>
+            {m.home.statsTitle} <span className="text-primary-400">{m.home.statsHighlight}</span>
           </h2>
         </motion.div>
 
@@ -132,12 +139,12 @@ export function StatsSection() {
 
                 {/* Big number - focus on data */}
                 <div className="text-white mb-4">
-                  <Counter value={stat.value} suffix={stat.suffix} />
+                  <Counter value={stat.value} suffix={stat.unit ? m.home.stats[stat.unit] : stat.suffix} />
                 </div>
 
                 {/* Label */}
                 <p className="text-gray-400 font-medium text-sm md:text-base">
-                  {stat.label}
+                  {m.home.stats[stat.label]}
                 </p>
               </motion.div>
             );
@@ -153,7 +160,7 @@ export function StatsSection() {
             className="text-center"
           >
             <p className="text-gray-400 text-lg max-w-2xl mx-auto">
-              Organisasi mahasiswa farmasi yang aktif mengembangkan akademik, soft skills, dan pengabdian masyarakat
+              {m.home.statsDescription}
             </p>
           </motion.div>
         </div>
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowRight, CheckCircle, Loader2 } from 'lucide-react';
+import { newsletterSchema, NewsletterData } from '@/infrastructure/validators/schemas';
+import { subscribeNewsletter } from '@/lib/api/newsletter';
+import { getErrorCode } from '@/lib/utils/error-handler';
+import { formatError } from '@/lib/i18n';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
+
+/**
+ * Newsletter sign-up for the footer (dark background)
+ */
+export function NewsletterSignup() {
+  const m = useMessages();
+  const [submitted, setSubmitted] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<NewsletterData>({
+    resolver: zodResolver(newsletterSchema),
+    defaultValues: { email: '' },
+  });
+
+  async function onSubmit(data: NewsletterData) {
+    setSubmitError(null);
+    try {
+      await subscribeNewsletter(data.email);
+      setSubmitted(true);
+    } catch (error) {
+      setSubmitError(formatError(m, getErrorCode(error)) ?? m.newsletter.failed);
+    }
+  }
+
+  if (submitted) {
+    return (
+      <p className="flex items-start gap-3 text-gray-300">
+        <CheckCircle className="w-5 h-5 mt-0.5 shrink-0 text-green-400" />
+        {m.newsletter.checkEmail}
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} noValidate>
+      <label htmlFor="newsletter-email" className="block text-gray-400 mb-4">
+        {m.newsletter.signupLabel}
+      </label>
+      <div className="flex border-b border-gray-700 focus-within:border-white transition-colors">
+        <input
+          id="newsletter-email"
+          type="email"
+          placeholder={m.common.emailPlaceholder}
+          autoComplete="email"
+          {...register('email')}
+          className="flex-1 bg-transparent py-3 text-white placeholder-gray-600 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-2 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+          aria-label={m.newsletter.submitLabel}
+        >
+          {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <ArrowRight className="w-5 h-5" />}
+        </button>
+      </div>
+      {(errors.email || submitError) && (
+        <p className="mt-2 text-sm text-red-400">{formatError(m, errors.email?.message) ?? submitError}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, MailX } from 'lucide-react';
+import { Button } from '@/shared/components/ui/Button';
+import { unsubscribeNewsletter } from '@/lib/api/newsletter';
+import { getErrorCode } from '@/lib/utils/error-handler';
+import { formatError, localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+
+interface UnsubscribeFormProps {
+  /** Token from the emailed link */
+  token: string;
+}
+
+export function UnsubscribeForm({ token }: UnsubscribeFormProps) {
+  const locale = useLocale();
+  const m = useMessages();
+  const [done, setDone] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  async function handleUnsubscribe() {
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      await unsubscribeNewsletter(token);
+      setDone(true);
+    } catch (error) {
+      setSubmitError(formatError(m, getErrorCode(error)) ?? m.newsletter.unsubscribeFailed);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (done) {
+    return (
+      <>
+        <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{m.newsletter.unsubscribedTitle}</h1>
+        <p className="text-gray-600 mb-6">{m.newsletter.unsubscribedMessage}</p>
+        <Link href={localizePath(locale, '/')} className="text-primary-600 hover:text-primary-700 font-medium">
+          {m.common.backToHome}
+        </Link>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <MailX className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">{m.newsletter.unsubscribeTitle}</h1>
+      <p className="text-gray-600 mb-6">{m.newsletter.unsubscribeMessage}</p>
+      {submitError && <p className="text-sm text-red-600 mb-4">{submitError}</p>}
+      <Button
+        onClick={handleUnsubscribe}
+        className="w-full"
+        size="lg"
+        isLoading={submitting}
+        disabled={!token}
+      >
+        {m.newsletter.unsubscribeSubmit}
+      </Button>
+    </>
+  );
+}
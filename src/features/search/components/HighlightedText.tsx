@@ -0,0 +1,33 @@
+import { Fragment } from 'react';
+import { HIGHLIGHT_START, HIGHLIGHT_END } from '@/lib/api/search';
+
+interface HighlightedTextProps {
+  /** Text with matches wrapped in the database highlight markers */
+  text: string;
+  className?: string;
+}
+
+/**
+ * Renders search highlights as <mark> elements; everything else stays
+ * plain text, so content is escaped by React as usual
+ */
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => {
+        if (index === 0) {
+          return <Fragment key={index}>{part}</Fragment>;
+        }
+        const [match, rest = ''] = part.split(HIGHLIGHT_END);
+        return (
+          <Fragment key={index}>
+            <mark className="bg-primary-100 text-primary-900 rounded px-0.5">{match}</mark>
+            {rest}
+          </Fragment>
+        );
+      })}
+    </span>
+  );
+}
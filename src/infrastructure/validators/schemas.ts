@@ -1,6 +1,10 @@
 /**
  * Validation Schemas
  * Zod schemas untuk form validation
+ *
+ * The public form schemas (contact, event registration, newsletter,
+ * comments) use error codes from the message catalog as messages;
+ * forms show them with formatError.
  */
 
 import { z } from 'zod';
@@ -34,19 +38,35 @@ export type BookingFormData = z.infer<typeof bookingSchema>;
  * Contact Form Schema
  */
 export const contactSchema = z.object({
-  name: z.string().min(2, 'Nama minimal 2 karakter'),
-  email: z.string().email('Email tidak valid'),
+  name: z.string().min(2, 'nameTooShort'),
+  email: z.string().email('invalidEmail'),
   phone: z
     .string()
-    .regex(/^(\+62|62|0)[0-9]{9,12}$/, 'Nomor telepon tidak valid')
+    .regex(/^(\+62|62|0)[0-9]{9,12}$/, 'invalidPhone')
     .optional()
     .or(z.literal('')),
-  subject: z.string().min(5, 'Subjek minimal 5 karakter').max(100),
-  message: z.string().min(10, 'Pesan minimal 10 karakter').max(1000),
+  subject: z.string().min(5, 'subjectTooShort').max(100, 'subjectTooLong'),
+  message: z.string().min(10, 'messageTooShort').max(1000, 'messageTooLong'),
 });
 
 export type ContactFormData = z.infer<typeof contactSchema>;
 
+/**
+ * Event Registration Schema
+ */
+export const eventRegistrationSchema = z.object({
+  name: z.string().trim().min(2, 'nameTooShort').max(100, 'nameTooLong'),
+  email: z.string().trim().email('invalidEmail'),
+  phone: z
+    .string()
+    .regex(/^(\+62|62|0)[0-9]{9,12}$/, 'invalidPhone')
+    .optional()
+    .or(z.literal('')),
+  notes: z.string().max(500, 'notesTooLong').optional(),
+});
+
+export type EventRegistrationFormData = z.infer<typeof eventRegistrationSchema>;
+
 /**
  * Product Order Schema (via WhatsApp)
  */
@@ -66,7 +86,18 @@ export type ProductOrderData = z.infer<typeof productOrderSchema>;
  * Newsletter Subscription Schema
  */
 export const newsletterSchema = z.object({
-  email: z.string().email('Email tidak valid'),
+  email: z.string().email('invalidEmail'),
 });
 
 export type NewsletterData = z.infer<typeof newsletterSchema>;
+
+/**
+ * Article Comment Schema
+ */
+export const commentSchema = z.object({
+  name: z.string().trim().min(2, 'nameTooShort').max(100, 'nameTooLong'),
+  email: z.string().trim().email('invalidEmail'),
+  body: z.string().trim().min(3, 'commentTooShort').max(2000, 'commentTooLong'),
+});
+
+export type CommentFormData = z.infer<typeof commentSchema>;
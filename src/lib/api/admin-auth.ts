@@ -0,0 +1,188 @@
+/**
+ * Admin API Auth Guard
+ *
+ * Shared caller verification for server-side API routes.
+ * Resolves the caller from the `Authorization: Bearer <token>` header
+ * (or the HTTP-only session cookie when no header is sent), loads their
+ * profile with the service role client and checks the role.
+ * `withUserAuth` skips the role check for routes open to any signed-in
+ * user (e.g. the member portal).
+ *
+ * @example
+ * ```ts
+ * export const GET = withAdminAuth(['super_admin'], async (request, { supabase, user }) => {
+ *   const { data } = await supabase.from('profiles').select('*');
+ *   return NextResponse.json({ users: data });
+ * });
+ * ```
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { createSupabaseServerClient } from '@/lib/supabase/ssr';
+import { UserRole } from '@/types/auth-definitions';
+
+/**
+ * Signed-in caller passed to `withUserAuth` handlers
+ */
+export interface UserAuthContext {
+  /** Service role client (bypasses RLS) */
+  supabase: SupabaseClient;
+  /** Authenticated Supabase user */
+  user: User;
+}
+
+/**
+ * Verified caller passed to guarded handlers
+ */
+export interface AdminAuthContext extends UserAuthContext {
+  /** Caller's profile row */
+  profile: {
+    id: string;
+    email: string;
+    full_name: string | null;
+    role: UserRole;
+  };
+}
+
+type RequireUserResult =
+  | { context: UserAuthContext; response: null }
+  | { context: null; response: NextResponse };
+
+type RequireRoleResult =
+  | { context: AdminAuthContext; response: null }
+  | { context: null; response: NextResponse };
+
+/**
+ * Verify the request's caller without looking at their role.
+ * Returns either the verified context or a ready-to-return 401/500 response.
+ */
+export async function requireUser(request: NextRequest): Promise<RequireUserResult> {
+  const { client: supabase, error: clientError } = createSupabaseAdmin();
+  if (clientError || !supabase) {
+    return {
+      context: null,
+      response: clientError ?? NextResponse.json({ error: 'Failed to create admin client' }, { status: 500 }),
+    };
+  }
+
+  // Prefer an explicit bearer token, fall back to the cookie session
+  const authHeader = request.headers.get('authorization');
+  const { data: { user }, error: userError } = authHeader?.startsWith('Bearer ')
+    ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    : await createSupabaseServerClient().auth.getUser();
+
+  if (userError || !user) {
+    return {
+      context: null,
+      response: NextResponse.json(
+        { error: 'Unauthorized - missing or invalid session' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  return { context: { supabase, user }, response: null };
+}
+
+/**
+ * Verify the request's caller and require one of the given roles.
+ * Returns either the verified context or a ready-to-return 401/403/500 response.
+ */
+export async function requireRole(
+  request: NextRequest,
+  roles: UserRole[]
+): Promise<RequireRoleResult> {
+  const { context: caller, response } = await requireUser(request);
+  if (!caller) {
+    return { context: null, response };
+  }
+  const { supabase, user } = caller;
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, role')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError || !profile || !roles.includes(profile.role as UserRole)) {
+    return {
+      context: null,
+      response: NextResponse.json(
+        { error: `Forbidden - requires role: ${roles.join(', ')}` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return {
+    context: {
+      supabase,
+      user,
+      profile: profile as AdminAuthContext['profile'],
+    },
+    response: null,
+  };
+}
+
+/**
+ * Wrap a route handler so it only runs for callers with one of the given roles.
+ * The handler receives the verified context and the route's `params`.
+ */
+export function withAdminAuth<P = Record<string, string>>(
+  roles: UserRole[],
+  handler: (
+    request: NextRequest,
+    auth: AdminAuthContext,
+    routeContext: { params: P }
+  ) => Promise<NextResponse>
+): (request: NextRequest, routeContext: { params: P }) => Promise<NextResponse> {
+  return async (request, routeContext) => {
+    try {
+      const { context, response } = await requireRole(request, roles);
+      if (!context) {
+        return response;
+      }
+
+      return await handler(request, context, routeContext);
+    } catch (error) {
+      console.error(`[API] ${request.method} ${request.nextUrl.pathname} failed:`, error);
+      const message = error instanceof Error ? error.message : 'Internal server error';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+  };
+}
+
+/**
+ * Wrap a route handler so it runs for any signed-in caller, whatever
+ * their role. Handlers must scope what they touch to `user.id` themselves.
+ */
+export function withUserAuth<P = Record<string, string>>(
+  handler: (
+    request: NextRequest,
+    auth: UserAuthContext,
+    routeContext: { params: P }
+  ) => Promise<NextResponse>
+): (request: NextRequest, routeContext: { params: P }) => Promise<NextResponse> {
+  return async (request, routeContext) => {
+    try {
+      const { context, response } = await requireUser(request);
+      if (!context) {
+        return response;
+      }
+
+      return await handler(request, context, routeContext);
+    } catch (error) {
+      console.error(`[API] ${request.method} ${request.nextUrl.pathname} failed:`, error);
+      const message = error instanceof Error ? error.message : 'Internal server error';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Article Comments - Approved comment threads for article pages
+ *
+ * Comments are admin-only under RLS (they hold commenters' emails), so
+ * the public thread is read here with the service client and only safe
+ * columns leave the server.
+ * Server-only (uses the service client).
+ */
+
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { PublicComment } from '@/types/comment';
+
+interface CommentRow {
+  id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  author_name: string;
+  body: string;
+  created_at: string;
+}
+
+/**
+ * Approved comments for an article as a thread, oldest first.
+ * Replies whose parent is no longer approved are left out.
+ */
+export async function getApprovedComments(articleId: string): Promise<PublicComment[]> {
+  const { client: supabaseAdmin } = createSupabaseAdmin();
+  if (!supabaseAdmin) {
+    throw new Error('Comments are not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('article_comments')
+    .select('id, parent_id, author_id, author_name, body, created_at')
+    .eq('article_id', articleId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching comments:', error);
+    throw new Error('Failed to fetch comments');
+  }
+
+  const byId = new Map<string, PublicComment>();
+  for (const row of (data ?? []) as CommentRow[]) {
+    byId.set(row.id, {
+      id: row.id,
+      parent_id: row.parent_id,
+      author_name: row.author_name,
+      is_member: row.author_id !== null,
+      body: row.body,
+      created_at: row.created_at,
+      replies: [],
+    });
+  }
+
+  const thread: PublicComment[] = [];
+  byId.forEach((comment) => {
+    if (!comment.parent_id) {
+      thread.push(comment);
+    } else {
+      byId.get(comment.parent_id)?.replies.push(comment);
+    }
+  });
+
+  return thread;
+}
@@ -0,0 +1,103 @@
+/**
+ * Article Feeds
+ *
+ * RSS / Atom / JSON Feed endpoints for published articles, optionally
+ * narrowed with ?category= to one of ARTICLE_CATEGORIES.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getArticles, Article, ArticleCategory } from '@/lib/api/articles';
+import { renderMarkdownToHtml } from '@/lib/utils/markdown';
+import { Feed, FeedFormat, FeedItem, FEED_CONTENT_TYPES, buildRssFeed, buildAtomFeed, buildJsonFeed } from '@/lib/utils/feeds';
+import { getArticleFeedPaths } from '@/lib/constants/feeds';
+import { ARTICLE_CATEGORIES } from '@/config/domain.config';
+import { SITE_CONFIG } from '@/config/site.config';
+
+/** Newest articles included in each feed */
+const FEED_ITEM_LIMIT = 50;
+
+const BUILDERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+};
+
+export function isArticleCategory(value: string): value is ArticleCategory {
+  return Object.prototype.hasOwnProperty.call(ARTICLE_CATEGORIES, value);
+}
+
+async function toFeedItem(article: Article): Promise<FeedItem> {
+  const url = `${SITE_CONFIG.url}/articles/${article.slug}`;
+  return {
+    id: url,
+    url,
+    title: article.title,
+    summary: article.excerpt,
+    contentHtml: await renderMarkdownToHtml(article.content),
+    image: article.coverImage || undefined,
+    tags: article.tags,
+    authorName: article.author.name,
+    publishedAt: article.publishedAt,
+    updatedAt: article.updatedAt,
+  };
+}
+
+async function getArticleFeed(category: ArticleCategory | null): Promise<Feed> {
+  const articles = (await getArticles())
+    .filter((article) => !category || article.category === category)
+    .slice(0, FEED_ITEM_LIMIT);
+  const paths = getArticleFeedPaths(category ?? undefined);
+
+  return {
+    title: category ? `${SITE_CONFIG.name} - ${ARTICLE_CATEGORIES[category]}` : `${SITE_CONFIG.name} - Artikel`,
+    description: SITE_CONFIG.description,
+    homePageUrl: `${SITE_CONFIG.url}/articles${category ? `?category=${category}` : ''}`,
+    feedUrls: {
+      rss: `${SITE_CONFIG.url}${paths.rss}`,
+      atom: `${SITE_CONFIG.url}${paths.atom}`,
+      json: `${SITE_CONFIG.url}${paths.json}`,
+    },
+    language: 'id',
+    items: await Promise.all(articles.map(toFeedItem)),
+  };
+}
+
+/**
+ * Route handler serving the article feed in one format
+ *
+ * @example
+ * export const GET = createArticleFeedHandler('rss');
+ */
+export function createArticleFeedHandler(format: FeedFormat) {
+  return async function GET(request: NextRequest): Promise<NextResponse> {
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    let category: ArticleCategory | null = null;
+
+    if (categoryParam) {
+      if (!isArticleCategory(categoryParam)) {
+        return NextResponse.json(
+          { error: 'Invalid category' },
+          { status: 400 }
+        );
+      }
+      category = categoryParam;
+    }
+
+    try {
+      const feed = await getArticleFeed(category);
+
+      return new NextResponse(BUILDERS[format](feed), {
+        headers: {
+          'Content-Type': `${FEED_CONTENT_TYPES[format]}; charset=utf-8`,
+          'Cache-Control': 'public, max-age=900',
+        },
+      });
+    } catch (error) {
+      console.error(`Error building ${format} article feed:`, error);
+      return NextResponse.json(
+        { error: 'Failed to build article feed' },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Article Reviews API - Client wrappers for the editorial workflow
+ *
+ * Calls /api/admin/articles/[id]/review with the current session token.
+ * Status transitions and history are applied server-side.
+ */
+
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { ArticleReview } from '@/types/article';
+
+/**
+ * Review action accepted by the API
+ */
+export type ReviewRequestAction = 'submit' | 'approve' | 'request_changes';
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Get the review history for an article (newest first)
+ */
+export async function getArticleReviews(articleId: string): Promise<ArticleReview[]> {
+  const response = await fetch(`/api/admin/articles/${articleId}/review`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load review history');
+  }
+
+  const result = await response.json();
+  return result.reviews ?? [];
+}
+
+/**
+ * Apply a review action to an article
+ *
+ * @param articleId - Article to act on
+ * @param action - 'submit' (author), 'approve' or 'request_changes' (admin)
+ * @param comment - Reviewer notes (required for 'request_changes')
+ */
+export async function reviewArticle(
+  articleId: string,
+  action: ReviewRequestAction,
+  comment?: string
+): Promise<ArticleReview> {
+  const response = await fetch(`/api/admin/articles/${articleId}/review`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ action, comment }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to update review status');
+  }
+
+  const result = await response.json();
+  return result.review;
+}
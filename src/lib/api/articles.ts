@@ -3,9 +3,18 @@
  *
  * Direct Supabase queries with proper error handling.
  * Uses database types directly (no conversion needed).
+ * Getters take the page locale and return translated title, excerpt and
+ * content when available.
+ * Public queries only return articles whose published_at has passed,
+ * so scheduled articles stay hidden even for signed-in editors.
  */
 
 import { supabase } from '@/lib/supabase/client';
+import { getRelatedContentIds, orderByIds, RelatedContentSource } from '@/lib/api/related-content';
+import { DEFAULT_LOCALE, type Locale } from '@/config/i18n.config';
+import { localizeContent } from '@/lib/i18n/content';
+import { getReadingStats } from '@/lib/utils/markdown-outline';
+import type { ArticleTranslations } from '@/types/article';
 
 /**
  * Article category type matching database enum
@@ -32,13 +41,18 @@ interface ArticleRaw {
   featured: boolean;
   status: ArticleStatus;
   author_id: string;
+  /** Copy of the author's profile, kept in sync by the database */
   author: {
     name: string;
-    email: string;
+    avatar_url?: string | null;
   };
   published_at: string;
   created_at: string;
   updated_at: string;
+  views: number | null;
+  comments_enabled: boolean;
+  comment_count: number;
+  translations: ArticleTranslations | null;
 }
 
 /**
@@ -56,37 +70,57 @@ export interface Article {
   featured: boolean;
   status: ArticleStatus;
   author: {
+    /** Profile id, for the /authors/[id] page */
+    id: string | null;
     name: string;
-    role: string;
     avatar?: string;
   };
   publishedAt: string;
   updatedAt: string;
   views?: number;
+  commentsEnabled: boolean;
+  /** Approved comments */
+  commentCount: number;
+  /** Words in the (translated) content */
+  wordCount: number;
+  /** Estimated reading time in minutes */
+  readingMinutes: number;
 }
 
 /**
  * Transform raw database article to frontend format
  */
-function transformArticle(raw: ArticleRaw): Article {
+function transformArticle(raw: ArticleRaw, locale: Locale = DEFAULT_LOCALE): Article {
+  const { title, excerpt, content } = localizeContent(
+    { title: raw.title, excerpt: raw.excerpt, content: raw.content },
+    raw.translations,
+    locale
+  );
+  const { words, minutes } = getReadingStats(content);
+
   return {
     id: raw.id,
-    title: raw.title,
+    title,
     slug: raw.slug,
-    excerpt: raw.excerpt,
-    content: raw.content,
+    excerpt,
+    content,
     category: raw.category,
     coverImage: raw.cover_image,
     tags: raw.tags || [],
     featured: raw.featured,
     status: raw.status,
     author: {
+      id: raw.author_id || null,
       name: raw.author?.name || 'Unknown',
-      role: raw.author?.email || '',
-      avatar: undefined,
+      avatar: raw.author?.avatar_url || undefined,
     },
     publishedAt: raw.published_at,
     updatedAt: raw.updated_at,
+    views: raw.views ?? 0,
+    commentsEnabled: raw.comments_enabled ?? true,
+    commentCount: raw.comment_count ?? 0,
+    wordCount: words,
+    readingMinutes: minutes,
   };
 }
 
@@ -105,11 +139,12 @@ export interface PaginatedResult<T> {
 /**
  * Get all published articles
  */
-export async function getArticles(): Promise<Article[]> {
+export async function getArticles(locale: Locale = DEFAULT_LOCALE): Promise<Article[]> {
   const { data, error } = await supabase
     .from('articles')
     .select('*')
     .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
     .order('published_at', { ascending: false });
 
   if (error) {
@@ -117,18 +152,19 @@ export async function getArticles(): Promise<Article[]> {
     throw new Error('Failed to fetch articles');
   }
 
-  return (data || []).map(transformArticle);
+  return (data || []).map((raw) => transformArticle(raw, locale));
 }
 
 /**
  * Get article by slug
  */
-export async function getArticleBySlug(slug: string): Promise<Article | null> {
+export async function getArticleBySlug(slug: string, locale: Locale = DEFAULT_LOCALE): Promise<Article | null> {
   const { data, error } = await supabase
     .from('articles')
     .select('*')
     .eq('slug', slug)
     .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
     .single();
 
   if (error) {
@@ -139,18 +175,19 @@ export async function getArticleBySlug(slug: string): Promise<Article | null> {
     throw new Error('Failed to fetch article');
   }
 
-  return data ? transformArticle(data) : null;
+  return data ? transformArticle(data, locale) : null;
 }
 
 /**
  * Get articles by category
  */
-export async function getArticlesByCategory(category: ArticleCategory): Promise<Article[]> {
+export async function getArticlesByCategory(category: ArticleCategory, locale: Locale = DEFAULT_LOCALE): Promise<Article[]> {
   const { data, error } = await supabase
     .from('articles')
     .select('*')
     .eq('category', category)
     .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
     .order('published_at', { ascending: false });
 
   if (error) {
@@ -158,7 +195,66 @@ export async function getArticlesByCategory(category: ArticleCategory): Promise<
     throw new Error('Failed to fetch articles by category');
   }
 
-  return (data || []).map(transformArticle);
+  return (data || []).map((raw) => transformArticle(raw, locale));
+}
+
+/**
+ * Get articles with a tag (tags are stored in their registered spelling)
+ */
+export async function getArticlesByTag(tag: string, locale: Locale = DEFAULT_LOCALE): Promise<Article[]> {
+  const { data, error } = await supabase
+    .from('articles')
+    .select('*')
+    .contains('tags', [tag])
+    .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
+    .order('published_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching articles by tag:', error);
+    throw new Error('Failed to fetch articles by tag');
+  }
+
+  return (data || []).map((raw) => transformArticle(raw, locale));
+}
+
+/**
+ * Get paginated articles written by a profile
+ */
+export async function getPaginatedArticlesByAuthor(
+  authorId: string,
+  page: number,
+  limit: number,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<PaginatedResult<Article>> {
+  const from = (page - 1) * limit;
+  const to = from + limit - 1;
+
+  const { data, count, error } = await supabase
+    .from('articles')
+    .select('*', { count: 'exact' })
+    .eq('author_id', authorId)
+    .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
+    .order('published_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    console.error('Error fetching articles by author:', error);
+    throw new Error('Failed to fetch articles by author');
+  }
+
+  const totalCount = count ?? 0;
+  const totalPages = Math.ceil(totalCount / limit);
+
+  return {
+    items: (data || []).map((raw) => transformArticle(raw, locale)),
+    totalCount,
+    totalPages,
+    currentPage: page,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
 }
 
 /**
@@ -167,7 +263,8 @@ export async function getArticlesByCategory(category: ArticleCategory): Promise<
 export async function getPaginatedArticles(
   page: number,
   limit: number,
-  category?: ArticleCategory
+  category?: ArticleCategory,
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<PaginatedResult<Article>> {
   const from = (page - 1) * limit;
   const to = from + limit - 1;
@@ -176,6 +273,7 @@ export async function getPaginatedArticles(
     .from('articles')
     .select('*', { count: 'exact' })
     .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
     .order('published_at', { ascending: false });
 
   if (category) {
@@ -193,7 +291,7 @@ export async function getPaginatedArticles(
   const totalPages = Math.ceil(totalCount / limit);
 
   return {
-    items: (data || []).map(transformArticle),
+    items: (data || []).map((raw) => transformArticle(raw, locale)),
     totalCount,
     totalPages,
     currentPage: page,
@@ -205,12 +303,13 @@ export async function getPaginatedArticles(
 /**
  * Get featured articles
  */
-export async function getFeaturedArticles(limit: number = 3): Promise<Article[]> {
+export async function getFeaturedArticles(limit: number = 3, locale: Locale = DEFAULT_LOCALE): Promise<Article[]> {
   const { data, error } = await supabase
     .from('articles')
     .select('*')
     .eq('featured', true)
     .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
     .order('published_at', { ascending: false })
     .limit(limit);
 
@@ -219,17 +318,18 @@ export async function getFeaturedArticles(limit: number = 3): Promise<Article[]>
     throw new Error('Failed to fetch featured articles');
   }
 
-  return (data || []).map(transformArticle);
+  return (data || []).map((raw) => transformArticle(raw, locale));
 }
 
 /**
  * Get recent articles
  */
-export async function getRecentArticles(limit: number = 5): Promise<Article[]> {
+export async function getRecentArticles(limit: number = 5, locale: Locale = DEFAULT_LOCALE): Promise<Article[]> {
   const { data, error } = await supabase
     .from('articles')
     .select('*')
     .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
     .order('published_at', { ascending: false })
     .limit(limit);
 
@@ -238,60 +338,96 @@ export async function getRecentArticles(limit: number = 5): Promise<Article[]> {
     throw new Error('Failed to fetch recent articles');
   }
 
-  return (data || []).map(transformArticle);
+  return (data || []).map((raw) => transformArticle(raw, locale));
 }
 
 /**
- * Get related articles based on category
+ * Get most read published articles
+ *
+ * @param limit - Number of articles to return
+ * @param days - Only count views from the last N days (omit for all-time totals)
+ * @param locale - Locale to translate the articles into
  */
-export async function getRelatedArticles(articleId: string, limit: number = 3): Promise<Article[]> {
-  // First, get the current article's category
-  const { data: currentArticle, error: currentError } = await supabase
-    .from('articles')
-    .select('category')
-    .eq('id', articleId)
-    .single();
+export async function getMostReadArticles(
+  limit: number = 5,
+  days?: number,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Article[]> {
+  if (!days) {
+    const { data, error } = await supabase
+      .from('articles')
+      .select('*')
+      .eq('status', 'published')
+      .lte('published_at', new Date().toISOString())
+      .gt('views', 0)
+      .order('views', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching most read articles:', error);
+      throw new Error('Failed to fetch most read articles');
+    }
+
+    return (data || []).map((raw) => transformArticle(raw, locale));
+  }
+
+  // Ranked by the views summed inside the window (most_read_articles)
+  const { data: ranked, error: rankError } = await supabase.rpc('most_read_articles', {
+    p_days: days,
+    p_limit: limit,
+  } as never);
 
-  if (currentError || !currentArticle) {
-    console.error('Error fetching current article:', currentError);
+  if (rankError) {
+    console.error('Error ranking most read articles:', rankError);
+    throw new Error('Failed to fetch most read articles');
+  }
+
+  const ids = ((ranked ?? []) as { id: string; views: number }[]).map((row) => row.id);
+  if (ids.length === 0) {
     return [];
   }
 
-  // Get articles with same category, excluding current article
   const { data, error } = await supabase
     .from('articles')
     .select('*')
-    .eq('category', (currentArticle as { category: ArticleCategory }).category)
+    .in('id', ids)
     .eq('status', 'published')
-    .neq('id', articleId)
-    .order('published_at', { ascending: false })
-    .limit(limit);
+    .lte('published_at', new Date().toISOString());
 
   if (error) {
-    console.error('Error fetching related articles:', error);
-    return [];
+    console.error('Error fetching most read articles:', error);
+    throw new Error('Failed to fetch most read articles');
   }
 
-  return (data || []).map(transformArticle);
+  return orderByIds((data || []) as ArticleRaw[], ids).map((raw) => transformArticle(raw, locale));
 }
 
 /**
- * Search articles by query
+ * Get articles related to an article or event
+ * Ranked by shared tags, text similarity and recency, falling back to
+ * recent articles when little overlaps.
  */
-export async function searchArticles(query: string): Promise<Article[]> {
-  const lowerQuery = query.toLowerCase();
+export async function getRelatedArticles(
+  source: RelatedContentSource,
+  limit: number = 3,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Article[]> {
+  const ids = await getRelatedContentIds(source, 'article', limit);
+  if (ids.length === 0) {
+    return [];
+  }
 
   const { data, error } = await supabase
     .from('articles')
     .select('*')
+    .in('id', ids)
     .eq('status', 'published')
-    .or(`title.ilike.%${lowerQuery}%,excerpt.ilike.%${lowerQuery}%,content.ilike.%${lowerQuery}%`)
-    .order('published_at', { ascending: false });
+    .lte('published_at', new Date().toISOString());
 
   if (error) {
-    console.error('Error searching articles:', error);
-    throw new Error('Failed to search articles');
+    console.error('Error fetching related articles:', error);
+    return [];
   }
 
-  return (data || []).map(transformArticle);
+  return orderByIds((data || []) as ArticleRaw[], ids).map((raw) => transformArticle(raw, locale));
 }
@@ -0,0 +1,63 @@
+/**
+ * Authors API - Public author profiles
+ *
+ * Reads the author_profiles view, which only exposes the public fields
+ * (name, avatar, bio) of profiles with at least one published article.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+
+/**
+ * Author profile from database (raw snake_case)
+ */
+interface AuthorRaw {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Author with camelCase fields (for frontend)
+ */
+export interface Author {
+  id: string;
+  name: string;
+  avatar?: string;
+  bio?: string;
+  updatedAt: string | null;
+}
+
+function transformAuthor(raw: AuthorRaw): Author {
+  return {
+    id: raw.id,
+    name: raw.full_name || 'Unknown',
+    avatar: raw.avatar_url || undefined,
+    bio: raw.bio || undefined,
+    updatedAt: raw.updated_at,
+  };
+}
+
+/**
+ * Get a public author profile (null when the id is unknown or has no
+ * published articles)
+ */
+export async function getAuthorById(id: string): Promise<Author | null> {
+  const { data, error } = await supabase
+    .from('author_profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    // Malformed uuid
+    if (error.code === '22P02') {
+      return null;
+    }
+    console.error('Error fetching author:', error);
+    throw new Error('Failed to fetch author');
+  }
+
+  return data ? transformAuthor(data as AuthorRaw) : null;
+}
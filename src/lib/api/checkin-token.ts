@@ -0,0 +1,50 @@
+/**
+ * Event Check-in Tokens
+ *
+ * Signed ticket tokens for event registrations: `<registrationId>.<signature>`,
+ * where the signature is an HMAC-SHA256 of the registration id.
+ * Server-only (uses the signing secret).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getSecret(): string {
+  const secret = process.env.CHECKIN_TOKEN_SECRET ?? process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('CHECKIN_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(registrationId: string): string {
+  return createHmac('sha256', getSecret()).update(`checkin:${registrationId}`).digest('base64url');
+}
+
+/**
+ * Create the ticket token for a registration
+ */
+export function createCheckInToken(registrationId: string): string {
+  return `${registrationId}.${sign(registrationId)}`;
+}
+
+/**
+ * Verify a ticket token
+ *
+ * @returns The registration id, or null when the token is malformed or forged
+ */
+export function verifyCheckInToken(token: string): string | null {
+  const [registrationId, signature, ...rest] = token.trim().split('.');
+  if (!registrationId || !signature || rest.length > 0 || !UUID_PATTERN.test(registrationId)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(registrationId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return registrationId.toLowerCase();
+}
@@ -0,0 +1,113 @@
+/**
+ * Comments API - Public article comments and admin moderation
+ *
+ * Submissions go to /api/articles/[id]/comments, which applies the rate
+ * limit and spam checks; the session token is sent along when there is
+ * one, so signed-in users comment under their profile.
+ * Moderation calls /api/admin/comments with the current session token.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { CommentFormData } from '@/infrastructure/validators/schemas';
+import { ArticleComment } from '@/types/comment';
+import { CommentStatus } from '@/lib/constants/admin';
+
+/**
+ * Spam protection fields sent along with the form
+ */
+export interface CommentSpamFields {
+  /** Honeypot input, hidden from people; bots tend to fill it */
+  website: string;
+  /** Timestamp (ms) when the form was shown */
+  startedAt: number;
+}
+
+/**
+ * Signed-in commenter, as shown above the comment form
+ */
+export interface CommentAuthor {
+  name: string;
+  email: string;
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Profile of the signed-in user, or null for guests
+ */
+export async function getCommentAuthor(): Promise<CommentAuthor | null> {
+  const session = await getBrowserSession();
+  if (!session) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('full_name, email')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  const profile = data as { full_name: string | null; email: string } | null;
+  if (!profile) {
+    return null;
+  }
+
+  return { name: profile.full_name || profile.email, email: profile.email };
+}
+
+/**
+ * Post a comment or reply
+ *
+ * @returns 'approved' when it is visible right away, 'pending' when it
+ * waits for moderation
+ */
+export async function submitComment(
+  articleId: string,
+  data: Partial<CommentFormData> & Pick<CommentFormData, 'body'> & CommentSpamFields & { parentId?: string }
+): Promise<'approved' | 'pending'> {
+  const session = await getBrowserSession();
+
+  const response = await fetch(`/api/articles/${articleId}/comments`, {
+    method: 'POST',
+    headers: session
+      ? await getAuthHeaders()
+      : { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to send comment');
+  }
+
+  const result = await response.json();
+  return result.status;
+}
+
+/**
+ * Approve, reject or re-queue a comment (admin)
+ */
+export async function moderateComment(id: string, status: CommentStatus): Promise<ArticleComment> {
+  const response = await fetch(`/api/admin/comments/${id}`, {
+    method: 'PATCH',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ status }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to update comment');
+  }
+
+  const result = await response.json();
+  return result.comment;
+}
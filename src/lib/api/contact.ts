@@ -0,0 +1,148 @@
+/**
+ * Contact API - Public contact form and the admin inbox
+ *
+ * Submissions go to /api/contact, which applies the spam checks.
+ * Inbox actions call /api/admin/inbox with the current session token.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { ContactFormData } from '@/infrastructure/validators/schemas';
+import { ContactMessage, ContactMessageReply, InboxAssignee } from '@/types/contact';
+import { ContactMessageStatus } from '@/lib/constants/admin';
+
+/**
+ * Spam protection fields sent along with the form
+ */
+export interface ContactSpamFields {
+  /** Honeypot input, hidden from people; bots tend to fill it */
+  website: string;
+  /** Timestamp (ms) when the form was shown */
+  startedAt: number;
+}
+
+/**
+ * Window event fired after an inbox change, so the sidebar unread badge refreshes
+ */
+export const INBOX_CHANGED_EVENT = 'inbox:changed';
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Send a message from the public contact form
+ */
+export async function submitContactMessage(data: ContactFormData & ContactSpamFields): Promise<void> {
+  const response = await fetch('/api/contact', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to send message');
+  }
+}
+
+/**
+ * Number of messages nobody has opened yet (admin)
+ */
+export async function getUnreadMessageCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('contact_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'new');
+
+  if (error) {
+    console.error('Error counting unread messages:', error);
+    return 0;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Get a message with its reply log (admin)
+ */
+export async function getInboxMessage(
+  id: string
+): Promise<{ message: ContactMessage; replies: ContactMessageReply[] }> {
+  const response = await fetch(`/api/admin/inbox/${id}`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load message');
+  }
+
+  const result = await response.json();
+  return { message: result.message, replies: result.replies ?? [] };
+}
+
+/**
+ * Change a message's status and/or assignee (admin)
+ *
+ * @param changes - `assigned_to: null` unassigns the message
+ */
+export async function updateInboxMessage(
+  id: string,
+  changes: { status?: ContactMessageStatus; assigned_to?: string | null }
+): Promise<ContactMessage> {
+  const response = await fetch(`/api/admin/inbox/${id}`, {
+    method: 'PATCH',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to update message');
+  }
+
+  const result = await response.json();
+  window.dispatchEvent(new Event(INBOX_CHANGED_EVENT));
+  return result.message;
+}
+
+/**
+ * Log a reply that was sent to the sender (admin)
+ */
+export async function logInboxReply(id: string, body: string): Promise<ContactMessageReply> {
+  const response = await fetch(`/api/admin/inbox/${id}/replies`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ body }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to log reply');
+  }
+
+  const result = await response.json();
+  window.dispatchEvent(new Event(INBOX_CHANGED_EVENT));
+  return result.reply;
+}
+
+/**
+ * Admins that messages can be assigned to
+ */
+export async function getInboxAssignees(): Promise<InboxAssignee[]> {
+  const response = await fetch('/api/admin/inbox/assignees', {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load assignees');
+  }
+
+  const result = await response.json();
+  return result.assignees ?? [];
+}
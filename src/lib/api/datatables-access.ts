@@ -0,0 +1,88 @@
+/**
+ * DataTables Access Policy
+ *
+ * Allow-list for the generic `/api/datatables/[tableName]` endpoint.
+ * The route runs with the service role (bypasses RLS), so every table,
+ * column and filter it touches must be declared here per role.
+ */
+
+import { UserRole } from '@/types/auth-definitions';
+
+/**
+ * Access rule for a single table
+ */
+export interface TableAccessRule {
+  /** Roles allowed to query this table */
+  roles: UserRole[];
+  /** Columns that may be selected and sorted on */
+  columns: string[];
+  /** Fields that may be used for the ilike search */
+  searchFields: string[];
+  /** Fields that may be used as equality filters */
+  filters: string[];
+  /** Column holding the owner's user id (for owner-scoped roles) */
+  ownerColumn?: string;
+  /** Roles that only see rows where `ownerColumn` equals their user id */
+  ownerScopedRoles?: UserRole[];
+}
+
+export const DATATABLES_ACCESS: Record<string, TableAccessRule> = {
+  articles: {
+    roles: ['super_admin', 'admin', 'kontributor'],
+    columns: ['id', 'title', 'slug', 'category', 'status', 'author', 'author_id', 'published_at', 'featured', 'views', 'created_at', 'updated_at'],
+    searchFields: ['title', 'author->>name'],
+    filters: ['status', 'category', 'featured'],
+    ownerColumn: 'author_id',
+    ownerScopedRoles: ['kontributor'],
+  },
+  events: {
+    roles: ['super_admin', 'admin', 'kontributor'],
+    columns: ['id', 'title', 'slug', 'category', 'status', 'start_date', 'end_date', 'location', 'creator_id', 'featured', 'published_at', 'created_at', 'updated_at'],
+    searchFields: ['title', 'location->>name'],
+    filters: ['status', 'category', 'featured'],
+    ownerColumn: 'creator_id',
+    ownerScopedRoles: ['kontributor'],
+  },
+  members: {
+    roles: ['super_admin', 'admin'],
+    columns: ['id', 'name', 'nim', 'email', 'batch', 'status', 'division', 'position', 'joined_at', 'created_at'],
+    searchFields: ['name', 'nim', 'email'],
+    filters: ['status', 'batch', 'division'],
+  },
+  leadership: {
+    roles: ['super_admin', 'admin'],
+    columns: ['id', 'name', 'position', 'division', 'photo', 'period_start', 'period_end', 'order', 'created_at'],
+    searchFields: ['name'],
+    filters: ['position', 'division'],
+  },
+  profiles: {
+    roles: ['super_admin'],
+    columns: ['id', 'email', 'full_name', 'role', 'avatar_url', 'created_at', 'updated_at'],
+    searchFields: ['email', 'full_name'],
+    filters: ['role'],
+  },
+};
+
+/**
+ * Look up the access rule for a table, or null if the table is not exposed
+ */
+export function getTableAccessRule(tableName: string): TableAccessRule | null {
+  return Object.prototype.hasOwnProperty.call(DATATABLES_ACCESS, tableName)
+    ? DATATABLES_ACCESS[tableName]
+    : null;
+}
+
+/**
+ * Whether the given role only sees its own rows in this table
+ */
+export function isOwnerScoped(rule: TableAccessRule, role: UserRole): boolean {
+  return !!rule.ownerColumn && (rule.ownerScopedRoles ?? []).includes(role);
+}
+
+/**
+ * Strip characters that carry meaning in PostgREST `or()` filter strings,
+ * so user search input cannot inject additional conditions.
+ */
+export function sanitizeSearchTerm(search: string): string {
+  return search.replace(/[,()*%\\]/g, ' ').trim();
+}
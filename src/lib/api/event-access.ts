@@ -0,0 +1,39 @@
+/**
+ * Event Access
+ *
+ * Ownership check for admin event sub-resources (registrations, check-in).
+ * Admins may manage every event; kontributor only events they created.
+ */
+
+import { NextResponse } from 'next/server';
+import { AdminAuthContext } from '@/lib/api/admin-auth';
+
+/**
+ * Returns a ready-to-return 404/403 response, or null when allowed
+ */
+export async function checkEventAccess(
+  { supabase, user, profile }: AdminAuthContext,
+  eventId: string
+): Promise<NextResponse | null> {
+  const { data: event, error } = await supabase
+    .from('events')
+    .select('id, creator_id')
+    .eq('id', eventId)
+    .single();
+
+  if (error || !event) {
+    return NextResponse.json(
+      { error: 'Event not found' },
+      { status: 404 }
+    );
+  }
+
+  if (profile.role === 'kontributor' && event.creator_id !== user.id) {
+    return NextResponse.json(
+      { error: 'Forbidden - not your event' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
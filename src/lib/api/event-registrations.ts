@@ -0,0 +1,129 @@
+/**
+ * Event Registrations API - Client wrappers for native sign-ups
+ *
+ * Public registration goes through /api/events/[id]/registrations;
+ * the registrants list, cancellations and check-in use the admin routes
+ * with the current session token.
+ */
+
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { EventRegistrationFormData } from '@/infrastructure/validators/schemas';
+import { EventCheckInStats, EventRegistration, EventRegistrationStatus } from '@/types/event';
+
+/**
+ * Result of a public registration
+ */
+export interface RegistrationResult {
+  status: Exclude<EventRegistrationStatus, 'cancelled'>;
+  /** 1-based position in the waitlist (null when a seat was taken) */
+  waitlistPosition: number | null;
+  /** Signed token for the ticket confirmation page and check-in QR */
+  ticketToken: string;
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Register for an event (no login required)
+ */
+export async function registerForEvent(
+  eventId: string,
+  data: EventRegistrationFormData
+): Promise<RegistrationResult> {
+  const response = await fetch(`/api/events/${eventId}/registrations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to register');
+  }
+
+  const result = await response.json();
+  return {
+    status: result.registration.status,
+    waitlistPosition: result.waitlistPosition,
+    ticketToken: result.ticketToken,
+  };
+}
+
+/**
+ * Get all registrations for an event (admin, oldest first)
+ */
+export async function getEventRegistrations(eventId: string): Promise<EventRegistration[]> {
+  const response = await fetch(`/api/admin/events/${eventId}/registrations`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load registrations');
+  }
+
+  const result = await response.json();
+  return result.registrations ?? [];
+}
+
+/**
+ * Cancel a registration; a freed seat goes to the next waitlisted person
+ */
+export async function cancelEventRegistration(eventId: string, registrationId: string): Promise<EventRegistration> {
+  const response = await fetch(`/api/admin/events/${eventId}/registrations/${registrationId}/cancel`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to cancel registration');
+  }
+
+  const result = await response.json();
+  return result.registration;
+}
+
+/**
+ * Get checked-in / registered counts for an event
+ */
+export async function getCheckInStats(eventId: string): Promise<EventCheckInStats> {
+  const response = await fetch(`/api/admin/events/${eventId}/check-in`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load check-in stats');
+  }
+
+  const result = await response.json();
+  return result.stats;
+}
+
+/**
+ * Check in a ticket token (scanned from the QR code or typed in)
+ * Throws when the token is invalid, for another event, or already used
+ */
+export async function checkInRegistration(
+  eventId: string,
+  token: string
+): Promise<{ registration: EventRegistration; stats: EventCheckInStats }> {
+  const response = await fetch(`/api/admin/events/${eventId}/check-in`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Check-in failed');
+  }
+
+  return response.json();
+}
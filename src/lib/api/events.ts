@@ -1,8 +1,16 @@
 /**
  * Events API - Simplified data fetching
+ *
+ * Getters take the page locale and return translated title, description
+ * and content when available.
  */
 
 import { supabase } from '@/lib/supabase/client';
+import { resolveEventStatus } from '@/lib/utils/event-status';
+import { getRelatedContentIds, orderByIds, RelatedContentSource } from '@/lib/api/related-content';
+import { DEFAULT_LOCALE, type Locale } from '@/config/i18n.config';
+import { localizeContent } from '@/lib/i18n/content';
+import type { EventTranslations } from '@/types/event';
 
 export type EventStatus = 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
 export type EventCategory = 'seminar' | 'workshop' | 'community-service' | 'competition' | 'training' | 'other';
@@ -50,6 +58,9 @@ interface EventRaw {
   tags: string[];
   images: string[] | null;
   featured: boolean;
+  published_at: string | null;
+  calendar_sequence: number | null;
+  translations: EventTranslations | null;
   created_at: string;
   updated_at: string;
 }
@@ -83,6 +94,8 @@ export interface Event {
   tags: string[];
   images?: string[];
   featured: boolean;
+  publishedAt?: string;
+  calendarSequence: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -90,7 +103,7 @@ export interface Event {
 /**
  * Transform raw database event to frontend format
  */
-function transformEvent(raw: EventRaw): Event {
+function transformEvent(raw: EventRaw, locale: Locale = DEFAULT_LOCALE): Event {
   // Parse location - Supabase returns JSONB as object, but handle legacy string format
   let locationData = { name: '', address: '' };
   if (typeof raw.location === 'object' && raw.location !== null) {
@@ -124,12 +137,18 @@ function transformEvent(raw: EventRaw): Event {
     organizerData = { name: raw.organizer, contact: '' };
   }
 
+  const { title, description, content } = localizeContent(
+    { title: raw.title, description: raw.description, content: raw.content },
+    raw.translations,
+    locale
+  );
+
   return {
     id: raw.id,
-    title: raw.title,
+    title,
     slug: raw.slug,
-    description: raw.description,
-    content: raw.content,
+    description,
+    content,
     category: raw.category,
     coverImage: raw.cover_image,
     location: locationData,
@@ -140,22 +159,33 @@ function transformEvent(raw: EventRaw): Event {
     maxParticipants: raw.max_participants ?? undefined,
     currentParticipants: raw.current_participants ?? undefined,
     organizer: organizerData,
-    status: raw.status,
+    status: resolveEventStatus(raw.status, raw.start_date, raw.end_date),
     tags: raw.tags ?? [],
     images: raw.images ?? undefined,
     featured: raw.featured,
+    publishedAt: raw.published_at ?? undefined,
+    calendarSequence: raw.calendar_sequence ?? 0,
     createdAt: raw.created_at,
     updatedAt: raw.updated_at,
   };
 }
 
+/**
+ * PostgREST filter for events whose announcement time has passed
+ * (NULL published_at means announced immediately)
+ */
+function announcedFilter(): string {
+  return `published_at.is.null,published_at.lte."${new Date().toISOString()}"`;
+}
+
 /**
  * Get all events
  */
-export async function getEvents(): Promise<Event[]> {
+export async function getEvents(locale: Locale = DEFAULT_LOCALE): Promise<Event[]> {
   const { data, error } = await supabase
     .from('events')
     .select('*')
+    .or(announcedFilter())
     .order('start_date', { ascending: false });
 
   if (error) {
@@ -163,16 +193,17 @@ export async function getEvents(): Promise<Event[]> {
     throw new Error('Failed to fetch events');
   }
 
-  return (data || []).map(transformEvent);
+  return (data || []).map((raw) => transformEvent(raw, locale));
 }
 
 /**
  * Get event by slug
  */
-export async function getEventBySlug(slug: string): Promise<Event | null> {
+export async function getEventBySlug(slug: string, locale: Locale = DEFAULT_LOCALE): Promise<Event | null> {
   const { data, error } = await supabase
     .from('events')
     .select('*')
+    .or(announcedFilter())
     .eq('slug', slug)
     .single();
 
@@ -184,34 +215,53 @@ export async function getEventBySlug(slug: string): Promise<Event | null> {
     throw new Error('Failed to fetch event');
   }
 
-  return data ? transformEvent(data) : null;
+  return data ? transformEvent(data, locale) : null;
 }
 
 /**
  * Get events by status
+ *
+ * Filters on the event dates rather than the stored status, so results
+ * are correct even before the scheduled status refresh has run.
  */
-export async function getEventsByStatus(status: EventStatus): Promise<Event[]> {
-  const { data, error } = await supabase
+export async function getEventsByStatus(status: EventStatus, locale: Locale = DEFAULT_LOCALE): Promise<Event[]> {
+  const now = new Date().toISOString();
+  let query = supabase
     .from('events')
     .select('*')
-    .eq('status', status)
-    .order('start_date', { ascending: false });
+    .or(announcedFilter());
+
+  if (status === 'cancelled') {
+    query = query.eq('status', 'cancelled');
+  } else {
+    query = query.neq('status', 'cancelled');
+    if (status === 'upcoming') {
+      query = query.gt('start_date', now);
+    } else if (status === 'ongoing') {
+      query = query.lte('start_date', now).gte('end_date', now);
+    } else {
+      query = query.lt('end_date', now);
+    }
+  }
+
+  const { data, error } = await query.order('start_date', { ascending: false });
 
   if (error) {
     console.error('Error fetching events by status:', error);
     throw new Error('Failed to fetch events by status');
   }
 
-  return (data || []).map(transformEvent);
+  return (data || []).map((raw) => transformEvent(raw, locale));
 }
 
 /**
  * Get events by category
  */
-export async function getEventsByCategory(category: EventCategory): Promise<Event[]> {
+export async function getEventsByCategory(category: EventCategory, locale: Locale = DEFAULT_LOCALE): Promise<Event[]> {
   const { data, error } = await supabase
     .from('events')
     .select('*')
+    .or(announcedFilter())
     .eq('category', category)
     .order('start_date', { ascending: false });
 
@@ -220,18 +270,38 @@ export async function getEventsByCategory(category: EventCategory): Promise<Even
     throw new Error('Failed to fetch events by category');
   }
 
-  return (data || []).map(transformEvent);
+  return (data || []).map((raw) => transformEvent(raw, locale));
+}
+
+/**
+ * Get events with a tag (tags are stored in their registered spelling)
+ */
+export async function getEventsByTag(tag: string, locale: Locale = DEFAULT_LOCALE): Promise<Event[]> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .or(announcedFilter())
+    .contains('tags', [tag])
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching events by tag:', error);
+    throw new Error('Failed to fetch events by tag');
+  }
+
+  return (data || []).map((raw) => transformEvent(raw, locale));
 }
 
 /**
  * Get upcoming events
  */
-export async function getUpcomingEvents(limit?: number): Promise<Event[]> {
+export async function getUpcomingEvents(limit?: number, locale: Locale = DEFAULT_LOCALE): Promise<Event[]> {
   let query = supabase
     .from('events')
     .select('*')
-    .eq('status', 'upcoming')
-    .gte('start_date', new Date().toISOString())
+    .or(announcedFilter())
+    .neq('status', 'cancelled')
+    .gt('start_date', new Date().toISOString())
     .order('start_date', { ascending: true });
 
   if (limit) {
@@ -245,16 +315,17 @@ export async function getUpcomingEvents(limit?: number): Promise<Event[]> {
     throw new Error('Failed to fetch upcoming events');
   }
 
-  return (data || []).map(transformEvent);
+  return (data || []).map((raw) => transformEvent(raw, locale));
 }
 
 /**
  * Get recent events
  */
-export async function getRecentEvents(limit: number = 6): Promise<Event[]> {
+export async function getRecentEvents(limit: number = 6, locale: Locale = DEFAULT_LOCALE): Promise<Event[]> {
   const { data, error } = await supabase
     .from('events')
     .select('*')
+    .or(announcedFilter())
     .order('start_date', { ascending: false })
     .limit(limit);
 
@@ -263,5 +334,35 @@ export async function getRecentEvents(limit: number = 6): Promise<Event[]> {
     throw new Error('Failed to fetch recent events');
   }
 
-  return (data || []).map(transformEvent);
+  return (data || []).map((raw) => transformEvent(raw, locale));
+}
+
+/**
+ * Get events related to an article or event
+ * Ranked by shared tags, text similarity and how soon they start.
+ * Articles only get upcoming events; events may also get past ones
+ * when nothing upcoming is related.
+ */
+export async function getRelatedEvents(
+  source: RelatedContentSource,
+  limit: number = 3,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Event[]> {
+  const ids = await getRelatedContentIds(source, 'event', limit);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .in('id', ids)
+    .or(announcedFilter());
+
+  if (error) {
+    console.error('Error fetching related events:', error);
+    return [];
+  }
+
+  return orderByIds((data || []) as EventRaw[], ids).map((raw) => transformEvent(raw, locale));
 }
@@ -0,0 +1,242 @@
+/**
+ * Gallery API - Albums and photos
+ *
+ * Public reads only see active albums (enforced by RLS). Photo
+ * management runs in the admin panel with the signed-in client;
+ * images are stored through StorageService.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+import { GalleryCategory, GalleryPhoto } from '@/types/gallery';
+
+/**
+ * Album from database with embedded photo count and first photo
+ */
+interface AlbumRaw {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  category: GalleryCategory;
+  cover_image: string | null;
+  taken_at: string | null;
+  photo_count: { count: number }[];
+  first_photo: { url: string }[];
+}
+
+/**
+ * Album with camelCase fields (for frontend)
+ */
+export interface Album {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  category: GalleryCategory;
+  /** Album cover, or the first photo when none is set */
+  coverImage: string | null;
+  takenAt: string | null;
+  photoCount: number;
+}
+
+/**
+ * Photo in the shape react-photo-album and the lightbox expect
+ */
+export interface AlbumPhoto {
+  key: string;
+  src: string;
+  width: number;
+  height: number;
+  alt: string;
+  caption: string | null;
+}
+
+const ALBUM_COLUMNS = '*, photo_count:gallery_photos(count), first_photo:gallery_photos(url)';
+
+function transformAlbum(raw: AlbumRaw): Album {
+  return {
+    id: raw.id,
+    title: raw.title,
+    slug: raw.slug,
+    description: raw.description,
+    category: raw.category,
+    coverImage: raw.cover_image || raw.first_photo[0]?.url || null,
+    takenAt: raw.taken_at,
+    photoCount: raw.photo_count[0]?.count ?? 0,
+  };
+}
+
+/**
+ * Get active albums, most recent first
+ */
+export async function getAlbums(category?: GalleryCategory): Promise<Album[]> {
+  let query = supabase
+    .from('gallery_albums')
+    .select(ALBUM_COLUMNS)
+    .eq('status', 'active')
+    .order('taken_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .order('position', { referencedTable: 'first_photo' })
+    .limit(1, { referencedTable: 'first_photo' });
+
+  if (category) {
+    query = query.eq('category', category);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching albums:', error);
+    throw new Error('Failed to fetch albums');
+  }
+
+  return ((data || []) as unknown as AlbumRaw[]).map(transformAlbum);
+}
+
+/**
+ * Get active album by slug
+ */
+export async function getAlbumBySlug(slug: string): Promise<Album | null> {
+  const { data, error } = await supabase
+    .from('gallery_albums')
+    .select(ALBUM_COLUMNS)
+    .eq('slug', slug)
+    .eq('status', 'active')
+    .order('position', { referencedTable: 'first_photo' })
+    .limit(1, { referencedTable: 'first_photo' })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching album by slug:', error);
+    throw new Error('Failed to fetch album');
+  }
+
+  return data ? transformAlbum(data as unknown as AlbumRaw) : null;
+}
+
+/**
+ * Get the photos of an album in display order
+ */
+export async function getAlbumPhotos(albumId: string): Promise<GalleryPhoto[]> {
+  const { data, error } = await supabase
+    .from('gallery_photos')
+    .select('*')
+    .eq('album_id', albumId)
+    .order('position')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching album photos:', error);
+    throw new Error('Failed to fetch album photos');
+  }
+
+  return (data || []) as GalleryPhoto[];
+}
+
+/**
+ * Map stored photos to layout/lightbox photos; alt text falls back to the
+ * caption, then the album title
+ */
+export function toAlbumPhotos(photos: GalleryPhoto[], albumTitle: string): AlbumPhoto[] {
+  return photos.map((photo, index) => ({
+    key: photo.id,
+    src: photo.url,
+    width: photo.width,
+    height: photo.height,
+    alt: photo.alt_text || photo.caption || `${albumTitle} ${index + 1}`,
+    caption: photo.caption,
+  }));
+}
+
+/**
+ * Add uploaded photos to the end of an album (admin)
+ */
+export async function addAlbumPhotos(
+  albumId: string,
+  photos: Pick<GalleryPhoto, 'url' | 'width' | 'height'>[]
+): Promise<GalleryPhoto[]> {
+  const { data: last } = await supabase
+    .from('gallery_photos')
+    .select('position')
+    .eq('album_id', albumId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const start = ((last as { position: number } | null)?.position ?? -1) + 1;
+
+  const { data, error } = await supabase
+    .from('gallery_photos')
+    .insert(photos.map((photo, index) => ({ ...photo, album_id: albumId, position: start + index })) as never)
+    .select('*');
+
+  if (error) {
+    console.error('Error adding album photos:', error);
+    throw new Error('Failed to save photos');
+  }
+
+  return (data || []) as GalleryPhoto[];
+}
+
+/**
+ * Update a photo's caption or alt text (admin)
+ */
+export async function updateAlbumPhoto(
+  photoId: string,
+  changes: Partial<Pick<GalleryPhoto, 'caption' | 'alt_text'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('gallery_photos')
+    .update(changes as never)
+    .eq('id', photoId);
+
+  if (error) {
+    console.error('Error updating photo:', error);
+    throw new Error('Failed to update photo');
+  }
+}
+
+/**
+ * Save a new photo order; positions follow the given id order (admin)
+ */
+export async function reorderAlbumPhotos(photoIds: string[]): Promise<void> {
+  const results = await Promise.all(
+    photoIds.map((id, position) => supabase.from('gallery_photos').update({ position } as never).eq('id', id))
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed) {
+    console.error('Error reordering photos:', failed.error);
+    throw new Error('Failed to reorder photos');
+  }
+}
+
+/**
+ * Set or clear (null: first photo) the album cover (admin)
+ */
+export async function setAlbumCover(albumId: string, url: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('gallery_albums')
+    .update({ cover_image: url } as never)
+    .eq('id', albumId);
+
+  if (error) {
+    console.error('Error setting album cover:', error);
+    throw new Error('Failed to set album cover');
+  }
+}
+
+/**
+ * Delete a photo row (admin); the caller removes the stored file
+ */
+export async function deleteAlbumPhoto(photoId: string): Promise<void> {
+  const { error } = await supabase
+    .from('gallery_photos')
+    .delete()
+    .eq('id', photoId);
+
+  if (error) {
+    console.error('Error deleting photo:', error);
+    throw new Error('Failed to delete photo');
+  }
+}
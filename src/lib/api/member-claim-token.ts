@@ -0,0 +1,64 @@
+/**
+ * Member Claim Tokens
+ *
+ * Signed links for claiming a members row: `<memberId>.<expiresAt>.<signature>`,
+ * where the signature is an HMAC-SHA256 of the member id, the claiming
+ * profile and the expiry, so a forwarded link only works for the
+ * account that asked for it.
+ * Server-only (uses the signing secret).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Claim links stay valid for a day */
+const CLAIM_TOKEN_TTL_SECONDS = 60 * 60 * 24;
+
+function getSecret(): string {
+  const secret = process.env.MEMBER_CLAIM_TOKEN_SECRET ?? process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('MEMBER_CLAIM_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(memberId: string, profileId: string, expiresAt: number): string {
+  return createHmac('sha256', getSecret())
+    .update(`member-claim:${memberId}:${profileId}:${expiresAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Create the claim token a profile receives for a member
+ */
+export function createMemberClaimToken(memberId: string, profileId: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + CLAIM_TOKEN_TTL_SECONDS;
+  return `${memberId}.${expiresAt}.${sign(memberId, profileId, expiresAt)}`;
+}
+
+/**
+ * Verify a claim token for the profile redeeming it
+ *
+ * @returns The member id, or null when the token is malformed, forged,
+ * expired or issued to another profile
+ */
+export function verifyMemberClaimToken(token: string, profileId: string): string | null {
+  const [memberId, expiresAtRaw, signature, ...rest] = token.trim().split('.');
+  if (!memberId || !expiresAtRaw || !signature || rest.length > 0 || !UUID_PATTERN.test(memberId)) {
+    return null;
+  }
+
+  const expiresAt = Number(expiresAtRaw);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(memberId.toLowerCase(), profileId, expiresAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return memberId.toLowerCase();
+}
@@ -0,0 +1,125 @@
+/**
+ * Member Portal API - Client wrappers for member self-service
+ *
+ * Calls /api/portal (the signed-in user's own member record) and
+ * /api/admin/member-requests (admin review) with the current session
+ * token. Claims, field whitelisting and approvals are applied server-side.
+ */
+
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { MemberChangeRequest, MemberPortalRecord } from '@/types/member';
+import { MemberChangeReviewInput } from '@/lib/validators/admin-schemas';
+import { MemberFormData } from '@/types/forms';
+
+/**
+ * The caller's member record with its latest change request
+ */
+export interface MemberPortalState {
+  /** Null until the user claims their record */
+  member: MemberPortalRecord | null;
+  changeRequest: MemberChangeRequest | null;
+}
+
+/**
+ * Fields a member submits from the portal
+ */
+export type MemberPortalFormData = Omit<MemberFormData, 'status' | 'joined_at' | 'graduated_at'>;
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Get the signed-in user's member record
+ */
+export async function getPortalState(): Promise<MemberPortalState> {
+  const response = await fetch('/api/portal', {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load your member record');
+  }
+
+  return response.json();
+}
+
+/**
+ * Save the signed-in user's member record
+ * Changes to reviewed fields are queued for admin approval
+ */
+export async function updatePortalMember(data: MemberPortalFormData): Promise<MemberPortalState> {
+  const response = await fetch('/api/portal', {
+    method: 'PATCH',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to save your member record');
+  }
+
+  return response.json();
+}
+
+/**
+ * Email a claim link to the member with this address, if there is one
+ */
+export async function requestMemberClaim(email: string): Promise<void> {
+  const response = await fetch('/api/portal/claim', {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ email }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to send the claim link');
+  }
+}
+
+/**
+ * Link the member from an emailed claim link to the signed-in user
+ */
+export async function confirmMemberClaim(token: string): Promise<MemberPortalRecord> {
+  const response = await fetch('/api/portal/claim/confirm', {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to claim the member record');
+  }
+
+  const result = await response.json();
+  return result.member;
+}
+
+/**
+ * Approve or reject a member's change request (admin)
+ */
+export async function reviewMemberChangeRequest(
+  id: string,
+  { action, note }: MemberChangeReviewInput
+): Promise<MemberChangeRequest> {
+  const response = await fetch(`/api/admin/member-requests/${id}`, {
+    method: 'PATCH',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ action, note }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to review the change request');
+  }
+
+  const result = await response.json();
+  return result.changeRequest;
+}
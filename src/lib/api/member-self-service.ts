@@ -0,0 +1,252 @@
+/**
+ * Member Self-Service - Server-side claim and portal update flow
+ *
+ * Claiming links a members row to the caller's profile once they open
+ * the link mailed to members.email. Portal updates write the
+ * self-service fields directly and queue changes to the reviewed fields
+ * (MEMBER_REVIEWED_FIELDS) as a pending member_change_requests row.
+ * Used by the /api/portal routes. Expects the service role client.
+ * Server-only (signs tokens and sends mail).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SITE_CONFIG } from '@/config/site.config';
+import { MEMBER_ROUTES } from '@/config/navigation.config';
+import { createMemberClaimToken, verifyMemberClaimToken } from '@/lib/api/member-claim-token';
+import { sendMail, memberClaimEmail } from '@/lib/mail';
+import { MEMBER_REVIEWED_FIELDS } from '@/lib/constants/admin';
+import { MemberPortalInput } from '@/lib/validators/admin-schemas';
+import { MemberChangeRequest, MemberPortalRecord, MemberReviewedValues } from '@/types/member';
+
+/** A member gets at most one claim email per window */
+const CLAIM_RESEND_MINUTES = 10;
+
+export const MEMBER_PORTAL_COLUMNS =
+  'id, name, nim, email, phone, photo, batch, status, division, position, joined_at, bio, interests, achievements, social_media, show_contact, show_social_media, claimed_at';
+
+export type MemberClaimResult = 'claimed' | 'already_claimed' | 'invalid';
+
+interface ClaimCandidateRow {
+  id: string;
+  name: string;
+  email: string;
+  profile_id: string | null;
+  claim_sent_at: string | null;
+}
+
+/**
+ * Escape LIKE wildcards so an address matches literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Member record linked to a profile, or null before it is claimed
+ */
+export async function getMemberForProfile(supabase: SupabaseClient, profileId: string): Promise<MemberPortalRecord | null> {
+  const { data, error } = await supabase
+    .from('members')
+    .select(MEMBER_PORTAL_COLUMNS)
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as MemberPortalRecord | null;
+}
+
+/**
+ * Latest change request for a member (pending or last reviewed)
+ */
+export async function getLatestChangeRequest(supabase: SupabaseClient, memberId: string): Promise<MemberChangeRequest | null> {
+  const { data, error } = await supabase
+    .from('member_change_requests')
+    .select('*')
+    .eq('member_id', memberId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as MemberChangeRequest | null;
+}
+
+/**
+ * Mail a claim link for every unclaimed member with this address.
+ * Unknown and already claimed addresses are skipped silently, so the
+ * caller always answers the same way (no address enumeration).
+ */
+export async function requestMemberClaim(supabase: SupabaseClient, profileId: string, rawEmail: string): Promise<void> {
+  const email = rawEmail.trim().toLowerCase();
+
+  // members.email is not normalized, so match it case-insensitively
+  const { data, error: lookupError } = await supabase
+    .from('members')
+    .select('id, name, email, profile_id, claim_sent_at')
+    .ilike('email', escapeLikePattern(email));
+
+  if (lookupError) throw lookupError;
+
+  for (const member of (data ?? []) as ClaimCandidateRow[]) {
+    if (member.profile_id) {
+      continue;
+    }
+
+    if (member.claim_sent_at) {
+      const elapsedMs = Date.now() - new Date(member.claim_sent_at).getTime();
+      if (elapsedMs < CLAIM_RESEND_MINUTES * 60 * 1000) {
+        continue;
+      }
+    }
+
+    const token = encodeURIComponent(createMemberClaimToken(member.id, profileId));
+    await sendMail(memberClaimEmail(member.email, {
+      memberName: member.name,
+      claimUrl: `${SITE_CONFIG.url}${MEMBER_ROUTES.portal}?claim=${token}`,
+    }));
+
+    const { error } = await supabase
+      .from('members')
+      .update({ claim_sent_at: new Date().toISOString() })
+      .eq('id', member.id);
+
+    if (error) throw error;
+  }
+}
+
+/**
+ * Link the member from an emailed claim token to the profile redeeming it
+ */
+export async function confirmMemberClaim(supabase: SupabaseClient, profileId: string, token: string): Promise<MemberClaimResult> {
+  const memberId = verifyMemberClaimToken(token, profileId);
+  if (!memberId) {
+    return 'invalid';
+  }
+
+  const { data: member, error: lookupError } = await supabase
+    .from('members')
+    .select('id, profile_id')
+    .eq('id', memberId)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  if (!member) {
+    return 'invalid';
+  }
+  if (member.profile_id === profileId) {
+    return 'already_claimed';
+  }
+  // Claimed by someone else since the link was sent
+  if (member.profile_id) {
+    return 'invalid';
+  }
+
+  const { data: claimed, error } = await supabase
+    .from('members')
+    .update({ profile_id: profileId, claimed_at: new Date().toISOString() })
+    .eq('id', memberId)
+    .is('profile_id', null)
+    .select('id')
+    .maybeSingle();
+
+  // The profile already owns another member record
+  if (error?.code === '23505') {
+    return 'invalid';
+  }
+  if (error) throw error;
+
+  return claimed ? 'claimed' : 'invalid';
+}
+
+/**
+ * Apply a portal submission: self-service fields are saved right away,
+ * reviewed fields that differ from the record replace any pending
+ * change request (and withdraw it when nothing differs any more)
+ *
+ * @returns The pending change request, or null when there is none
+ */
+export async function updateMemberFromPortal(
+  supabase: SupabaseClient,
+  member: MemberPortalRecord,
+  requestedBy: string,
+  input: MemberPortalInput
+): Promise<MemberChangeRequest | null> {
+  const socialMedia: Record<string, string> = { ...member.social_media };
+  const socialInput = {
+    instagram: input.social_media_instagram,
+    linkedin: input.social_media_linkedin,
+    twitter: input.social_media_twitter,
+  };
+  for (const [network, value] of Object.entries(socialInput)) {
+    if (value) {
+      socialMedia[network] = value;
+    } else {
+      delete socialMedia[network];
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('members')
+    .update({
+      phone: input.phone || null,
+      photo: input.photo || null,
+      bio: input.bio || null,
+      interests: input.interests?.length ? input.interests : null,
+      achievements: input.achievements?.length ? input.achievements : null,
+      social_media: Object.keys(socialMedia).length > 0 ? socialMedia : null,
+      show_contact: input.show_contact,
+      show_social_media: input.show_social_media,
+    })
+    .eq('id', member.id);
+
+  if (updateError) throw updateError;
+
+  const changes: MemberReviewedValues = {};
+  const previous: MemberReviewedValues = {};
+  for (const { value: field } of MEMBER_REVIEWED_FIELDS) {
+    const proposed = input[field] || null;
+    let current = member[field] || null;
+    // The portal lowercases addresses; only a different address is a change
+    if (field === 'email' && current?.toLowerCase() === proposed) {
+      current = proposed;
+    }
+    if (proposed !== current) {
+      changes[field] = proposed;
+      previous[field] = current;
+    }
+  }
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('member_change_requests')
+    .select('id')
+    .eq('member_id', member.id)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (pendingError) throw pendingError;
+
+  if (Object.keys(changes).length === 0) {
+    if (pending) {
+      const { error } = await supabase.from('member_change_requests').delete().eq('id', pending.id);
+      if (error) throw error;
+    }
+    return null;
+  }
+
+  const { data: request, error: requestError } = pending
+    ? await supabase
+        .from('member_change_requests')
+        .update({ changes, previous, requested_by: requestedBy })
+        .eq('id', pending.id)
+        .select('*')
+        .single()
+    : await supabase
+        .from('member_change_requests')
+        .insert({ member_id: member.id, requested_by: requestedBy, changes, previous })
+        .select('*')
+        .single();
+
+  if (requestError) throw requestError;
+  return request as MemberChangeRequest;
+}
@@ -1,5 +1,9 @@
 /**
  * Members API - Simplified data fetching
+ *
+ * Reads the member_directory view: active members with whitelisted
+ * fields only. Contact details and social links are null unless the
+ * member opted in. The admin panel reads the members table directly.
  */
 
 import { supabase } from '@/lib/supabase/client';
@@ -14,27 +18,22 @@ interface SocialMediaRaw {
 }
 
 /**
- * Member from database (raw snake_case)
+ * Member from the directory view (raw snake_case)
  */
 interface MemberRaw {
   id: string;
   name: string;
-  nim: string;
-  email: string;
+  email: string | null;
   phone: string | null;
   photo: string | null;
   batch: string;
-  status: 'active' | 'inactive' | 'alumni';
   division: string | null;
   position: string | null;
   joined_at: string;
-  graduated_at: string | null;
   bio: string | null;
   interests: string[] | null;
   achievements: string[] | null;
   social_media: SocialMediaRaw | null;
-  created_at: string;
-  updated_at: string;
 }
 
 /**
@@ -43,19 +42,18 @@ interface MemberRaw {
 export interface Member {
   id: string;
   name: string;
-  nim: string;
-  email: string;
+  /** Only set when the member chose to show contact details */
+  email?: string;
   phone?: string;
   photo?: string;
   batch: string;
-  status: 'active' | 'inactive' | 'alumni';
   division?: string;
   position?: string;
   joinedAt: string;
-  graduatedAt?: string;
   bio?: string;
   interests?: string[];
   achievements?: string[];
+  /** Only set when the member chose to show social links */
   socialMedia?: {
     instagram?: string;
     linkedin?: string;
@@ -80,16 +78,13 @@ function transformMember(raw: MemberRaw): Member {
   return {
     id: raw.id,
     name: raw.name,
-    nim: raw.nim,
-    email: raw.email,
+    email: raw.email ?? undefined,
     phone: raw.phone ?? undefined,
     photo: isValidPhotoUrl(raw.photo) ? raw.photo! : undefined,
     batch: raw.batch,
-    status: raw.status,
     division: raw.division ?? undefined,
     position: raw.position ?? undefined,
     joinedAt: raw.joined_at,
-    graduatedAt: raw.graduated_at ?? undefined,
     bio: raw.bio ?? undefined,
     interests: raw.interests ?? undefined,
     achievements: raw.achievements ?? undefined,
@@ -102,11 +97,11 @@ function transformMember(raw: MemberRaw): Member {
 }
 
 /**
- * Get all members
+ * Get all active members
  */
 export async function getMembers(): Promise<Member[]> {
   const { data, error } = await supabase
-    .from('members')
+    .from('member_directory')
     .select('*')
     .order('name', { ascending: true });
 
@@ -118,33 +113,14 @@ export async function getMembers(): Promise<Member[]> {
   return (data ?? []).map(transformMember);
 }
 
-/**
- * Get active members only
- */
-export async function getActiveMembers(): Promise<Member[]> {
-  const { data, error } = await supabase
-    .from('members')
-    .select('*')
-    .eq('status', 'active')
-    .order('name', { ascending: true });
-
-  if (error) {
-    console.error('Error fetching active members:', error);
-    throw new Error('Failed to fetch active members');
-  }
-
-  return (data ?? []).map(transformMember);
-}
-
 /**
  * Get members by division
  */
 export async function getMembersByDivision(division: string): Promise<Member[]> {
   const { data, error } = await supabase
-    .from('members')
+    .from('member_directory')
     .select('*')
     .eq('division', division)
-    .eq('status', 'active')
     .order('name', { ascending: true });
 
   if (error) {
@@ -160,10 +136,9 @@ export async function getMembersByDivision(division: string): Promise<Member[]>
  */
 export async function getMembersByBatch(batch: string): Promise<Member[]> {
   const { data, error } = await supabase
-    .from('members')
+    .from('member_directory')
     .select('*')
     .eq('batch', batch)
-    .eq('status', 'active')
     .order('name', { ascending: true });
 
   if (error) {
@@ -179,7 +154,7 @@ export async function getMembersByBatch(batch: string): Promise<Member[]> {
  */
 export async function getMemberById(id: string): Promise<Member | null> {
   const { data, error } = await supabase
-    .from('members')
+    .from('member_directory')
     .select('*')
     .eq('id', id)
     .single();
@@ -0,0 +1,179 @@
+/**
+ * Newsletter Subscribers - Server-side subscription flow
+ *
+ * Sign-up, confirmation and unsubscribe, shared by the /api/newsletter
+ * routes and the /newsletter pages. Expects the service role client.
+ * Server-only (signs tokens and sends mail).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SITE_CONFIG } from '@/config/site.config';
+import { createNewsletterToken, verifyNewsletterToken } from '@/lib/api/newsletter-token';
+import { sendMail, newsletterConfirmationEmail } from '@/lib/mail';
+
+/** A pending address gets at most one confirmation email per window */
+const CONFIRMATION_RESEND_MINUTES = 10;
+
+export type ConfirmResult = 'confirmed' | 'already_confirmed' | 'invalid';
+
+interface SubscriberRow {
+  id: string;
+  status: 'pending' | 'subscribed' | 'unsubscribed';
+  confirmation_sent_at: string | null;
+}
+
+async function sendConfirmation(
+  supabase: SupabaseClient,
+  subscriberId: string,
+  email: string,
+  senderHash: string
+): Promise<void> {
+  const confirmToken = encodeURIComponent(createNewsletterToken('confirm', subscriberId));
+  const unsubscribeToken = encodeURIComponent(createNewsletterToken('unsubscribe', subscriberId));
+
+  await sendMail(newsletterConfirmationEmail(email, {
+    confirmUrl: `${SITE_CONFIG.url}/newsletter/confirm?token=${confirmToken}`,
+    unsubscribeUrl: `${SITE_CONFIG.url}/newsletter/unsubscribe?token=${unsubscribeToken}`,
+    oneClickUnsubscribeUrl: `${SITE_CONFIG.url}/api/newsletter/unsubscribe?token=${unsubscribeToken}`,
+  }));
+
+  const { error } = await supabase
+    .from('newsletter_subscribers')
+    .update({ confirmation_sent_at: new Date().toISOString(), sender_hash: senderHash })
+    .eq('id', subscriberId);
+
+  if (error) throw error;
+}
+
+/**
+ * Start a subscription: new and unsubscribed addresses become pending
+ * and get a confirmation email. Active subscribers are left alone, so
+ * the caller always answers the same way (no address enumeration).
+ *
+ * @param senderHash - Hashed IP of the sender, stored with the
+ * confirmation email for the per-sender rate limit
+ */
+export async function subscribeToNewsletter(
+  supabase: SupabaseClient,
+  rawEmail: string,
+  senderHash: string
+): Promise<void> {
+  const email = rawEmail.trim().toLowerCase();
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('newsletter_subscribers')
+    .select('id, status, confirmation_sent_at')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  const subscriber = existing as SubscriberRow | null;
+
+  if (!subscriber) {
+    const { data: created, error } = await supabase
+      .from('newsletter_subscribers')
+      .insert({ email })
+      .select('id')
+      .single();
+
+    // Concurrent sign-up for the same address: the other request sends the email
+    if (error?.code === '23505') {
+      return;
+    }
+    if (error) throw error;
+    await sendConfirmation(supabase, created.id, email, senderHash);
+    return;
+  }
+
+  if (subscriber.status === 'subscribed') {
+    return;
+  }
+
+  if (subscriber.status === 'pending' && subscriber.confirmation_sent_at) {
+    const elapsedMs = Date.now() - new Date(subscriber.confirmation_sent_at).getTime();
+    if (elapsedMs < CONFIRMATION_RESEND_MINUTES * 60 * 1000) {
+      return;
+    }
+  }
+
+  if (subscriber.status === 'unsubscribed') {
+    const { error } = await supabase
+      .from('newsletter_subscribers')
+      .update({ status: 'pending', confirmed_at: null, unsubscribed_at: null })
+      .eq('id', subscriber.id);
+
+    if (error) throw error;
+  }
+
+  await sendConfirmation(supabase, subscriber.id, email, senderHash);
+}
+
+/**
+ * Confirm a pending subscription from its emailed token
+ */
+export async function confirmNewsletterSubscription(supabase: SupabaseClient, token: string): Promise<ConfirmResult> {
+  const subscriberId = verifyNewsletterToken('confirm', token);
+  if (!subscriberId) {
+    return 'invalid';
+  }
+
+  const { data: subscriber, error: lookupError } = await supabase
+    .from('newsletter_subscribers')
+    .select('id, status')
+    .eq('id', subscriberId)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  // Unsubscribed addresses must sign up again before an old link works
+  if (!subscriber || subscriber.status === 'unsubscribed') {
+    return 'invalid';
+  }
+  if (subscriber.status === 'subscribed') {
+    return 'already_confirmed';
+  }
+
+  const { error } = await supabase
+    .from('newsletter_subscribers')
+    .update({ status: 'subscribed', confirmed_at: new Date().toISOString() })
+    .eq('id', subscriberId);
+
+  if (error) throw error;
+  return 'confirmed';
+}
+
+/**
+ * Unsubscribe from an emailed token
+ *
+ * @returns false when the token is invalid or the subscriber is gone
+ */
+export async function unsubscribeFromNewsletter(supabase: SupabaseClient, token: string): Promise<boolean> {
+  const subscriberId = verifyNewsletterToken('unsubscribe', token);
+  if (!subscriberId) {
+    return false;
+  }
+
+  const { data: subscriber, error: lookupError } = await supabase
+    .from('newsletter_subscribers')
+    .select('id, status')
+    .eq('id', subscriberId)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  if (!subscriber) {
+    return false;
+  }
+  if (subscriber.status === 'unsubscribed') {
+    return true;
+  }
+
+  const { error } = await supabase
+    .from('newsletter_subscribers')
+    .update({ status: 'unsubscribed', unsubscribed_at: new Date().toISOString() })
+    .eq('id', subscriberId);
+
+  if (error) throw error;
+  return true;
+}
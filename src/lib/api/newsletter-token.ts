@@ -0,0 +1,54 @@
+/**
+ * Newsletter Tokens
+ *
+ * Signed links for newsletter subscribers: `<subscriberId>.<signature>`,
+ * where the signature is an HMAC-SHA256 of the purpose and subscriber id,
+ * so a confirmation token cannot be used to unsubscribe and vice versa.
+ * Server-only (uses the signing secret).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type NewsletterTokenPurpose = 'confirm' | 'unsubscribe';
+
+function getSecret(): string {
+  const secret = process.env.NEWSLETTER_TOKEN_SECRET ?? process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('NEWSLETTER_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(purpose: NewsletterTokenPurpose, subscriberId: string): string {
+  return createHmac('sha256', getSecret()).update(`newsletter:${purpose}:${subscriberId}`).digest('base64url');
+}
+
+/**
+ * Create a confirmation or unsubscribe token for a subscriber
+ */
+export function createNewsletterToken(purpose: NewsletterTokenPurpose, subscriberId: string): string {
+  return `${subscriberId}.${sign(purpose, subscriberId)}`;
+}
+
+/**
+ * Verify a newsletter token for the given purpose
+ *
+ * @returns The subscriber id, or null when the token is malformed, forged
+ * or issued for another purpose
+ */
+export function verifyNewsletterToken(purpose: NewsletterTokenPurpose, token: string): string | null {
+  const [subscriberId, signature, ...rest] = token.trim().split('.');
+  if (!subscriberId || !signature || rest.length > 0 || !UUID_PATTERN.test(subscriberId)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(purpose, subscriberId.toLowerCase()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return subscriberId.toLowerCase();
+}
@@ -0,0 +1,64 @@
+/**
+ * Newsletter API - Client wrappers
+ *
+ * Sign-up and unsubscribe call the public /api/newsletter routes;
+ * the subscriber export calls /api/admin/newsletter with the current
+ * session token.
+ */
+
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { NewsletterStatus } from '@/lib/constants/admin';
+
+/**
+ * Sign up for the newsletter; a confirmation email follows
+ */
+export async function subscribeNewsletter(email: string): Promise<void> {
+  const response = await fetch('/api/newsletter', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to subscribe');
+  }
+}
+
+/**
+ * Unsubscribe with the token from an emailed link
+ */
+export async function unsubscribeNewsletter(token: string): Promise<void> {
+  const response = await fetch('/api/newsletter/unsubscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to unsubscribe');
+  }
+}
+
+/**
+ * Download subscribers as CSV (admin)
+ *
+ * @param status - Only export subscribers with this status
+ */
+export async function exportSubscribers(status?: NewsletterStatus): Promise<Blob> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const query = status ? `?status=${status}` : '';
+  const response = await fetch(`/api/admin/newsletter/export${query}`, {
+    headers: { 'Authorization': `Bearer ${session.access_token}` },
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to export subscribers');
+  }
+
+  return response.blob();
+}
@@ -0,0 +1,51 @@
+/**
+ * Related Content - Recommendation ranking shared by articles and events
+ *
+ * Backed by the related_content() database function, which scores
+ * candidates by shared tags, full-text similarity, timeliness and
+ * category. Only ids come back here; the article and event APIs load
+ * the rows themselves.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+
+export type RelatedContentType = 'article' | 'event';
+
+/**
+ * Article or event to find related content for
+ */
+export interface RelatedContentSource {
+  type: RelatedContentType;
+  id: string;
+}
+
+/**
+ * Ids of the most related articles or events, best match first
+ */
+export async function getRelatedContentIds(
+  source: RelatedContentSource,
+  targetType: RelatedContentType,
+  limit: number
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc('related_content', {
+    p_source_type: source.type,
+    p_source_id: source.id,
+    p_target_type: targetType,
+    p_limit: limit,
+  } as never);
+
+  if (error) {
+    console.error('Error ranking related content:', error);
+    return [];
+  }
+
+  return ((data ?? []) as { id: string; score: number }[]).map((row) => row.id);
+}
+
+/**
+ * Put fetched rows back in ranking order
+ */
+export function orderByIds<T extends { id: string }>(rows: T[], ids: string[]): T[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
@@ -0,0 +1,83 @@
+/**
+ * Content Revision Access
+ *
+ * Shared ownership checks for the `/api/admin/revisions` routes.
+ * The routes run with the service role, so access is decided here:
+ * admins see everything, kontributor only their own articles/events,
+ * and site settings are admin-only.
+ */
+
+import { NextResponse } from 'next/server';
+import { AdminAuthContext } from '@/lib/api/admin-auth';
+import { RevisionEntityType } from '@/types/revision';
+
+export const REVISION_ENTITY_TYPES: RevisionEntityType[] = ['article', 'event', 'site_setting'];
+
+/** Entity type → table and owner column */
+const ENTITY_TABLES: Record<Exclude<RevisionEntityType, 'site_setting'>, { table: string; ownerColumn: string }> = {
+  article: { table: 'articles', ownerColumn: 'author_id' },
+  event: { table: 'events', ownerColumn: 'creator_id' },
+};
+
+export function isRevisionEntityType(value: unknown): value is RevisionEntityType {
+  return REVISION_ENTITY_TYPES.includes(value as RevisionEntityType);
+}
+
+/**
+ * Check the caller may read (or restore) revisions of an entity.
+ * Returns a ready-to-return error response, or null when allowed.
+ *
+ * @param options.restore - Kontributor may only restore articles still in draft/pending
+ */
+export async function checkRevisionAccess(
+  { supabase, user, profile }: AdminAuthContext,
+  entityType: RevisionEntityType,
+  entityId: string,
+  options: { restore?: boolean } = {}
+): Promise<NextResponse | null> {
+  const isEditor = profile.role === 'super_admin' || profile.role === 'admin';
+
+  if (entityType === 'site_setting') {
+    return isEditor
+      ? null
+      : NextResponse.json(
+        { error: 'Forbidden - admin access required' },
+        { status: 403 }
+      );
+  }
+
+  const { table, ownerColumn } = ENTITY_TABLES[entityType];
+  const { data: record, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', entityId)
+    .single();
+
+  if (error || !record) {
+    return NextResponse.json(
+      { error: 'Content not found' },
+      { status: 404 }
+    );
+  }
+
+  if (isEditor) {
+    return null;
+  }
+
+  const row = record as Record<string, unknown>;
+  if (row[ownerColumn] !== user.id) {
+    return NextResponse.json(
+      { error: 'Forbidden - not your content' },
+      { status: 403 }
+    );
+  }
+
+  if (options.restore && entityType === 'article' && !['draft', 'pending'].includes(row.status as string)) {
+    return NextResponse.json(
+      { error: 'Forbidden - published articles can only be restored by an admin' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
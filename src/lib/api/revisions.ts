@@ -0,0 +1,97 @@
+/**
+ * Content Revisions API - Client wrappers for revision history
+ *
+ * Calls /api/admin/revisions with the current session token.
+ * Revisions are captured by database triggers on every save;
+ * restoring one writes its content back as a new revision.
+ */
+
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { ContentRevision, RevisionEntityType } from '@/types/revision';
+
+/**
+ * Fields shown in the diff (and written back on restore) per entity type
+ */
+const REVISION_FIELDS: Record<RevisionEntityType, string[]> = {
+  article: ['title', 'slug', 'excerpt', 'category', 'cover_image', 'tags', 'featured', 'content'],
+  event: [
+    'title', 'slug', 'category', 'start_date', 'end_date', 'location', 'organizer', 'cover_image', 'images',
+    'registration_url', 'registration_deadline', 'max_participants', 'tags', 'featured', 'description', 'content',
+  ],
+  site_setting: ['content'],
+};
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Get the revision history of an article, event or site setting (newest first)
+ *
+ * @param entityType - 'article' | 'event' | 'site_setting'
+ * @param entityId - Record id, or the settings key ('home' | 'about')
+ */
+export async function getRevisions(entityType: RevisionEntityType, entityId: string): Promise<ContentRevision[]> {
+  const params = new URLSearchParams({ entityType, entityId });
+  const response = await fetch(`/api/admin/revisions?${params.toString()}`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load revision history');
+  }
+
+  const result = await response.json();
+  return result.revisions ?? [];
+}
+
+/**
+ * Restore a revision (saved as a new revision)
+ */
+export async function restoreRevision(revisionId: string): Promise<ContentRevision> {
+  const response = await fetch(`/api/admin/revisions/${revisionId}/restore`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to restore revision');
+  }
+
+  const result = await response.json();
+  return result.revision;
+}
+
+/**
+ * Flatten a value into diffable lines.
+ * Multi-line strings (markdown) are kept line by line under their path.
+ */
+function flattenForDiff(value: unknown, path: string): string[] {
+  if (typeof value === 'string' && value.includes('\n')) {
+    return [`${path}:`, ...value.split('\n'), ''];
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap((item, index) => flattenForDiff(item, `${path}[${index}]`));
+  }
+  if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, item]) => flattenForDiff(item, path ? `${path}.${key}` : key));
+  }
+  return [`${path}: ${JSON.stringify(value ?? null)}`];
+}
+
+/**
+ * Render a revision's editable content as lines for the diff viewer
+ */
+export function revisionToLines(revision: ContentRevision): string[] {
+  return REVISION_FIELDS[revision.entity_type].flatMap((field) =>
+    flattenForDiff(revision.content[field], field)
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Search API - Ranked full-text search across public content
+ *
+ * Backed by the search_content* database functions (indonesian tsvectors,
+ * websearch syntax), so user input is never spliced into filter strings.
+ * Server-only (calls the functions through the service client).
+ */
+
+import { createSupabaseAdmin } from '@/lib/api/supabase-admin';
+
+export type SearchResultType = 'article' | 'event' | 'member';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['article', 'event', 'member'];
+
+/** Markers the database wraps around matched words in titles and snippets */
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  /** Excerpt around the matches (member results: batch, division, position) */
+  snippet: string;
+  image?: string;
+  date?: string;
+  url: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  /** Matches per type, independent of the type filter */
+  counts: Record<SearchResultType, number>;
+  /** Matches for the current type filter */
+  total: number;
+  currentPage: number;
+  totalPages: number;
+  /** Spelling-corrected query, only when there are few matches */
+  suggestion: string | null;
+}
+
+/**
+ * Row returned by search_content()
+ */
+interface SearchResultRaw {
+  result_type: string;
+  id: string;
+  slug: string | null;
+  title: string;
+  snippet: string | null;
+  image: string | null;
+  result_date: string | null;
+  rank: number;
+}
+
+interface SearchOptions {
+  type?: SearchResultType;
+  page?: number;
+  pageSize?: number;
+}
+
+/** Ask for a "did you mean" below this many matches */
+const SUGGESTION_THRESHOLD = 3;
+
+export function isSearchResultType(value: string): value is SearchResultType {
+  return (SEARCH_RESULT_TYPES as string[]).includes(value);
+}
+
+function getResultUrl(type: SearchResultType, slug: string | null): string {
+  if (type === 'article') return `/articles/${slug}`;
+  if (type === 'event') return `/events/${slug}`;
+  return '/members';
+}
+
+/**
+ * Search articles, events and members, best matches first
+ */
+export async function searchContent(
+  query: string,
+  { type, page = 1, pageSize = 10 }: SearchOptions = {}
+): Promise<SearchResponse> {
+  const { client: supabaseAdmin } = createSupabaseAdmin();
+  if (!supabaseAdmin) {
+    throw new Error('Search is not configured');
+  }
+
+  const [resultsRes, countsRes] = await Promise.all([
+    supabaseAdmin.rpc('search_content', {
+      p_query: query,
+      p_type: type ?? null,
+      p_limit: pageSize,
+      p_offset: (page - 1) * pageSize,
+    }),
+    supabaseAdmin.rpc('search_content_counts', { p_query: query }),
+  ]);
+
+  if (resultsRes.error || countsRes.error) {
+    console.error('Error searching content:', resultsRes.error ?? countsRes.error);
+    throw new Error('Failed to search content');
+  }
+
+  const counts: Record<SearchResultType, number> = { article: 0, event: 0, member: 0 };
+  for (const row of (countsRes.data ?? []) as { result_type: string; total: number }[]) {
+    if (isSearchResultType(row.result_type)) {
+      counts[row.result_type] = Number(row.total);
+    }
+  }
+
+  const total = type ? counts[type] : counts.article + counts.event + counts.member;
+
+  let suggestion: string | null = null;
+  if (total < SUGGESTION_THRESHOLD) {
+    const { data } = await supabaseAdmin.rpc('search_suggestion', { p_query: query });
+    suggestion = data ?? null;
+  }
+
+  const results = ((resultsRes.data ?? []) as SearchResultRaw[])
+    .filter((row) => isSearchResultType(row.result_type))
+    .map((row) => {
+      const resultType = row.result_type as SearchResultType;
+      return {
+        type: resultType,
+        id: row.id,
+        title: row.title,
+        snippet: row.snippet ?? '',
+        image: row.image ?? undefined,
+        date: row.result_date ?? undefined,
+        url: getResultUrl(resultType, row.slug),
+      };
+    });
+
+  return {
+    results,
+    counts,
+    total,
+    currentPage: page,
+    totalPages: Math.ceil(total / pageSize),
+    suggestion,
+  };
+}
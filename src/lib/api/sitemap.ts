@@ -0,0 +1,117 @@
+/**
+ * Sitemap Data
+ *
+ * Collects every public URL: the static ROUTES, published articles,
+ * announced events, active gallery albums and authors (same visibility
+ * rules as the public pages), once per locale.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+import { ROUTES } from '@/config/navigation.config';
+import { SITE_CONFIG } from '@/config/site.config';
+import { DEFAULT_LOCALE, LOCALES } from '@/config/i18n.config';
+import { localizePath } from '@/lib/i18n/routing';
+
+export interface SitemapEntry {
+  url: string;
+  /** ISO timestamp of the last content change */
+  lastModified?: string;
+  /** Same page in every locale, keyed by hreflang (including x-default) */
+  alternates?: Record<string, string>;
+}
+
+/** PostgREST caps responses (1000 rows by default), so rows are read in batches */
+const BATCH_SIZE = 1000;
+
+interface SlugRow {
+  slug: string;
+  updated_at: string | null;
+}
+
+/**
+ * Read every row of a paged query
+ */
+async function fetchAllRows(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: SlugRow[] | null; error: unknown }>
+): Promise<SlugRow[]> {
+  const rows: SlugRow[] = [];
+
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await fetchPage(from, from + BATCH_SIZE - 1);
+
+    if (error) {
+      console.error(`Error fetching ${label} for sitemap:`, error);
+      throw new Error(`Failed to fetch ${label} for sitemap`);
+    }
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < BATCH_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * One entry per locale for a page path, each listing all its translations
+ */
+function localizeEntry(path: string, lastModified?: string | null): SitemapEntry[] {
+  const alternates: Record<string, string> = Object.fromEntries(
+    LOCALES.map((locale) => [locale, `${SITE_CONFIG.url}${localizePath(locale, path)}`])
+  );
+  alternates['x-default'] = alternates[DEFAULT_LOCALE];
+
+  return LOCALES.map((locale) => ({ url: alternates[locale], lastModified: lastModified ?? undefined, alternates }));
+}
+
+/**
+ * Get all sitemap entries (static routes first, then articles, events and albums)
+ */
+export async function getSitemapEntries(): Promise<SitemapEntry[]> {
+  const now = new Date().toISOString();
+
+  const [articles, events, albums, authors] = await Promise.all([
+    fetchAllRows('articles', (from, to) =>
+      supabase
+        .from('articles')
+        .select('slug, updated_at')
+        .eq('status', 'published')
+        .lte('published_at', now)
+        .order('slug')
+        .range(from, to)
+    ),
+    fetchAllRows('events', (from, to) =>
+      supabase
+        .from('events')
+        .select('slug, updated_at')
+        .or(`published_at.is.null,published_at.lte."${now}"`)
+        .order('slug')
+        .range(from, to)
+    ),
+    fetchAllRows('albums', (from, to) =>
+      supabase
+        .from('gallery_albums')
+        .select('slug, updated_at')
+        .eq('status', 'active')
+        .order('slug')
+        .range(from, to)
+    ),
+    // Author pages are addressed by profile id
+    fetchAllRows('authors', (from, to) =>
+      supabase
+        .from('author_profiles')
+        .select('slug:id, updated_at')
+        .order('id')
+        .range(from, to)
+        .returns<SlugRow[]>()
+    ),
+  ]);
+
+  return [
+    ...Object.values(ROUTES).flatMap((path) => localizeEntry(path)),
+    ...articles.flatMap((row) => localizeEntry(`/articles/${row.slug}`, row.updated_at)),
+    ...events.flatMap((row) => localizeEntry(`/events/${row.slug}`, row.updated_at)),
+    ...albums.flatMap((row) => localizeEntry(`/gallery/${row.slug}`, row.updated_at)),
+    ...authors.flatMap((row) => localizeEntry(`/authors/${row.slug}`, row.updated_at)),
+  ];
+}
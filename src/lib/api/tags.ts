@@ -0,0 +1,125 @@
+/**
+ * Tags API - Tag registry lookups and admin tag management
+ *
+ * Article and event tags are normalized by the database against the
+ * tags table. Reads use the public client; rename, merge and delete go
+ * through the admin routes with the current session token.
+ */
+
+import { supabase } from '@/lib/supabase/client';
+import { getBrowserSession } from '@/lib/supabase/browser-session';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { Tag, TagUsage } from '@/types/tag';
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getBrowserSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Get all registered tags, alphabetically
+ */
+export async function getTags(): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching tags:', error);
+    throw new Error('Failed to fetch tags');
+  }
+
+  return data || [];
+}
+
+/**
+ * Get tag by slug
+ */
+export async function getTagBySlug(slug: string): Promise<Tag | null> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching tag by slug:', error);
+    throw new Error('Failed to fetch tag');
+  }
+
+  return data;
+}
+
+/**
+ * Get all tags with article and event counts (admin)
+ */
+export async function getTagUsage(): Promise<TagUsage[]> {
+  const response = await fetch('/api/admin/tags', {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to load tags');
+  }
+
+  const result = await response.json();
+  return result.tags ?? [];
+}
+
+/**
+ * Rename a tag on every article and event that uses it
+ * Throws when another tag already has the new name (merge instead)
+ */
+export async function renameTag(slug: string, name: string): Promise<Tag> {
+  const response = await fetch(`/api/admin/tags/${encodeURIComponent(slug)}`, {
+    method: 'PATCH',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to rename tag');
+  }
+
+  const result = await response.json();
+  return result.tag;
+}
+
+/**
+ * Merge a tag into another; the source tag is removed
+ */
+export async function mergeTags(sourceSlug: string, targetSlug: string): Promise<Tag> {
+  const response = await fetch(`/api/admin/tags/${encodeURIComponent(sourceSlug)}/merge`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ into: targetSlug }),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to merge tags');
+  }
+
+  const result = await response.json();
+  return result.tag;
+}
+
+/**
+ * Delete a tag and remove it from all articles and events
+ */
+export async function deleteTag(slug: string): Promise<void> {
+  const response = await fetch(`/api/admin/tags/${encodeURIComponent(slug)}`, {
+    method: 'DELETE',
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    await handleApiError(response, 'Failed to delete tag');
+  }
+}
@@ -1,8 +1,8 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '@/lib/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { BrowserSession, getBrowserSession, onBrowserSessionChange } from '@/lib/supabase/browser-session';
 import { UserRole, Profile } from '@/types/auth-definitions';
 import { getProfileService, signInService, signOutService } from './auth.service';
 import { checkPermission, isAuthor } from './auth.utils';
@@ -12,7 +12,7 @@ export type { UserRole, Profile };
 export interface AuthContextType {
   user: User | null;
   profile: Profile | null;
-  session: Session | null;
+  session: BrowserSession | null;
   loading: boolean;
   error: Error | null;
 
@@ -34,7 +34,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }): React.ReactElement {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
+  const [session, setSession] = useState<BrowserSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const mountedRef = useRef(false);
@@ -69,7 +69,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
   useEffect(() => {
     mountedRef.current = true;
 
-    async function handleAuthChange(session: Session | null) {
+    async function handleAuthChange(session: BrowserSession | null) {
       if (!mountedRef.current) return;
 
       // Update session/user with stability checks
@@ -94,24 +94,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
       if (mountedRef.current) setLoading(false);
     }
 
-    // Initialize
-    supabase.auth.getSession().then(({ data: { session }, error }) => {
-      if (error) {
-        console.error('[AuthContext] Session error:', error);
-        if (mountedRef.current) setLoading(false);
-      } else {
-        handleAuthChange(session);
-      }
-    });
-
-    // Listen
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      handleAuthChange(session);
-    });
+    // Initialize, then listen for sign-in, sign-out and token changes
+    getBrowserSession().then(handleAuthChange);
+    const unsubscribe = onBrowserSessionChange(handleAuthChange);
 
     return () => {
       mountedRef.current = false;
-      subscription.unsubscribe();
+      unsubscribe();
     };
   }, [fetchProfile]);
 
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase/client';
+import { signInWithPassword, signOut } from '@/lib/supabase/browser-session';
 import { Profile } from '@/types/auth-definitions';
 
 export async function getProfileService(userId: string) {
@@ -20,12 +21,9 @@ export async function getProfileService(userId: string) {
 }
 
 export async function signInService(email: string, password: string) {
-    return supabase.auth.signInWithPassword({
-        email,
-        password,
-    });
+    return signInWithPassword(email, password);
 }
 
 export async function signOutService() {
-    return supabase.auth.signOut();
+    return signOut();
 }
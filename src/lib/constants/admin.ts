@@ -74,6 +74,56 @@ export const GALLERY_STATUSES = [
   { value: 'archived', label: 'Archived' },
 ] as const;
 
+/**
+ * Contact Message Statuses
+ */
+export const CONTACT_MESSAGE_STATUSES = [
+  { value: 'new', label: 'New' },
+  { value: 'read', label: 'Read' },
+  { value: 'handled', label: 'Handled' },
+] as const;
+
+/**
+ * Newsletter Subscriber Statuses
+ */
+export const NEWSLETTER_STATUSES = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'subscribed', label: 'Subscribed' },
+  { value: 'unsubscribed', label: 'Unsubscribed' },
+] as const;
+
+/**
+ * Article Comment Statuses
+ */
+export const COMMENT_STATUSES = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'spam', label: 'Spam' },
+] as const;
+
+/**
+ * Member Change Request Statuses
+ */
+export const MEMBER_CHANGE_REQUEST_STATUSES = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+] as const;
+
+/**
+ * Member fields that members can only change through an approved
+ * request from the portal (the rest of their profile is self-service)
+ */
+export const MEMBER_REVIEWED_FIELDS = [
+  { value: 'name', label: 'Full Name' },
+  { value: 'nim', label: 'NIM' },
+  { value: 'email', label: 'Email' },
+  { value: 'batch', label: 'Batch' },
+  { value: 'division', label: 'Division' },
+  { value: 'position', label: 'Position' },
+] as const;
+
 /**
  * Status Colors for Badges
  * Tailwind CSS classes for status indicators
@@ -84,6 +134,7 @@ export const STATUS_COLORS = {
   pending: 'bg-yellow-100 text-yellow-700',
   published: 'bg-green-100 text-green-700',
   archived: 'bg-red-100 text-red-700',
+  scheduled: 'bg-purple-100 text-purple-700',
 
   // Event statuses
   upcoming: 'bg-blue-100 text-blue-700',
@@ -95,6 +146,20 @@ export const STATUS_COLORS = {
   active: 'bg-green-100 text-green-700',
   inactive: 'bg-gray-100 text-gray-700',
   alumni: 'bg-blue-100 text-blue-700',
+
+  // Contact message statuses
+  new: 'bg-blue-100 text-blue-700',
+  read: 'bg-yellow-100 text-yellow-700',
+  handled: 'bg-green-100 text-green-700',
+
+  // Newsletter statuses (pending shares the article color)
+  subscribed: 'bg-green-100 text-green-700',
+  unsubscribed: 'bg-gray-100 text-gray-700',
+
+  // Comment statuses (pending shares the article color)
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-gray-100 text-gray-700',
+  spam: 'bg-red-100 text-red-700',
 } as const;
 
 /**
@@ -106,3 +171,8 @@ export type MemberStatus = (typeof MEMBER_STATUSES)[number]['value'];
 export type ArticleStatus = (typeof ARTICLE_STATUSES)[number]['value'];
 export type EventStatus = (typeof EVENT_STATUSES)[number]['value'];
 export type GalleryStatus = (typeof GALLERY_STATUSES)[number]['value'];
+export type ContactMessageStatus = (typeof CONTACT_MESSAGE_STATUSES)[number]['value'];
+export type NewsletterStatus = (typeof NEWSLETTER_STATUSES)[number]['value'];
+export type CommentStatus = (typeof COMMENT_STATUSES)[number]['value'];
+export type MemberChangeRequestStatus = (typeof MEMBER_CHANGE_REQUEST_STATUSES)[number]['value'];
+export type MemberReviewedField = (typeof MEMBER_REVIEWED_FIELDS)[number]['value'];
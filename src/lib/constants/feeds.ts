@@ -0,0 +1,52 @@
+/**
+ * Feed-related constants
+ * Article feed locations, shared by the feed routes and page metadata
+ */
+
+import { ArticleCategory } from '@/lib/api/articles';
+import { FeedFormat, FEED_CONTENT_TYPES } from '@/lib/utils/feeds';
+import { ARTICLE_CATEGORIES } from '@/config/domain.config';
+import { SITE_CONFIG } from '@/config/site.config';
+
+/**
+ * Article feed paths per format
+ */
+export const ARTICLE_FEED_PATHS: Record<FeedFormat, string> = {
+  rss: '/articles/feed.xml',
+  atom: '/articles/atom.xml',
+  json: '/articles/feed.json',
+} as const;
+
+const FEED_FORMAT_LABELS: Record<FeedFormat, string> = {
+  rss: 'RSS',
+  atom: 'Atom',
+  json: 'JSON Feed',
+} as const;
+
+/**
+ * Feed paths for a category (or all articles), relative to the site root
+ */
+export function getArticleFeedPaths(category?: ArticleCategory): Record<FeedFormat, string> {
+  const query = category ? `?category=${category}` : '';
+  return {
+    rss: `${ARTICLE_FEED_PATHS.rss}${query}`,
+    atom: `${ARTICLE_FEED_PATHS.atom}${query}`,
+    json: `${ARTICLE_FEED_PATHS.json}${query}`,
+  };
+}
+
+/**
+ * Metadata `alternates.types` advertising the article feeds
+ * (rendered as <link rel="alternate"> tags)
+ */
+export function getArticleFeedAlternates(category?: ArticleCategory): Record<string, { url: string; title: string }[]> {
+  const paths = getArticleFeedPaths(category);
+  const name = category ? `${SITE_CONFIG.name} - ${ARTICLE_CATEGORIES[category]}` : SITE_CONFIG.name;
+
+  return Object.fromEntries(
+    (Object.keys(paths) as FeedFormat[]).map((format) => [
+      FEED_CONTENT_TYPES[format],
+      [{ url: paths[format], title: `${name} (${FEED_FORMAT_LABELS[format]})` }],
+    ])
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, type Locale } from '@/config/i18n.config';
+import { getMessages, type Messages } from './catalog';
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+/**
+ * Makes the page locale available to client components
+ */
+export function LocaleProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): Locale {
+  return useContext(LocaleContext);
+}
+
+/**
+ * UI messages for the current locale
+ */
+export function useMessages(): Messages {
+  return getMessages(useLocale());
+}
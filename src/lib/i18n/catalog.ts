@@ -0,0 +1,76 @@
+/**
+ * Message catalogs and message formatting
+ */
+
+import { Fragment, createElement, type ReactNode } from 'react';
+import { LOCALE_TAGS, type Locale } from '@/config/i18n.config';
+import { id, type Messages } from './messages/id';
+import { en } from './messages/en';
+
+export type { Messages };
+
+/**
+ * Count-dependent message, picked with the locale's plural rules
+ */
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+/**
+ * Error code used as the message of the public form schemas and
+ * returned as `code` by the public API routes
+ */
+export type ErrorCode = keyof Messages['errors'];
+
+const CATALOGS: Record<Locale, Messages> = { id, en };
+
+/**
+ * UI messages for a locale
+ */
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
+
+/**
+ * Text for an error code; undefined when the value is not a known code
+ */
+export function formatError(messages: Messages, code: string | undefined): string | undefined {
+  return code && Object.prototype.hasOwnProperty.call(messages.errors, code)
+    ? messages.errors[code as ErrorCode]
+    : undefined;
+}
+
+/**
+ * Fill {name} placeholders; unknown placeholders are left as they are
+ */
+export function formatMessage(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+}
+
+/**
+ * Pick the singular or plural form for a count and fill in {count}
+ * (pass `count` in values to display it differently, e.g. zero-padded)
+ */
+export function formatPlural(
+  locale: Locale,
+  message: PluralMessage,
+  count: number,
+  values: Record<string, string | number> = {}
+): string {
+  const form = new Intl.PluralRules(LOCALE_TAGS[locale]).select(count) === 'one' ? message.one : message.other;
+  return formatMessage(form, { count, ...values });
+}
+
+/**
+ * Like formatMessage, but placeholders can be filled with elements
+ * (e.g. a bold count inside a sentence)
+ */
+export function formatRichMessage(template: string, values: Record<string, ReactNode>): ReactNode[] {
+  return template.split(/(\{\w+\})/g).map((part, index) => {
+    const key = part.match(/^\{(\w+)\}$/)?.[1];
+    return createElement(Fragment, { key: index }, key && key in values ? values[key] : part);
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Per-locale content fields (article and event translations)
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/config/i18n.config';
+
+/**
+ * Translated fields keyed by locale, as stored in the `translations`
+ * JSONB column. The default locale lives in the regular columns.
+ */
+export type ContentTranslations<T extends Record<string, string>> = Partial<Record<Locale, Partial<T>>>;
+
+/**
+ * Replace fields with their translation for a locale; missing or blank
+ * translations fall back to the default-locale value
+ */
+export function localizeContent<T extends Record<string, string>>(
+  base: T,
+  translations: ContentTranslations<T> | null | undefined,
+  locale: Locale
+): T {
+  const translated = translations?.[locale];
+  if (locale === DEFAULT_LOCALE || !translated) {
+    return base;
+  }
+
+  const result = { ...base };
+  (Object.keys(base) as (keyof T)[]).forEach((key) => {
+    const value = translated[key];
+    if (typeof value === 'string' && value.trim()) {
+      result[key] = value as T[keyof T];
+    }
+  });
+  return result;
+}
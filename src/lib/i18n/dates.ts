@@ -0,0 +1,13 @@
+/**
+ * date-fns locales for formatting dates in the current UI language
+ */
+
+import type { Locale as DateLocale } from 'date-fns';
+import { enUS, id } from 'date-fns/locale';
+import type { Locale } from '@/config/i18n.config';
+
+const DATE_LOCALES: Record<Locale, DateLocale> = { id, en: enUS };
+
+export function getDateLocale(locale: Locale): DateLocale {
+  return DATE_LOCALES[locale];
+}
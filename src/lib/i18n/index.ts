@@ -0,0 +1,6 @@
+export * from './catalog';
+export * from './routing';
+export * from './content';
+export * from './dates';
+export * from './metadata';
+export { LOCALES, DEFAULT_LOCALE, LOCALE_COOKIE, LOCALE_LABELS, LOCALE_TAGS, OG_LOCALES, type Locale } from '@/config/i18n.config';
@@ -0,0 +1,352 @@
+/**
+ * English UI messages
+ */
+
+import type { Messages } from './id';
+
+export const en: Messages = {
+  common: {
+    all: 'All',
+    allCount: 'All ({count})',
+    backToHome: 'Back to Home',
+    goHome: 'Go Home',
+    cancel: 'Cancel',
+    loading: 'Loading...',
+    viewAll: 'View All',
+    readMore: 'Read More',
+    featured: 'Featured',
+    tryAgain: 'Try Again',
+    errorDetails: 'Error Details',
+    errorTitle: 'Something went wrong',
+    errorMessage: 'An error occurred while loading this content.',
+    pagination: 'Pagination',
+    previous: 'Prev',
+    next: 'Next',
+    views: { one: '{count} view', other: '{count} views' },
+    fullName: 'Full Name',
+    name: 'Name',
+    email: 'Email',
+    whatsapp: 'WhatsApp Number',
+    emailPlaceholder: 'email@example.com',
+  },
+  nav: {
+    home: 'Home',
+    about: 'About',
+    articles: 'Articles',
+    events: 'Events',
+    leadership: 'Leadership',
+    members: 'Members',
+    gallery: 'Gallery',
+    contact: 'Contact',
+    search: 'Search',
+    toggleMenu: 'Toggle menu',
+    closeMenu: 'Close menu',
+  },
+  languageSwitcher: {
+    label: 'Language',
+  },
+  footer: {
+    description:
+      'We are a development hub for pharmacy students, committed to shaping professionals with integrity and broad perspectives.',
+    newsletter: 'Newsletter',
+    menu: 'Menu',
+    contactUs: 'Contact Us',
+  },
+  categories: {
+    article: {
+      post: 'Post',
+      blog: 'Blog',
+      opinion: 'Opinion',
+      publication: 'Publication',
+      info: 'Info',
+    },
+    event: {
+      seminar: 'Seminar',
+      workshop: 'Workshop',
+      'community-service': 'Community Service',
+      competition: 'Competition',
+      training: 'Training',
+      other: 'Other',
+    },
+    gallery: {
+      activities: 'Activities',
+      events: 'Events',
+      facilities: 'Facilities',
+      organization: 'Organization',
+    },
+  },
+  eventStatus: {
+    upcoming: 'Upcoming',
+    ongoing: 'Ongoing',
+    completed: 'Completed',
+    cancelled: 'Cancelled',
+  },
+  home: {
+    latestArticles: 'Latest',
+    latestArticlesHighlight: 'Articles',
+    latestArticlesSubtitle: 'Latest articles and insights',
+    upcomingEvents: 'Upcoming',
+    upcomingEventsHighlight: 'Events',
+    upcomingEventsSubtitle: "Don't miss our exciting upcoming events",
+    noUpcomingEvents: 'No upcoming events yet',
+    viewAllEvents: 'View All Events',
+    statsTitle: 'Our Community in',
+    statsHighlight: 'Numbers',
+    statsDescription:
+      'A pharmacy student organization actively developing academics, soft skills, and community service',
+    stats: {
+      activeMembers: 'Active Members',
+      eventsPerYear: 'Events per Year',
+      activeDivisions: 'Active Divisions',
+      experience: 'Organizational Experience',
+      yearsSuffix: ' Years',
+    },
+  },
+  about: {
+    metaTitle: 'About Us',
+    metaDescription: 'Learn more about our mission, vision and journey',
+    title: 'About Us',
+    subtitle: 'Learn more about our organization and our journey in building a strong, engaged community.',
+    ourStory: 'Our Story',
+    storyHeading: 'A Journey of Dedication',
+    mission: 'Our Mission',
+    vision: 'Our Vision',
+    values: 'Our Values',
+    journey: 'Our Journey',
+    affiliations: 'Partnerships & Affiliations',
+    certificationYear: 'Year {year}',
+    stats: {
+      activeMembers: 'Active Members',
+      eventsPerYear: 'Events / Year',
+      divisions: 'Divisions',
+      yearsActive: 'Founded',
+    },
+  },
+  articles: {
+    metaTitle: 'Articles',
+    metaDescription: 'Collection of articles, blog posts, opinions, publications, and latest information from us',
+    title: 'Articles',
+    subtitle: 'Collection of articles, blog posts, opinions, publications, and latest information',
+    showing: 'Showing {shown} of {total} articles',
+    empty: 'No articles available yet',
+    backToList: 'Back to Articles',
+    tags: 'Tags:',
+    related: 'Related Articles',
+    relatedEvents: 'Related Upcoming Events',
+    comments: { one: '{count} comment', other: '{count} comments' },
+    readingTime: { one: '{count} min read', other: '{count} min read' },
+    wordCount: { one: '{count} word', other: '{count} words' },
+    tableOfContents: 'On This Page',
+    readingProgress: 'Reading progress',
+    notFoundMeta: 'Article Not Found',
+    notFoundTitle: 'Article Not Found',
+    notFoundMessage: "The article you're looking for doesn't exist or has been removed.",
+    errorTitle: 'Failed to load articles',
+    errorMessage: "We couldn't load the articles. Please try again.",
+    detailErrorTitle: 'Failed to load article',
+    detailErrorMessage: 'We could not load this article. It may have been moved or deleted.',
+  },
+  authors: {
+    notFoundMeta: 'Author Not Found',
+    metaDescription: 'Profile and writing of {name}',
+    label: 'Author',
+    articleCount: { one: '{count} article', other: '{count} articles' },
+    articlesBy: 'Articles by {name}',
+    viewProfile: "View {name}'s profile",
+  },
+  comments: {
+    heading: 'Comments ({count})',
+    empty: 'No comments yet. Be the first to comment!',
+    write: 'Leave a Comment',
+    closed: 'Comments on this article are closed.',
+    commentingAs: 'Commenting as',
+    emailHint: 'Will not be published',
+    comment: 'Comment',
+    reply: 'Reply',
+    replyAction: 'Reply',
+    submitComment: 'Post Comment',
+    submitReply: 'Post Reply',
+    staff: 'Staff',
+    pending: 'Thank you! Your comment will appear once a moderator approves it.',
+    failed: 'Your comment could not be sent',
+  },
+  events: {
+    metaTitle: 'Events',
+    metaDescription: 'Events and activities of the Pharmacy Student Association of UIN Alauddin Makassar',
+    title: 'Events',
+    subtitle: 'Latest activities and events from us',
+    allEvents: 'All Events',
+    empty: 'No events available yet',
+    viewDetails: 'View Details',
+    calendarTitle: 'Subscribe to the Calendar',
+    calendarDescription:
+      'Sync events to Google Calendar, Outlook, or Apple Calendar. Schedule changes are updated automatically.',
+    backToList: 'Back to Events',
+    info: 'Event Information',
+    date: 'Date',
+    until: 'until {date}',
+    location: 'Location',
+    organizer: 'Organizer',
+    participants: 'Participants',
+    registrationDeadline: 'Registration Deadline',
+    registerNow: 'Register Now',
+    registrationClosed: 'Registration Closed',
+    finished: 'This Event Has Ended',
+    addToCalendar: 'Add to Calendar',
+    related: 'Related Events',
+    relatedArticles: 'Related Articles',
+    notFoundMeta: 'Event Not Found',
+    notFoundTitle: 'Event Not Found',
+    notFoundMessage: "The event you're looking for doesn't exist or has been removed.",
+    errorTitle: 'Failed to load events',
+    errorMessage: "We couldn't load the events. Please try again.",
+    detailErrorTitle: 'Failed to load event',
+    detailErrorMessage: 'We could not load this event. It may have been moved or deleted.',
+  },
+  registration: {
+    title: 'Register for this Event',
+    waitlistTitle: 'Join the Waitlist',
+    notes: 'Notes',
+    submit: 'Register Now',
+    submitWaitlist: 'Join Waitlist',
+    registered: 'You are registered! Keep your QR ticket and show it at check-in.',
+    waitlisted: 'The event is full, you are on the waitlist.',
+    waitlistedAt: 'The event is full, you are on the waitlist (position {position}).',
+    waitlistNotice: "We'll let you know when a seat opens up.",
+    viewTicket: 'View Ticket',
+    checkStatus: 'Check Registration Status',
+    failed: 'Registration failed',
+  },
+  ticket: {
+    metaTitle: 'Event Ticket',
+    ticketFor: 'Ticket for',
+    checkedIn: 'Checked in on {date}',
+    instructions: 'Show this QR code to the organizers at check-in. Save this page or take a screenshot.',
+    waitlisted: "You're still on the waitlist. Your QR ticket will appear on this page as soon as you get a seat.",
+    cancelled: 'This registration has been cancelled.',
+  },
+  gallery: {
+    metaTitle: 'Gallery',
+    metaDescription: 'Photos of our activities, events and facilities',
+    title: 'Gallery',
+    subtitle: 'Moments from our activities, together',
+    backToList: 'Back to Gallery',
+    photos: { one: '{count} photo', other: '{count} photos' },
+    photosOf: 'Photos of {title}',
+    empty: 'No albums yet',
+    emptyAlbum: 'No photos in this album yet',
+    notFoundMeta: 'Album Not Found',
+    errorTitle: 'Failed to load gallery',
+    errorMessage: "We couldn't load the gallery. Please try again.",
+  },
+  leadership: {
+    metaTitle: 'Leadership',
+    metaDescription: 'Our executive board and division coordinators',
+    title: 'Leadership',
+    subtitle: 'The visionaries behind the movement.',
+    memberCount: { one: '{count} MEMBER', other: '{count} MEMBERS' },
+    errorTitle: 'Failed to load leadership',
+    errorMessage: "We couldn't load the leadership information. Please try again.",
+  },
+  members: {
+    metaTitle: 'Members',
+    metaDescription: 'Active members of our organization',
+    title: 'Members',
+    subtitle: 'List of active members of our organization',
+    allBatches: 'All Classes',
+    batch: 'Class of {batch}',
+    showing: 'Showing {count} members',
+    empty: 'No members found',
+    email: 'Email {name}',
+    phone: 'Call {name}',
+    social: "{name}'s {network}",
+    errorTitle: 'Failed to load members',
+    errorMessage: "We couldn't load the member list. Please try again.",
+  },
+  search: {
+    metaTitle: 'Search',
+    metaDescription: 'Search our articles, events and members',
+    title: 'Search',
+    placeholder: 'Search articles, events or members...',
+    inputLabel: 'Search keywords',
+    submit: 'Search',
+    didYouMean: 'Did you mean:',
+    results: '{total} results for “{query}”',
+    empty: 'No matching results',
+    types: {
+      article: 'Articles',
+      event: 'Events',
+      member: 'Members',
+    },
+    errorTitle: 'Failed to search',
+    errorMessage: "We couldn't complete the search. Please try again.",
+  },
+  tags: {
+    notFoundMeta: 'Tag Not Found',
+    metaDescription: 'Articles and events tagged {tag}',
+    label: 'Tag',
+    summary: '{articles} articles and {events} events',
+    articles: 'Articles',
+    events: 'Events',
+  },
+  contact: {
+    metaTitle: 'Contact Us',
+    metaDescription: 'Send us your questions, suggestions or partnership ideas',
+    title: 'Contact Us',
+    subtitle: 'Have a question or want to work with us? Send us a message',
+    channels: 'Contact',
+    address: 'Address',
+    formTitle: 'Send a Message',
+    subject: 'Subject',
+    message: 'Message',
+    submit: 'Send Message',
+    sent: "Thank you! We've received your message and will reply by email soon.",
+    sendAnother: 'Send another message',
+    failed: 'Your message could not be sent',
+  },
+  newsletter: {
+    signupLabel: 'Get our latest articles and events straight to your inbox.',
+    submitLabel: 'Subscribe to the newsletter',
+    checkEmail: 'Check your email and click the confirmation link to start your subscription.',
+    failed: 'Could not subscribe to the newsletter',
+    confirmMetaTitle: 'Newsletter Confirmation',
+    invalidTitle: 'Invalid Link',
+    invalidMessage:
+      'This confirmation link is invalid or has expired. Please sign up again using the newsletter form.',
+    confirmedTitle: 'Subscription Confirmed',
+    alreadyConfirmedTitle: 'Already Subscribed',
+    confirmedMessage: "Thank you! You'll receive our latest articles and events.",
+    unsubscribeMetaTitle: 'Unsubscribe',
+    unsubscribeTitle: 'Unsubscribe',
+    unsubscribeMessage: 'You will no longer receive our newsletter.',
+    unsubscribeSubmit: 'Unsubscribe',
+    unsubscribedTitle: 'You Have Unsubscribed',
+    unsubscribedMessage: "You won't receive our newsletter anymore.",
+    unsubscribeFailed: 'Could not unsubscribe',
+  },
+  errors: {
+    invalidRequest: 'The submitted data is not valid',
+    nameTooShort: 'Name must be at least 2 characters',
+    nameTooLong: 'Name is too long',
+    invalidEmail: 'Invalid email address',
+    invalidPhone: 'Invalid phone number (e.g. 081234567890)',
+    subjectTooShort: 'Subject must be at least 5 characters',
+    subjectTooLong: 'Subject must be at most 100 characters',
+    messageTooShort: 'Message must be at least 10 characters',
+    messageTooLong: 'Message must be at most 1000 characters',
+    notesTooLong: 'Notes are too long',
+    commentTooShort: 'Comment must be at least 3 characters',
+    commentTooLong: 'Comment must be at most 2000 characters',
+    tooManyMessages: 'Too many messages sent. Please try again later.',
+    tooManyComments: 'Too many comments sent. Please try again later.',
+    tooManySignups: 'Too many newsletter sign-ups. Please try again later.',
+    articleNotFound: 'Article not found',
+    commentsClosed: 'Comments are closed for this article',
+    parentNotFound: 'The comment you replied to was not found',
+    eventNotFound: 'Event not found',
+    registrationClosed: 'Registration for this event is closed',
+    registrationDeadlinePassed: 'The registration deadline has passed',
+    alreadyRegistered: 'This email is already registered for the event',
+    invalidUnsubscribeLink: 'Invalid unsubscribe link',
+  },
+};
@@ -0,0 +1,357 @@
+/**
+ * Indonesian UI messages (default locale)
+ *
+ * The shape of this catalog is the Messages type every other locale
+ * has to match. Placeholders are written as {name}; counts that change
+ * the wording in some languages use { one, other } forms.
+ */
+
+export const id = {
+  common: {
+    all: 'Semua',
+    allCount: 'Semua ({count})',
+    backToHome: 'Kembali ke Beranda',
+    goHome: 'Ke Beranda',
+    cancel: 'Batal',
+    loading: 'Memuat...',
+    viewAll: 'Lihat Semua',
+    readMore: 'Baca Selengkapnya',
+    featured: 'Unggulan',
+    tryAgain: 'Coba Lagi',
+    errorDetails: 'Detail Error',
+    errorTitle: 'Terjadi kesalahan',
+    errorMessage: 'Terjadi kesalahan saat memuat konten ini.',
+    pagination: 'Navigasi halaman',
+    previous: 'Sebelumnya',
+    next: 'Berikutnya',
+    views: { one: '{count} kali dibaca', other: '{count} kali dibaca' },
+    fullName: 'Nama Lengkap',
+    name: 'Nama',
+    email: 'Email',
+    whatsapp: 'No. WhatsApp',
+    emailPlaceholder: 'email@contoh.com',
+  },
+  nav: {
+    home: 'Beranda',
+    about: 'Tentang',
+    articles: 'Artikel',
+    events: 'Event',
+    leadership: 'Kepengurusan',
+    members: 'Anggota',
+    gallery: 'Galeri',
+    contact: 'Kontak',
+    search: 'Cari',
+    toggleMenu: 'Buka/tutup menu',
+    closeMenu: 'Tutup menu',
+  },
+  languageSwitcher: {
+    label: 'Bahasa',
+  },
+  footer: {
+    description:
+      'Kami adalah wadah pengembangan mahasiswa farmasi yang berkomitmen mencetak profesional berintegritas dan berwawasan luas.',
+    newsletter: 'Newsletter',
+    menu: 'Menu',
+    contactUs: 'Hubungi Kami',
+  },
+  categories: {
+    article: {
+      post: 'Post',
+      blog: 'Blog',
+      opinion: 'Opini',
+      publication: 'Publikasi',
+      info: 'Info',
+    },
+    event: {
+      seminar: 'Seminar',
+      workshop: 'Workshop',
+      'community-service': 'Pengabdian Masyarakat',
+      competition: 'Kompetisi',
+      training: 'Pelatihan',
+      other: 'Lainnya',
+    },
+    gallery: {
+      activities: 'Aktivitas',
+      events: 'Event',
+      facilities: 'Fasilitas',
+      organization: 'Organisasi',
+    },
+  },
+  eventStatus: {
+    upcoming: 'Akan Datang',
+    ongoing: 'Berlangsung',
+    completed: 'Selesai',
+    cancelled: 'Dibatalkan',
+  },
+  home: {
+    latestArticles: 'Artikel',
+    latestArticlesHighlight: 'Terbaru',
+    latestArticlesSubtitle: 'Artikel dan wawasan terbaru',
+    upcomingEvents: 'Event',
+    upcomingEventsHighlight: 'Mendatang',
+    upcomingEventsSubtitle: 'Jangan lewatkan event seru kami berikutnya',
+    noUpcomingEvents: 'Belum ada event mendatang',
+    viewAllEvents: 'Lihat Semua Event',
+    statsTitle: 'Komunitas Kami dalam',
+    statsHighlight: 'Angka',
+    statsDescription:
+      'Organisasi mahasiswa farmasi yang aktif mengembangkan akademik, soft skills, dan pengabdian masyarakat',
+    stats: {
+      activeMembers: 'Anggota Aktif',
+      eventsPerYear: 'Event per Tahun',
+      activeDivisions: 'Divisi Aktif',
+      experience: 'Pengalaman Berorganisasi',
+      yearsSuffix: ' Tahun',
+    },
+  },
+  about: {
+    metaTitle: 'Tentang Kami',
+    metaDescription: 'Kenali misi, visi, dan perjalanan organisasi kami',
+    title: 'Tentang Kami',
+    subtitle: 'Kenali organisasi kami dan perjalanan kami membangun komunitas yang kuat dan aktif.',
+    ourStory: 'Cerita Kami',
+    storyHeading: 'Perjalanan Menuju Dedikasi',
+    mission: 'Misi Kami',
+    vision: 'Visi Kami',
+    values: 'Nilai-Nilai Kami',
+    journey: 'Perjalanan Kami',
+    affiliations: 'Kemitraan & Afiliasi',
+    certificationYear: 'Tahun {year}',
+    stats: {
+      activeMembers: 'Anggota Aktif',
+      eventsPerYear: 'Event / Tahun',
+      divisions: 'Divisi',
+      yearsActive: 'Tahun Berdiri',
+    },
+  },
+  articles: {
+    metaTitle: 'Artikel',
+    metaDescription: 'Kumpulan artikel, blog, opini, publikasi, dan informasi terbaru dari kami',
+    title: 'Artikel',
+    subtitle: 'Kumpulan artikel, blog, opini, publikasi, dan informasi terbaru',
+    showing: 'Menampilkan {shown} dari {total} artikel',
+    empty: 'Belum ada artikel tersedia',
+    backToList: 'Kembali ke Artikel',
+    tags: 'Tags:',
+    related: 'Artikel Terkait',
+    relatedEvents: 'Event Mendatang Terkait',
+    comments: { one: '{count} komentar', other: '{count} komentar' },
+    readingTime: { one: '{count} menit baca', other: '{count} menit baca' },
+    wordCount: { one: '{count} kata', other: '{count} kata' },
+    tableOfContents: 'Daftar Isi',
+    readingProgress: 'Progres membaca',
+    notFoundMeta: 'Artikel Tidak Ditemukan',
+    notFoundTitle: 'Artikel Tidak Ditemukan',
+    notFoundMessage: 'Artikel yang Anda cari tidak ada atau sudah dihapus.',
+    errorTitle: 'Gagal memuat artikel',
+    errorMessage: 'Artikel tidak dapat dimuat. Silakan coba lagi.',
+    detailErrorTitle: 'Gagal memuat artikel',
+    detailErrorMessage: 'Artikel ini tidak dapat dimuat. Mungkin sudah dipindahkan atau dihapus.',
+  },
+  authors: {
+    notFoundMeta: 'Penulis Tidak Ditemukan',
+    metaDescription: 'Profil dan tulisan {name}',
+    label: 'Penulis',
+    articleCount: { one: '{count} artikel', other: '{count} artikel' },
+    articlesBy: 'Artikel oleh {name}',
+    viewProfile: 'Lihat profil {name}',
+  },
+  comments: {
+    heading: 'Komentar ({count})',
+    empty: 'Belum ada komentar. Jadilah yang pertama berkomentar!',
+    write: 'Tulis Komentar',
+    closed: 'Komentar untuk artikel ini telah ditutup.',
+    commentingAs: 'Berkomentar sebagai',
+    emailHint: 'Tidak akan ditampilkan',
+    comment: 'Komentar',
+    reply: 'Balasan',
+    replyAction: 'Balas',
+    submitComment: 'Kirim Komentar',
+    submitReply: 'Kirim Balasan',
+    staff: 'Pengurus',
+    pending: 'Terima kasih! Komentar Anda akan tampil setelah disetujui moderator.',
+    failed: 'Komentar gagal dikirim',
+  },
+  events: {
+    metaTitle: 'Event',
+    metaDescription: 'Daftar event dan kegiatan dari Himpunan Mahasiswa Jurusan Farmasi UIN Alauddin Makassar',
+    title: 'Event',
+    subtitle: 'Kegiatan dan event terbaru dari kami',
+    allEvents: 'Semua Event',
+    empty: 'Belum ada event tersedia',
+    viewDetails: 'Lihat Detail',
+    calendarTitle: 'Langganan Kalender',
+    calendarDescription:
+      'Sinkronkan event ke Google Calendar, Outlook, atau Apple Calendar. Perubahan jadwal akan diperbarui otomatis.',
+    backToList: 'Kembali ke Event',
+    info: 'Informasi Event',
+    date: 'Tanggal',
+    until: 's/d {date}',
+    location: 'Lokasi',
+    organizer: 'Penyelenggara',
+    participants: 'Peserta',
+    registrationDeadline: 'Batas Pendaftaran',
+    registerNow: 'Daftar Sekarang',
+    registrationClosed: 'Pendaftaran Ditutup',
+    finished: 'Event Telah Selesai',
+    addToCalendar: 'Tambah ke Kalender',
+    related: 'Event Terkait',
+    relatedArticles: 'Artikel Terkait',
+    notFoundMeta: 'Event Tidak Ditemukan',
+    notFoundTitle: 'Event Tidak Ditemukan',
+    notFoundMessage: 'Event yang Anda cari tidak ada atau sudah dihapus.',
+    errorTitle: 'Gagal memuat event',
+    errorMessage: 'Event tidak dapat dimuat. Silakan coba lagi.',
+    detailErrorTitle: 'Gagal memuat event',
+    detailErrorMessage: 'Event ini tidak dapat dimuat. Mungkin sudah dipindahkan atau dihapus.',
+  },
+  registration: {
+    title: 'Daftar Event',
+    waitlistTitle: 'Gabung Daftar Tunggu',
+    notes: 'Catatan',
+    submit: 'Daftar Sekarang',
+    submitWaitlist: 'Masuk Daftar Tunggu',
+    registered: 'Pendaftaran berhasil! Simpan tiket QR Anda dan tunjukkan saat check-in.',
+    waitlisted: 'Kuota penuh, Anda masuk daftar tunggu.',
+    waitlistedAt: 'Kuota penuh, Anda masuk daftar tunggu (urutan ke-{position}).',
+    waitlistNotice: 'Kami akan mengabari jika ada kursi kosong.',
+    viewTicket: 'Lihat Tiket',
+    checkStatus: 'Cek Status Pendaftaran',
+    failed: 'Pendaftaran gagal',
+  },
+  ticket: {
+    metaTitle: 'Tiket Event',
+    ticketFor: 'Tiket untuk',
+    checkedIn: 'Sudah check-in pada {date}',
+    instructions:
+      'Tunjukkan QR code ini kepada panitia saat check-in. Simpan halaman ini atau ambil tangkapan layar.',
+    waitlisted: 'Anda masih di daftar tunggu. Tiket QR akan muncul di halaman ini begitu Anda mendapat kursi.',
+    cancelled: 'Pendaftaran ini telah dibatalkan.',
+  },
+  gallery: {
+    metaTitle: 'Galeri',
+    metaDescription: 'Dokumentasi kegiatan, event, dan fasilitas kami',
+    title: 'Galeri',
+    subtitle: 'Dokumentasi kegiatan dan momen bersama',
+    backToList: 'Kembali ke Galeri',
+    photos: { one: '{count} foto', other: '{count} foto' },
+    photosOf: 'Foto {title}',
+    empty: 'Belum ada album',
+    emptyAlbum: 'Belum ada foto di album ini',
+    notFoundMeta: 'Album Tidak Ditemukan',
+    errorTitle: 'Gagal memuat galeri',
+    errorMessage: 'Galeri tidak dapat dimuat. Silakan coba lagi.',
+  },
+  leadership: {
+    metaTitle: 'Kepengurusan',
+    metaDescription: 'Pengurus inti dan koordinator divisi kami',
+    title: 'Kepengurusan',
+    subtitle: 'Orang-orang di balik gerakan ini.',
+    memberCount: { one: '{count} ANGGOTA', other: '{count} ANGGOTA' },
+    errorTitle: 'Gagal memuat kepengurusan',
+    errorMessage: 'Informasi kepengurusan tidak dapat dimuat. Silakan coba lagi.',
+  },
+  members: {
+    metaTitle: 'Anggota',
+    metaDescription: 'Daftar anggota aktif organisasi kami',
+    title: 'Anggota',
+    subtitle: 'Daftar anggota aktif organisasi kami',
+    allBatches: 'Semua Angkatan',
+    batch: 'Angkatan {batch}',
+    showing: 'Menampilkan {count} anggota',
+    empty: 'Tidak ada anggota ditemukan',
+    email: 'Email {name}',
+    phone: 'Telepon {name}',
+    social: '{network} {name}',
+    errorTitle: 'Gagal memuat anggota',
+    errorMessage: 'Daftar anggota tidak dapat dimuat. Silakan coba lagi.',
+  },
+  search: {
+    metaTitle: 'Pencarian',
+    metaDescription: 'Cari artikel, event, dan anggota kami',
+    title: 'Pencarian',
+    placeholder: 'Cari artikel, event, atau anggota...',
+    inputLabel: 'Kata kunci pencarian',
+    submit: 'Cari',
+    didYouMean: 'Mungkin maksud Anda:',
+    results: '{total} hasil untuk “{query}”',
+    empty: 'Tidak ada hasil yang cocok',
+    types: {
+      article: 'Artikel',
+      event: 'Event',
+      member: 'Anggota',
+    },
+    errorTitle: 'Pencarian gagal',
+    errorMessage: 'Pencarian tidak dapat diselesaikan. Silakan coba lagi.',
+  },
+  tags: {
+    notFoundMeta: 'Tag Tidak Ditemukan',
+    metaDescription: 'Artikel dan event dengan tag {tag}',
+    label: 'Tag',
+    summary: '{articles} artikel dan {events} event',
+    articles: 'Artikel',
+    events: 'Event',
+  },
+  contact: {
+    metaTitle: 'Hubungi Kami',
+    metaDescription: 'Kirim pertanyaan, saran, atau ajakan kerja sama kepada kami',
+    title: 'Hubungi Kami',
+    subtitle: 'Punya pertanyaan atau ingin bekerja sama? Kirimkan pesan Anda',
+    channels: 'Kontak',
+    address: 'Alamat',
+    formTitle: 'Kirim Pesan',
+    subject: 'Subjek',
+    message: 'Pesan',
+    submit: 'Kirim Pesan',
+    sent: 'Terima kasih! Pesan Anda sudah kami terima dan akan segera kami balas melalui email.',
+    sendAnother: 'Kirim pesan lain',
+    failed: 'Pesan gagal dikirim',
+  },
+  newsletter: {
+    signupLabel: 'Dapatkan kabar artikel dan event terbaru langsung di email Anda.',
+    submitLabel: 'Daftar newsletter',
+    checkEmail: 'Cek email Anda dan klik tautan konfirmasi untuk mulai berlangganan.',
+    failed: 'Gagal mendaftar newsletter',
+    confirmMetaTitle: 'Konfirmasi Newsletter',
+    invalidTitle: 'Tautan Tidak Valid',
+    invalidMessage:
+      'Tautan konfirmasi ini tidak valid atau sudah tidak berlaku. Silakan daftar ulang melalui formulir newsletter.',
+    confirmedTitle: 'Langganan Dikonfirmasi',
+    alreadyConfirmedTitle: 'Sudah Berlangganan',
+    confirmedMessage: 'Terima kasih! Anda akan menerima kabar artikel dan event terbaru dari kami.',
+    unsubscribeMetaTitle: 'Berhenti Berlangganan',
+    unsubscribeTitle: 'Berhenti Berlangganan',
+    unsubscribeMessage: 'Anda tidak akan lagi menerima newsletter dari kami.',
+    unsubscribeSubmit: 'Berhenti Berlangganan',
+    unsubscribedTitle: 'Berhasil Berhenti Berlangganan',
+    unsubscribedMessage: 'Anda tidak akan menerima newsletter kami lagi.',
+    unsubscribeFailed: 'Gagal berhenti berlangganan',
+  },
+  errors: {
+    invalidRequest: 'Data yang dikirim tidak valid',
+    nameTooShort: 'Nama minimal 2 karakter',
+    nameTooLong: 'Nama terlalu panjang',
+    invalidEmail: 'Email tidak valid',
+    invalidPhone: 'Nomor telepon tidak valid (contoh: 081234567890)',
+    subjectTooShort: 'Subjek minimal 5 karakter',
+    subjectTooLong: 'Subjek maksimal 100 karakter',
+    messageTooShort: 'Pesan minimal 10 karakter',
+    messageTooLong: 'Pesan maksimal 1000 karakter',
+    notesTooLong: 'Catatan terlalu panjang',
+    commentTooShort: 'Komentar minimal 3 karakter',
+    commentTooLong: 'Komentar maksimal 2000 karakter',
+    tooManyMessages: 'Terlalu banyak pesan terkirim. Silakan coba lagi nanti.',
+    tooManyComments: 'Terlalu banyak komentar terkirim. Silakan coba lagi nanti.',
+    tooManySignups: 'Terlalu banyak pendaftaran newsletter. Silakan coba lagi nanti.',
+    articleNotFound: 'Artikel tidak ditemukan',
+    commentsClosed: 'Komentar untuk artikel ini ditutup',
+    parentNotFound: 'Komentar yang dibalas tidak ditemukan',
+    eventNotFound: 'Event tidak ditemukan',
+    registrationClosed: 'Pendaftaran untuk event ini sudah ditutup',
+    registrationDeadlinePassed: 'Batas waktu pendaftaran sudah lewat',
+    alreadyRegistered: 'Email ini sudah terdaftar untuk event ini',
+    invalidUnsubscribeLink: 'Tautan berhenti berlangganan tidak valid',
+  },
+};
+
+export type Messages = typeof id;
@@ -0,0 +1,31 @@
+/**
+ * hreflang metadata for localized pages
+ */
+
+import type { Metadata } from 'next';
+import { DEFAULT_LOCALE, LOCALES, type Locale } from '@/config/i18n.config';
+import { getArticleFeedAlternates } from '@/lib/constants/feeds';
+import { localizePath } from './routing';
+
+/**
+ * Canonical URL plus one alternate per locale (and x-default) for a
+ * page path without locale prefix.
+ * Page-level alternates replace the layout's, so the feed links are
+ * carried along unless the page passes its own.
+ */
+export function getPageAlternates(
+  locale: Locale,
+  path: string,
+  types: NonNullable<Metadata['alternates']>['types'] = getArticleFeedAlternates()
+): NonNullable<Metadata['alternates']> {
+  const languages: Record<string, string> = Object.fromEntries(
+    LOCALES.map((alternate) => [alternate, localizePath(alternate, path)])
+  );
+  languages['x-default'] = localizePath(DEFAULT_LOCALE, path);
+
+  return {
+    canonical: localizePath(locale, path),
+    languages,
+    types,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Locale-prefixed URLs
+ *
+ * Kept free of message catalogs and React so the middleware can use it.
+ */
+
+import { DEFAULT_LOCALE, LOCALES, type Locale } from '@/config/i18n.config';
+
+export function isLocale(value: string | undefined | null): value is Locale {
+  return (LOCALES as readonly string[]).includes(value ?? '');
+}
+
+/**
+ * Locale prefix of a pathname, if it has one
+ */
+export function getPathLocale(pathname: string): Locale | null {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : null;
+}
+
+/**
+ * Pathname without its locale prefix ('/en/articles' -> '/articles')
+ */
+export function stripLocale(pathname: string): string {
+  const locale = getPathLocale(pathname);
+  if (!locale) {
+    return pathname;
+  }
+  return pathname.slice(locale.length + 1) || '/';
+}
+
+/**
+ * Prefix a site path with a locale ('/articles' -> '/en/articles').
+ * Anchors, external URLs and already prefixed paths are left alone.
+ */
+export function localizePath(locale: Locale, path: string): string {
+  if (!path.startsWith('/') || path.startsWith('//') || getPathLocale(path)) {
+    return path;
+  }
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * Best supported locale for an Accept-Language header
+ */
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  if (!acceptLanguage) {
+    return DEFAULT_LOCALE;
+  }
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  return ranked.find(({ language }) => isLocale(language))?.language as Locale | undefined ?? DEFAULT_LOCALE;
+}
@@ -0,0 +1,3 @@
+export * from './transports';
+export * from './mail.service';
+export * from './templates';
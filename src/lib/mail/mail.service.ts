@@ -0,0 +1,79 @@
+/**
+ * Mail Service
+ *
+ * Picks the transport from the environment:
+ * - MAIL_TRANSPORT=smtp    → SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ * - MAIL_TRANSPORT=file    → .eml files in MAIL_FILE_DIR (default: .mail)
+ * - MAIL_TRANSPORT=console → server log
+ * Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set, otherwise
+ * the console outside production. In production an unconfigured
+ * transport is an error: confirmation and claim links must reach the
+ * inbox, not the server log.
+ * Server-only.
+ */
+
+import { SITE_CONFIG } from '@/config/site.config';
+import {
+  MailMessage,
+  MailTransport,
+  createSmtpTransport,
+  createFileTransport,
+  createConsoleTransport,
+} from './transports';
+
+let transport: MailTransport | null = null;
+
+function getTransportKind(): string {
+  if (process.env.MAIL_TRANSPORT) {
+    return process.env.MAIL_TRANSPORT;
+  }
+  if (process.env.SMTP_HOST) {
+    return 'smtp';
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Mail is not configured: set SMTP_HOST or MAIL_TRANSPORT');
+  }
+  return 'console';
+}
+
+function createTransportFromEnv(): MailTransport {
+  const kind = getTransportKind();
+
+  switch (kind) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is not configured');
+      }
+      const port = Number(process.env.SMTP_PORT || 587);
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    }
+    case 'file':
+      return createFileTransport(process.env.MAIL_FILE_DIR || '.mail');
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+/**
+ * The configured transport (created once per server instance)
+ */
+export function getMailTransport(): MailTransport {
+  transport ??= createTransportFromEnv();
+  return transport;
+}
+
+/**
+ * Send a message from MAIL_FROM (defaults to the site name and email)
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || `"${SITE_CONFIG.name}" <${SITE_CONFIG.email}>`;
+  await getMailTransport().send(message, from);
+}
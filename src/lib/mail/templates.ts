@@ -0,0 +1,81 @@
+/**
+ * Mail Templates
+ * Plain text with a simple HTML alternative
+ */
+
+import { SITE_CONFIG } from '@/config/site.config';
+import { escapeXml } from '@/lib/utils/xml';
+import { MailMessage } from './transports';
+
+/**
+ * Double opt-in email for a newsletter sign-up
+ */
+export function newsletterConfirmationEmail(
+  to: string,
+  links: {
+    confirmUrl: string;
+    /** Page with an unsubscribe button */
+    unsubscribeUrl: string;
+    /** One-click endpoint for mail clients (RFC 8058) */
+    oneClickUnsubscribeUrl: string;
+  }
+): MailMessage {
+  const subject = `Konfirmasi langganan newsletter ${SITE_CONFIG.name}`;
+  const text = [
+    'Halo,',
+    '',
+    `Terima kasih telah mendaftar newsletter ${SITE_CONFIG.name}.`,
+    'Klik tautan berikut untuk mengonfirmasi langganan Anda:',
+    links.confirmUrl,
+    '',
+    'Jika Anda tidak merasa mendaftar, abaikan email ini.',
+    `Berhenti berlangganan: ${links.unsubscribeUrl}`,
+  ].join('\n');
+
+  const html = `
+<p>Halo,</p>
+<p>Terima kasih telah mendaftar newsletter ${escapeXml(SITE_CONFIG.name)}.</p>
+<p><a href="${escapeXml(links.confirmUrl)}">Konfirmasi langganan</a></p>
+<p style="color:#6b7280;font-size:12px">
+  Jika Anda tidak merasa mendaftar, abaikan email ini.
+  <a href="${escapeXml(links.unsubscribeUrl)}">Berhenti berlangganan</a>
+</p>`.trim();
+
+  return {
+    to,
+    subject,
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${links.oneClickUnsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
+
+/**
+ * Verification link for claiming a member record from the portal
+ */
+export function memberClaimEmail(
+  to: string,
+  { memberName, claimUrl }: { memberName: string; claimUrl: string }
+): MailMessage {
+  const subject = `Verifikasi data anggota ${SITE_CONFIG.name}`;
+  const text = [
+    `Halo ${memberName},`,
+    '',
+    `Ada permintaan untuk menautkan data anggota Anda di ${SITE_CONFIG.name} ke sebuah akun.`,
+    'Klik tautan berikut untuk mengonfirmasi (berlaku 24 jam):',
+    claimUrl,
+    '',
+    'Jika bukan Anda yang meminta, abaikan email ini.',
+  ].join('\n');
+
+  const html = `
+<p>Halo ${escapeXml(memberName)},</p>
+<p>Ada permintaan untuk menautkan data anggota Anda di ${escapeXml(SITE_CONFIG.name)} ke sebuah akun.</p>
+<p><a href="${escapeXml(claimUrl)}">Konfirmasi dan tautkan akun</a> (berlaku 24 jam)</p>
+<p style="color:#6b7280;font-size:12px">Jika bukan Anda yang meminta, abaikan email ini.</p>`.trim();
+
+  return { to, subject, text, html };
+}
@@ -0,0 +1,101 @@
+/**
+ * Mail Transports
+ *
+ * Interchangeable senders behind one interface: SMTP for production,
+ * and file or console sinks for local development.
+ * Server-only.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Outgoing message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Extra headers (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Anything that can deliver a message
+ */
+export interface MailTransport {
+  /** Transport name, for logs */
+  name: string;
+  send(message: MailMessage, from: string): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** true for implicit TLS (usually port 465) */
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Deliver through an SMTP server
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message, from) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+/**
+ * Write each message as an .eml file (open it in any mail client)
+ */
+export function createFileTransport(directory: string): MailTransport {
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+    async send(message, from) {
+      const info = await builder.sendMail({ from, ...message });
+      const recipient = message.to.replace(/[^a-z0-9@.-]/gi, '_');
+      const filePath = path.join(directory, `${Date.now()}-${recipient}.eml`);
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath, info.message as Buffer);
+      console.warn(`[mail] ${message.subject} → ${filePath}`);
+    },
+  };
+}
+
+/**
+ * Print each message to the server log (warn level, so it is never filtered)
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send(message, from) {
+      console.warn(
+        ['[mail] ----------------------------------------',
+          `From: ${from}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          '',
+          message.text,
+          '-----------------------------------------------'].join('\n')
+      );
+      return Promise.resolve();
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Browser Session - In-memory access token for the signed-in user
+ *
+ * The session itself lives in HTTP-only cookies that only the server
+ * reads and refreshes (middleware.ts and /api/auth/session). The
+ * browser asks /api/auth/session for the current access token and
+ * keeps it in memory until shortly before it expires; the refresh
+ * token never reaches JavaScript.
+ *
+ * Used by the browser Supabase client (client.ts) and by the API
+ * wrappers that send `Authorization: Bearer` headers.
+ */
+
+import type { User } from '@supabase/supabase-js';
+
+const SESSION_ENDPOINT = '/api/auth/session';
+
+/**
+ * Access token handed to the browser for the current session
+ */
+export interface BrowserSession {
+  access_token: string;
+  /** Unix time in seconds */
+  expires_at: number;
+  user: User;
+}
+
+type SessionListener = (session: BrowserSession | null) => void;
+
+/** Ask for a new token this long before the cached one expires */
+const EXPIRY_MARGIN_SECONDS = 30;
+
+/** Undefined until the first lookup, null when signed out */
+let current: BrowserSession | null | undefined;
+let pending: Promise<BrowserSession | null> | null = null;
+const listeners = new Set<SessionListener>();
+
+function setSession(next: BrowserSession | null): void {
+  const previous = current;
+  current = next;
+
+  // The first lookup is reported through its own promise
+  if (previous === undefined || previous?.access_token === next?.access_token) {
+    return;
+  }
+  listeners.forEach((listener) => listener(next));
+}
+
+async function fetchSession(): Promise<BrowserSession | null> {
+  try {
+    const response = await fetch(SESSION_ENDPOINT, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Session lookup failed with status ${response.status}`);
+    }
+
+    const { session } = (await response.json()) as { session: BrowserSession | null };
+    setSession(session);
+    return session;
+  } catch (error) {
+    console.error('[BrowserSession] Failed to load the session:', error);
+    return null;
+  }
+}
+
+/**
+ * Current session, fetched from the server when missing or about to expire
+ *
+ * @returns Null when signed out (and always on the server)
+ */
+export async function getBrowserSession(): Promise<BrowserSession | null> {
+  if (typeof window === 'undefined' || current === null) {
+    return null;
+  }
+  if (current && current.expires_at - EXPIRY_MARGIN_SECONDS > Date.now() / 1000) {
+    return current;
+  }
+
+  pending ??= fetchSession().finally(() => {
+    pending = null;
+  });
+  return pending;
+}
+
+/**
+ * Sign in with email and password; the server sets the session cookies
+ */
+export async function signInWithPassword(email: string, password: string): Promise<{ error: Error | null }> {
+  const response = await fetch(SESSION_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    return { error: new Error(result.error ?? 'Invalid email or password') };
+  }
+
+  setSession(result.session);
+  return { error: null };
+}
+
+/**
+ * Sign out; the server clears the session cookies
+ */
+export async function signOut(): Promise<{ error: Error | null }> {
+  const response = await fetch(SESSION_ENDPOINT, { method: 'DELETE' });
+  setSession(null);
+
+  if (!response.ok) {
+    return { error: new Error('Failed to sign out') };
+  }
+  return { error: null };
+}
+
+/**
+ * Listen for sign-in, sign-out and token changes after the first lookup
+ *
+ * @returns Unsubscribe function
+ */
+export function onBrowserSessionChange(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -12,15 +12,16 @@
  * - Cannot bypass RLS policies (use server.ts for privileged operations)
  *
  * **Authentication Flow:**
- * - Sessions are persisted in localStorage (key: 'kemafar-auth')
- * - Tokens auto-refresh before expiry (default: 55 minutes)
- * - Uses PKCE flow for OAuth (recommended for public clients)
- * - Detects auth callbacks in URL (e.g., /auth/callback?code=...)
+ * - Sessions live in HTTP-only cookies that only the server reads and
+ *   refreshes (middleware.ts, /api/auth/session)
+ * - Requests carry the access token from browser-session.ts, held in
+ *   memory and re-fetched from the server shortly before it expires
+ * - `supabase.auth` is disabled on this client: sign in and out through
+ *   AuthContext (browser-session.ts)
  *
  * **When to Use:**
  * - ✅ Client components (use client)
  * - ✅ Browser-side data fetching (articles, events, members)
- * - ✅ User authentication (signIn, signUp, signOut)
  * - ✅ Real-time subscriptions
  * - ❌ Admin operations that bypass RLS (use server.ts instead)
  * - ❌ Server components (use server-side instance instead)
@@ -56,6 +57,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from './database.types';
+import { getBrowserSession } from './browser-session';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -77,21 +79,9 @@ if (!supabaseAnonKey) {
  *
  * @remarks
  * This is a singleton instance - all imports get the same client.
- * The client automatically manages auth state across the entire app.
+ * It never sees the refresh token.
  */
 export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    /** Persist auth session in localStorage (survives page refresh) */
-    persistSession: true,
-    /** Auto-refresh JWT tokens before expiry (prevents logout) */
-    autoRefreshToken: true,
-    /** Detect OAuth callback URLs (e.g., /auth/callback) */
-    detectSessionInUrl: true,
-    /** Use localStorage for session storage (undefined on server) */
-    storage: typeof window !== 'undefined' ? window.localStorage : undefined,
-    /** Storage key prefix (allows multiple Supabase apps on same domain) */
-    storageKey: 'kemafar-auth',
-    /** Use PKCE flow (recommended for public clients, more secure than implicit flow) */
-    flowType: 'pkce',
-  },
+  /** Signed-in requests use the server-issued access token, others the anon key */
+  accessToken: async () => (await getBrowserSession())?.access_token ?? null,
 });
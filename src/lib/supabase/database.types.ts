@@ -36,6 +36,11 @@ export interface Database {
           interests: string[] | null
           achievements: string[] | null
           social_media: Json | null
+          show_contact: boolean
+          show_social_media: boolean
+          profile_id: string | null
+          claimed_at: string | null
+          claim_sent_at: string | null
           created_at: string
           updated_at: string
         }
@@ -56,6 +61,11 @@ export interface Database {
           interests?: string[] | null
           achievements?: string[] | null
           social_media?: Json | null
+          show_contact?: boolean
+          show_social_media?: boolean
+          profile_id?: string | null
+          claimed_at?: string | null
+          claim_sent_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -76,6 +86,11 @@ export interface Database {
           interests?: string[] | null
           achievements?: string[] | null
           social_media?: Json | null
+          show_contact?: boolean
+          show_social_media?: boolean
+          profile_id?: string | null
+          claimed_at?: string | null
+          claim_sent_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -97,6 +112,9 @@ export interface Database {
           tags: string[]
           featured: boolean
           views: number
+          comments_enabled: boolean
+          comment_count: number
+          translations: Json
           created_at: string
         }
         Insert: {
@@ -106,7 +124,7 @@ export interface Database {
           excerpt: string
           content: string
           category: string
-          author: Json
+          author?: Json
           author_id: string
           status?: 'draft' | 'pending' | 'published' | 'archived'
           cover_image: string
@@ -115,6 +133,9 @@ export interface Database {
           tags?: string[]
           featured?: boolean
           views?: number
+          comments_enabled?: boolean
+          comment_count?: number
+          translations?: Json
           created_at?: string
         }
         Update: {
@@ -133,6 +154,9 @@ export interface Database {
           tags?: string[]
           featured?: boolean
           views?: number
+          comments_enabled?: boolean
+          comment_count?: number
+          translations?: Json
           created_at?: string
         }
       }
@@ -158,6 +182,9 @@ export interface Database {
           current_participants: number
           tags: string[]
           featured: boolean
+          published_at: string | null
+          calendar_sequence: number
+          translations: Json
           created_at: string
           updated_at: string
         }
@@ -182,6 +209,9 @@ export interface Database {
           current_participants?: number
           tags?: string[]
           featured?: boolean
+          published_at?: string | null
+          calendar_sequence?: number
+          translations?: Json
           created_at?: string
           updated_at?: string
         }
@@ -206,6 +236,9 @@ export interface Database {
           current_participants?: number
           tags?: string[]
           featured?: boolean
+          published_at?: string | null
+          calendar_sequence?: number
+          translations?: Json
           created_at?: string
           updated_at?: string
         }
@@ -266,12 +299,353 @@ export interface Database {
           updated_at?: string
         }
       }
+      tags: {
+        Row: {
+          slug: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          slug: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          slug?: string
+          name?: string
+          created_at?: string
+        }
+      }
+      gallery_albums: {
+        Row: {
+          id: string
+          title: string
+          slug: string
+          description: string | null
+          category: string
+          cover_image: string | null
+          status: string
+          taken_at: string | null
+          author_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          slug: string
+          description?: string | null
+          category: string
+          cover_image?: string | null
+          status?: string
+          taken_at?: string | null
+          author_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          slug?: string
+          description?: string | null
+          category?: string
+          cover_image?: string | null
+          status?: string
+          taken_at?: string | null
+          author_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      gallery_photos: {
+        Row: {
+          id: string
+          album_id: string
+          url: string
+          caption: string | null
+          alt_text: string
+          width: number
+          height: number
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          url: string
+          caption?: string | null
+          alt_text?: string
+          width: number
+          height: number
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          album_id?: string
+          url?: string
+          caption?: string | null
+          alt_text?: string
+          width?: number
+          height?: number
+          position?: number
+          created_at?: string
+        }
+      }
+      contact_messages: {
+        Row: {
+          id: string
+          name: string
+          email: string
+          phone: string | null
+          subject: string
+          message: string
+          status: 'new' | 'read' | 'handled'
+          assigned_to: string | null
+          handled_at: string | null
+          handled_by: string | null
+          sender_hash: string
+          user_agent: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          email: string
+          phone?: string | null
+          subject: string
+          message: string
+          status?: 'new' | 'read' | 'handled'
+          assigned_to?: string | null
+          handled_at?: string | null
+          handled_by?: string | null
+          sender_hash: string
+          user_agent?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          email?: string
+          phone?: string | null
+          subject?: string
+          message?: string
+          status?: 'new' | 'read' | 'handled'
+          assigned_to?: string | null
+          handled_at?: string | null
+          handled_by?: string | null
+          sender_hash?: string
+          user_agent?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      contact_message_replies: {
+        Row: {
+          id: string
+          message_id: string
+          author_id: string | null
+          body: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          author_id?: string | null
+          body: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          author_id?: string | null
+          body?: string
+          created_at?: string
+        }
+      }
+      newsletter_subscribers: {
+        Row: {
+          id: string
+          email: string
+          status: 'pending' | 'subscribed' | 'unsubscribed'
+          confirmation_sent_at: string | null
+          sender_hash: string | null
+          confirmed_at: string | null
+          unsubscribed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          status?: 'pending' | 'subscribed' | 'unsubscribed'
+          confirmation_sent_at?: string | null
+          sender_hash?: string | null
+          confirmed_at?: string | null
+          unsubscribed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          status?: 'pending' | 'subscribed' | 'unsubscribed'
+          confirmation_sent_at?: string | null
+          sender_hash?: string | null
+          confirmed_at?: string | null
+          unsubscribed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      article_comments: {
+        Row: {
+          id: string
+          article_id: string
+          parent_id: string | null
+          author_id: string | null
+          author_name: string
+          author_email: string
+          body: string
+          status: 'pending' | 'approved' | 'rejected' | 'spam'
+          spam_reasons: string[]
+          sender_hash: string
+          user_agent: string | null
+          moderated_at: string | null
+          moderated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          article_id: string
+          parent_id?: string | null
+          author_id?: string | null
+          author_name: string
+          author_email: string
+          body: string
+          status?: 'pending' | 'approved' | 'rejected' | 'spam'
+          spam_reasons?: string[]
+          sender_hash: string
+          user_agent?: string | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          article_id?: string
+          parent_id?: string | null
+          author_id?: string | null
+          author_name?: string
+          author_email?: string
+          body?: string
+          status?: 'pending' | 'approved' | 'rejected' | 'spam'
+          spam_reasons?: string[]
+          sender_hash?: string
+          user_agent?: string | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      member_change_requests: {
+        Row: {
+          id: string
+          member_id: string
+          requested_by: string | null
+          changes: Json
+          previous: Json
+          status: 'pending' | 'approved' | 'rejected'
+          review_note: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          member_id: string
+          requested_by?: string | null
+          changes: Json
+          previous: Json
+          status?: 'pending' | 'approved' | 'rejected'
+          review_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          member_id?: string
+          requested_by?: string | null
+          changes?: Json
+          previous?: Json
+          status?: 'pending' | 'approved' | 'rejected'
+          review_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
-      [_ in never]: never
+      member_directory: {
+        Row: {
+          id: string
+          name: string
+          photo: string | null
+          batch: string
+          division: string | null
+          position: string | null
+          joined_at: string
+          bio: string | null
+          interests: string[] | null
+          achievements: string[] | null
+          email: string | null
+          phone: string | null
+          social_media: Json | null
+        }
+      }
+      author_profiles: {
+        Row: {
+          id: string
+          full_name: string | null
+          avatar_url: string | null
+          bio: string | null
+          updated_at: string | null
+        }
+      }
     }
     Functions: {
-      [_ in never]: never
+      most_read_articles: {
+        Args: {
+          p_days: number
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          views: number
+        }[]
+      }
+      related_content: {
+        Args: {
+          p_source_type: 'article' | 'event'
+          p_source_id: string
+          p_target_type: 'article' | 'event'
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          score: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,42 @@
+/**
+ * Supabase Middleware Helper
+ *
+ * Refreshes the cookie session for an incoming request and returns the
+ * verified user alongside a response carrying any updated cookies.
+ */
+
+import { createServerClient } from '@supabase/ssr';
+import { NextResponse, type NextRequest } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { SESSION_COOKIE_OPTIONS, getSupabasePublicEnv } from './session-cookies';
+import type { Database } from './database.types';
+
+export async function updateSession(
+  request: NextRequest
+): Promise<{ response: NextResponse; user: User | null }> {
+  let response = NextResponse.next({ request });
+
+  const { url, anonKey } = getSupabasePublicEnv();
+
+  const supabase = createServerClient<Database>(url, anonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        // Mirror refreshed tokens onto the request (for downstream server
+        // components) and onto the response (for the browser)
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) => {
+          response.cookies.set(name, value, { ...options, ...SESSION_COOKIE_OPTIONS });
+        });
+      },
+    },
+  });
+
+  // getUser() validates the JWT with Supabase and refreshes it when expired
+  const { data: { user } } = await supabase.auth.getUser();
+
+  return { response, user };
+}
@@ -0,0 +1,37 @@
+/**
+ * Session Cookie Settings
+ *
+ * Shared by the SSR client and the middleware. Kept free of `next/headers`
+ * so it can be imported from the edge runtime.
+ */
+
+import type { CookieOptions } from '@supabase/ssr';
+
+/**
+ * Cookie attributes enforced on every session cookie
+ */
+export const SESSION_COOKIE_OPTIONS: CookieOptions = {
+  /** Never readable from JavaScript */
+  httpOnly: true,
+  /** Sent on top-level navigations, not on cross-site subrequests */
+  sameSite: 'lax',
+  /** HTTPS only outside local development */
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+/**
+ * Read Supabase URL and anon key, throwing if not configured
+ */
+export function getSupabasePublicEnv(): { url: string; anonKey: string } {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!url || !anonKey) {
+    throw new Error(
+      'Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY environment variable.'
+    );
+  }
+
+  return { url, anonKey };
+}
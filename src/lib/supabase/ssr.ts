@@ -0,0 +1,83 @@
+/**
+ * Supabase SSR Client - Per-request, user-scoped server instance
+ *
+ * Reads the signed-in user's session from HTTP-only cookies and issues
+ * queries as that user, so Row Level Security applies exactly as it does
+ * in the browser.
+ *
+ * @remarks
+ * **Session Flow:**
+ * - The browser signs in through `/api/auth/session`, which writes the
+ *   session into HTTP-only cookies and hands back only the access token
+ * - `middleware.ts` refreshes expired tokens on every `/admin` request
+ * - Server components and route handlers read the cookies via this client
+ *
+ * **When to Use:**
+ * - ✅ Server components that need to know who the user is
+ * - ✅ Route handlers acting on behalf of the signed-in user
+ * - ❌ Client components (use client.ts instead)
+ * - ❌ Operations that must bypass RLS (use server.ts instead)
+ *
+ * @example
+ * ```ts
+ * // Server component
+ * import { createSupabaseServerClient } from '@/lib/supabase/ssr';
+ *
+ * export default async function Page() {
+ *   const supabase = createSupabaseServerClient();
+ *   const { data: { user } } = await supabase.auth.getUser();
+ *   // ...
+ * }
+ * ```
+ *
+ * @see {@link https://supabase.com/docs/guides/auth/server-side/nextjs} Server-Side Auth for Next.js
+ */
+
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { SESSION_COOKIE_OPTIONS, getSupabasePublicEnv } from './session-cookies';
+
+/**
+ * Create a Supabase client bound to the current request's cookies
+ *
+ * @remarks
+ * Server components cannot set cookies; writes are ignored there and the
+ * middleware takes care of persisting refreshed tokens instead.
+ */
+export function createSupabaseServerClient(): SupabaseClient<Database> {
+  const { url, anonKey } = getSupabasePublicEnv();
+  const cookieStore = cookies();
+
+  return createServerClient<Database>(url, anonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => {
+            cookieStore.set(name, value, { ...options, ...SESSION_COOKIE_OPTIONS });
+          });
+        } catch {
+          // Called from a server component - cookies are read-only here
+        }
+      },
+    },
+  });
+}
+
+/**
+ * Get the verified user for the current request, or null if signed out
+ */
+export async function getServerUser(): Promise<User | null> {
+  const supabase = createSupabaseServerClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
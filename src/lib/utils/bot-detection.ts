@@ -0,0 +1,63 @@
+/**
+ * Bot Detection Utilities
+ *
+ * Lightweight user-agent checks used to keep crawlers, link previewers
+ * and headless clients out of analytics such as article view counts.
+ */
+
+/**
+ * Substrings found in the user agents of common crawlers and previewers
+ */
+const BOT_USER_AGENT_PATTERN = new RegExp(
+  [
+    'bot',
+    'crawl',
+    'spider',
+    'slurp',
+    'mediapartners',
+    'facebookexternalhit',
+    'whatsapp',
+    'telegram',
+    'discord',
+    'embedly',
+    'preview',
+    'headless',
+    'lighthouse',
+    'pagespeed',
+    'curl',
+    'wget',
+    'python-requests',
+    'axios',
+    'node-fetch',
+    'go-http-client',
+  ].join('|'),
+  'i'
+);
+
+/**
+ * Check whether a user agent string belongs to a known bot
+ *
+ * @param userAgent - Value of the User-Agent header (missing counts as a bot)
+ * @returns true if the request should not be counted as a human visit
+ *
+ * @example
+ * isBotUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)') // true
+ * isBotUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...') // false
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent) {
+    return true;
+  }
+  return BOT_USER_AGENT_PATTERN.test(userAgent);
+}
+
+/**
+ * Check whether a request is a bot or a speculative prefetch
+ */
+export function isBotRequest(headers: Headers): boolean {
+  const purpose = headers.get('purpose') ?? headers.get('sec-purpose');
+  if (purpose?.includes('prefetch')) {
+    return true;
+  }
+  return isBotUserAgent(headers.get('user-agent'));
+}
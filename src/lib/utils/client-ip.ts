@@ -0,0 +1,41 @@
+/**
+ * Client IP Utilities
+ *
+ * Identify the sender of a public submission for rate limiting
+ * without storing raw IP addresses. Server-only (uses the service key).
+ */
+
+import { createHmac } from 'crypto';
+import { NextRequest } from 'next/server';
+
+/**
+ * Client IP as seen by the trusted proxy
+ *
+ * @remarks
+ * Trusted setups:
+ * - Vercel: `request.ip` is filled in by the platform
+ * - Self-hosted (Docker): exactly one reverse proxy in front of Next.js
+ *   that appends the peer address to `X-Forwarded-For`
+ *
+ * Only the rightmost `X-Forwarded-For` entry is used; everything left of
+ * it comes from the client and can be forged to dodge rate limits.
+ * `X-Real-IP` is ignored for the same reason.
+ */
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) {
+    return request.ip;
+  }
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwarded || 'unknown';
+}
+
+/**
+ * Keyed hash of the sender's IP, so raw addresses are never stored
+ *
+ * @param scope - Feature the hash is used for (e.g. 'contact'), so hashes
+ * cannot be correlated across tables
+ */
+export function hashSender(scope: string, ip: string): string {
+  const secret = process.env.SUPABASE_SERVICE_ROLE_KEY ?? '';
+  return createHmac('sha256', secret).update(`${scope}:${ip}`).digest('hex');
+}
@@ -0,0 +1,74 @@
+/**
+ * Comment Spam Heuristics
+ *
+ * Cheap content checks run on every public comment. A flagged comment is
+ * still stored (status 'spam') so moderators can rescue false positives.
+ */
+
+/** More links than this in one comment is treated as spam */
+const MAX_LINKS = 2;
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+/gi;
+
+/**
+ * Words that show up in gambling, loan and SEO spam aimed at Indonesian sites
+ */
+const SPAM_KEYWORD_PATTERN = new RegExp(
+  [
+    'slot ?gacor',
+    'judi ?online',
+    'togel',
+    'casino',
+    'poker ?online',
+    'pinjol',
+    'pinjaman ?online',
+    'viagra',
+    'crypto ?signal',
+    'backlink',
+    'jasa ?seo',
+  ].join('|'),
+  'i'
+);
+
+interface CommentContent {
+  authorName: string;
+  body: string;
+}
+
+/**
+ * Check a comment for common spam signals
+ *
+ * @returns Reasons the comment looks like spam, empty when it looks fine
+ *
+ * @example
+ * detectCommentSpam({ authorName: 'Budi', body: 'Artikel yang bermanfaat!' }) // []
+ * detectCommentSpam({ authorName: 'Slot Gacor', body: 'Kunjungi www.example.com' }) // ['spam_keywords']
+ */
+export function detectCommentSpam({ authorName, body }: CommentContent): string[] {
+  const reasons: string[] = [];
+
+  if ((body.match(LINK_PATTERN) ?? []).length > MAX_LINKS) {
+    reasons.push('too_many_links');
+  }
+
+  if (SPAM_KEYWORD_PATTERN.test(body) || SPAM_KEYWORD_PATTERN.test(authorName)) {
+    reasons.push('spam_keywords');
+  }
+
+  // Names are people, not URLs
+  if (/https?:\/\/|www\.|\.(com|net|id|xyz)\b/i.test(authorName)) {
+    reasons.push('link_in_name');
+  }
+
+  // Long runs of one character ("!!!!!!!!!!", "aaaaaaaaaa")
+  if (/(.)\1{9,}/.test(body)) {
+    reasons.push('repeated_characters');
+  }
+
+  const letters = body.replace(/[^a-z]/gi, '');
+  if (letters.length >= 20 && letters === letters.toUpperCase()) {
+    reasons.push('all_caps');
+  }
+
+  return reasons;
+}
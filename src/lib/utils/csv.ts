@@ -0,0 +1,31 @@
+/**
+ * CSV Utilities
+ */
+
+/**
+ * Quote a value when it contains a delimiter, quote or line break.
+ * Leading formula characters are prefixed so spreadsheets show the text
+ * instead of evaluating it.
+ */
+export function escapeCsvValue(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document (header row first, CRLF line endings)
+ *
+ * @example
+ * toCsv(['email', 'status'], [{ email: 'a@b.c', status: 'subscribed' }])
+ * // 'email,status\r\na@b.c,subscribed\r\n'
+ */
+export function toCsv<T extends Record<string, unknown>>(columns: (keyof T & string)[], rows: T[]): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
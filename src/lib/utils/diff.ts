@@ -0,0 +1,132 @@
+/**
+ * Line Diff Utilities
+ *
+ * Minimal LCS-based line diff used by the revision history viewer.
+ * Produces unified operations and side-by-side rows.
+ */
+
+export type DiffOpType = 'equal' | 'removed' | 'added';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+export interface DiffCell {
+  /** 1-based line number in its own version */
+  lineNumber: number;
+  text: string;
+  type: DiffOpType;
+}
+
+export interface SideBySideRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+/** Above this many LCS cells, fall back to a whole-block replace */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two lists of lines
+ *
+ * @example
+ * diffLines(['a', 'b'], ['a', 'c'])
+ * // [{ type: 'equal', text: 'a' }, { type: 'removed', text: 'b' }, { type: 'added', text: 'c' }]
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  // Trim the common prefix/suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix: DiffOp[] = oldLines.slice(0, start).map((text) => ({ type: 'equal', text }));
+  const suffix: DiffOp[] = oldLines.slice(oldEnd).map((text) => ({ type: 'equal', text }));
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...a.map((text): DiffOp => ({ type: 'removed', text })),
+      ...b.map((text): DiffOp => ({ type: 'added', text })),
+      ...suffix,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: a[i++] });
+    } else {
+      middle.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    middle.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    middle.push({ type: 'added', text: b[j++] });
+  }
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+/**
+ * Arrange diff operations into side-by-side rows.
+ * Consecutive removed/added runs are paired up on the same rows.
+ */
+export function toSideBySide(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let leftLine = 0;
+  let rightLine = 0;
+  let removed: DiffCell[] = [];
+  let added: DiffCell[] = [];
+
+  const flush = (): void => {
+    const count = Math.max(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  ops.forEach((op) => {
+    if (op.type === 'removed') {
+      removed.push({ lineNumber: ++leftLine, text: op.text, type: 'removed' });
+    } else if (op.type === 'added') {
+      added.push({ lineNumber: ++rightLine, text: op.text, type: 'added' });
+    } else {
+      flush();
+      rows.push({
+        left: { lineNumber: ++leftLine, text: op.text, type: 'equal' },
+        right: { lineNumber: ++rightLine, text: op.text, type: 'equal' },
+      });
+    }
+  });
+  flush();
+
+  return rows;
+}
@@ -89,7 +89,7 @@ export function getErrorMessage(error: unknown, fallback = 'An unexpected error
  *
  * @param response - Fetch API response object
  * @param fallback - Fallback error message
- * @throws Error with extracted message from response
+ * @throws Error with extracted message from response (and its `code`, if any)
  *
  * @example
  * ```ts
@@ -101,15 +101,33 @@ export function getErrorMessage(error: unknown, fallback = 'An unexpected error
  */
 export async function handleApiError(response: Response, fallback = 'Request failed'): Promise<never> {
   let errorMessage = fallback;
+  let errorCode: string | undefined;
 
   try {
     const result = await response.json();
     errorMessage = result.error || result.message || fallback;
+    errorCode = typeof result.code === 'string' ? result.code : undefined;
   } catch {
     errorMessage = `${fallback} (${response.status} ${response.statusText})`;
   }
 
-  throw new Error(errorMessage);
+  throw Object.assign(new Error(errorMessage), { code: errorCode });
+}
+
+/**
+ * Error code attached to an error (e.g. the `code` of an API error
+ * response thrown by handleApiError), if any
+ *
+ * @example
+ * ```ts
+ * setSubmitError(formatError(m, getErrorCode(error)) ?? m.contact.failed);
+ * ```
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'code' in error && typeof error.code === 'string') {
+    return error.code;
+  }
+  return undefined;
 }
 
 /**
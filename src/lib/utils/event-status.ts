@@ -0,0 +1,54 @@
+/**
+ * Event Status Utilities
+ *
+ * Mirrors the database's event_status_at(): upcoming / ongoing / completed
+ * are derived from the event dates, only 'cancelled' is set by hand.
+ */
+
+import type { Event, EventStatus } from '@/lib/api/events';
+
+/**
+ * Resolve an event's status at a point in time
+ *
+ * @param status - Stored status ('cancelled' always wins)
+ * @param startDate - ISO start date
+ * @param endDate - ISO end date
+ * @param now - Reference time (defaults to the current time)
+ *
+ * @example
+ * resolveEventStatus('upcoming', '2026-01-01T08:00:00Z', '2026-01-01T12:00:00Z', new Date('2026-01-01T10:00:00Z')) // 'ongoing'
+ */
+export function resolveEventStatus(
+  status: EventStatus,
+  startDate: string,
+  endDate: string,
+  now: Date = new Date()
+): EventStatus {
+  if (status === 'cancelled') {
+    return 'cancelled';
+  }
+
+  const time = now.getTime();
+  if (time < new Date(startDate).getTime()) {
+    return 'upcoming';
+  }
+  if (time <= new Date(endDate).getTime()) {
+    return 'ongoing';
+  }
+  return 'completed';
+}
+
+/**
+ * Check whether native registration is still accepting sign-ups
+ * (event not started or cancelled, deadline not passed). A full event
+ * stays open: new sign-ups join the waitlist.
+ */
+export function isRegistrationOpen(
+  event: Pick<Event, 'status' | 'registrationDeadline'>,
+  now: Date = new Date()
+): boolean {
+  if (event.status !== 'upcoming') {
+    return false;
+  }
+  return !event.registrationDeadline || now.getTime() <= new Date(event.registrationDeadline).getTime();
+}
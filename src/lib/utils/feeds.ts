@@ -0,0 +1,162 @@
+/**
+ * Syndication Feed Builders
+ *
+ * Serializes a feed to RSS 2.0, Atom 1.0 or JSON Feed 1.1 from one
+ * shared shape, so every format carries the same items.
+ */
+
+import { escapeXml } from '@/lib/utils/xml';
+
+export interface FeedItem {
+  /** Stable identifier (the canonical URL works well) */
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  /** Full content as HTML */
+  contentHtml: string;
+  image?: string;
+  tags: string[];
+  authorName: string;
+  publishedAt: string;
+  updatedAt: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Site page the feed mirrors */
+  homePageUrl: string;
+  /** Self links, one per format */
+  feedUrls: Record<FeedFormat, string>;
+  language: string;
+  items: FeedItem[];
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Guess an image MIME type from the URL extension (defaults to JPEG)
+ */
+function getImageType(url: string): string {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_TYPES[extension] ?? 'image/jpeg';
+}
+
+/**
+ * Most recent item update, or now for an empty feed
+ */
+function getFeedUpdatedAt(feed: Feed): string {
+  const latest = Math.max(0, ...feed.items.map((item) => new Date(item.updatedAt).getTime()));
+  return new Date(latest || Date.now()).toISOString();
+}
+
+/**
+ * RSS 2.0 with content:encoded for the full HTML and dc:creator for the author
+ */
+export function buildRssFeed(feed: Feed): string {
+  const items = feed.items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(item.authorName)}</dc:creator>`,
+    `      <description>${escapeXml(item.summary)}</description>`,
+    `      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>`,
+    ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+    ...(item.image ? [`      <enclosure url="${escapeXml(item.image)}" length="0" type="${getImageType(item.image)}" />`] : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${feed.language}</language>`,
+    `    <lastBuildDate>${new Date(getFeedUpdatedAt(feed)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="${FEED_CONTENT_TYPES.rss}" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Atom 1.0; the cover image is linked as rel="enclosure"
+ */
+export function buildAtomFeed(feed: Feed): string {
+  const entries = feed.items.map((item) => [
+    '  <entry>',
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+    ...(item.image ? [`    <link rel="enclosure" type="${getImageType(item.image)}" href="${escapeXml(item.image)}" />`] : []),
+    `    <published>${new Date(item.publishedAt).toISOString()}</published>`,
+    `    <updated>${new Date(item.updatedAt).toISOString()}</updated>`,
+    `    <author><name>${escapeXml(item.authorName)}</name></author>`,
+    ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`),
+    `    <summary type="text">${escapeXml(item.summary)}</summary>`,
+    `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">`,
+    `  <id>${escapeXml(feed.feedUrls.atom)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="${FEED_CONTENT_TYPES.atom}" href="${escapeXml(feed.feedUrls.atom)}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}" />`,
+    `  <updated>${getFeedUpdatedAt(feed)}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+ */
+export function buildJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      image: item.image,
+      tags: item.tags,
+      authors: [{ name: item.authorName }],
+      date_published: new Date(item.publishedAt).toISOString(),
+      date_modified: new Date(item.updatedAt).toISOString(),
+      attachments: item.image ? [{ url: item.image, mime_type: getImageType(item.image) }] : undefined,
+    })),
+  }, null, 2);
+}
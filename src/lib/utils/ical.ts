@@ -0,0 +1,117 @@
+/**
+ * iCalendar (RFC 5545) Utilities
+ *
+ * Builds VCALENDAR documents for the event feeds and single-event
+ * downloads. UIDs are derived from the event id so subscribed calendars
+ * update the same entry; SEQUENCE comes from events.calendar_sequence.
+ */
+
+import type { Event } from '@/lib/api/events';
+import { SITE_CONFIG } from '@/config/site.config';
+
+const PRODUCT_ID = `-//${SITE_CONFIG.name}//Events//ID`;
+/** Content lines are folded at 75 octets */
+const MAX_LINE_OCTETS = 75;
+
+interface CalendarOptions {
+  /** Calendar name shown by subscribing clients */
+  name: string;
+  /** PUBLISH for feeds and downloads, CANCEL to retract a downloaded event */
+  method?: 'PUBLISH' | 'CANCEL';
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Format a date as UTC DATE-TIME (e.g. 20260101T080000Z)
+ */
+function formatDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line into 75-octet chunks without splitting characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Canonical public URL of an event
+ */
+export function getEventUrl(event: Pick<Event, 'slug'>): string {
+  return `${SITE_CONFIG.url}/events/${event.slug}`;
+}
+
+function buildEvent(event: Event): string[] {
+  const url = getEventUrl(event);
+  const location = [event.location.name, event.location.address].filter(Boolean).join(', ');
+  const description = [event.description, url].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${new URL(SITE_CONFIG.url).hostname}`,
+    `SEQUENCE:${event.calendarSequence}`,
+    `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+    `DTSTART:${formatDateTime(event.startDate)}`,
+    `DTEND:${formatDateTime(event.endDate)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    `URL:${url}`,
+    `STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build a VCALENDAR document
+ *
+ * @example
+ * buildCalendar(events, { name: 'Event Seminar' })
+ */
+export function buildCalendar(events: Event[], { name, method = 'PUBLISH' }: CalendarOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(buildEvent),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
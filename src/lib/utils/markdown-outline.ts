@@ -0,0 +1,127 @@
+/**
+ * Markdown Outline
+ *
+ * Heading anchors, table of contents and reading time for article
+ * markdown. The remark plugin and extractHeadings share one slugging
+ * pass, so table of contents links always match the rendered heading
+ * ids. Parses the same dialect as MarkdownContent (GFM and math) and
+ * stays free of the HTML pipeline so the renderer can use it in the
+ * browser.
+ */
+
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { generateSlug, makeUniqueSlug } from '@/lib/utils/slug';
+
+/**
+ * The parts of an mdast node used here
+ */
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  depth?: number;
+  children?: MarkdownNode[];
+  data?: { hProperties?: Record<string, unknown> };
+}
+
+export interface MarkdownHeading {
+  /** Anchor id, unique within the document */
+  id: string;
+  text: string;
+  /** 1 for `#`, 2 for `##`, ... */
+  depth: number;
+}
+
+export interface ReadingStats {
+  words: number;
+  /** Estimated reading time, at least one minute */
+  minutes: number;
+}
+
+/** Average silent reading speed, in words per minute */
+const WORDS_PER_MINUTE = 200;
+
+/** Inline nodes whose value is read as text */
+const TEXT_NODES = new Set(['text', 'inlineCode', 'inlineMath']);
+
+/** Nodes whose children are joined without a separator */
+const PHRASING_PARENTS = new Set(['paragraph', 'heading', 'emphasis', 'strong', 'delete', 'link', 'linkReference', 'tableCell']);
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath);
+
+function visit(node: MarkdownNode, callback: (node: MarkdownNode) => void): void {
+  callback(node);
+  node.children?.forEach((child) => visit(child, callback));
+}
+
+function toText(node: MarkdownNode): string {
+  if (TEXT_NODES.has(node.type)) {
+    return node.value ?? '';
+  }
+  if (node.type === 'break') {
+    return ' ';
+  }
+  return (node.children ?? []).map(toText).join(PHRASING_PARENTS.has(node.type) ? '' : ' ');
+}
+
+/**
+ * Give every heading a slugged id; repeated titles get -2, -3, ...
+ */
+function slugHeadings(tree: MarkdownNode): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const ids: string[] = [];
+
+  visit(tree, (node) => {
+    if (node.type !== 'heading') {
+      return;
+    }
+
+    const text = toText(node).replace(/\s+/g, ' ').trim();
+    const id = makeUniqueSlug(generateSlug(text) || 'section', ids);
+    ids.push(id);
+
+    node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id } };
+    headings.push({ id, text, depth: node.depth ?? 1 });
+  });
+
+  return headings;
+}
+
+/**
+ * remark plugin adding the anchor ids to rendered headings
+ */
+export function remarkHeadingIds() {
+  return (tree: MarkdownNode): void => {
+    slugHeadings(tree);
+  };
+}
+
+/**
+ * Headings for a table of contents (the page title is the h1, so only
+ * `##` down to maxDepth are listed)
+ *
+ * @example
+ * extractHeadings('## Latar Belakang\n## Latar Belakang')
+ * // [{ id: 'latar-belakang', ... }, { id: 'latar-belakang-2', ... }]
+ */
+export function extractHeadings(markdown: string, maxDepth: number = 3): MarkdownHeading[] {
+  return slugHeadings(parser.parse(markdown) as MarkdownNode).filter(
+    (heading) => heading.depth >= 2 && heading.depth <= maxDepth
+  );
+}
+
+/**
+ * Word count and estimated reading time of the readable text (code
+ * and math blocks are skipped)
+ */
+export function getReadingStats(markdown: string): ReadingStats {
+  const text = toText(parser.parse(markdown) as MarkdownNode);
+  const words = text.split(/\s+/).filter(Boolean).length;
+
+  return {
+    words,
+    minutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)),
+  };
+}
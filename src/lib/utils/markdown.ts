@@ -0,0 +1,30 @@
+/**
+ * Markdown Rendering (server-side)
+ *
+ * Renders article markdown to an HTML string for contexts without React
+ * (feeds). Uses the same GFM dialect as MarkdownContent; raw HTML in the
+ * source is dropped rather than passed through.
+ */
+
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype)
+  .use(rehypeStringify);
+
+/**
+ * Render markdown to HTML
+ *
+ * @example
+ * await renderMarkdownToHtml('**Halo**') // '<p><strong>Halo</strong></p>'
+ */
+export async function renderMarkdownToHtml(markdown: string): Promise<string> {
+  const file = await processor.process(markdown);
+  return String(file);
+}
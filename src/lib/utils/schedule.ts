@@ -0,0 +1,64 @@
+/**
+ * Scheduled Publishing Utilities
+ *
+ * Helpers for content with a future publish/announcement time.
+ * Used by the public API filters and the admin tables/forms.
+ */
+
+/**
+ * Check whether a publish time is still in the future
+ *
+ * @param publishAt - ISO timestamp (null/empty means "publish immediately")
+ * @param now - Reference time (defaults to the current time)
+ */
+export function isScheduled(publishAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!publishAt) {
+    return false;
+  }
+  return new Date(publishAt).getTime() > now.getTime();
+}
+
+/**
+ * Format the time remaining until a publish time
+ *
+ * @returns Compact countdown, e.g. '2d 4h', '3h 15m', '5m'; empty once the time has passed
+ *
+ * @example
+ * formatCountdown('2026-10-21T10:00:00Z', new Date('2026-10-19T06:00:00Z')) // '2d 4h'
+ */
+export function formatCountdown(publishAt: string, now: Date = new Date()): string {
+  const totalMinutes = Math.ceil((new Date(publishAt).getTime() - now.getTime()) / 60000);
+  if (totalMinutes <= 0) {
+    return '';
+  }
+
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Convert an ISO timestamp to a `datetime-local` input value (local time)
+ *
+ * @example
+ * toDateTimeLocalValue('2026-10-19T03:30:00Z') // '2026-10-19T10:30' in UTC+7
+ */
+export function toDateTimeLocalValue(iso: string | null | undefined): string {
+  if (!iso) {
+    return '';
+  }
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
@@ -0,0 +1,56 @@
+/**
+ * Sitemap XML Builders (sitemaps.org protocol)
+ *
+ * Small sites get a single <urlset>; past SITEMAP_PAGE_SIZE URLs the
+ * entries are split into pages listed by a <sitemapindex>. Localized
+ * URLs list their translations as xhtml:link hreflang alternates.
+ */
+
+import type { SitemapEntry } from '@/lib/api/sitemap';
+import { escapeXml } from '@/lib/utils/xml';
+
+/** URLs per sitemap file (the protocol allows up to 50,000) */
+export const SITEMAP_PAGE_SIZE = 5000;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+const SITEMAP_NS = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+function buildLocation(tag: 'url' | 'sitemap', { url, lastModified, alternates }: SitemapEntry): string {
+  const lastmod = lastModified ? `<lastmod>${new Date(lastModified).toISOString()}</lastmod>` : '';
+  const links = Object.entries(alternates ?? {})
+    .map(([hreflang, href]) => `<xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(href)}"/>`)
+    .join('');
+  return `  <${tag}><loc>${escapeXml(url)}</loc>${lastmod}${links}</${tag}>`;
+}
+
+/**
+ * Most recent lastModified among entries (undefined when none have one)
+ */
+export function getLatestModified(entries: SitemapEntry[]): string | undefined {
+  const times = entries.flatMap((entry) => (entry.lastModified ? [new Date(entry.lastModified).getTime()] : []));
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : undefined;
+}
+
+export function buildUrlSet(entries: SitemapEntry[]): string {
+  return [
+    XML_HEADER,
+    `<urlset xmlns="${SITEMAP_NS}" xmlns:xhtml="${XHTML_NS}">`,
+    ...entries.map((entry) => buildLocation('url', entry)),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * @param sitemaps - One entry per sitemap page, lastModified being its newest URL
+ */
+export function buildSitemapIndex(sitemaps: SitemapEntry[]): string {
+  return [
+    XML_HEADER,
+    `<sitemapindex xmlns="${SITEMAP_NS}">`,
+    ...sitemaps.map((sitemap) => buildLocation('sitemap', sitemap)),
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
@@ -54,6 +54,7 @@ export const articleSchema = z.object({
     )
     .optional(),
   featured: z.boolean().default(false),
+  comments_enabled: z.boolean().default(true),
   status: z.enum(['draft', 'pending', 'published', 'archived']).default('draft'),
 });
 
@@ -144,6 +145,24 @@ export type EventInput = z.infer<typeof eventSchema>;
 // MEMBER VALIDATION
 // =============================================
 
+/**
+ * HTTPS link on one of the given sites (or their subdomains).
+ * Rendered as a public href, so other schemes are rejected.
+ */
+function profileUrl(message: string, hosts: string[]) {
+  return z
+    .string()
+    .trim()
+    .refine((value) => {
+      try {
+        const { protocol, hostname } = new URL(value);
+        return protocol === 'https:' && hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+      } catch {
+        return false;
+      }
+    }, message);
+}
+
 export const memberSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters').max(200).trim(),
   nim: z
@@ -197,8 +216,14 @@ export const memberSchema = z.object({
     )
     .optional(),
   social_media_instagram: z.string().max(200).optional().or(z.literal('')),
-  social_media_linkedin: z.string().url('Invalid LinkedIn URL').optional().or(z.literal('')),
-  social_media_twitter: z.string().url('Invalid Twitter URL').optional().or(z.literal('')),
+  social_media_linkedin: profileUrl('LinkedIn must be an https://linkedin.com URL', ['linkedin.com'])
+    .optional()
+    .or(z.literal('')),
+  social_media_twitter: profileUrl('Twitter must be an https://x.com or https://twitter.com URL', ['x.com', 'twitter.com'])
+    .optional()
+    .or(z.literal('')),
+  show_contact: z.boolean().default(false),
+  show_social_media: z.boolean().default(false),
 });
 
 export type MemberInput = z.infer<typeof memberSchema>;
@@ -257,10 +282,38 @@ export const userSchema = z.object({
     errorMap: () => ({ message: 'Invalid role' }),
   }),
   avatar_url: z.string().url('Avatar must be a valid URL').optional().or(z.literal('')),
+  bio: z.string().max(1000, 'Bio must be at most 1000 characters').trim().optional(),
 });
 
 export type UserInput = z.infer<typeof userSchema>;
 
+// =============================================
+// INBOX VALIDATION (Admin)
+// =============================================
+
+export const inboxMessageUpdateSchema = z
+  .object({
+    status: z.enum(['new', 'read', 'handled'], {
+      errorMap: () => ({ message: 'Invalid status' }),
+    }).optional(),
+    assigned_to: z.string().uuid('Invalid assignee').nullable().optional(),
+  })
+  .refine((data) => data.status !== undefined || data.assigned_to !== undefined, {
+    message: 'Nothing to update',
+  });
+
+export type InboxMessageUpdateInput = z.infer<typeof inboxMessageUpdateSchema>;
+
+export const inboxReplySchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Reply must not be empty')
+    .max(5000, 'Reply must not exceed 5,000 characters'),
+});
+
+export type InboxReplyInput = z.infer<typeof inboxReplySchema>;
+
 // =============================================
 // HELPER FUNCTIONS
 // =============================================
@@ -294,3 +347,60 @@ export function formatValidationErrors(error: z.ZodError): Record<string, string
 
   return formatted;
 }
+
+// =============================================
+// COMMENT MODERATION (Admin)
+// =============================================
+
+export const commentModerationSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'spam'], {
+    errorMap: () => ({ message: 'Invalid status' }),
+  }),
+});
+
+export type CommentModerationInput = z.infer<typeof commentModerationSchema>;
+
+// =============================================
+// MEMBER PORTAL (Self-service)
+// =============================================
+
+export const memberClaimSchema = z.object({
+  email: z.string().email('Invalid email address').trim().toLowerCase(),
+});
+
+export const memberClaimConfirmSchema = z.object({
+  token: z.string().min(1, 'Missing claim token').max(500),
+});
+
+/**
+ * Everything a member can submit from the portal; the API applies the
+ * self-service fields and queues the reviewed ones for approval
+ */
+export const memberPortalSchema = memberSchema.pick({
+  name: true,
+  nim: true,
+  email: true,
+  batch: true,
+  division: true,
+  position: true,
+  phone: true,
+  photo: true,
+  bio: true,
+  interests: true,
+  achievements: true,
+  social_media_instagram: true,
+  social_media_linkedin: true,
+  social_media_twitter: true,
+  show_contact: true,
+  show_social_media: true,
+});
+
+export const memberChangeReviewSchema = z.object({
+  action: z.enum(['approve', 'reject'], {
+    errorMap: () => ({ message: 'Invalid review action' }),
+  }),
+  note: z.string().max(1000, 'Note must not exceed 1,000 characters').optional(),
+});
+
+export type MemberPortalInput = z.infer<typeof memberPortalSchema>;
+export type MemberChangeReviewInput = z.infer<typeof memberChangeReviewSchema>;
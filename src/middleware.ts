@@ -1,7 +1,77 @@
 import { NextResponse, type NextRequest } from 'next/server';
+import { updateSession } from '@/lib/supabase/middleware';
+import { AUTH_ROUTES, MEMBER_ROUTES } from '@/config/navigation.config';
+import { LOCALE_COOKIE } from '@/config/i18n.config';
+import { getPathLocale, isLocale, localizePath, negotiateLocale } from '@/lib/i18n/routing';
 
-// Middleware disabled: Supabase v2 uses localStorage for session storage, not cookies
-// Auth checks are handled by AdminLayout component instead
-export function middleware(_req: NextRequest): NextResponse {
-  return NextResponse.next();
+/** Remember the picked locale for a year */
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Refresh the cookie session and keep anonymous visitors out of /admin
+ * and the member portal. Role checks still happen in AdminLayout and the
+ * API guards.
+ */
+async function handleDashboard(request: NextRequest): Promise<NextResponse> {
+  const { response, user } = await updateSession(request);
+  const { pathname } = request.nextUrl;
+
+  if (!user && (pathname.startsWith('/admin') || pathname.startsWith(MEMBER_ROUTES.portal))) {
+    const loginUrl = request.nextUrl.clone();
+    loginUrl.pathname = AUTH_ROUTES.login;
+    loginUrl.search = '';
+    loginUrl.searchParams.set('redirectTo', `${pathname}${request.nextUrl.search}`);
+
+    const redirect = NextResponse.redirect(loginUrl);
+    // Keep any cookies cleared or rotated during the refresh attempt
+    response.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie));
+    return redirect;
+  }
+
+  return response;
+}
+
+/**
+ * Send public pages without a locale prefix to the visitor's locale
+ * (last picked, then Accept-Language), and remember the locale of
+ * prefixed visits so the language switcher sticks.
+ */
+function handleLocale(request: NextRequest): NextResponse {
+  const { pathname } = request.nextUrl;
+  const pathLocale = getPathLocale(pathname);
+
+  if (pathLocale) {
+    const response = NextResponse.next();
+    if (request.cookies.get(LOCALE_COOKIE)?.value !== pathLocale) {
+      response.cookies.set(LOCALE_COOKIE, pathLocale, {
+        path: '/',
+        maxAge: LOCALE_COOKIE_MAX_AGE,
+        sameSite: 'lax',
+      });
+    }
+    return response;
+  }
+
+  const cookieLocale = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(cookieLocale) ? cookieLocale : negotiateLocale(request.headers.get('accept-language'));
+
+  const url = request.nextUrl.clone();
+  url.pathname = localizePath(locale, pathname);
+  return NextResponse.redirect(url);
 }
+
+export async function middleware(request: NextRequest): Promise<NextResponse> {
+  const { pathname } = request.nextUrl;
+
+  if (pathname.startsWith('/admin') || pathname.startsWith('/auth') || pathname.startsWith(MEMBER_ROUTES.portal)) {
+    return handleDashboard(request);
+  }
+
+  return handleLocale(request);
+}
+
+export const config = {
+  // Everything but API routes, Next internals, sitemaps and files
+  // (feeds, calendars, robots.txt, images)
+  matcher: ['/((?!api|_next|sitemaps|.*\\..*).*)'],
+};
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { diffLines, toSideBySide, DiffCell } from '@/lib/utils/diff';
+
+interface RevisionDiffProps {
+  oldLines: string[];
+  newLines: string[];
+  oldLabel: string;
+  newLabel: string;
+}
+
+const CELL_COLORS: Record<DiffCell['type'], string> = {
+  equal: '',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-green-50 text-green-900',
+};
+
+function Cell({ cell }: { cell: DiffCell | null }) {
+  if (!cell) {
+    return <td colSpan={2} className="bg-gray-50" />;
+  }
+  return (
+    <>
+      <td className="w-10 px-2 text-right text-gray-400 select-none align-top">{cell.lineNumber}</td>
+      <td className={`px-2 whitespace-pre-wrap break-all align-top ${CELL_COLORS[cell.type]}`}>{cell.text}</td>
+    </>
+  );
+}
+
+/**
+ * Side-by-side line diff of two revisions
+ */
+export function RevisionDiff({ oldLines, newLines, oldLabel, newLabel }: RevisionDiffProps) {
+  const rows = useMemo(() => toSideBySide(diffLines(oldLines, newLines)), [oldLines, newLines]);
+  const changed = rows.some((row) => row.left?.type !== 'equal' || row.right?.type !== 'equal');
+
+  if (!changed) {
+    return <p className="text-sm text-gray-500">No differences from the current version.</p>;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-auto max-h-[60vh]">
+      <table className="w-full text-xs font-mono">
+        <thead className="sticky top-0 bg-gray-100 text-gray-700">
+          <tr>
+            <th colSpan={2} className="px-2 py-2 text-left font-medium w-1/2">{oldLabel}</th>
+            <th colSpan={2} className="px-2 py-2 text-left font-medium w-1/2 border-l border-gray-200">{newLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="border-t border-gray-100">
+              <Cell cell={row.left} />
+              <Cell cell={row.right} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { History, GitCompare, RotateCcw } from 'lucide-react';
+import { Modal } from '@/shared/components/ui/Modal';
+import { RevisionDiff } from '@/shared/components/RevisionDiff';
+import { getRevisions, restoreRevision, revisionToLines } from '@/lib/api/revisions';
+import { ContentRevision, RevisionEntityType } from '@/types/revision';
+
+interface RevisionHistoryPanelProps {
+  entityType: RevisionEntityType;
+  entityId: string;
+  /** Change to reload the history (e.g. after a save on the same page) */
+  refreshKey?: number;
+  /** Called after a successful restore so the page can reload its content */
+  onRestored: () => void;
+}
+
+function formatRevisionDate(date: string): string {
+  return format(new Date(date), 'd MMM yyyy, HH:mm', { locale: localeId });
+}
+
+export function RevisionHistoryPanel({ entityType, entityId, refreshKey, onRestored }: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [selected, setSelected] = useState<ContentRevision | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setRevisions(await getRevisions(entityType, entityId));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load revision history';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, refreshKey]);
+
+  const current = revisions[0] ?? null;
+  const revisionDates = useMemo(
+    () => new Map(revisions.map((revision) => [revision.id, revision.created_at])),
+    [revisions]
+  );
+
+  const selectedLines = useMemo(() => (selected ? revisionToLines(selected) : []), [selected]);
+  const currentLines = useMemo(() => (current ? revisionToLines(current) : []), [current]);
+
+  async function handleRestore() {
+    if (!selected) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      await restoreRevision(selected.id);
+      toast.success('Revision restored');
+      setSelected(null);
+      await fetchRevisions();
+      onRestored();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore revision';
+      toast.error(message);
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-gray-500" />
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Revision History</h2>
+          <p className="text-sm text-gray-600 mt-1">Every save is kept. Compare a revision with the current version or restore it.</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">No revisions yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="flex flex-wrap items-center justify-between gap-2 py-3">
+              <div className="text-sm">
+                <div className="flex items-center gap-2">
+                  <time className="font-medium text-gray-900">{formatRevisionDate(revision.created_at)}</time>
+                  {index === 0 && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">Current</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  by {revision.author?.full_name ?? revision.author?.email ?? 'Unknown'}
+                  {revision.restored_from && (
+                    <> · restored from {revisionDates.has(revision.restored_from)
+                      ? formatRevisionDate(revisionDates.get(revision.restored_from) as string)
+                      : 'an older revision'}</>
+                  )}
+                </p>
+              </div>
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSelected(revision)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={selected !== null}
+        onClose={() => setSelected(null)}
+        title="Compare Revision"
+        width="max-w-6xl"
+      >
+        {selected && current && (
+          <div className="space-y-4">
+            <RevisionDiff
+              oldLines={selectedLines}
+              newLines={currentLines}
+              oldLabel={`Revision · ${formatRevisionDate(selected.created_at)}`}
+              newLabel={`Current · ${formatRevisionDate(current.created_at)}`}
+            />
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setSelected(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                disabled={restoring}
+              >
+                Close
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={restoring}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4" />
+                {restoring ? 'Restoring...' : 'Restore This Version'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
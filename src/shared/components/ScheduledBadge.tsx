@@ -0,0 +1,34 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { STATUS_COLORS } from '@/lib/constants/admin';
+import { formatCountdown } from '@/lib/utils/schedule';
+
+interface ScheduledBadgeProps {
+  publishAt: string;
+}
+
+/**
+ * Badge with a live countdown to the publish time (refreshes every minute)
+ */
+export function ScheduledBadge({ publishAt }: ScheduledBadgeProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const countdown = formatCountdown(publishAt, now);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS.scheduled}`}
+      title={new Date(publishAt).toLocaleString('id-ID')}
+    >
+      <Clock className="w-3 h-3" />
+      {countdown ? `Scheduled · ${countdown}` : 'Going live'}
+    </span>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CreateableSelect } from '@/shared/components/ui/CreateableSelect';
+import { getTags } from '@/lib/api/tags';
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Tag input that autocompletes from the tag registry, so existing tags
+ * are reused instead of re-typed with a different spelling
+ */
+export function TagPicker({ value, onChange, placeholder = 'Type tag and press Enter' }: TagPickerProps) {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    getTags()
+      .then((tags) => setSuggestions(tags.map((tag) => tag.name)))
+      // Suggestions are optional; free typing still works
+      .catch((error) => console.error('Error loading tag suggestions:', error));
+  }, []);
+
+  return (
+    <CreateableSelect
+      value={value}
+      onChange={onChange}
+      placeholder={placeholder}
+      suggestions={suggestions}
+    />
+  );
+}
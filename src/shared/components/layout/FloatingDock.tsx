@@ -12,18 +12,23 @@ import { ROUTES } from '@/config/navigation.config';
 import { cn } from '@/shared/utils/cn';
 import { motion } from 'framer-motion';
 import { Home, Info, Users, Mic, Calendar, UserCircle } from 'lucide-react';
+import { localizePath, stripLocale, type Messages } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
 
-const NAV_ITEMS = [
-    { label: 'Home', href: ROUTES.home, icon: Home },
-    { label: 'About', href: ROUTES.about, icon: Info },
-    { label: 'Events', href: ROUTES.events, icon: Calendar },
-    { label: 'Articles', href: ROUTES.articles, icon: Mic },
-    { label: 'Leadership', href: ROUTES.leadership, icon: Users },
-    { label: 'Members', href: ROUTES.members, icon: UserCircle },
+const NAV_ITEMS: { label: keyof Messages['nav']; href: string; icon: typeof Home }[] = [
+    { label: 'home', href: ROUTES.home, icon: Home },
+    { label: 'about', href: ROUTES.about, icon: Info },
+    { label: 'events', href: ROUTES.events, icon: Calendar },
+    { label: 'articles', href: ROUTES.articles, icon: Mic },
+    { label: 'leadership', href: ROUTES.leadership, icon: Users },
+    { label: 'members', href: ROUTES.members, icon: UserCircle },
 ];
 
 export function FloatingDock() {
-    const pathname = usePathname();
+    const locale = useLocale();
+    const m = useMessages();
+    const pathname = stripLocale(usePathname());
 
     return (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[999] md:bottom-auto md:top-8">
@@ -47,7 +52,8 @@ export function FloatingDock() {
                         return (
                             <Link
                                 key={item.href}
-                                href={item.href}
+                                href={localizePath(locale, item.href)}
+                                aria-label={m.nav[item.label]}
                                 className="relative"
                             >
                                 <div
@@ -80,12 +86,14 @@ export function FloatingDock() {
                                         "md:top-full md:mt-2 md:-top-auto", // Position below on desktop
                                         "group-hover:opacity-100 hidden md:block" // Only show on desktop hover
                                     )}>
-                                        {item.label}
+                                        {m.nav[item.label]}
                                     </div>
                                 </div>
                             </Link>
                         );
                     })}
+
+                    <LanguageSwitcher className="ml-1 bg-white/40" />
                 </div>
             </div>
         </div>
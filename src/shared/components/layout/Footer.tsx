@@ -10,6 +10,9 @@ import { SITE_CONFIG } from '@/config/site.config';
 import { ROUTES } from '@/config/navigation.config';
 import { motion } from 'framer-motion';
 import { MapPin, Phone, Mail } from 'lucide-react';
+import { NewsletterSignup } from '@/features/newsletter/components/NewsletterSignup';
+import { localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 // Clean SVG Icons
 const FacebookIcon = () => (
@@ -31,6 +34,8 @@ const YoutubeIcon = () => (
 );
 
 export function Footer() {
+  const locale = useLocale();
+  const m = useMessages();
   const currentYear = new Date().getFullYear();
 
   const socialLinks = [
@@ -40,11 +45,12 @@ export function Footer() {
   ];
 
   const quickLinks = [
-    { label: 'Beranda', href: ROUTES.home },
-    { label: 'Tentang', href: ROUTES.about },
-    { label: 'Artikel', href: ROUTES.articles },
-    { label: 'Event', href: ROUTES.events },
-    { label: 'Kepengurusan', href: ROUTES.leadership },
+    { label: m.nav.home, href: ROUTES.home },
+    { label: m.nav.about, href: ROUTES.about },
+    { label: m.nav.articles, href: ROUTES.articles },
+    { label: m.nav.events, href: ROUTES.events },
+    { label: m.nav.leadership, href: ROUTES.leadership },
+    { label: m.nav.contact, href: ROUTES.contact },
   ];
 
   return (
@@ -60,7 +66,7 @@ export function Footer() {
           >
             <h2 className="text-3xl font-black tracking-tight mb-6">{SITE_CONFIG.name}</h2>
             <p className="text-gray-400 leading-relaxed mb-8 text-lg font-light">
-              Kami adalah wadah pengembangan mahasiswa farmasi yang berkomitmen mencetak profesional berintegritas dan berwawasan luas.
+              {m.footer.description}
             </p>
 
             <div className="flex gap-6">
@@ -78,6 +84,12 @@ export function Footer() {
                 );
               })}
             </div>
+
+            {/* Newsletter */}
+            <div className="mt-12">
+              <h3 className="text-sm font-bold uppercase tracking-widest text-gray-500 mb-4">{m.footer.newsletter}</h3>
+              <NewsletterSignup />
+            </div>
           </motion.div>
 
           {/* Quick Links */}
@@ -88,12 +100,12 @@ export function Footer() {
             transition={{ delay: 0.1 }}
             className="md:col-span-3"
           >
-            <h3 className="text-sm font-bold uppercase tracking-widest text-gray-500 mb-8">Menu</h3>
+            <h3 className="text-sm font-bold uppercase tracking-widest text-gray-500 mb-8">{m.footer.menu}</h3>
             <ul className="space-y-4">
               {quickLinks.map((link) => (
                 <li key={link.href}>
                   <Link
-                    href={link.href}
+                    href={localizePath(locale, link.href)}
                     className="flex items-center group text-gray-300 hover:text-white transition-colors"
                   >
                     <span className="w-0 group-hover:w-2 h-[1px] bg-white mr-0 group-hover:mr-2 transition-all duration-300" />
@@ -112,7 +124,7 @@ export function Footer() {
             transition={{ delay: 0.2 }}
             className="md:col-span-4"
           >
-            <h3 className="text-sm font-bold uppercase tracking-widest text-gray-500 mb-8">Hubungi Kami</h3>
+            <h3 className="text-sm font-bold uppercase tracking-widest text-gray-500 mb-8">{m.footer.contactUs}</h3>
             <ul className="space-y-6">
               <li className="flex items-start gap-4 text-gray-400">
                 <MapPin className="w-5 h-5 mt-1 shrink-0" />
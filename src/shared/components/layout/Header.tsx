@@ -7,15 +7,20 @@
 
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
-import { Menu, X, Leaf } from 'lucide-react';
+import { Menu, X, Leaf, Search } from 'lucide-react';
 import { SITE_CONFIG } from '@/config/site.config';
 import { ROUTES } from '@/config/navigation.config';
 import { Navigation } from './Navigation';
 import { MobileMenu } from './MobileMenu';
+import { LanguageSwitcher } from './LanguageSwitcher';
 import { cn } from '@/shared/utils/cn';
 import { motion, AnimatePresence } from 'framer-motion';
+import { localizePath } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
 export function Header() {
+  const locale = useLocale();
+  const m = useMessages();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
 
@@ -42,7 +47,7 @@ export function Header() {
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
           <Link
-            href={ROUTES.home}
+            href={localizePath(locale, ROUTES.home)}
             className="flex items-center space-x-3 group"
           >
             <motion.div
@@ -71,42 +76,55 @@ export function Header() {
             <Navigation />
           </div>
 
-          {/* Mobile Menu Button */}
-          <motion.button
-            whileTap={{ scale: 0.95 }}
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-            className={cn(
-              'md:hidden p-2.5 rounded-xl transition-all duration-200',
-              mobileMenuOpen
-                ? 'bg-primary-100 text-primary-700'
-                : 'hover:bg-gray-100 text-gray-700'
-            )}
-            aria-label="Toggle menu"
-          >
-            <AnimatePresence mode="wait">
-              {mobileMenuOpen ? (
-                <motion.div
-                  key="close"
-                  initial={{ rotate: -90, opacity: 0 }}
-                  animate={{ rotate: 0, opacity: 1 }}
-                  exit={{ rotate: 90, opacity: 0 }}
-                  transition={{ duration: 0.2 }}
-                >
-                  <X className="w-6 h-6" />
-                </motion.div>
-              ) : (
-                <motion.div
-                  key="menu"
-                  initial={{ rotate: 90, opacity: 0 }}
-                  animate={{ rotate: 0, opacity: 1 }}
-                  exit={{ rotate: -90, opacity: 0 }}
-                  transition={{ duration: 0.2 }}
-                >
-                  <Menu className="w-6 h-6" />
-                </motion.div>
+          <div className="flex items-center gap-1">
+            <LanguageSwitcher className="hidden md:inline-flex mr-2" />
+
+            {/* Search */}
+            <Link
+              href={localizePath(locale, '/search')}
+              className="p-2.5 rounded-xl hover:bg-gray-100 text-gray-700 transition-all duration-200"
+              aria-label={m.nav.search}
+            >
+              <Search className="w-6 h-6" />
+            </Link>
+
+            {/* Mobile Menu Button */}
+            <motion.button
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+              className={cn(
+                'md:hidden p-2.5 rounded-xl transition-all duration-200',
+                mobileMenuOpen
+                  ? 'bg-primary-100 text-primary-700'
+                  : 'hover:bg-gray-100 text-gray-700'
               )}
-            </AnimatePresence>
-          </motion.button>
+              aria-label={m.nav.toggleMenu}
+            >
+              <AnimatePresence mode="wait">
+                {mobileMenuOpen ? (
+                  <motion.div
+                    key="close"
+                    initial={{ rotate: -90, opacity: 0 }}
+                    animate={{ rotate: 0, opacity: 1 }}
+                    exit={{ rotate: 90, opacity: 0 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.div>
+                ) : (
+                  <motion.div
+                    key="menu"
+                    initial={{ rotate: 90, opacity: 0 }}
+                    animate={{ rotate: 0, opacity: 1 }}
+                    exit={{ rotate: -90, opacity: 0 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <Menu className="w-6 h-6" />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </motion.button>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,63 @@
+'use client';
+
+/**
+ * LanguageSwitcher Component
+ * Links to the current page in every supported locale
+ */
+
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { LOCALES, LOCALE_LABELS, localizePath, stripLocale } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+import { cn } from '@/shared/utils/cn';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+function LocaleLinks({ search, className }: LanguageSwitcherProps & { search: string }) {
+  const locale = useLocale();
+  const m = useMessages();
+  const path = stripLocale(usePathname());
+
+  return (
+    <div
+      role="group"
+      aria-label={m.languageSwitcher.label}
+      className={cn('inline-flex items-center gap-1 p-1 rounded-full bg-gray-100', className)}
+    >
+      {LOCALES.map((option) => (
+        <Link
+          key={option}
+          href={`${localizePath(option, path)}${search}`}
+          hrefLang={option}
+          lang={option}
+          title={LOCALE_LABELS[option]}
+          aria-current={option === locale ? 'true' : undefined}
+          className={cn(
+            'px-3 py-1 rounded-full text-xs font-bold uppercase transition-colors',
+            option === locale ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+          )}
+        >
+          {option}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function LocaleLinksWithSearch(props: LanguageSwitcherProps) {
+  const query = useSearchParams().toString();
+  return <LocaleLinks {...props} search={query ? `?${query}` : ''} />;
+}
+
+export function LanguageSwitcher(props: LanguageSwitcherProps) {
+  // Reading the query string opts out of static rendering up to the
+  // nearest Suspense boundary, so prerendered pages link without it
+  return (
+    <Suspense fallback={<LocaleLinks {...props} search="" />}>
+      <LocaleLinksWithSearch {...props} />
+    </Suspense>
+  );
+}
@@ -13,22 +13,27 @@ import { cn } from '@/shared/utils/cn';
 import { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Home, Info, FileText, Calendar, Users, UserCircle, X } from 'lucide-react';
+import { localizePath, stripLocale, type Messages } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
 
 interface MobileMenuProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const navItems = [
-  { label: 'Beranda', href: ROUTES.home, icon: Home },
-  { label: 'Tentang', href: ROUTES.about, icon: Info },
-  { label: 'Artikel', href: ROUTES.articles, icon: FileText },
-  { label: 'Event', href: ROUTES.events, icon: Calendar },
-  { label: 'Kepengurusan', href: ROUTES.leadership, icon: Users },
-  { label: 'Anggota', href: ROUTES.members, icon: UserCircle },
+const navItems: { label: keyof Messages['nav']; href: string; icon: typeof Home }[] = [
+  { label: 'home', href: ROUTES.home, icon: Home },
+  { label: 'about', href: ROUTES.about, icon: Info },
+  { label: 'articles', href: ROUTES.articles, icon: FileText },
+  { label: 'events', href: ROUTES.events, icon: Calendar },
+  { label: 'leadership', href: ROUTES.leadership, icon: Users },
+  { label: 'members', href: ROUTES.members, icon: UserCircle },
 ];
 
 export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
+  const locale = useLocale();
+  const m = useMessages();
   const pathname = usePathname();
 
   // Close menu on route change
@@ -80,7 +85,7 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
               <button
                 onClick={onClose}
                 className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
-                aria-label="Close menu"
+                aria-label={m.nav.closeMenu}
               >
                 <X className="w-5 h-5 text-gray-600" />
               </button>
@@ -89,7 +94,7 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
             {/* Navigation */}
             <nav className="flex flex-col p-4 space-y-1 overflow-y-auto max-h-[calc(100vh-88px)]">
               {navItems.map((item, index) => {
-                const isActive = pathname === item.href;
+                const isActive = stripLocale(pathname) === item.href;
                 const Icon = item.icon;
 
                 return (
@@ -100,7 +105,7 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
                     transition={{ delay: index * 0.05 }}
                   >
                     <Link
-                      href={item.href}
+                      href={localizePath(locale, item.href)}
                       className={cn(
                         'flex items-center gap-3 px-4 py-3.5 rounded-xl text-base font-medium transition-all',
                         isActive
@@ -109,7 +114,7 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
                       )}
                     >
                       <Icon className={cn('w-5 h-5', isActive ? 'text-primary-600' : 'text-gray-400')} />
-                      <span>{item.label}</span>
+                      <span>{m.nav[item.label]}</span>
                       {isActive && (
                         <motion.div
                           layoutId="activeMobile"
@@ -122,6 +127,10 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
               })}
             </nav>
 
+            <div className="px-8 pt-2">
+              <LanguageSwitcher />
+            </div>
+
             {/* Footer Info */}
             <div className="absolute bottom-0 left-0 right-0 p-6 border-t border-gray-100 bg-gray-50">
               <p className="text-xs text-gray-500 text-center leading-relaxed">
@@ -10,18 +10,22 @@ import { usePathname } from 'next/navigation';
 import { ROUTES } from '@/config/navigation.config';
 import { cn } from '@/shared/utils/cn';
 import { motion } from 'framer-motion';
+import { localizePath, stripLocale, type Messages } from '@/lib/i18n';
+import { useLocale, useMessages } from '@/lib/i18n/LocaleProvider';
 
-const navItems = [
-  { label: 'Beranda', href: ROUTES.home },
-  { label: 'Tentang', href: ROUTES.about },
-  { label: 'Artikel', href: ROUTES.articles },
-  { label: 'Event', href: ROUTES.events },
-  { label: 'Kepengurusan', href: ROUTES.leadership },
-  { label: 'Anggota', href: ROUTES.members },
+const navItems: { label: keyof Messages['nav']; href: string }[] = [
+  { label: 'home', href: ROUTES.home },
+  { label: 'about', href: ROUTES.about },
+  { label: 'articles', href: ROUTES.articles },
+  { label: 'events', href: ROUTES.events },
+  { label: 'leadership', href: ROUTES.leadership },
+  { label: 'members', href: ROUTES.members },
 ];
 
 export function Navigation() {
-  const pathname = usePathname();
+  const locale = useLocale();
+  const m = useMessages();
+  const pathname = stripLocale(usePathname());
 
   return (
     <nav className="flex items-center gap-2">
@@ -31,7 +35,7 @@ export function Navigation() {
         return (
           <Link
             key={item.href}
-            href={item.href}
+            href={localizePath(locale, item.href)}
             className="relative px-4 py-2 group"
           >
             <span
@@ -42,7 +46,7 @@ export function Navigation() {
                   : 'text-gray-700 group-hover:text-primary-600'
               )}
             >
-              {item.label}
+              {m.nav[item.label]}
             </span>
 
             {/* Active indicator */}
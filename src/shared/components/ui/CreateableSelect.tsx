@@ -8,28 +8,51 @@ interface CreateableSelectProps {
     onChange: (value: string[]) => void;
     placeholder?: string;
     className?: string;
+    /** Existing options offered while typing; a case-insensitive match uses their spelling */
+    suggestions?: string[];
 }
 
+const MAX_SUGGESTIONS = 8;
+
 export function CreateableSelect({
     value = [],
     onChange,
     placeholder = 'Type and press Enter...',
     className = '',
+    suggestions = [],
 }: CreateableSelectProps) {
     const [inputValue, setInputValue] = useState('');
+    const [activeIndex, setActiveIndex] = useState(-1);
     const inputRef = useRef<HTMLInputElement>(null);
 
+    const query = inputValue.trim().toLowerCase();
+    const matches = query
+        ? suggestions
+            .filter((option) => option.toLowerCase().includes(query) && !value.includes(option))
+            .slice(0, MAX_SUGGESTIONS)
+        : [];
+
     const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+        if (e.key === 'ArrowDown' && matches.length > 0) {
+            e.preventDefault();
+            setActiveIndex((activeIndex + 1) % matches.length);
+        } else if (e.key === 'ArrowUp' && matches.length > 0) {
+            e.preventDefault();
+            setActiveIndex(activeIndex <= 0 ? matches.length - 1 : activeIndex - 1);
+        } else if (e.key === 'Escape') {
+            setActiveIndex(-1);
+        } else if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
             e.preventDefault();
-            addTag();
+            addTag(e.key === 'Enter' ? matches[activeIndex] : undefined);
         } else if (e.key === 'Backspace' && !inputValue && value.length > 0) {
             removeTag(value.length - 1);
         }
     };
 
-    const addTag = () => {
-        const tag = inputValue.trim();
+    const addTag = (selected?: string) => {
+        const typed = inputValue.trim();
+        const existing = suggestions.find((option) => option.toLowerCase() === typed.toLowerCase());
+        const tag = selected ?? existing ?? typed;
         if (tag && !value.includes(tag)) {
             onChange([...value, tag]);
             setInputValue('');
@@ -37,6 +60,7 @@ export function CreateableSelect({
             // Just plain space or clear
             setInputValue('');
         }
+        setActiveIndex(-1);
     };
 
     const removeTag = (index: number) => {
@@ -47,39 +71,71 @@ export function CreateableSelect({
 
     return (
         <div className="space-y-1.5">
-            <div
-                className={`flex flex-wrap items-center gap-2 p-2 bg-white border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-green-500 focus-within:border-transparent ${className}`}
-                onClick={() => inputRef.current?.focus()}
-            >
-                {value.map((tag, index) => (
-                    <span
-                        key={tag}
-                        className="inline-flex items-center gap-1 px-2 py-1 text-sm bg-green-100 text-green-800 rounded-md animate-in fade-in zoom-in duration-200"
-                    >
-                        {tag}
-                        <button
-                            type="button"
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                removeTag(index);
-                            }}
-                            className="text-green-600 hover:text-green-800 focus:outline-none"
+            <div className="relative">
+                <div
+                    className={`flex flex-wrap items-center gap-2 p-2 bg-white border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-green-500 focus-within:border-transparent ${className}`}
+                    onClick={() => inputRef.current?.focus()}
+                >
+                    {value.map((tag, index) => (
+                        <span
+                            key={tag}
+                            className="inline-flex items-center gap-1 px-2 py-1 text-sm bg-green-100 text-green-800 rounded-md animate-in fade-in zoom-in duration-200"
                         >
-                            <X className="w-3 h-3" />
-                        </button>
-                    </span>
-                ))}
+                            {tag}
+                            <button
+                                type="button"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    removeTag(index);
+                                }}
+                                className="text-green-600 hover:text-green-800 focus:outline-none"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        value={inputValue}
+                        onChange={(e) => {
+                            setInputValue(e.target.value);
+                            setActiveIndex(-1);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        onBlur={() => addTag()}
+                        className="flex-1 min-w-[120px] bg-transparent border-none outline-none text-sm placeholder-gray-400 focus:ring-0 p-1"
+                        placeholder={value.length === 0 ? placeholder : ''}
+                        role="combobox"
+                        aria-expanded={matches.length > 0}
+                        aria-autocomplete="list"
+                    />
+                </div>
 
-                <input
-                    ref={inputRef}
-                    type="text"
-                    value={inputValue}
-                    onChange={(e) => setInputValue(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    onBlur={addTag}
-                    className="flex-1 min-w-[120px] bg-transparent border-none outline-none text-sm placeholder-gray-400 focus:ring-0 p-1"
-                    placeholder={value.length === 0 ? placeholder : ''}
-                />
+                {matches.length > 0 && (
+                    <ul
+                        role="listbox"
+                        className="absolute z-10 left-0 right-0 mt-1 py-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-auto"
+                    >
+                        {matches.map((option, index) => (
+                            <li
+                                key={option}
+                                role="option"
+                                aria-selected={index === activeIndex}
+                                // mousedown keeps focus in the input, so onBlur does not add the typed text first
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    addTag(option);
+                                }}
+                                onMouseEnter={() => setActiveIndex(index)}
+                                className={`px-3 py-1.5 text-sm cursor-pointer ${index === activeIndex ? 'bg-green-50 text-green-800' : 'text-gray-700'}`}
+                            >
+                                {option}
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </div>
             <div className="flex items-center gap-1.5 text-xs text-gray-500 px-1">
                 <Info className="w-3.5 h-3.5" />
@@ -3,7 +3,10 @@
  * Used when data fetching or operations fail
  */
 
+'use client';
+
 import { AlertCircle, RefreshCw } from 'lucide-react';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 interface ErrorStateProps {
   title?: string;
@@ -14,12 +17,14 @@ interface ErrorStateProps {
 }
 
 export function ErrorState({
-  title = 'Something went wrong',
-  message = 'An error occurred while loading this content.',
+  title,
+  message,
   error,
   onRetry,
   showDetails = false,
 }: ErrorStateProps) {
+  const m = useMessages();
+
   return (
     <div className="flex flex-col items-center justify-center min-h-[400px] px-4">
       <div className="text-center max-w-md">
@@ -28,17 +33,17 @@ export function ErrorState({
         </div>
         
         <h2 className="text-2xl font-bold text-gray-900 mb-2">
-          {title}
+          {title ?? m.common.errorTitle}
         </h2>
         
         <p className="text-gray-600 mb-6">
-          {error?.message || message}
+          {error?.message || message || m.common.errorMessage}
         </p>
 
         {showDetails && error && (
           <details className="text-left mb-6 p-4 bg-gray-50 rounded-lg">
             <summary className="cursor-pointer text-sm font-medium text-gray-700 mb-2">
-              Error Details
+              {m.common.errorDetails}
             </summary>
             <pre className="text-xs text-gray-600 overflow-auto">
               {error.stack || error.message}
@@ -52,7 +57,7 @@ export function ErrorState({
             className="inline-flex items-center gap-2 px-6 py-3 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded-lg transition-colors"
           >
             <RefreshCw className="w-4 h-4" />
-            Try Again
+            {m.common.tryAgain}
           </button>
         )}
       </div>
@@ -6,6 +6,7 @@
  * - Math equations support (KaTeX)
  * - Footnotes
  * - Safe HTML sanitization
+ * - Slugged heading ids with hover anchor links (see extractHeadings)
  *
  * Usage:
  * <MarkdownContent content={markdownString} />
@@ -13,11 +14,13 @@
 
 'use client';
 
-import ReactMarkdown from 'react-markdown';
+import type { ComponentPropsWithoutRef, ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import rehypeHighlight from 'rehype-highlight';
+import { remarkHeadingIds } from '@/lib/utils/markdown-outline';
 import { cn } from '@/shared/utils/cn';
 
 // Import KaTeX CSS (for math rendering)
@@ -42,6 +45,43 @@ export interface MarkdownContentProps {
   compact?: boolean;
 }
 
+type HeadingTag = 'h2' | 'h3' | 'h4';
+
+function createAnchoredHeading(Tag: HeadingTag) {
+  function AnchoredHeading({
+    id,
+    children,
+    className,
+    // react-markdown passes the hast node along; keep it off the DOM
+    node: _node,
+    ...props
+  }: ComponentPropsWithoutRef<HeadingTag> & { node?: unknown; children?: ReactNode }) {
+    return (
+      <Tag id={id} className={cn('group', className)} {...props}>
+        {children}
+        {id && (
+          <a
+            href={`#${id}`}
+            aria-hidden="true"
+            tabIndex={-1}
+            className="ml-2 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-primary-600 transition-opacity"
+          >
+            #
+          </a>
+        )}
+      </Tag>
+    );
+  }
+
+  return AnchoredHeading;
+}
+
+const HEADING_COMPONENTS: Components = {
+  h2: createAnchoredHeading('h2'),
+  h3: createAnchoredHeading('h3'),
+  h4: createAnchoredHeading('h4'),
+};
+
 export function MarkdownContent({
   content,
   className,
@@ -53,7 +93,7 @@ export function MarkdownContent({
         'prose max-w-none',
         compact ? 'prose-sm' : 'prose-lg',
         // Custom prose styling
-        'prose-headings:font-bold prose-headings:text-gray-900',
+        'prose-headings:font-bold prose-headings:text-gray-900 prose-headings:scroll-mt-24',
         'prose-p:text-gray-700 prose-p:leading-relaxed',
         'prose-a:text-primary-600 prose-a:no-underline hover:prose-a:underline',
         'prose-strong:text-gray-900 prose-strong:font-bold',
@@ -71,11 +111,13 @@ export function MarkdownContent({
         remarkPlugins={[
           remarkGfm, // GitHub Flavored Markdown (tables, strikethrough, task lists)
           remarkMath, // Math equations
+          remarkHeadingIds, // Anchor ids matching the table of contents
         ]}
         rehypePlugins={[
           rehypeKatex, // Render math with KaTeX
           rehypeHighlight, // Syntax highlighting for code blocks
         ]}
+        components={HEADING_COMPONENTS}
       >
         {content}
       </ReactMarkdown>
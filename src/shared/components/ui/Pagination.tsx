@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useMessages } from '@/lib/i18n/LocaleProvider';
 
 interface PaginationProps {
     currentPage: number;
@@ -17,6 +18,8 @@ export function Pagination({
     basePath,
     searchParams = {},
 }: PaginationProps) {
+    const m = useMessages();
+
     if (totalPages <= 1) return null;
 
     const buildUrl = (page: number) => {
@@ -76,7 +79,7 @@ export function Pagination({
     };
 
     return (
-        <nav className="flex items-center justify-center gap-1 py-8" aria-label="Pagination">
+        <nav className="flex items-center justify-center gap-1 py-8" aria-label={m.common.pagination}>
             {/* Previous Button */}
             <Link
                 href={buildUrl(currentPage - 1)}
@@ -89,7 +92,7 @@ export function Pagination({
                 aria-disabled={currentPage === 1}
             >
                 <ChevronLeft className="w-4 h-4" />
-                Prev
+                {m.common.previous}
             </Link>
 
             {/* Page Numbers */}
@@ -128,7 +131,7 @@ export function Pagination({
                 )}
                 aria-disabled={currentPage === totalPages}
             >
-                Next
+                {m.common.next}
                 <ChevronRight className="w-4 h-4" />
             </Link>
         </nav>
@@ -4,7 +4,7 @@
  *
  * Usage:
  * <SegmentedControl
- *   basePath="/events"
+ *   basePath={localizePath(locale, '/events')}
  *   paramName="status"
  *   currentValue={status}
  *   allLabel="Semua Event"
@@ -27,7 +27,7 @@ export interface SegmentedControlOption {
 
 export interface SegmentedControlProps {
   /**
-   * Base path for the links (e.g., '/events', '/articles')
+   * Base path for the links, locale prefix included (e.g., '/id/events')
    */
   basePath: string;
 
@@ -41,6 +41,11 @@ export interface SegmentedControlProps {
    */
   currentValue?: string;
 
+  /**
+   * Other query parameters to keep in the links (e.g., the search query)
+   */
+  searchParams?: Record<string, string | undefined>;
+
   /**
    * Label for "all items" option
    */
@@ -67,6 +72,7 @@ export function SegmentedControl({
   basePath,
   paramName,
   currentValue,
+  searchParams = {},
   allLabel,
   options,
   className,
@@ -78,8 +84,14 @@ export function SegmentedControl({
   };
 
   const getHref = (value?: string) => {
-    if (!value) return basePath;
-    return `${basePath}?${paramName}=${value}`;
+    const params = new URLSearchParams();
+    Object.entries(searchParams).forEach(([key, paramValue]) => {
+      if (paramValue && key !== paramName) params.set(key, paramValue);
+    });
+    if (value) params.set(paramName, value);
+
+    const queryString = params.toString();
+    return queryString ? `${basePath}?${queryString}` : basePath;
   };
 
   const pillClasses = (active: boolean) =>
@@ -146,6 +146,8 @@ interface UseAdminFormResult<T> {
    * @example updateField('title', 'New Title')
    */
   updateField: (field: keyof T, value: T[keyof T]) => void;
+  /** Reload the record from the database (edit mode only) */
+  refetch: () => Promise<void>;
 }
 
 /**
@@ -308,5 +310,6 @@ export function useAdminForm<T extends object>({
     authorId,
     handleSubmit,
     updateField,
+    refetch: fetchData,
   };
 }
@@ -38,6 +38,8 @@ interface UseAdminTableOptions {
   authorColumn?: string;
   /** Search columns for OR search (e.g., ['title', 'author->>name']) */
   searchColumns?: string[];
+  /** Filters applied on first load (e.g., { status: 'pending' }) */
+  initialFilters?: Record<string, string>;
   /** Custom filter function - query type will be inferred */
   customFilter?: <Q extends QueryBuilder>(query: Q, filters: Record<string, string>) => Q;
 }
@@ -76,6 +78,7 @@ export function useAdminTable<T extends { id: string }>(
     filterByAuthor = false,
     authorColumn = 'author_id',
     searchColumns = [],
+    initialFilters,
     customFilter,
   } = options;
 
@@ -85,7 +88,7 @@ export function useAdminTable<T extends { id: string }>(
   const [items, setItems] = useState<T[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<Record<string, string>>(initialFilters ?? {});
   const [currentPage, setCurrentPage] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
 
@@ -142,7 +145,7 @@ export function useAdminTable<T extends { id: string }>(
       setTotalCount(count || 0);
     } catch (error) {
       console.error(`Error fetching ${tableName}:`, error);
-      toast.error(`Gagal memuat data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(`Failed to load data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
     }
@@ -187,7 +190,7 @@ export function useAdminTable<T extends { id: string }>(
 
       if (error) throw error;
 
-      toast.success('Data berhasil dihapus');
+      toast.success('Deleted successfully');
 
       // If last item on page, go to previous page
       if (items.length === 1 && currentPage > 1) {
@@ -197,7 +200,7 @@ export function useAdminTable<T extends { id: string }>(
       }
     } catch (error) {
       console.error(`Error deleting ${tableName}:`, error);
-      toast.error(`Gagal menghapus data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(`Failed to delete: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -4,6 +4,18 @@
  */
 
 import { User } from './user';
+import { ContentTranslations } from '@/lib/i18n/content';
+
+/**
+ * Article fields that can be translated per locale
+ */
+export type ArticleTranslatableFields = {
+  title: string;
+  excerpt: string;
+  content: string;
+};
+
+export type ArticleTranslations = ContentTranslations<ArticleTranslatableFields>;
 
 export interface Article {
   id: string;
@@ -17,6 +29,8 @@ export interface Article {
   tags: string[] | null;
   status: 'draft' | 'pending' | 'published' | 'archived';
   featured?: boolean;
+  views?: number;
+  translations?: ArticleTranslations;
   published_at: string | null;
   created_at: string;
   updated_at: string;
@@ -25,3 +39,20 @@ export interface Article {
 }
 
 export type ArticleUpdateData = Partial<Omit<Article, 'id' | 'created_at' | 'author'>>;
+
+/**
+ * Editorial review history
+ * One row per transition in the draft → pending → published workflow
+ */
+export type ArticleReviewAction = 'submitted' | 'approved' | 'changes_requested';
+
+export interface ArticleReview {
+  id: string;
+  article_id: string;
+  reviewer_id: string | null;
+  action: ArticleReviewAction;
+  comment: string | null;
+  created_at: string;
+  // Relations
+  reviewer?: Pick<User, 'id' | 'full_name' | 'email'> | null;
+}
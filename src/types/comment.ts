@@ -0,0 +1,39 @@
+/**
+ * Article comment types
+ * Used on article pages and in the admin moderation queue
+ */
+
+import { CommentStatus } from '@/lib/constants/admin';
+
+export interface ArticleComment {
+  id: string;
+  article_id: string;
+  /** Comment this one replies to, null for top-level comments */
+  parent_id: string | null;
+  /** Signed-in author, null for guests */
+  author_id: string | null;
+  author_name: string;
+  author_email: string;
+  body: string;
+  status: CommentStatus;
+  /** Heuristics that flagged the comment as spam */
+  spam_reasons: string[];
+  moderated_at: string | null;
+  moderated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Approved comment as shown on the article page, with its approved replies
+ */
+export interface PublicComment {
+  id: string;
+  parent_id: string | null;
+  author_name: string;
+  /** Posted by a signed-in user rather than a guest */
+  is_member: boolean;
+  body: string;
+  created_at: string;
+  replies: PublicComment[];
+}
@@ -0,0 +1,44 @@
+/**
+ * Contact message types
+ * Used in the admin inbox
+ */
+
+import { ContactMessageStatus } from '@/lib/constants/admin';
+
+export interface ContactMessage {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  subject: string;
+  message: string;
+  status: ContactMessageStatus;
+  /** Admin responsible for answering */
+  assigned_to: string | null;
+  handled_at: string | null;
+  handled_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Logged reply (the email itself is sent from the admin's mailbox)
+ */
+export interface ContactMessageReply {
+  id: string;
+  message_id: string;
+  author_id: string | null;
+  /** Author's display name, resolved by the API */
+  author_name: string | null;
+  body: string;
+  created_at: string;
+}
+
+/**
+ * Admin a message can be assigned to
+ */
+export interface InboxAssignee {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
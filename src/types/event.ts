@@ -3,6 +3,19 @@
  * Used in admin panel and public pages
  */
 
+import { ContentTranslations } from '@/lib/i18n/content';
+
+/**
+ * Event fields that can be translated per locale
+ */
+export type EventTranslatableFields = {
+  title: string;
+  description: string;
+  content: string;
+};
+
+export type EventTranslations = ContentTranslations<EventTranslatableFields>;
+
 /**
  * Event location structure stored as JSONB
  */
@@ -46,6 +59,11 @@ export interface Event {
   status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
   tags: string[] | null;
   featured?: boolean;
+  translations?: EventTranslations;
+  /** Announcement time; null means visible immediately */
+  published_at: string | null;
+  /** iCalendar SEQUENCE, bumped by the database on reschedule or cancellation */
+  calendar_sequence: number;
   views: number;
   created_at: string;
   updated_at: string;
@@ -53,6 +71,36 @@ export interface Event {
 
 /**
  * Event update data type
- * Omits id, creator_id, current_participants, views, created_at, updated_at which are managed by the database
+ * Omits id, creator_id, current_participants, calendar_sequence, views, created_at, updated_at which are managed by the database
+ */
+export type EventUpdateData = Omit<Event, 'id' | 'creator_id' | 'current_participants' | 'calendar_sequence' | 'views' | 'created_at' | 'updated_at'>;
+
+/**
+ * Native event registration
+ * Seats are 'registered' up to max_participants, then 'waitlisted'
+ */
+export type EventRegistrationStatus = 'registered' | 'waitlisted' | 'cancelled';
+
+export interface EventRegistration {
+  id: string;
+  event_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  notes: string | null;
+  status: EventRegistrationStatus;
+  promoted_at: string | null;
+  cancelled_at: string | null;
+  checked_in_at: string | null;
+  checked_in_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Attendance counts for the check-in screen
  */
-export type EventUpdateData = Omit<Event, 'id' | 'creator_id' | 'current_participants' | 'views' | 'created_at' | 'updated_at'>;
+export interface EventCheckInStats {
+  checkedIn: number;
+  registered: number;
+  maxParticipants: number | null;
+}
@@ -8,7 +8,11 @@ import type {
   MemberStatus,
   ArticleStatus,
   EventStatus,
+  GalleryStatus,
 } from '@/lib/constants/admin';
+import type { GalleryCategory } from './gallery';
+import type { ArticleTranslations } from './article';
+import type { EventTranslations } from './event';
 
 // User Forms
 export interface UserFormData {
@@ -16,6 +20,7 @@ export interface UserFormData {
   full_name: string;
   role: UserRole;
   avatar_url: string;
+  bio: string;
 }
 
 export interface CreateUserFormData extends UserFormData {
@@ -60,6 +65,8 @@ export interface MemberFormData {
   social_media_instagram: string;
   social_media_linkedin: string;
   social_media_twitter: string;
+  show_contact: boolean;
+  show_social_media: boolean;
 }
 
 // Article Forms
@@ -72,7 +79,10 @@ export interface ArticleFormData {
   category: 'post' | 'blog' | 'opinion' | 'publication' | 'info';
   tags: string;
   featured: boolean;
+  comments_enabled: boolean;
   status: ArticleStatus;
+  published_at: string;
+  translations: ArticleTranslations;
 }
 
 // Event Forms
@@ -97,4 +107,17 @@ export interface EventFormData {
   status: EventStatus;
   tags: string;
   featured: boolean;
+  published_at: string;
+  translations: EventTranslations;
+}
+
+// Gallery Forms
+export interface GalleryAlbumFormData {
+  title: string;
+  slug: string;
+  description: string;
+  category: GalleryCategory;
+  cover_image: string;
+  status: GalleryStatus;
+  taken_at: string;
 }
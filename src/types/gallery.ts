@@ -0,0 +1,39 @@
+/**
+ * Gallery types
+ * Used in admin panel and public pages
+ */
+
+import { GALLERY_CATEGORIES } from '@/config/domain.config';
+import { GalleryStatus } from '@/lib/constants/admin';
+
+export type GalleryCategory = keyof typeof GALLERY_CATEGORIES;
+
+export interface GalleryAlbum {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  category: GalleryCategory;
+  /** Null means the first photo is used as the cover */
+  cover_image: string | null;
+  status: GalleryStatus;
+  /** Date the photos were taken */
+  taken_at: string | null;
+  author_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GalleryPhoto {
+  id: string;
+  album_id: string;
+  url: string;
+  caption: string | null;
+  alt_text: string;
+  /** Pixel size recorded at upload (needed for the masonry layout) */
+  width: number;
+  height: number;
+  /** Display order within the album, ascending */
+  position: number;
+  created_at: string;
+}
@@ -9,6 +9,11 @@ export * from './leadership';
 export * from './member';
 export * from './article';
 export * from './event';
+export * from './revision';
+export * from './tag';
+export * from './gallery';
+export * from './contact';
+export * from './newsletter';
 export * from './common';
 
 // Forms
@@ -3,6 +3,8 @@
  * Used in admin panel and public pages
  */
 
+import { MemberChangeRequestStatus, MemberReviewedField } from '@/lib/constants/admin';
+
 /**
  * Member interests structure stored as JSONB
  * Can be either array of strings or structured object
@@ -52,6 +54,11 @@ export interface Member {
   interests: MemberInterests | null;
   achievements: MemberAchievements | null;
   social_media: MemberSocialMedia | null;
+  show_contact: boolean;
+  show_social_media: boolean;
+  /** Account that claimed this record, null until claimed */
+  profile_id: string | null;
+  claimed_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -60,4 +67,39 @@ export interface Member {
  * Member update data type
  * Omits id, created_at, updated_at which are managed by the database
  */
-export type MemberUpdateData = Omit<Member, 'id' | 'created_at' | 'updated_at'>;
+export type MemberUpdateData = Omit<Member, 'id' | 'profile_id' | 'claimed_at' | 'created_at' | 'updated_at'>;
+
+/**
+ * A member's own record as shown in the portal
+ */
+export type MemberPortalRecord = Pick<
+  Member,
+  | 'id' | 'name' | 'nim' | 'email' | 'phone' | 'photo' | 'batch' | 'status' | 'division' | 'position'
+  | 'joined_at' | 'bio' | 'interests' | 'achievements' | 'social_media' | 'show_contact' | 'show_social_media' | 'claimed_at'
+>;
+
+/**
+ * Values of the reviewed member fields, keyed by column
+ */
+export type MemberReviewedValues = Partial<Record<MemberReviewedField, string | null>>;
+
+/**
+ * Change to reviewed member fields, submitted from the portal and
+ * applied once an admin approves it
+ */
+export interface MemberChangeRequest {
+  id: string;
+  member_id: string;
+  requested_by: string | null;
+  /** Proposed values */
+  changes: MemberReviewedValues;
+  /** Values when the request was made */
+  previous: MemberReviewedValues;
+  status: MemberChangeRequestStatus;
+  /** Reviewer's note, required when rejecting */
+  review_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Newsletter types
+ * Used in the admin subscriber list
+ */
+
+import { NewsletterStatus } from '@/lib/constants/admin';
+
+export interface NewsletterSubscriber {
+  id: string;
+  email: string;
+  status: NewsletterStatus;
+  /** Last confirmation email (resends are throttled) */
+  confirmation_sent_at: string | null;
+  confirmed_at: string | null;
+  unsubscribed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * Content revision types
+ * Immutable snapshots captured on every save of articles, events and site settings
+ */
+
+import { User } from './user';
+
+export type RevisionEntityType = 'article' | 'event' | 'site_setting';
+
+export interface ContentRevision {
+  id: string;
+  entity_type: RevisionEntityType;
+  /** Article/event id, or the site_settings key ('home' | 'about') */
+  entity_id: string;
+  /** Full row as saved */
+  content: Record<string, unknown>;
+  author_id: string | null;
+  /** Set when this revision was created by restoring another one */
+  restored_from: string | null;
+  created_at: string;
+  // Relations
+  author?: Pick<User, 'id' | 'full_name' | 'email'> | null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Tag types
+ * One registry shared by article and event tags
+ */
+
+export interface Tag {
+  /** URL key, derived from the name */
+  slug: string;
+  /** Registered spelling, as stored on articles and events */
+  name: string;
+  created_at: string;
+}
+
+export interface TagUsage extends Tag {
+  article_count: number;
+  event_count: number;
+}
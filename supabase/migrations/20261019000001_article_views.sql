@@ -0,0 +1,135 @@
+-- =============================================
+-- ARTICLE VIEW TRACKING
+-- =============================================
+-- Daily per-article view counts with visitor dedupe.
+-- Views are recorded only through record_article_view(),
+-- which is called by /api/articles/views with the service role
+-- after bot filtering.
+-- =============================================
+
+-- =============================================
+-- 1. DAILY AGGREGATES
+-- =============================================
+CREATE TABLE public.article_views_daily (
+  article_id UUID NOT NULL REFERENCES public.articles ON DELETE CASCADE,
+  view_date DATE NOT NULL,
+  views INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (article_id, view_date)
+);
+
+-- Indexes
+CREATE INDEX idx_article_views_daily_date ON article_views_daily(view_date DESC);
+
+-- Enable RLS
+ALTER TABLE article_views_daily ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (counts are public, writes go through record_article_view)
+CREATE POLICY "Public can view article stats"
+  ON article_views_daily FOR SELECT
+  USING (true);
+
+-- =============================================
+-- 2. VISITOR DEDUPE
+-- =============================================
+-- One row per (article, hashed visitor), holding the last counted view
+CREATE TABLE public.article_view_visitors (
+  article_id UUID NOT NULL REFERENCES public.articles ON DELETE CASCADE,
+  visitor_hash TEXT NOT NULL,
+  last_viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (article_id, visitor_hash)
+);
+
+-- Indexes
+CREATE INDEX idx_article_view_visitors_last_viewed ON article_view_visitors(last_viewed_at);
+
+-- Enable RLS (no policies: only reachable via SECURITY DEFINER functions)
+ALTER TABLE article_view_visitors ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- 3. UPDATED_AT TRIGGER
+-- =============================================
+-- View counter bumps are not content edits: leave updated_at alone
+-- when nothing but views changed.
+CREATE OR REPLACE FUNCTION public.update_article_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'views' - 'updated_at') = (to_jsonb(OLD) - 'views' - 'updated_at') THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_articles_updated_at ON public.articles;
+CREATE TRIGGER update_articles_updated_at
+  BEFORE UPDATE ON articles
+  FOR EACH ROW EXECUTE FUNCTION update_article_updated_at_column();
+
+-- =============================================
+-- 4. FUNCTIONS
+-- =============================================
+
+-- Record a view unless this visitor was already counted within the window.
+-- Returns true when the view was counted.
+CREATE OR REPLACE FUNCTION public.record_article_view(
+  p_article_id UUID,
+  p_visitor_hash TEXT,
+  p_window_minutes INTEGER DEFAULT 30
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  counted BOOLEAN;
+BEGIN
+  -- Only published articles accumulate views
+  IF NOT EXISTS (
+    SELECT 1 FROM public.articles WHERE id = p_article_id AND status = 'published'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Insert the visitor, or refresh it if the last counted view is outside the window
+  INSERT INTO public.article_view_visitors AS v (article_id, visitor_hash, last_viewed_at)
+  VALUES (p_article_id, p_visitor_hash, NOW())
+  ON CONFLICT (article_id, visitor_hash) DO UPDATE
+    SET last_viewed_at = NOW()
+    WHERE v.last_viewed_at < NOW() - make_interval(mins => p_window_minutes)
+  RETURNING true INTO counted;
+
+  IF counted IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.article_views_daily (article_id, view_date, views)
+  VALUES (p_article_id, CURRENT_DATE, 1)
+  ON CONFLICT (article_id, view_date) DO UPDATE
+    SET views = article_views_daily.views + 1;
+
+  -- Keep the running total on articles in sync
+  UPDATE public.articles
+  SET views = COALESCE(views, 0) + 1
+  WHERE id = p_article_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_article_view(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_article_view(UUID, TEXT, INTEGER) TO service_role;
+
+-- Prune dedupe rows older than a day (call from a scheduled job)
+CREATE OR REPLACE FUNCTION public.prune_article_view_visitors()
+RETURNS INTEGER AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM public.article_view_visitors
+  WHERE last_viewed_at < NOW() - INTERVAL '1 day';
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.prune_article_view_visitors() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.prune_article_view_visitors() TO service_role;
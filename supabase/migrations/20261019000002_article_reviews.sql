@@ -0,0 +1,125 @@
+-- =============================================
+-- ARTICLE EDITORIAL REVIEW WORKFLOW
+-- =============================================
+-- draft → pending (submitted) → published (approved)
+--                 ↘ draft (changes requested)
+-- Every transition is recorded in article_reviews.
+-- Only admins may publish; kontributor writes are capped at 'pending'.
+-- =============================================
+
+-- =============================================
+-- 1. REVIEW HISTORY TABLE
+-- =============================================
+CREATE TABLE public.article_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  article_id UUID NOT NULL REFERENCES public.articles ON DELETE CASCADE,
+  reviewer_id UUID REFERENCES auth.users ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('submitted', 'approved', 'changes_requested')),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_article_reviews_article_id ON article_reviews(article_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE article_reviews ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes go through apply_article_review)
+CREATE POLICY "Admin view all reviews"
+  ON article_reviews FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Author view own article reviews"
+  ON article_reviews FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM articles WHERE articles.id = article_id AND articles.author_id = auth.uid())
+  );
+
+-- =============================================
+-- 2. STATUS ENFORCEMENT
+-- =============================================
+-- Non-admin users can never write 'published' or 'archived'.
+-- The service role (used by /api/admin/articles/[id]/review) is exempt.
+CREATE OR REPLACE FUNCTION public.enforce_article_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status NOT IN ('draft', 'pending') THEN
+    RAISE EXCEPTION 'Only admins can set article status to %', NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_article_status ON public.articles;
+CREATE TRIGGER enforce_article_status
+  BEFORE INSERT OR UPDATE OF status ON articles
+  FOR EACH ROW EXECUTE FUNCTION enforce_article_status();
+
+-- =============================================
+-- 3. TRANSITION FUNCTION
+-- =============================================
+-- Applies a review action atomically: checks the current status,
+-- moves the article and appends to the history.
+-- Authorization is checked by the calling API route.
+CREATE OR REPLACE FUNCTION public.apply_article_review(
+  p_article_id UUID,
+  p_reviewer_id UUID,
+  p_action TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.article_reviews AS $$
+DECLARE
+  current_status TEXT;
+  review public.article_reviews;
+BEGIN
+  SELECT status INTO current_status
+  FROM public.articles
+  WHERE id = p_article_id
+  FOR UPDATE;
+
+  IF current_status IS NULL THEN
+    RAISE EXCEPTION 'Article not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_action = 'submitted' THEN
+    IF current_status <> 'draft' THEN
+      RAISE EXCEPTION 'Only drafts can be submitted for review' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'pending' WHERE id = p_article_id;
+
+  ELSIF p_action = 'approved' THEN
+    IF current_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending articles can be approved' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'published', published_at = NOW() WHERE id = p_article_id;
+
+  ELSIF p_action = 'changes_requested' THEN
+    IF current_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending articles can be sent back' USING ERRCODE = '22023';
+    END IF;
+    IF COALESCE(TRIM(p_comment), '') = '' THEN
+      RAISE EXCEPTION 'Reviewer notes are required when requesting changes' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'draft' WHERE id = p_article_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown review action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.article_reviews (article_id, reviewer_id, action, comment)
+  VALUES (p_article_id, p_reviewer_id, p_action, NULLIF(TRIM(p_comment), ''))
+  RETURNING * INTO review;
+
+  RETURN review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.apply_article_review(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_article_review(UUID, UUID, TEXT, TEXT) TO service_role;
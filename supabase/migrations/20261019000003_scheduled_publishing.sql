@@ -0,0 +1,130 @@
+-- =============================================
+-- SCHEDULED PUBLISHING
+-- =============================================
+-- Articles: a published article with a future published_at stays
+-- hidden from the public until that time.
+-- Events: optional published_at announcement time; NULL means the
+-- event is visible as soon as it is saved.
+-- =============================================
+
+-- =============================================
+-- 1. ARTICLES
+-- =============================================
+DROP POLICY IF EXISTS "Public can view published articles" ON public.articles;
+CREATE POLICY "Public can view published articles"
+  ON articles FOR SELECT
+  USING (status = 'published' AND published_at <= NOW());
+
+-- Approving a scheduled article keeps its publish time
+CREATE OR REPLACE FUNCTION public.apply_article_review(
+  p_article_id UUID,
+  p_reviewer_id UUID,
+  p_action TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.article_reviews AS $$
+DECLARE
+  current_status TEXT;
+  review public.article_reviews;
+BEGIN
+  SELECT status INTO current_status
+  FROM public.articles
+  WHERE id = p_article_id
+  FOR UPDATE;
+
+  IF current_status IS NULL THEN
+    RAISE EXCEPTION 'Article not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_action = 'submitted' THEN
+    IF current_status <> 'draft' THEN
+      RAISE EXCEPTION 'Only drafts can be submitted for review' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'pending' WHERE id = p_article_id;
+
+  ELSIF p_action = 'approved' THEN
+    IF current_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending articles can be approved' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles
+    SET status = 'published', published_at = GREATEST(published_at, NOW())
+    WHERE id = p_article_id;
+
+  ELSIF p_action = 'changes_requested' THEN
+    IF current_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending articles can be sent back' USING ERRCODE = '22023';
+    END IF;
+    IF COALESCE(TRIM(p_comment), '') = '' THEN
+      RAISE EXCEPTION 'Reviewer notes are required when requesting changes' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'draft' WHERE id = p_article_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown review action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.article_reviews (article_id, reviewer_id, action, comment)
+  VALUES (p_article_id, p_reviewer_id, p_action, NULLIF(TRIM(p_comment), ''))
+  RETURNING * INTO review;
+
+  RETURN review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Scheduled articles do not accumulate views before going live
+CREATE OR REPLACE FUNCTION public.record_article_view(
+  p_article_id UUID,
+  p_visitor_hash TEXT,
+  p_window_minutes INTEGER DEFAULT 30
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  counted BOOLEAN;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.articles
+    WHERE id = p_article_id AND status = 'published' AND published_at <= NOW()
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.article_view_visitors AS v (article_id, visitor_hash, last_viewed_at)
+  VALUES (p_article_id, p_visitor_hash, NOW())
+  ON CONFLICT (article_id, visitor_hash) DO UPDATE
+    SET last_viewed_at = NOW()
+    WHERE v.last_viewed_at < NOW() - make_interval(mins => p_window_minutes)
+  RETURNING true INTO counted;
+
+  IF counted IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.article_views_daily (article_id, view_date, views)
+  VALUES (p_article_id, CURRENT_DATE, 1)
+  ON CONFLICT (article_id, view_date) DO UPDATE
+    SET views = article_views_daily.views + 1;
+
+  UPDATE public.articles
+  SET views = COALESCE(views, 0) + 1
+  WHERE id = p_article_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 2. EVENTS
+-- =============================================
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_events_published_at ON events(published_at);
+
+DROP POLICY IF EXISTS "Public can view events" ON public.events;
+CREATE POLICY "Public can view events"
+  ON events FOR SELECT
+  USING (published_at IS NULL OR published_at <= NOW());
+
+-- Creators keep seeing their own events before the announcement
+CREATE POLICY "Kontributor view own events"
+  ON events FOR SELECT
+  USING (auth.uid() = creator_id);
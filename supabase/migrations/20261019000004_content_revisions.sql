@@ -0,0 +1,189 @@
+-- =============================================
+-- CONTENT REVISIONS
+-- =============================================
+-- Immutable snapshot of every save to articles, events and
+-- site_settings, captured by triggers so all write paths
+-- (admin forms, API routes, review actions) are covered.
+-- Restoring a revision writes its content back and records the
+-- result as a new revision pointing at the restored one.
+-- =============================================
+
+-- =============================================
+-- 1. REVISIONS TABLE
+-- =============================================
+CREATE TABLE public.content_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('article', 'event', 'site_setting')),
+  entity_id TEXT NOT NULL, -- articles.id / events.id, or site_settings.key
+  content JSONB NOT NULL,  -- full row at save time
+  author_id UUID REFERENCES auth.users ON DELETE SET NULL,
+  restored_from UUID REFERENCES public.content_revisions,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_content_revisions_entity ON content_revisions(entity_type, entity_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE content_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read-only: rows are written by triggers)
+CREATE POLICY "Admin view all revisions"
+  ON content_revisions FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Author view own content revisions"
+  ON content_revisions FOR SELECT
+  USING (
+    (entity_type = 'article' AND EXISTS (
+      SELECT 1 FROM articles WHERE articles.id::text = entity_id AND articles.author_id = auth.uid()
+    ))
+    OR (entity_type = 'event' AND EXISTS (
+      SELECT 1 FROM events WHERE events.id::text = entity_id AND events.creator_id = auth.uid()
+    ))
+  );
+
+-- Revisions are never edited, even by the service role
+CREATE OR REPLACE FUNCTION public.prevent_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Content revisions are immutable' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_revision_update
+  BEFORE UPDATE ON content_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_revision_update();
+
+-- =============================================
+-- 2. CAPTURE TRIGGER
+-- =============================================
+-- TG_ARGV[0]: entity type, TG_ARGV[1]: column identifying the entity.
+-- Counter-only updates (views, participants) are not content edits.
+-- The author is the restoring admin, the JWT user, or updated_by for
+-- service-role writes to site_settings.
+CREATE OR REPLACE FUNCTION public.capture_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_row JSONB := to_jsonb(NEW);
+  restored_from_id UUID := NULLIF(current_setting('app.revision_restored_from', true), '')::UUID;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND restored_from_id IS NULL
+    AND (new_row - 'views' - 'current_participants' - 'updated_at')
+      = (to_jsonb(OLD) - 'views' - 'current_participants' - 'updated_at')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.content_revisions (entity_type, entity_id, content, author_id, restored_from)
+  VALUES (
+    TG_ARGV[0],
+    new_row->>TG_ARGV[1],
+    new_row,
+    COALESCE(
+      NULLIF(current_setting('app.revision_author', true), '')::UUID,
+      auth.uid(),
+      (new_row->>'updated_by')::UUID
+    ),
+    restored_from_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER capture_article_revision
+  AFTER INSERT OR UPDATE ON articles
+  FOR EACH ROW EXECUTE FUNCTION capture_content_revision('article', 'id');
+
+CREATE TRIGGER capture_event_revision
+  AFTER INSERT OR UPDATE ON events
+  FOR EACH ROW EXECUTE FUNCTION capture_content_revision('event', 'id');
+
+CREATE TRIGGER capture_site_setting_revision
+  AFTER INSERT OR UPDATE ON site_settings
+  FOR EACH ROW EXECUTE FUNCTION capture_content_revision('site_setting', 'key');
+
+-- =============================================
+-- 3. RESTORE FUNCTION
+-- =============================================
+-- Writes a revision's editable content back. Status, schedule and
+-- counters are left as they are. Authorization is checked by the
+-- calling API route.
+CREATE OR REPLACE FUNCTION public.restore_content_revision(
+  p_revision_id UUID,
+  p_actor_id UUID
+)
+RETURNS public.content_revisions AS $$
+DECLARE
+  source public.content_revisions;
+  restored public.content_revisions;
+BEGIN
+  SELECT * INTO source FROM public.content_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Picked up by capture_content_revision for this transaction only
+  PERFORM set_config('app.revision_author', p_actor_id::TEXT, true);
+  PERFORM set_config('app.revision_restored_from', p_revision_id::TEXT, true);
+
+  IF source.entity_type = 'article' THEN
+    UPDATE public.articles a
+    SET (title, slug, excerpt, content, category, cover_image, tags, featured, author)
+      = (r.title, r.slug, r.excerpt, r.content, r.category, r.cover_image, r.tags, r.featured, r.author)
+    FROM jsonb_populate_record(NULL::public.articles, source.content) r
+    WHERE a.id = source.entity_id::UUID;
+
+  ELSIF source.entity_type = 'event' THEN
+    UPDATE public.events e
+    SET (title, slug, description, content, category, start_date, end_date, location, cover_image,
+         images, organizer, registration_url, registration_deadline, max_participants, tags, featured)
+      = (r.title, r.slug, r.description, r.content, r.category, r.start_date, r.end_date, r.location, r.cover_image,
+         r.images, r.organizer, r.registration_url, r.registration_deadline, r.max_participants, r.tags, r.featured)
+    FROM jsonb_populate_record(NULL::public.events, source.content) r
+    WHERE e.id = source.entity_id::UUID;
+
+  ELSE
+    UPDATE public.site_settings
+    SET content = source.content->'content', updated_by = p_actor_id
+    WHERE key = source.entity_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The content for this revision no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.revision_author', '', true);
+  PERFORM set_config('app.revision_restored_from', '', true);
+
+  SELECT * INTO restored
+  FROM public.content_revisions
+  WHERE restored_from = p_revision_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.restore_content_revision(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_content_revision(UUID, UUID) TO service_role;
+
+-- =============================================
+-- 4. BASELINE
+-- =============================================
+-- Seed one revision per existing row so current content can be diffed
+INSERT INTO public.content_revisions (entity_type, entity_id, content, author_id, created_at)
+SELECT 'article', a.id::TEXT, to_jsonb(a), a.author_id, COALESCE(a.updated_at, a.created_at)
+FROM public.articles a;
+
+INSERT INTO public.content_revisions (entity_type, entity_id, content, author_id, created_at)
+SELECT 'event', e.id::TEXT, to_jsonb(e), e.creator_id, COALESCE(e.updated_at, e.created_at)
+FROM public.events e;
+
+INSERT INTO public.content_revisions (entity_type, entity_id, content, author_id, created_at)
+SELECT 'site_setting', s.key, to_jsonb(s), s.updated_by, COALESCE(s.updated_at, s.created_at)
+FROM public.site_settings s;
@@ -0,0 +1,118 @@
+-- =============================================
+-- AUTOMATIC EVENT STATUS
+-- =============================================
+-- upcoming / ongoing / completed are derived from start_date,
+-- end_date and the current time. 'cancelled' is the only manual
+-- override and is never changed automatically.
+-- Stored status is normalized on every write and refreshed by a
+-- scheduled job; public queries also filter on the dates directly.
+-- =============================================
+
+-- =============================================
+-- 1. STATUS FUNCTION
+-- =============================================
+CREATE OR REPLACE FUNCTION public.event_status_at(
+  p_status TEXT,
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_status = 'cancelled' THEN 'cancelled'
+    WHEN p_at < p_start_date THEN 'upcoming'
+    WHEN p_at <= p_end_date THEN 'ongoing'
+    ELSE 'completed'
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- 2. NORMALIZE ON WRITE
+-- =============================================
+CREATE OR REPLACE FUNCTION public.set_event_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status = event_status_at(NEW.status, NEW.start_date, NEW.end_date);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_event_status ON public.events;
+CREATE TRIGGER set_event_status
+  BEFORE INSERT OR UPDATE OF status, start_date, end_date ON events
+  FOR EACH ROW EXECUTE FUNCTION set_event_status();
+
+-- =============================================
+-- 3. SCHEDULED REFRESH
+-- =============================================
+-- Moves events across upcoming → ongoing → completed as time passes.
+-- Returns the number of events updated.
+CREATE OR REPLACE FUNCTION public.refresh_event_statuses()
+RETURNS INTEGER AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  -- Time-based transitions are not content edits
+  PERFORM set_config('app.revision_skip', 'on', true);
+
+  UPDATE public.events
+  SET status = event_status_at(status, start_date, end_date)
+  WHERE status <> 'cancelled'
+    AND status <> event_status_at(status, start_date, end_date);
+  GET DIAGNOSTICS updated = ROW_COUNT;
+
+  PERFORM set_config('app.revision_skip', '', true);
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.refresh_event_statuses() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_event_statuses() TO service_role;
+
+-- Skip revision capture for automatic status refreshes
+CREATE OR REPLACE FUNCTION public.capture_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_row JSONB := to_jsonb(NEW);
+  restored_from_id UUID := NULLIF(current_setting('app.revision_restored_from', true), '')::UUID;
+BEGIN
+  IF current_setting('app.revision_skip', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND restored_from_id IS NULL
+    AND (new_row - 'views' - 'current_participants' - 'updated_at')
+      = (to_jsonb(OLD) - 'views' - 'current_participants' - 'updated_at')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.content_revisions (entity_type, entity_id, content, author_id, restored_from)
+  VALUES (
+    TG_ARGV[0],
+    new_row->>TG_ARGV[1],
+    new_row,
+    COALESCE(
+      NULLIF(current_setting('app.revision_author', true), '')::UUID,
+      auth.uid(),
+      (new_row->>'updated_by')::UUID
+    ),
+    restored_from_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run every 5 minutes when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-event-statuses', '*/5 * * * *', 'SELECT public.refresh_event_statuses()');
+  END IF;
+END $$;
+
+-- Bring existing events up to date
+SELECT public.refresh_event_statuses();
@@ -0,0 +1,212 @@
+-- =============================================
+-- EVENT REGISTRATIONS
+-- =============================================
+-- Native sign-ups with capacity and waitlist.
+-- All writes go through register_for_event() and
+-- cancel_event_registration(), which lock the event row so
+-- events.current_participants stays in sync with the number of
+-- 'registered' rows.
+-- =============================================
+
+-- =============================================
+-- 1. REGISTRATIONS TABLE
+-- =============================================
+CREATE TABLE public.event_registrations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES public.events ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'registered' CHECK (status IN ('registered', 'waitlisted', 'cancelled')),
+  promoted_at TIMESTAMP WITH TIME ZONE, -- moved from waitlist to registered
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_event_registrations_event ON event_registrations(event_id, status, created_at);
+CREATE UNIQUE INDEX idx_event_registrations_active_email
+  ON event_registrations(event_id, lower(email))
+  WHERE status <> 'cancelled';
+
+-- Enable RLS
+ALTER TABLE event_registrations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (no public access: registrants' contact details are private)
+CREATE POLICY "Admin full access registrations"
+  ON event_registrations FOR ALL
+  USING (is_admin());
+
+CREATE POLICY "Creator view own event registrations"
+  ON event_registrations FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM events WHERE events.id = event_id AND events.creator_id = auth.uid())
+  );
+
+-- =============================================
+-- 2. WAITLIST PROMOTION
+-- =============================================
+-- Fill free seats from the waitlist, oldest first.
+-- Caller must hold the event row lock. Returns the number promoted.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(p_event_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  capacity INTEGER;
+  taken INTEGER;
+  promoted INTEGER := 0;
+BEGIN
+  SELECT max_participants INTO capacity FROM public.events WHERE id = p_event_id;
+
+  SELECT COUNT(*) INTO taken
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND status = 'registered';
+
+  IF capacity IS NULL OR taken < capacity THEN
+    WITH next_in_line AS (
+      SELECT id FROM public.event_registrations
+      WHERE event_id = p_event_id AND status = 'waitlisted'
+      ORDER BY created_at
+      LIMIT CASE WHEN capacity IS NULL THEN NULL ELSE capacity - taken END
+      FOR UPDATE
+    )
+    UPDATE public.event_registrations r
+    SET status = 'registered', promoted_at = NOW()
+    FROM next_in_line
+    WHERE r.id = next_in_line.id;
+    GET DIAGNOSTICS promoted = ROW_COUNT;
+  END IF;
+
+  UPDATE public.events
+  SET current_participants = taken + promoted
+  WHERE id = p_event_id;
+
+  RETURN promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.promote_event_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_event_waitlist(UUID) TO service_role;
+
+-- Raising (or removing) the capacity promotes waitlisted people
+CREATE OR REPLACE FUNCTION public.handle_event_capacity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.max_participants IS DISTINCT FROM OLD.max_participants THEN
+    PERFORM promote_event_waitlist(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS handle_event_capacity_change ON public.events;
+CREATE TRIGGER handle_event_capacity_change
+  AFTER UPDATE OF max_participants ON events
+  FOR EACH ROW EXECUTE FUNCTION handle_event_capacity_change();
+
+-- =============================================
+-- 3. REGISTER
+-- =============================================
+-- Registers a seat, or joins the waitlist when the event is full.
+-- Errors: P0002 event not found, 22023 registration closed,
+-- 23505 email already registered for this event.
+CREATE OR REPLACE FUNCTION public.register_for_event(
+  p_event_id UUID,
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.event_registrations AS $$
+DECLARE
+  ev public.events;
+  taken INTEGER;
+  registration public.event_registrations;
+BEGIN
+  -- Serialize sign-ups per event
+  SELECT * INTO ev FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND OR (ev.published_at IS NOT NULL AND ev.published_at > NOW()) THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF event_status_at(ev.status, ev.start_date, ev.end_date) <> 'upcoming' THEN
+    RAISE EXCEPTION 'Registration for this event is closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF ev.registration_deadline IS NOT NULL AND NOW() > ev.registration_deadline THEN
+    RAISE EXCEPTION 'The registration deadline has passed' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_registrations
+    WHERE event_id = p_event_id AND lower(email) = lower(TRIM(p_email)) AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'This email is already registered for the event' USING ERRCODE = '23505';
+  END IF;
+
+  SELECT COUNT(*) INTO taken
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND status = 'registered';
+
+  INSERT INTO public.event_registrations (event_id, name, email, phone, notes, status)
+  VALUES (
+    p_event_id,
+    TRIM(p_name),
+    lower(TRIM(p_email)),
+    NULLIF(TRIM(p_phone), ''),
+    NULLIF(TRIM(p_notes), ''),
+    CASE WHEN ev.max_participants IS NULL OR taken < ev.max_participants THEN 'registered' ELSE 'waitlisted' END
+  )
+  RETURNING * INTO registration;
+
+  IF registration.status = 'registered' THEN
+    UPDATE public.events SET current_participants = taken + 1 WHERE id = p_event_id;
+  END IF;
+
+  RETURN registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.register_for_event(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_for_event(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- =============================================
+-- 4. CANCEL
+-- =============================================
+-- Cancels a registration and hands a freed seat to the waitlist.
+-- Errors: P0002 registration not found, 22023 already cancelled.
+CREATE OR REPLACE FUNCTION public.cancel_event_registration(p_registration_id UUID)
+RETURNS public.event_registrations AS $$
+DECLARE
+  target_event_id UUID;
+  registration public.event_registrations;
+BEGIN
+  SELECT event_id INTO target_event_id
+  FROM public.event_registrations
+  WHERE id = p_registration_id;
+
+  IF target_event_id IS NULL THEN
+    RAISE EXCEPTION 'Registration not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Same lock order as register_for_event
+  PERFORM 1 FROM public.events WHERE id = target_event_id FOR UPDATE;
+
+  UPDATE public.event_registrations
+  SET status = 'cancelled', cancelled_at = NOW()
+  WHERE id = p_registration_id AND status <> 'cancelled'
+  RETURNING * INTO registration;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration is already cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM promote_event_waitlist(target_event_id);
+
+  RETURN registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.cancel_event_registration(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_event_registration(UUID) TO service_role;
@@ -0,0 +1,17 @@
+-- =============================================
+-- EVENT CHECK-IN
+-- =============================================
+-- Attendance for native registrations. Tickets carry a signed
+-- token (HMAC of the registration id, verified by the API), and
+-- check-in stamps the registration once.
+-- =============================================
+
+ALTER TABLE public.event_registrations
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_event_registrations_checked_in
+  ON event_registrations(event_id)
+  WHERE checked_in_at IS NOT NULL;
+
@@ -0,0 +1,35 @@
+-- =============================================
+-- EVENT CALENDAR SEQUENCE
+-- =============================================
+-- iCalendar SEQUENCE number for the ICS feeds. Calendar clients
+-- only apply an update to a known UID when its SEQUENCE is higher,
+-- so the counter is bumped whenever something they display changes
+-- (reschedule, new place, rename) or the event is (un)cancelled.
+-- Automatic upcoming → ongoing → completed moves don't count.
+-- =============================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_event_calendar_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR (NEW.status = 'cancelled') <> (OLD.status = 'cancelled')
+  THEN
+    NEW.calendar_sequence = OLD.calendar_sequence + 1;
+  ELSE
+    NEW.calendar_sequence = OLD.calendar_sequence;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_event_calendar_sequence ON public.events;
+CREATE TRIGGER bump_event_calendar_sequence
+  BEFORE UPDATE ON events
+  FOR EACH ROW EXECUTE FUNCTION bump_event_calendar_sequence();
@@ -0,0 +1,179 @@
+-- =============================================
+-- FULL-TEXT SEARCH
+-- =============================================
+-- Ranked search over articles, events and members using the
+-- 'indonesian' tsvectors (expressions match the GIN indexes so
+-- they are used). The API calls these with the service client,
+-- so public visibility is enforced by the filters below.
+-- Highlights are wrapped in ⟦ ⟧ and rendered by the client, never
+-- injected as HTML.
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- =============================================
+-- 1. EVENTS INDEX
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_events_search
+  ON events USING GIN (to_tsvector('indonesian', title || ' ' || description || ' ' || content));
+
+-- =============================================
+-- 2. MATCHES
+-- =============================================
+-- Every publicly visible match with its rank; shared by the result
+-- and facet functions.
+CREATE OR REPLACE FUNCTION public.search_content_matches(p_query TEXT)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  document TEXT,
+  rank REAL,
+  sort_date TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('indonesian', p_query) AS query
+  )
+  SELECT 'article', a.id, a.excerpt || ' ' || a.content,
+    ts_rank_cd(to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content), q.query),
+    a.published_at
+  FROM public.articles a, q
+  WHERE a.status = 'published'
+    AND a.published_at <= NOW()
+    AND to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content) @@ q.query
+  UNION ALL
+  SELECT 'event', e.id, e.description || ' ' || e.content,
+    ts_rank_cd(to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content), q.query),
+    e.start_date
+  FROM public.events e, q
+  WHERE (e.published_at IS NULL OR e.published_at <= NOW())
+    AND to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content) @@ q.query
+  UNION ALL
+  SELECT 'member', m.id, NULL,
+    ts_rank_cd(to_tsvector('indonesian', m.name || ' ' || m.nim), q.query),
+    m.joined_at
+  FROM public.members m, q
+  WHERE m.status = 'active'
+    AND to_tsvector('indonesian', m.name || ' ' || m.nim) @@ q.query;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- 3. RESULTS
+-- =============================================
+-- One page of results, best match first. Snippets are only built
+-- for the returned page.
+CREATE OR REPLACE FUNCTION public.search_content(
+  p_query TEXT,
+  p_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  slug TEXT,
+  title TEXT,
+  snippet TEXT,
+  image TEXT,
+  result_date TIMESTAMP WITH TIME ZONE,
+  rank REAL
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('indonesian', p_query) AS query
+  ),
+  page AS (
+    SELECT *
+    FROM search_content_matches(p_query) m
+    WHERE p_type IS NULL OR m.result_type = p_type
+    ORDER BY m.rank DESC, m.sort_date DESC NULLS LAST
+    LIMIT p_limit OFFSET p_offset
+  )
+  SELECT
+    page.result_type,
+    page.id,
+    COALESCE(a.slug, e.slug),
+    ts_headline('indonesian', COALESCE(a.title, e.title, mb.name), q.query,
+      'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+    CASE
+      WHEN page.result_type = 'member' THEN concat_ws(' · ', 'Angkatan ' || mb.batch, mb.division, mb.position)
+      ELSE ts_headline('indonesian', page.document, q.query,
+        'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "')
+    END,
+    COALESCE(a.cover_image, e.cover_image),
+    page.sort_date,
+    page.rank
+  FROM page
+  CROSS JOIN q
+  LEFT JOIN public.articles a ON page.result_type = 'article' AND a.id = page.id
+  LEFT JOIN public.events e ON page.result_type = 'event' AND e.id = page.id
+  LEFT JOIN public.members mb ON page.result_type = 'member' AND mb.id = page.id
+  ORDER BY page.rank DESC, page.sort_date DESC NULLS LAST;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- 4. FACETS
+-- =============================================
+CREATE OR REPLACE FUNCTION public.search_content_counts(p_query TEXT)
+RETURNS TABLE (result_type TEXT, total BIGINT) AS $$
+  SELECT m.result_type, COUNT(*)
+  FROM search_content_matches(p_query) m
+  GROUP BY m.result_type;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- 5. SUGGESTIONS
+-- =============================================
+-- "Did you mean": replaces each query word that appears nowhere in
+-- the visible titles, tags or member names with the closest known
+-- word by trigram similarity. Returns NULL when nothing changes.
+CREATE OR REPLACE FUNCTION public.search_suggestion(p_query TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  vocabulary TEXT[];
+  word TEXT;
+  best TEXT;
+  words TEXT[] := '{}';
+  changed BOOLEAN := false;
+BEGIN
+  SELECT array_agg(DISTINCT term) INTO vocabulary
+  FROM (
+    SELECT lower(regexp_split_to_table(title, '[^[:alnum:]]+')) AS term
+    FROM articles WHERE status = 'published' AND published_at <= NOW()
+    UNION ALL
+    SELECT lower(unnest(tags))
+    FROM articles WHERE status = 'published' AND published_at <= NOW()
+    UNION ALL
+    SELECT lower(regexp_split_to_table(title, '[^[:alnum:]]+'))
+    FROM events WHERE published_at IS NULL OR published_at <= NOW()
+    UNION ALL
+    SELECT lower(regexp_split_to_table(name, '[^[:alnum:]]+'))
+    FROM members WHERE status = 'active'
+  ) terms
+  WHERE length(term) >= 3;
+
+  IF vocabulary IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR word IN
+    SELECT w FROM regexp_split_to_table(lower(trim(p_query)), '\s+') w WHERE w <> ''
+  LOOP
+    best := NULL;
+    IF length(word) >= 3 AND NOT word = ANY(vocabulary) THEN
+      SELECT t INTO best
+      FROM unnest(vocabulary) t
+      WHERE similarity(t, word) >= 0.3
+      ORDER BY similarity(t, word) DESC, t
+      LIMIT 1;
+    END IF;
+
+    IF best IS NOT NULL THEN
+      words := words || best;
+      changed := true;
+    ELSE
+      words := words || word;
+    END IF;
+  END LOOP;
+
+  RETURN CASE WHEN changed THEN array_to_string(words, ' ') END;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
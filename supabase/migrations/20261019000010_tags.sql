@@ -0,0 +1,237 @@
+-- =============================================
+-- TAGS
+-- =============================================
+-- One tag registry shared by articles and events. Content keeps
+-- its tags TEXT[] column, but every write is normalized against
+-- the registry: tags are matched by slug, so "Farmasi", "farmasi"
+-- and " FARMASI " all become the registered spelling, and unknown
+-- tags are registered on first use.
+-- Rename / merge / delete go through the functions below so the
+-- arrays on both tables stay in sync with the registry.
+-- =============================================
+
+-- =============================================
+-- 1. TAGS TABLE
+-- =============================================
+CREATE TABLE public.tags (
+  slug TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Public can view tags"
+  ON tags FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admin full access tags"
+  ON tags FOR ALL
+  USING (is_admin());
+
+-- =============================================
+-- 2. NORMALIZATION
+-- =============================================
+-- Mirrors generateSlug() in src/lib/utils/slug.ts (which also strips
+-- accents), so tag URLs can be built on either side
+CREATE OR REPLACE FUNCTION public.tag_slug(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(
+    translate(lower(trim(p_name)), 'àáâãäåèéêëìíîïòóôõöùúûüýÿñç', 'aaaaaaeeeeiiiiooooouuuuyync'),
+    '[^a-z0-9]+', '-', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Registered spelling for each tag, registering new ones; drops
+-- blanks and duplicates while keeping the original order
+CREATE OR REPLACE FUNCTION public.normalize_tags(p_tags TEXT[])
+RETURNS TEXT[] AS $$
+DECLARE
+  tag TEXT;
+  tag_key TEXT;
+  canonical TEXT;
+  result TEXT[] := '{}';
+BEGIN
+  IF p_tags IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOREACH tag IN ARRAY p_tags LOOP
+    tag_key := tag_slug(tag);
+    CONTINUE WHEN tag_key = '';
+
+    INSERT INTO public.tags (slug, name)
+    VALUES (tag_key, trim(tag))
+    ON CONFLICT (slug) DO NOTHING;
+
+    SELECT name INTO canonical FROM public.tags WHERE slug = tag_key;
+    IF NOT canonical = ANY(result) THEN
+      result := result || canonical;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_content_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tags = normalize_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_article_tags ON public.articles;
+CREATE TRIGGER set_article_tags
+  BEFORE INSERT OR UPDATE OF tags ON articles
+  FOR EACH ROW EXECUTE FUNCTION set_content_tags();
+
+DROP TRIGGER IF EXISTS set_event_tags ON public.events;
+CREATE TRIGGER set_event_tags
+  BEFORE INSERT OR UPDATE OF tags ON events
+  FOR EACH ROW EXECUTE FUNCTION set_content_tags();
+
+-- =============================================
+-- 3. USAGE
+-- =============================================
+-- Usage counts include drafts and unannounced events (admin view)
+CREATE OR REPLACE VIEW public.tag_usage
+WITH (security_invoker = true) AS
+SELECT
+  t.slug,
+  t.name,
+  (SELECT COUNT(*) FROM public.articles a WHERE t.name = ANY(a.tags)) AS article_count,
+  (SELECT COUNT(*) FROM public.events e WHERE t.name = ANY(e.tags)) AS event_count,
+  t.created_at
+FROM public.tags t;
+
+-- =============================================
+-- 4. MANAGEMENT
+-- =============================================
+-- Tag maintenance rewrites many rows at once; those are not content
+-- edits, so no revisions are captured for them.
+
+-- Rename a tag (spelling and slug). Fails if the new name collides
+-- with another tag: merge instead.
+CREATE OR REPLACE FUNCTION public.rename_tag(p_slug TEXT, p_name TEXT)
+RETURNS public.tags AS $$
+DECLARE
+  old_tag public.tags;
+  new_slug TEXT := tag_slug(p_name);
+  renamed public.tags;
+BEGIN
+  SELECT * INTO old_tag FROM public.tags WHERE slug = p_slug FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF new_slug = '' THEN
+    RAISE EXCEPTION 'Tag name must contain letters or numbers' USING ERRCODE = '22023';
+  END IF;
+
+  IF new_slug <> p_slug AND EXISTS (SELECT 1 FROM public.tags WHERE slug = new_slug) THEN
+    RAISE EXCEPTION 'Tag "%" already exists, merge the tags instead', p_name USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.tags SET slug = new_slug, name = trim(p_name)
+  WHERE slug = p_slug
+  RETURNING * INTO renamed;
+
+  PERFORM set_config('app.revision_skip', 'on', true);
+  UPDATE public.articles SET tags = array_replace(tags, old_tag.name, renamed.name)
+  WHERE old_tag.name = ANY(tags);
+  UPDATE public.events SET tags = array_replace(tags, old_tag.name, renamed.name)
+  WHERE old_tag.name = ANY(tags);
+  PERFORM set_config('app.revision_skip', '', true);
+
+  RETURN renamed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fold one tag into another; content tagged with both keeps one
+CREATE OR REPLACE FUNCTION public.merge_tags(p_source_slug TEXT, p_target_slug TEXT)
+RETURNS public.tags AS $$
+DECLARE
+  source public.tags;
+  target public.tags;
+BEGIN
+  IF p_source_slug = p_target_slug THEN
+    RAISE EXCEPTION 'Cannot merge a tag into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO source FROM public.tags WHERE slug = p_source_slug FOR UPDATE;
+  SELECT * INTO target FROM public.tags WHERE slug = p_target_slug FOR UPDATE;
+  IF source.slug IS NULL OR target.slug IS NULL THEN
+    RAISE EXCEPTION 'Tag not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- normalize_tags (via the triggers) removes the resulting duplicates
+  PERFORM set_config('app.revision_skip', 'on', true);
+  UPDATE public.articles SET tags = array_replace(tags, source.name, target.name)
+  WHERE source.name = ANY(tags);
+  UPDATE public.events SET tags = array_replace(tags, source.name, target.name)
+  WHERE source.name = ANY(tags);
+  PERFORM set_config('app.revision_skip', '', true);
+
+  DELETE FROM public.tags WHERE slug = p_source_slug;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Remove a tag from all content and the registry
+CREATE OR REPLACE FUNCTION public.delete_tag(p_slug TEXT)
+RETURNS VOID AS $$
+DECLARE
+  old_tag public.tags;
+BEGIN
+  SELECT * INTO old_tag FROM public.tags WHERE slug = p_slug FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.revision_skip', 'on', true);
+  UPDATE public.articles SET tags = array_remove(tags, old_tag.name)
+  WHERE old_tag.name = ANY(tags);
+  UPDATE public.events SET tags = array_remove(tags, old_tag.name)
+  WHERE old_tag.name = ANY(tags);
+  PERFORM set_config('app.revision_skip', '', true);
+
+  DELETE FROM public.tags WHERE slug = p_slug;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.rename_tag(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.merge_tags(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.delete_tag(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.normalize_tags(TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rename_tag(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.merge_tags(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.delete_tag(TEXT) TO service_role;
+
+-- =============================================
+-- 5. BASELINE
+-- =============================================
+-- Register existing tags, picking the most used spelling per slug,
+-- then rewrite the arrays that change.
+INSERT INTO public.tags (slug, name)
+SELECT DISTINCT ON (tag_slug(tag)) tag_slug(tag), trim(tag)
+FROM (
+  SELECT unnest(tags) AS tag FROM public.articles
+  UNION ALL
+  SELECT unnest(tags) FROM public.events
+) existing
+WHERE tag_slug(tag) <> ''
+GROUP BY tag_slug(tag), trim(tag)
+ORDER BY tag_slug(tag), COUNT(*) DESC, trim(tag)
+ON CONFLICT (slug) DO NOTHING;
+
+SELECT set_config('app.revision_skip', 'on', true);
+UPDATE public.articles SET tags = normalize_tags(tags)
+WHERE tags IS DISTINCT FROM normalize_tags(tags);
+UPDATE public.events SET tags = normalize_tags(tags)
+WHERE tags IS DISTINCT FROM normalize_tags(tags);
+SELECT set_config('app.revision_skip', '', true);
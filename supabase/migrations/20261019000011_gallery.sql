@@ -0,0 +1,78 @@
+-- =============================================
+-- GALLERY
+-- =============================================
+-- Photo albums (categories from GALLERY_CATEGORIES) with ordered
+-- photos. Images live in the media bucket (StorageService);
+-- width/height are recorded at upload so the public masonry
+-- layout can be computed without loading every image first.
+-- Archived albums are hidden from the public site.
+-- =============================================
+
+-- =============================================
+-- 1. ALBUMS TABLE
+-- =============================================
+CREATE TABLE public.gallery_albums (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+  slug TEXT UNIQUE NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL CHECK (category IN ('activities', 'events', 'facilities', 'organization')),
+  cover_image TEXT, -- NULL: first photo is used
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  taken_at DATE, -- when the photos were taken (sorts the public list)
+  author_id UUID REFERENCES public.profiles ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_gallery_albums_listing ON gallery_albums(status, category, taken_at DESC);
+
+-- Enable RLS
+ALTER TABLE gallery_albums ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Public can view active albums"
+  ON gallery_albums FOR SELECT
+  USING (status = 'active');
+
+CREATE POLICY "Admin full access albums"
+  ON gallery_albums FOR ALL
+  USING (is_admin());
+
+-- Trigger
+CREATE TRIGGER update_gallery_albums_updated_at
+  BEFORE UPDATE ON gallery_albums
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. PHOTOS TABLE
+-- =============================================
+CREATE TABLE public.gallery_photos (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  album_id UUID NOT NULL REFERENCES public.gallery_albums ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  caption TEXT,
+  alt_text TEXT NOT NULL DEFAULT '',
+  width INTEGER NOT NULL CHECK (width > 0),
+  height INTEGER NOT NULL CHECK (height > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_gallery_photos_album ON gallery_photos(album_id, position);
+
+-- Enable RLS
+ALTER TABLE gallery_photos ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Public can view photos of active albums"
+  ON gallery_photos FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM gallery_albums WHERE gallery_albums.id = album_id AND gallery_albums.status = 'active')
+  );
+
+CREATE POLICY "Admin full access photos"
+  ON gallery_photos FOR ALL
+  USING (is_admin());
@@ -0,0 +1,78 @@
+-- =============================================
+-- CONTACT MESSAGES (ADMIN INBOX)
+-- =============================================
+-- new → read (opened in the inbox) → handled
+-- Messages arrive through /api/contact (service role), which applies
+-- the spam checks; there is no public insert policy. Admins assign
+-- messages and log the replies they sent in contact_message_replies.
+-- The sender's IP is only kept as a hash, for rate limiting.
+-- =============================================
+
+-- =============================================
+-- 1. MESSAGES TABLE
+-- =============================================
+CREATE TABLE public.contact_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  subject TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'read', 'handled')),
+  assigned_to UUID REFERENCES public.profiles ON DELETE SET NULL,
+  handled_at TIMESTAMP WITH TIME ZONE,
+  handled_by UUID REFERENCES public.profiles ON DELETE SET NULL,
+  sender_hash TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_contact_messages_status ON contact_messages(status, created_at DESC);
+CREATE INDEX idx_contact_messages_sender ON contact_messages(sender_hash, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE contact_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (inserts go through /api/contact)
+CREATE POLICY "Admin view messages"
+  ON contact_messages FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Admin update messages"
+  ON contact_messages FOR UPDATE
+  USING (is_admin());
+
+CREATE POLICY "Admin delete messages"
+  ON contact_messages FOR DELETE
+  USING (is_admin());
+
+-- Trigger
+CREATE TRIGGER update_contact_messages_updated_at
+  BEFORE UPDATE ON contact_messages
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. REPLY LOG TABLE
+-- =============================================
+-- Replies are sent from the admin's own mailbox; this is the record
+-- of what was answered, by whom and when.
+CREATE TABLE public.contact_message_replies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES public.contact_messages ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_contact_message_replies_message ON contact_message_replies(message_id, created_at);
+
+-- Enable RLS
+ALTER TABLE contact_message_replies ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes go through /api/admin/inbox/[id]/replies)
+CREATE POLICY "Admin view replies"
+  ON contact_message_replies FOR SELECT
+  USING (is_admin());
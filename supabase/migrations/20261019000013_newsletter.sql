@@ -0,0 +1,42 @@
+-- =============================================
+-- NEWSLETTER SUBSCRIPTIONS (DOUBLE OPT-IN)
+-- =============================================
+-- pending (signed up) → subscribed (confirmation link clicked)
+--                     ↘ unsubscribed (unsubscribe link, any time)
+-- Sign-ups and token links go through /api/newsletter (service role);
+-- tokens are signed server-side, so none are stored here.
+-- =============================================
+
+-- =============================================
+-- 1. SUBSCRIBERS TABLE
+-- =============================================
+CREATE TABLE public.newsletter_subscribers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT UNIQUE NOT NULL CHECK (email = LOWER(email)),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'subscribed', 'unsubscribed')),
+  confirmation_sent_at TIMESTAMP WITH TIME ZONE, -- throttles repeated sign-ups
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  unsubscribed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_newsletter_subscribers_status ON newsletter_subscribers(status, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE newsletter_subscribers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes go through /api/newsletter)
+CREATE POLICY "Admin view subscribers"
+  ON newsletter_subscribers FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Admin delete subscribers"
+  ON newsletter_subscribers FOR DELETE
+  USING (is_admin());
+
+-- Trigger
+CREATE TRIGGER update_newsletter_subscribers_updated_at
+  BEFORE UPDATE ON newsletter_subscribers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,144 @@
+-- =============================================
+-- MODERATED ARTICLE COMMENTS
+-- =============================================
+-- pending (submitted) → approved | rejected
+-- spam (flagged by the submission heuristics) → approved | rejected
+-- Guests and signed-in users comment through /api/articles/[id]/comments
+-- (service role), which applies the rate limit and spam checks.
+-- Only approved comments are shown, and articles.comment_count keeps
+-- their running total for the listing cards.
+-- =============================================
+
+-- =============================================
+-- 1. ARTICLE SETTINGS AND COUNTER
+-- =============================================
+ALTER TABLE public.articles
+  ADD COLUMN comments_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0;
+
+-- =============================================
+-- 2. COMMENTS TABLE
+-- =============================================
+CREATE TABLE public.article_comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  article_id UUID NOT NULL REFERENCES public.articles ON DELETE CASCADE,
+  parent_id UUID,
+  author_id UUID REFERENCES public.profiles ON DELETE SET NULL, -- null for guests
+  author_name TEXT NOT NULL,
+  author_email TEXT NOT NULL, -- never shown publicly
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'spam')),
+  spam_reasons TEXT[] NOT NULL DEFAULT '{}',
+  sender_hash TEXT NOT NULL, -- keyed hash of the IP, for rate limiting
+  user_agent TEXT,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  moderated_by UUID REFERENCES public.profiles ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (id, article_id),
+  -- A reply always belongs to the same article as its parent
+  FOREIGN KEY (parent_id, article_id) REFERENCES public.article_comments (id, article_id) ON DELETE CASCADE
+);
+
+-- Indexes
+CREATE INDEX idx_article_comments_article ON article_comments(article_id, status, created_at);
+CREATE INDEX idx_article_comments_status ON article_comments(status, created_at DESC);
+CREATE INDEX idx_article_comments_sender ON article_comments(sender_hash, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE article_comments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (submissions and public reads go through the service role)
+CREATE POLICY "Admin view comments"
+  ON article_comments FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Admin update comments"
+  ON article_comments FOR UPDATE
+  USING (is_admin());
+
+CREATE POLICY "Admin delete comments"
+  ON article_comments FOR DELETE
+  USING (is_admin());
+
+-- Trigger
+CREATE TRIGGER update_article_comments_updated_at
+  BEFORE UPDATE ON article_comments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 3. APPROVED COMMENT COUNT
+-- =============================================
+CREATE OR REPLACE FUNCTION public.sync_article_comment_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_article UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.article_id ELSE NEW.article_id END;
+BEGIN
+  UPDATE public.articles
+  SET comment_count = (
+    SELECT COUNT(*) FROM public.article_comments
+    WHERE article_id = target_article AND status = 'approved'
+  )
+  WHERE id = target_article;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_article_comment_count
+  AFTER INSERT OR DELETE OR UPDATE OF status ON article_comments
+  FOR EACH ROW EXECUTE FUNCTION sync_article_comment_count();
+
+-- =============================================
+-- 4. COUNTER-ONLY UPDATES
+-- =============================================
+-- comment_count bumps are not content edits: like views, they leave
+-- updated_at alone and do not create a revision.
+CREATE OR REPLACE FUNCTION public.update_article_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'views' - 'comment_count' - 'updated_at')
+    = (to_jsonb(OLD) - 'views' - 'comment_count' - 'updated_at')
+  THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.capture_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_row JSONB := to_jsonb(NEW);
+  restored_from_id UUID := NULLIF(current_setting('app.revision_restored_from', true), '')::UUID;
+BEGIN
+  IF current_setting('app.revision_skip', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND restored_from_id IS NULL
+    AND (new_row - 'views' - 'comment_count' - 'current_participants' - 'updated_at')
+      = (to_jsonb(OLD) - 'views' - 'comment_count' - 'current_participants' - 'updated_at')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.content_revisions (entity_type, entity_id, content, author_id, restored_from)
+  VALUES (
+    TG_ARGV[0],
+    new_row->>TG_ARGV[1],
+    new_row,
+    COALESCE(
+      NULLIF(current_setting('app.revision_author', true), '')::UUID,
+      auth.uid(),
+      (new_row->>'updated_by')::UUID
+    ),
+    restored_from_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
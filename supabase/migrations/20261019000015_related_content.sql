@@ -0,0 +1,85 @@
+-- =============================================
+-- RELATED CONTENT
+-- =============================================
+-- Ranks articles or events by how related they are to a source
+-- article or event. The score blends:
+--   shared tags     0.45  (share of the source's tags)
+--   text similarity 0.35  (source title and summary words against the
+--                          full-text vectors, relative to the best match)
+--   timeliness      0.20  (recent articles, soon-starting events)
+--   same category   +0.10 (same content type only)
+-- Every visible candidate gets a timeliness score, so when little
+-- overlaps the list falls back to recent content in the same category
+-- instead of coming back empty.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.related_content(
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_target_type TEXT,
+  p_limit INTEGER DEFAULT 3
+)
+RETURNS TABLE (id UUID, score REAL) AS $$
+  WITH source AS (
+    SELECT a.tags, a.category, a.title || ' ' || a.excerpt AS document
+    FROM public.articles a
+    WHERE p_source_type = 'article' AND a.id = p_source_id
+    UNION ALL
+    SELECT e.tags, e.category, e.title || ' ' || e.description
+    FROM public.events e
+    WHERE p_source_type = 'event' AND e.id = p_source_id
+  ),
+  q AS (
+    -- Any of the source's words (stopwords are dropped by the parser)
+    SELECT s.tags, s.category,
+      websearch_to_tsquery('indonesian', array_to_string(ARRAY(
+        SELECT w FROM regexp_split_to_table(s.document, '[^[:alnum:]]+') w WHERE length(w) >= 3
+      ), ' or ')) AS query
+    FROM source s
+  ),
+  candidates AS (
+    SELECT a.id, a.tags, a.category,
+      to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content) AS vec,
+      1.0 / (1 + EXTRACT(EPOCH FROM NOW() - a.published_at) / 86400 / 90) AS timeliness
+    FROM public.articles a
+    WHERE p_target_type = 'article'
+      AND a.status = 'published'
+      AND a.published_at <= NOW()
+    UNION ALL
+    SELECT e.id, e.tags, e.category,
+      to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content),
+      CASE
+        WHEN e.end_date >= NOW()
+          THEN 1.0 / (1 + GREATEST(EXTRACT(EPOCH FROM e.start_date - NOW()), 0) / 86400 / 30)
+        -- Past events only come up for other events, well behind upcoming ones
+        ELSE 0.3 / (1 + EXTRACT(EPOCH FROM NOW() - e.end_date) / 86400 / 90)
+      END
+    FROM public.events e
+    WHERE p_target_type = 'event'
+      AND (e.published_at IS NULL OR e.published_at <= NOW())
+      AND e.status <> 'cancelled'
+      AND (p_source_type = 'event' OR e.end_date >= NOW())
+  ),
+  scored AS (
+    SELECT c.id,
+      COALESCE(
+        cardinality(ARRAY(SELECT unnest(c.tags) INTERSECT SELECT unnest(q.tags)))::REAL
+          / NULLIF(cardinality(q.tags), 0),
+        0
+      ) AS tag_score,
+      ts_rank_cd(c.vec, q.query, 32) AS text_rank,
+      c.timeliness,
+      p_source_type = p_target_type AND c.category = q.category AS same_category
+    FROM candidates c
+    CROSS JOIN q
+    WHERE NOT (p_source_type = p_target_type AND c.id = p_source_id)
+  )
+  SELECT scored.id,
+    (0.45 * tag_score
+      + 0.35 * COALESCE(text_rank / NULLIF(MAX(text_rank) OVER (), 0), 0)
+      + 0.20 * timeliness
+      + CASE WHEN same_category THEN 0.10 ELSE 0 END)::REAL AS score
+  FROM scored
+  ORDER BY score DESC, scored.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
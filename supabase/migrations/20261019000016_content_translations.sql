@@ -0,0 +1,90 @@
+-- =============================================
+-- CONTENT TRANSLATIONS
+-- =============================================
+-- Articles and events keep their default-locale (Indonesian) text in
+-- the regular columns. Other locales go in `translations`, keyed by
+-- locale code:
+--   articles: {"en": {"title": "...", "excerpt": "...", "content": "..."}}
+--   events:   {"en": {"title": "...", "description": "...", "content": "..."}}
+-- Missing or blank fields fall back to the regular columns when read.
+-- =============================================
+
+-- =============================================
+-- 1. COLUMNS
+-- =============================================
+ALTER TABLE public.articles
+  ADD COLUMN translations JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(translations) = 'object');
+
+ALTER TABLE public.events
+  ADD COLUMN translations JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(translations) = 'object');
+
+-- =============================================
+-- 2. RESTORE FUNCTION
+-- =============================================
+-- Revisions already snapshot the whole row; restoring now writes the
+-- translations back along with the rest of the editable content.
+CREATE OR REPLACE FUNCTION public.restore_content_revision(
+  p_revision_id UUID,
+  p_actor_id UUID
+)
+RETURNS public.content_revisions AS $$
+DECLARE
+  source public.content_revisions;
+  restored public.content_revisions;
+BEGIN
+  SELECT * INTO source FROM public.content_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Picked up by capture_content_revision for this transaction only
+  PERFORM set_config('app.revision_author', p_actor_id::TEXT, true);
+  PERFORM set_config('app.revision_restored_from', p_revision_id::TEXT, true);
+
+  IF source.entity_type = 'article' THEN
+    UPDATE public.articles a
+    SET (title, slug, excerpt, content, category, cover_image, tags, featured, author, translations)
+      = (r.title, r.slug, r.excerpt, r.content, r.category, r.cover_image, r.tags, r.featured, r.author,
+         COALESCE(r.translations, '{}'::jsonb))
+    FROM jsonb_populate_record(NULL::public.articles, source.content) r
+    WHERE a.id = source.entity_id::UUID;
+
+  ELSIF source.entity_type = 'event' THEN
+    UPDATE public.events e
+    SET (title, slug, description, content, category, start_date, end_date, location, cover_image,
+         images, organizer, registration_url, registration_deadline, max_participants, tags, featured,
+         translations)
+      = (r.title, r.slug, r.description, r.content, r.category, r.start_date, r.end_date, r.location, r.cover_image,
+         r.images, r.organizer, r.registration_url, r.registration_deadline, r.max_participants, r.tags, r.featured,
+         COALESCE(r.translations, '{}'::jsonb))
+    FROM jsonb_populate_record(NULL::public.events, source.content) r
+    WHERE e.id = source.entity_id::UUID;
+
+  ELSE
+    UPDATE public.site_settings
+    SET content = source.content->'content', updated_by = p_actor_id
+    WHERE key = source.entity_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The content for this revision no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.revision_author', '', true);
+  PERFORM set_config('app.revision_restored_from', '', true);
+
+  SELECT * INTO restored
+  FROM public.content_revisions
+  WHERE restored_from = p_revision_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.restore_content_revision(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_content_revision(UUID, UUID) TO service_role;
@@ -0,0 +1,100 @@
+-- =============================================
+-- AUTHOR PROFILES
+-- =============================================
+-- Public /authors/[id] pages show a profile's name, avatar and bio
+-- with their published articles. Profiles themselves stay private
+-- (they hold email and role); the author_profiles view only exposes
+-- the public fields of profiles with at least one published article.
+-- articles.author is a denormalized copy of the author's public
+-- profile fields (never the email, since published articles are
+-- public) and is now kept in sync by triggers instead of by the
+-- admin form.
+-- =============================================
+
+-- =============================================
+-- 1. BIO
+-- =============================================
+ALTER TABLE public.profiles
+  ADD COLUMN bio TEXT CHECK (char_length(bio) <= 1000);
+
+-- =============================================
+-- 2. PUBLIC VIEW
+-- =============================================
+-- Runs with the owner's rights to read past the profiles RLS, so it
+-- must only ever select public columns
+CREATE OR REPLACE VIEW public.author_profiles AS
+SELECT
+  p.id,
+  p.full_name,
+  p.avatar_url,
+  p.bio,
+  p.updated_at
+FROM public.profiles p
+WHERE EXISTS (
+  SELECT 1 FROM public.articles a
+  WHERE a.author_id = p.id
+    AND a.status = 'published'
+    AND a.published_at <= NOW()
+);
+
+GRANT SELECT ON public.author_profiles TO anon, authenticated;
+
+-- =============================================
+-- 3. DENORMALIZED AUTHOR
+-- =============================================
+CREATE OR REPLACE FUNCTION public.author_snapshot(p_author_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'name', COALESCE(NULLIF(TRIM(p.full_name), ''), 'Anonim'),
+    'avatar_url', p.avatar_url
+  )
+  FROM public.profiles p
+  WHERE p.id = p_author_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whatever the client sends (or a restored revision holds), the
+-- author copy always follows the current profile of author_id
+CREATE OR REPLACE FUNCTION public.set_article_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.author = COALESCE(author_snapshot(NEW.author_id), NEW.author, '{}'::jsonb);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_article_author
+  BEFORE INSERT OR UPDATE OF author_id, author ON articles
+  FOR EACH ROW EXECUTE FUNCTION set_article_author();
+
+-- Profile edits are not content edits of the author's articles, so
+-- no revisions are captured for them
+CREATE OR REPLACE FUNCTION public.sync_profile_articles()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.revision_skip', 'on', true);
+  UPDATE public.articles SET author = author_snapshot(NEW.id)
+  WHERE author_id = NEW.id;
+  PERFORM set_config('app.revision_skip', '', true);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_profile_articles
+  AFTER UPDATE OF full_name, avatar_url ON profiles
+  FOR EACH ROW
+  WHEN (
+    OLD.full_name IS DISTINCT FROM NEW.full_name
+    OR OLD.avatar_url IS DISTINCT FROM NEW.avatar_url
+  )
+  EXECUTE FUNCTION sync_profile_articles();
+
+REVOKE ALL ON FUNCTION public.author_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- 4. BACKFILL
+-- =============================================
+SELECT set_config('app.revision_skip', 'on', true);
+UPDATE public.articles SET author = author
+WHERE author_id IS NOT NULL;
+SELECT set_config('app.revision_skip', '', true);
@@ -0,0 +1,89 @@
+-- =============================================
+-- MEMBER DIRECTORY PRIVACY
+-- =============================================
+-- The members table is no longer publicly readable: it holds NIM,
+-- email and phone for every member, active or not. The public
+-- /members page reads the member_directory view instead, which lists
+-- active members with whitelisted fields only. Email and phone, and
+-- social links, are included only for members who opted in.
+-- Admins keep full access through "Admin full access members".
+-- =============================================
+
+-- =============================================
+-- 1. OPT-IN FLAGS
+-- =============================================
+ALTER TABLE public.members
+  ADD COLUMN show_contact BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN show_social_media BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =============================================
+-- 2. TABLE ACCESS
+-- =============================================
+DROP POLICY "Public can view active members" ON members;
+
+-- =============================================
+-- 3. PUBLIC VIEW
+-- =============================================
+-- Runs with the owner's rights to read past the members RLS, so it
+-- must only ever select whitelisted columns
+CREATE OR REPLACE VIEW public.member_directory AS
+SELECT
+  m.id,
+  m.name,
+  m.photo,
+  m.batch,
+  m.division,
+  m.position,
+  m.joined_at,
+  m.bio,
+  m.interests,
+  m.achievements,
+  CASE WHEN m.show_contact THEN m.email END AS email,
+  CASE WHEN m.show_contact THEN m.phone END AS phone,
+  CASE WHEN m.show_social_media THEN m.social_media END AS social_media
+FROM public.members m
+WHERE m.status = 'active';
+
+GRANT SELECT ON public.member_directory TO anon, authenticated;
+
+-- =============================================
+-- 4. SEARCH
+-- =============================================
+-- Members were matched on name and NIM, which let anyone look up
+-- whose NIM is whose. Only the name is searchable now.
+DROP INDEX IF EXISTS idx_members_search;
+CREATE INDEX idx_members_name_search ON members USING GIN (to_tsvector('indonesian', name));
+
+CREATE OR REPLACE FUNCTION public.search_content_matches(p_query TEXT)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  document TEXT,
+  rank REAL,
+  sort_date TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('indonesian', p_query) AS query
+  )
+  SELECT 'article', a.id, a.excerpt || ' ' || a.content,
+    ts_rank_cd(to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content), q.query),
+    a.published_at
+  FROM public.articles a, q
+  WHERE a.status = 'published'
+    AND a.published_at <= NOW()
+    AND to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content) @@ q.query
+  UNION ALL
+  SELECT 'event', e.id, e.description || ' ' || e.content,
+    ts_rank_cd(to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content), q.query),
+    e.start_date
+  FROM public.events e, q
+  WHERE (e.published_at IS NULL OR e.published_at <= NOW())
+    AND to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content) @@ q.query
+  UNION ALL
+  SELECT 'member', m.id, NULL,
+    ts_rank_cd(to_tsvector('indonesian', m.name), q.query),
+    m.joined_at
+  FROM public.members m, q
+  WHERE m.status = 'active'
+    AND to_tsvector('indonesian', m.name) @@ q.query;
+$$ LANGUAGE sql STABLE;
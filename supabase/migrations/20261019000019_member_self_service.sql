@@ -0,0 +1,140 @@
+-- =============================================
+-- MEMBER SELF-SERVICE PORTAL
+-- =============================================
+-- Signed-in users claim their members row by confirming a link sent to
+-- members.email, which links the row to their profile. They can then
+-- edit the public-facing fields (photo, bio, interests, ...) directly
+-- from /portal, whatever their CMS role. Changes to name, NIM, batch,
+-- division, position or email are queued in member_change_requests:
+--   pending → approved (applied to members) | rejected
+-- Claims and portal edits go through /api/portal (service role).
+-- =============================================
+
+-- =============================================
+-- 1. ACCOUNT LINK
+-- =============================================
+ALTER TABLE public.members
+  ADD COLUMN profile_id UUID UNIQUE REFERENCES public.profiles ON DELETE SET NULL,
+  ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN claim_sent_at TIMESTAMP WITH TIME ZONE; -- throttles claim emails
+
+-- =============================================
+-- 2. CHANGE REQUESTS TABLE
+-- =============================================
+CREATE TABLE public.member_change_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  member_id UUID NOT NULL REFERENCES public.members ON DELETE CASCADE,
+  requested_by UUID REFERENCES public.profiles ON DELETE SET NULL,
+  changes JSONB NOT NULL, -- proposed values, keyed by members column
+  previous JSONB NOT NULL, -- values when the request was made
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_note TEXT,
+  reviewed_by UUID REFERENCES public.profiles ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes (a member has at most one open request; a new one replaces it)
+CREATE UNIQUE INDEX idx_member_change_requests_pending ON member_change_requests(member_id) WHERE status = 'pending';
+CREATE INDEX idx_member_change_requests_member ON member_change_requests(member_id, created_at DESC);
+CREATE INDEX idx_member_change_requests_status ON member_change_requests(status, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE member_change_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (writes go through the portal API and apply_member_change_request)
+CREATE POLICY "Admin view member change requests"
+  ON member_change_requests FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Requester view own member change requests"
+  ON member_change_requests FOR SELECT
+  USING (requested_by = auth.uid());
+
+-- Trigger
+CREATE TRIGGER update_member_change_requests_updated_at
+  BEFORE UPDATE ON member_change_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 3. REVIEW FUNCTION
+-- =============================================
+-- Approves (applying the proposed values) or rejects a pending request
+-- atomically. Only the reviewed columns can be written from a request,
+-- and only while they still hold the values the member saw (previous):
+-- if an admin edited them since, approval fails and the request has to
+-- be rejected or resubmitted. Authorization is checked by the calling
+-- API route.
+CREATE OR REPLACE FUNCTION public.apply_member_change_request(
+  p_request_id UUID,
+  p_reviewer_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.member_change_requests AS $$
+DECLARE
+  request public.member_change_requests;
+  current_values JSONB;
+BEGIN
+  SELECT * INTO request
+  FROM public.member_change_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Change request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending change requests can be reviewed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_action = 'approved' THEN
+    SELECT to_jsonb(m) INTO current_values
+    FROM public.members m
+    WHERE m.id = request.member_id
+    FOR UPDATE;
+
+    -- Empty strings and NULL are the same value to the portal
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_each_text(request.previous) AS prev(field, value)
+      WHERE NULLIF(current_values->>prev.field, '') IS DISTINCT FROM NULLIF(prev.value, '')
+    ) THEN
+      RAISE EXCEPTION 'The member record has changed since this request was made'
+        USING ERRCODE = '40001';
+    END IF;
+
+    UPDATE public.members SET
+      name = CASE WHEN request.changes ? 'name' THEN request.changes->>'name' ELSE name END,
+      nim = CASE WHEN request.changes ? 'nim' THEN request.changes->>'nim' ELSE nim END,
+      email = CASE WHEN request.changes ? 'email' THEN request.changes->>'email' ELSE email END,
+      batch = CASE WHEN request.changes ? 'batch' THEN request.changes->>'batch' ELSE batch END,
+      division = CASE WHEN request.changes ? 'division' THEN request.changes->>'division' ELSE division END,
+      position = CASE WHEN request.changes ? 'position' THEN request.changes->>'position' ELSE position END
+    WHERE id = request.member_id;
+
+  ELSIF p_action = 'rejected' THEN
+    IF COALESCE(TRIM(p_note), '') = '' THEN
+      RAISE EXCEPTION 'A note is required when rejecting a change request' USING ERRCODE = '22023';
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown review action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.member_change_requests SET
+    status = p_action,
+    review_note = NULLIF(TRIM(p_note), ''),
+    reviewed_by = p_reviewer_id,
+    reviewed_at = NOW()
+  WHERE id = p_request_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.apply_member_change_request(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_member_change_request(UUID, UUID, TEXT, TEXT) TO service_role;
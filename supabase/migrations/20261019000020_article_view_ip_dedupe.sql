@@ -0,0 +1,82 @@
+-- =============================================
+-- ARTICLE VIEW IP DEDUPE
+-- =============================================
+-- The visitor cookie alone is easy to shed (private windows, scripts
+-- that drop cookies), so a view is now counted only when neither the
+-- visitor cookie nor the sender's IP and user agent were counted for
+-- the article within the window. Both keys live in
+-- article_view_visitors as hashes: a SHA-256 of the cookie and a keyed
+-- hash of the IP and user agent (hashSender('article-view', ...)), so
+-- readers behind one NAT address are not merged; raw IPs are never
+-- stored.
+-- =============================================
+
+-- =============================================
+-- 1. FUNCTIONS
+-- =============================================
+DROP FUNCTION IF EXISTS public.record_article_view(UUID, TEXT, INTEGER);
+
+-- Record a view unless this visitor or IP and user agent was already
+-- counted within the window. p_ip_hash is NULL when the IP is unknown
+-- (cookie only).
+-- Returns true when the view was counted.
+CREATE OR REPLACE FUNCTION public.record_article_view(
+  p_article_id UUID,
+  p_visitor_hash TEXT,
+  p_ip_hash TEXT,
+  p_window_minutes INTEGER DEFAULT 30
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  counted BOOLEAN;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.articles
+    WHERE id = p_article_id AND status = 'published' AND published_at <= NOW()
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Each upsert only takes when its key is outside the window, and the
+  -- row lock it holds keeps concurrent requests from double counting
+  INSERT INTO public.article_view_visitors AS v (article_id, visitor_hash, last_viewed_at)
+  VALUES (p_article_id, p_visitor_hash, NOW())
+  ON CONFLICT (article_id, visitor_hash) DO UPDATE
+    SET last_viewed_at = NOW()
+    WHERE v.last_viewed_at < NOW() - make_interval(mins => p_window_minutes)
+  RETURNING true INTO counted;
+
+  IF counted IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_ip_hash IS NOT NULL THEN
+    counted := NULL;
+
+    INSERT INTO public.article_view_visitors AS v (article_id, visitor_hash, last_viewed_at)
+    VALUES (p_article_id, p_ip_hash, NOW())
+    ON CONFLICT (article_id, visitor_hash) DO UPDATE
+      SET last_viewed_at = NOW()
+      WHERE v.last_viewed_at < NOW() - make_interval(mins => p_window_minutes)
+    RETURNING true INTO counted;
+
+    IF counted IS NULL THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO public.article_views_daily (article_id, view_date, views)
+  VALUES (p_article_id, CURRENT_DATE, 1)
+  ON CONFLICT (article_id, view_date) DO UPDATE
+    SET views = article_views_daily.views + 1;
+
+  UPDATE public.articles
+  SET views = COALESCE(views, 0) + 1
+  WHERE id = p_article_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_article_view(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_article_view(UUID, TEXT, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,24 @@
+-- =============================================
+-- MOST READ ARTICLES
+-- =============================================
+-- Ranks visible articles by views counted in the last N days, summing
+-- article_views_daily in the database instead of shipping every daily
+-- row in the window to the client. Runs with the caller's rights, so
+-- the articles RLS policies decide what is visible.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.most_read_articles(
+  p_days INTEGER,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (id UUID, views BIGINT) AS $$
+  SELECT a.id, SUM(d.views)::BIGINT AS views
+  FROM public.article_views_daily d
+  JOIN public.articles a ON a.id = d.article_id
+  WHERE d.view_date >= CURRENT_DATE - p_days
+    AND a.status = 'published'
+    AND a.published_at <= NOW()
+  GROUP BY a.id
+  ORDER BY SUM(d.views) DESC, a.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,101 @@
+-- =============================================
+-- ARTICLE STATUS TRANSITIONS
+-- =============================================
+-- Non-admins could write 'pending' directly, skipping the 'submitted'
+-- entry in article_reviews. Outside apply_article_review they may now
+-- only move an article to 'draft'; apply_article_review marks its own
+-- updates with the transaction-local app.article_review flag so the
+-- status trigger lets them through.
+-- =============================================
+
+-- =============================================
+-- 1. STATUS ENFORCEMENT
+-- =============================================
+-- The service role (trusted server code) and admins are exempt.
+CREATE OR REPLACE FUNCTION public.enforce_article_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.article_review', true) = 'on'
+    OR auth.role() = 'service_role'
+    OR is_admin()
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Saving an article without changing its status (e.g. editing a
+  -- pending article) is not a transition
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'draft' THEN
+    RAISE EXCEPTION 'Article status % can only be set through the review workflow', NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 2. TRANSITION FUNCTION
+-- =============================================
+CREATE OR REPLACE FUNCTION public.apply_article_review(
+  p_article_id UUID,
+  p_reviewer_id UUID,
+  p_action TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.article_reviews AS $$
+DECLARE
+  current_status TEXT;
+  review public.article_reviews;
+BEGIN
+  SELECT status INTO current_status
+  FROM public.articles
+  WHERE id = p_article_id
+  FOR UPDATE;
+
+  IF current_status IS NULL THEN
+    RAISE EXCEPTION 'Article not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Picked up by enforce_article_status for this transaction only
+  PERFORM set_config('app.article_review', 'on', true);
+
+  IF p_action = 'submitted' THEN
+    IF current_status <> 'draft' THEN
+      RAISE EXCEPTION 'Only drafts can be submitted for review' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'pending' WHERE id = p_article_id;
+
+  ELSIF p_action = 'approved' THEN
+    IF current_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending articles can be approved' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles
+    SET status = 'published', published_at = GREATEST(published_at, NOW())
+    WHERE id = p_article_id;
+
+  ELSIF p_action = 'changes_requested' THEN
+    IF current_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending articles can be sent back' USING ERRCODE = '22023';
+    END IF;
+    IF COALESCE(TRIM(p_comment), '') = '' THEN
+      RAISE EXCEPTION 'Reviewer notes are required when requesting changes' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.articles SET status = 'draft' WHERE id = p_article_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown review action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.article_review', '', true);
+
+  INSERT INTO public.article_reviews (article_id, reviewer_id, action, comment)
+  VALUES (p_article_id, p_reviewer_id, p_action, NULLIF(TRIM(p_comment), ''))
+  RETURNING * INTO review;
+
+  RETURN review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
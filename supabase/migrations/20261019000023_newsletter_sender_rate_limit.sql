@@ -0,0 +1,21 @@
+-- =============================================
+-- NEWSLETTER SENDER RATE LIMIT
+-- =============================================
+-- Sign-ups were only throttled per address, so one sender could start
+-- subscriptions for any number of addresses and have a confirmation
+-- email sent to each. The sender's hashed IP
+-- (hashSender('newsletter', ip)) is now stored with every confirmation
+-- email, and /api/newsletter counts them per sender within a window.
+-- =============================================
+
+-- =============================================
+-- 1. COLUMNS
+-- =============================================
+-- NULL for rows whose last confirmation email predates this migration
+ALTER TABLE public.newsletter_subscribers ADD COLUMN sender_hash TEXT;
+
+-- =============================================
+-- 2. INDEXES
+-- =============================================
+CREATE INDEX idx_newsletter_subscribers_sender
+  ON newsletter_subscribers(sender_hash, confirmation_sent_at DESC);
@@ -0,0 +1,143 @@
+-- =============================================
+-- RELATED CONTENT PRE-FILTER
+-- =============================================
+-- related_content built a tsvector for every visible article or event
+-- on each call. Candidates are now limited to content that shares a
+-- tag or a word with the source (answered from the GIN indexes; the
+-- tsvector expressions match idx_articles_search and
+-- idx_events_search) plus a bounded set of the most timely content,
+-- which keeps the recency fallback when little overlaps. Scoring is
+-- unchanged.
+-- =============================================
+
+-- =============================================
+-- 1. TAG INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_articles_tags ON articles USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_events_tags ON events USING GIN (tags);
+
+-- =============================================
+-- 2. FUNCTIONS
+-- =============================================
+-- The fallback takes p_limit * 10 of the most timely items, enough
+-- for the timeliness and category scores to fill the list.
+CREATE OR REPLACE FUNCTION public.related_content(
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_target_type TEXT,
+  p_limit INTEGER DEFAULT 3
+)
+RETURNS TABLE (id UUID, score REAL) AS $$
+  WITH source AS (
+    SELECT a.tags, a.category, a.title || ' ' || a.excerpt AS document
+    FROM public.articles a
+    WHERE p_source_type = 'article' AND a.id = p_source_id
+    UNION ALL
+    SELECT e.tags, e.category, e.title || ' ' || e.description
+    FROM public.events e
+    WHERE p_source_type = 'event' AND e.id = p_source_id
+  ),
+  q AS (
+    -- Any of the source's words (stopwords are dropped by the parser)
+    SELECT s.tags, s.category,
+      websearch_to_tsquery('indonesian', array_to_string(ARRAY(
+        SELECT w FROM regexp_split_to_table(s.document, '[^[:alnum:]]+') w WHERE length(w) >= 3
+      ), ' or ')) AS query
+    FROM source s
+  ),
+  article_ids AS (
+    SELECT a.id
+    FROM public.articles a
+    CROSS JOIN q
+    WHERE p_target_type = 'article'
+      AND a.status = 'published'
+      AND a.published_at <= NOW()
+      AND (to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content) @@ q.query
+        OR a.tags && q.tags)
+    UNION
+    (
+      SELECT a.id
+      FROM public.articles a
+      WHERE p_target_type = 'article'
+        AND a.status = 'published'
+        AND a.published_at <= NOW()
+      ORDER BY a.published_at DESC
+      LIMIT p_limit * 10
+    )
+  ),
+  event_ids AS (
+    SELECT e.id
+    FROM public.events e
+    CROSS JOIN q
+    WHERE p_target_type = 'event'
+      AND (e.published_at IS NULL OR e.published_at <= NOW())
+      AND e.status <> 'cancelled'
+      AND (p_source_type = 'event' OR e.end_date >= NOW())
+      AND (to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content) @@ q.query
+        OR e.tags && q.tags)
+    UNION
+    (
+      SELECT e.id
+      FROM public.events e
+      WHERE p_target_type = 'event'
+        AND (e.published_at IS NULL OR e.published_at <= NOW())
+        AND e.status <> 'cancelled'
+        AND e.end_date >= NOW()
+      ORDER BY e.start_date
+      LIMIT p_limit * 10
+    )
+    UNION
+    (
+      -- Past events only come up for other events
+      SELECT e.id
+      FROM public.events e
+      WHERE p_target_type = 'event'
+        AND p_source_type = 'event'
+        AND (e.published_at IS NULL OR e.published_at <= NOW())
+        AND e.status <> 'cancelled'
+        AND e.end_date < NOW()
+      ORDER BY e.start_date DESC
+      LIMIT p_limit * 10
+    )
+  ),
+  candidates AS (
+    SELECT a.id, a.tags, a.category,
+      to_tsvector('indonesian', a.title || ' ' || a.excerpt || ' ' || a.content) AS vec,
+      1.0 / (1 + EXTRACT(EPOCH FROM NOW() - a.published_at) / 86400 / 90) AS timeliness
+    FROM public.articles a
+    JOIN article_ids ids ON ids.id = a.id
+    UNION ALL
+    SELECT e.id, e.tags, e.category,
+      to_tsvector('indonesian', e.title || ' ' || e.description || ' ' || e.content),
+      CASE
+        WHEN e.end_date >= NOW()
+          THEN 1.0 / (1 + GREATEST(EXTRACT(EPOCH FROM e.start_date - NOW()), 0) / 86400 / 30)
+        -- Past events rank well behind upcoming ones
+        ELSE 0.3 / (1 + EXTRACT(EPOCH FROM NOW() - e.end_date) / 86400 / 90)
+      END
+    FROM public.events e
+    JOIN event_ids ids ON ids.id = e.id
+  ),
+  scored AS (
+    SELECT c.id,
+      COALESCE(
+        cardinality(ARRAY(SELECT unnest(c.tags) INTERSECT SELECT unnest(q.tags)))::REAL
+          / NULLIF(cardinality(q.tags), 0),
+        0
+      ) AS tag_score,
+      ts_rank_cd(c.vec, q.query, 32) AS text_rank,
+      c.timeliness,
+      p_source_type = p_target_type AND c.category = q.category AS same_category
+    FROM candidates c
+    CROSS JOIN q
+    WHERE NOT (p_source_type = p_target_type AND c.id = p_source_id)
+  )
+  SELECT scored.id,
+    (0.45 * tag_score
+      + 0.35 * COALESCE(text_rank / NULLIF(MAX(text_rank) OVER (), 0), 0)
+      + 0.20 * timeliness
+      + CASE WHEN same_category THEN 0.10 ELSE 0 END)::REAL AS score
+  FROM scored
+  ORDER BY score DESC, scored.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
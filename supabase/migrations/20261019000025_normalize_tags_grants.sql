@@ -0,0 +1,23 @@
+-- =============================================
+-- NORMALIZE TAGS GRANTS
+-- =============================================
+-- normalize_tags is SECURITY DEFINER and registers new tags, but
+-- signed-in users could still call it directly and fill the registry
+-- with arbitrary tags. It is now only reachable through the tag
+-- trigger, which runs as its owner so article and event saves keep
+-- normalizing tags for every role.
+-- =============================================
+
+-- =============================================
+-- 1. FUNCTIONS
+-- =============================================
+CREATE OR REPLACE FUNCTION public.set_content_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tags = normalize_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.normalize_tags(TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.normalize_tags(TEXT[]) TO service_role;